@@ -0,0 +1,121 @@
+/**
+ * ✅ ENTELECHIA: ACT Cache Tests
+ *
+ * PROPERTIES TESTED:
+ * - Fingerprints are independent of object key order, sensitive to content
+ * - File fingerprints change when a file is edited or created
+ * - Module sources include the local modules a module imports, transitively
+ * - Cached entries round-trip Maps and are keyed by their inputs
+ * - A disabled cache never stores or returns entries
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { ActCache } from '../act-cache.js'
+import { hashPaths, hashValue, moduleSources } from '../fingerprint.js'
+
+describe('fingerprint', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'act-fingerprint-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should hash values independently of key order', () => {
+    expect(hashValue({ a: 1, b: [1, 2] })).toBe(hashValue({ b: [1, 2], a: 1 }))
+    expect(hashValue({ a: 1 })).not.toBe(hashValue({ a: 2 }))
+    expect(hashValue(new Map([['x', 1]]))).not.toBe(hashValue(new Map([['x', 2]])))
+  })
+
+  it('should tolerate cyclic values', () => {
+    const value: Record<string, unknown> = { name: 'cyclic' }
+    value.self = value
+
+    expect(() => hashValue(value)).not.toThrow()
+  })
+
+  it('should change when a file is edited or created', () => {
+    writeFileSync(join(dir, 'a.form.yaml'), 'form: a')
+    const initial = hashPaths([dir])
+
+    expect(hashPaths([dir])).toBe(initial)
+
+    writeFileSync(join(dir, 'a.form.yaml'), 'form: b')
+    const edited = hashPaths([dir])
+    expect(edited).not.toBe(initial)
+
+    writeFileSync(join(dir, 'b.form.yaml'), 'form: c')
+    expect(hashPaths([dir])).not.toBe(edited)
+  })
+
+  it('should list the local modules a module imports, transitively', () => {
+    mkdirSync(join(dir, 'actions'))
+    writeFileSync(join(dir, 'registry.ts'), "import { read } from './actions/index.js'\nimport { z } from 'zod'\nexport const ActionRegistry = { read }\n")
+    writeFileSync(join(dir, 'actions', 'index.ts'), "export { read } from './read.js'\n")
+    writeFileSync(join(dir, 'actions', 'read.ts'), "import { ActionRegistry } from '../registry.js'\nexport const read = 'read'\n")
+    writeFileSync(join(dir, 'unused.ts'), 'export const unused = 1\n')
+
+    expect(moduleSources(join(dir, 'registry.ts'))).toEqual([
+      join(dir, 'actions', 'index.ts'),
+      join(dir, 'actions', 'read.ts'),
+      join(dir, 'registry.ts'),
+    ])
+  })
+})
+
+describe('ActCache', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'act-cache-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should reuse entries across instances and round-trip Maps', () => {
+    const first = new ActCache({ dir, enabled: true })
+    const value = { descriptors: new Map([['Node.create', { fields: ['title'] }]]) }
+    first.set('phase-6', first.key(['inputs']), value)
+
+    const second = new ActCache({ dir, enabled: true })
+    const cached = second.get<typeof value>('phase-6', second.key(['inputs']))
+
+    expect(cached?.descriptors).toBeInstanceOf(Map)
+    expect(cached?.descriptors.get('Node.create')).toEqual({ fields: ['title'] })
+    expect(second.getStats()).toEqual({ hits: 1, misses: 0 })
+  })
+
+  it('should only compute on a miss', () => {
+    const cache = new ActCache({ dir, enabled: true })
+    let calls = 0
+    const compute = () => {
+      calls++
+      return 'export const schema = {}'
+    }
+
+    cache.memoize('codegen-schema', ['contract-a'], compute)
+    cache.memoize('codegen-schema', ['contract-a'], compute)
+    cache.memoize('codegen-schema', ['contract-b'], compute)
+
+    expect(calls).toBe(2)
+    expect(cache.getStats()).toEqual({ hits: 1, misses: 2 })
+  })
+
+  it('should never store entries when disabled', () => {
+    const cache = new ActCache({ dir, enabled: false })
+    let calls = 0
+
+    cache.memoize('codegen-schema', ['contract-a'], () => ++calls)
+    cache.memoize('codegen-schema', ['contract-a'], () => ++calls)
+
+    expect(calls).toBe(2)
+  })
+})
@@ -0,0 +1,173 @@
+/**
+ * ✅ ENTELECHIA: ACT Engine Cache
+ *
+ * Content-addressed on-disk cache for phase results and generated content.
+ *
+ * Entries live at `<cacheDir>/<namespace>/<key>.json`, where the key is a hash
+ * of everything the cached value was derived from (inputs, engine version).
+ * An entry is therefore never stale: changed inputs produce a different key.
+ *
+ * PRINCIPLE: The cache is an optimization only. A missing, corrupt or
+ * unwritable cache degrades to a full recompute, never to a failure.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { ACT_ENGINE_VERSION } from '../version.js'
+import { hashValue } from './fingerprint.js'
+
+export interface ActCacheOptions {
+  dir: string
+  enabled: boolean
+}
+
+export interface ActCacheStats {
+  hits: number
+  misses: number
+}
+
+const MAP_MARKER = '[Map]'
+const SET_MARKER = '[Set]'
+
+/**
+ * Serialize a cache entry (Map/Set aware)
+ */
+function serialize(value: unknown): string {
+  return JSON.stringify(value, (_key, current) => {
+    if (current instanceof Map) {
+      return { [MAP_MARKER]: Array.from(current.entries()) }
+    }
+    if (current instanceof Set) {
+      return { [SET_MARKER]: Array.from(current.values()) }
+    }
+    return current
+  })
+}
+
+/**
+ * Deserialize a cache entry (Map/Set aware)
+ */
+function deserialize<T>(content: string): T {
+  return JSON.parse(content, (_key, current) => {
+    if (current && typeof current === 'object' && !Array.isArray(current)) {
+      if (MAP_MARKER in current) {
+        return new Map(current[MAP_MARKER])
+      }
+      if (SET_MARKER in current) {
+        return new Set(current[SET_MARKER])
+      }
+    }
+    return current
+  })
+}
+
+/**
+ * ACT Engine cache
+ */
+export class ActCache {
+  private readonly dir: string
+  readonly enabled: boolean
+  private stats: ActCacheStats = { hits: 0, misses: 0 }
+
+  constructor(options: ActCacheOptions) {
+    this.dir = options.dir
+    this.enabled = options.enabled
+  }
+
+  /**
+   * Compute a cache key from the values an entry is derived from
+   */
+  key(parts: unknown): string {
+    return hashValue({ engine: ACT_ENGINE_VERSION, parts })
+  }
+
+  /**
+   * Read an entry
+   */
+  get<T>(namespace: string, key: string): T | undefined {
+    if (!this.enabled) {
+      return undefined
+    }
+
+    const path = this.entryPath(namespace, key)
+    try {
+      if (existsSync(path)) {
+        const value = deserialize<T>(readFileSync(path, 'utf-8'))
+        this.stats.hits++
+        return value
+      }
+    } catch {
+      // Corrupt entry: treat as a miss, it is overwritten below
+    }
+
+    this.stats.misses++
+    return undefined
+  }
+
+  /**
+   * Check whether an entry exists (not counted as a hit or miss)
+   */
+  has(namespace: string, key: string): boolean {
+    return this.enabled && existsSync(this.entryPath(namespace, key))
+  }
+
+  /**
+   * Write an entry
+   */
+  set(namespace: string, key: string, value: unknown): void {
+    if (!this.enabled) {
+      return
+    }
+
+    try {
+      const namespaceDir = join(this.dir, namespace)
+      if (!existsSync(namespaceDir)) {
+        mkdirSync(namespaceDir, { recursive: true })
+      }
+      writeFileSync(this.entryPath(namespace, key), serialize(value), 'utf-8')
+    } catch {
+      // Unwritable cache: next run recomputes
+    }
+  }
+
+  /**
+   * Return the cached value for `parts`, computing and storing it on a miss
+   */
+  memoize<T>(namespace: string, parts: unknown, compute: () => T): T {
+    const key = this.key(parts)
+    const cached = this.get<T>(namespace, key)
+    if (cached !== undefined) {
+      return cached
+    }
+
+    const value = compute()
+    this.set(namespace, key, value)
+    return value
+  }
+
+  /**
+   * Async variant of `memoize`
+   */
+  async memoizeAsync<T>(namespace: string, parts: unknown, compute: () => Promise<T>): Promise<T> {
+    const key = this.key(parts)
+    const cached = this.get<T>(namespace, key)
+    if (cached !== undefined) {
+      return cached
+    }
+
+    const value = await compute()
+    this.set(namespace, key, value)
+    return value
+  }
+
+  /**
+   * Get hit/miss counts for this run
+   */
+  getStats(): ActCacheStats {
+    return { ...this.stats }
+  }
+
+  private entryPath(namespace: string, key: string): string {
+    return join(this.dir, namespace, `${key}.json`)
+  }
+}
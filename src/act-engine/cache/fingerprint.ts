@@ -0,0 +1,176 @@
+/**
+ * ✅ ENTELECHIA: Input Fingerprinting
+ *
+ * Deterministic hashes of phase inputs (files, directories, in-memory values).
+ *
+ * PRINCIPLE: Same FORM → same fingerprint. Any change to FORM → new fingerprint.
+ */
+
+import ts from 'typescript'
+import { dirname, join, relative, resolve, sep } from 'path'
+import { hashContent } from '../writers/hashing.js'
+import { nodeFileSystem, type ActFileSystem } from '../fs/index.js'
+
+/**
+ * Directories never descended into when fingerprinting a directory
+ */
+const IGNORED_DIRECTORIES = new Set(['node_modules', 'dist', '.git', '.cache'])
+
+/**
+ * Extensions tried, in order, for relative imports (TypeScript sources first)
+ */
+const MODULE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.js', '.mjs', '.jsx']
+
+/**
+ * Serialize any value deterministically
+ *
+ * - Object keys are sorted
+ * - Maps and Sets keep insertion order (it is meaningful for descriptors)
+ * - Functions are serialized by source
+ * - Cycles are replaced with a marker
+ */
+export function stableStringify(value: unknown): string {
+  const seen = new WeakSet<object>()
+
+  const serialize = (current: unknown): unknown => {
+    if (current === null || current === undefined) {
+      return current
+    }
+    if (typeof current === 'function') {
+      return `[Function ${current.toString()}]`
+    }
+    if (typeof current === 'bigint') {
+      return `${current.toString()}n`
+    }
+    if (typeof current !== 'object') {
+      return current
+    }
+    if (current instanceof Date) {
+      return current.toISOString()
+    }
+    if (current instanceof RegExp) {
+      return current.toString()
+    }
+    if (seen.has(current)) {
+      return '[Circular]'
+    }
+    seen.add(current)
+
+    try {
+      if (current instanceof Map) {
+        return { '[Map]': Array.from(current.entries()).map(([k, v]) => [serialize(k), serialize(v)]) }
+      }
+      if (current instanceof Set) {
+        return { '[Set]': Array.from(current.values()).map(serialize) }
+      }
+      if (Array.isArray(current)) {
+        return current.map(serialize)
+      }
+
+      const record = current as Record<string, unknown>
+      const result: Record<string, unknown> = {}
+      for (const key of Object.keys(record).sort()) {
+        if (record[key] !== undefined) {
+          result[key] = serialize(record[key])
+        }
+      }
+
+      // Zod object shapes are lazy (`_def.shape` is a function) - include the resolved shape
+      if ('_def' in record && 'shape' in record && typeof record.shape === 'object') {
+        result['[shape]'] = serialize(record.shape)
+      }
+
+      return result
+    } finally {
+      seen.delete(current)
+    }
+  }
+
+  return JSON.stringify(serialize(value)) ?? 'undefined'
+}
+
+/**
+ * Hash any value deterministically
+ */
+export function hashValue(value: unknown): string {
+  return hashContent(stableStringify(value))
+}
+
+/**
+ * Hash files and directories (recursively)
+ *
+ * Missing paths hash as missing, so creating a file invalidates the fingerprint.
+ * With `root`, paths are hashed relative to it, so the hash is the same in
+ * every checkout of the workspace.
+ */
+export function hashPaths(paths: readonly string[], fs: ActFileSystem = nodeFileSystem, root?: string): string {
+  const entries: string[] = []
+  const name = (path: string): string => root ? relative(root, path).split(sep).join('/') : path
+
+  const visit = (path: string): void => {
+    if (!fs.exists(path)) {
+      entries.push(`${name(path)}:missing`)
+      return
+    }
+
+    if (fs.isDirectory(path)) {
+      const children = fs.readdir(path)
+      for (const child of children) {
+        if (IGNORED_DIRECTORIES.has(child)) continue
+        visit(join(path, child))
+      }
+      return
+    }
+
+    entries.push(`${name(path)}:${hashContent(fs.readFile(path))}`)
+  }
+
+  for (const path of [...paths].sort()) {
+    visit(path)
+  }
+
+  return hashContent(entries.join('\n'))
+}
+
+/**
+ * List a module and the local modules it imports, transitively (sorted)
+ *
+ * What loading the module (e.g. a dynamic `import()` by a phase) reads
+ * besides installed packages, so a phase importing it can declare them
+ * as sources.
+ */
+export function moduleSources(entry: string, fs: ActFileSystem = nodeFileSystem): string[] {
+  const modules = new Set<string>()
+
+  const resolveModule = (specifier: string, from: string): string | undefined => {
+    const base = resolve(dirname(from), specifier)
+    const stem = base.replace(/\.(m|c)?jsx?$/, '')
+    const candidates = [
+      base,
+      ...MODULE_EXTENSIONS.map(extension => `${stem}${extension}`),
+      ...MODULE_EXTENSIONS.map(extension => join(base, `index${extension}`)),
+    ]
+    return candidates.find(candidate => fs.exists(candidate) && !fs.isDirectory(candidate))
+  }
+
+  const visit = (file: string): void => {
+    if (modules.has(file)) {
+      return
+    }
+    modules.add(file)
+    if (!fs.exists(file) || fs.isDirectory(file)) {
+      return
+    }
+    for (const { fileName } of ts.preProcessFile(fs.readFile(file), true, true).importedFiles) {
+      if (fileName.startsWith('.') || fileName.startsWith('/')) {
+        const module = resolveModule(fileName, file)
+        if (module) {
+          visit(module)
+        }
+      }
+    }
+  }
+
+  visit(resolve(entry))
+  return Array.from(modules).sort()
+}
@@ -0,0 +1,8 @@
+/**
+ * ✅ ENTELECHIA: ACT Engine Cache
+ * 
+ * Main entry point for incremental recompute.
+ */
+
+export { ActCache, type ActCacheOptions, type ActCacheStats } from './act-cache.js'
+export { stableStringify, hashValue, hashPaths, moduleSources } from './fingerprint.js'
@@ -0,0 +1,108 @@
+/**
+ * ✅ ENTELECHIA: Watch Mode Tests
+ *
+ * PROPERTIES TESTED:
+ * - Contract sources are watched
+ * - Contract YAML changes reload the contracts and re-run every phase
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+vi.mock('../../manifests/index.js', () => ({
+  generateActManifest: async () => ({
+    contracts: [],
+    forms: [],
+    invariants: { registryPath: '', mappingPath: '', invariantCount: 0, categories: [] },
+    acl: { actionRegistryPath: '', roleCompilerPath: '', roles: [], actions: [], roleActionMappings: {} },
+    generatedAt: new Date(0),
+  }),
+}))
+
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import type { ActEngineConfig } from '../../pipeline/types.js'
+import { PhaseRegistry, definePhase } from '../../pipeline/registry.js'
+import { contractYamlSource, loadContracts } from '../../contracts/index.js'
+import { getWatchTargets, watchActPipeline } from '../watch.js'
+
+const contractYaml = (name: string) => [
+  `name: ${name}`,
+  `domain: ${name.toLowerCase()}`,
+  'version: 1.0.0',
+  'baseSchema:',
+  `  name: ${name}Schema`,
+  '  fields:',
+  '    - { name: id, type: uuid }',
+  '',
+].join('\n')
+
+describe('watch mode', () => {
+  let dir: string
+  let config: Partial<ActEngineConfig>
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'act-watch-'))
+    mkdirSync(join(dir, 'metadata'))
+    mkdirSync(join(dir, 'forms'))
+    config = { workspaceRoot: dir, metadataDir: join(dir, 'metadata'), yamlDir: join(dir, 'forms'), cache: false, plugins: [] }
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should watch the contract sources', () => {
+    const registry = new PhaseRegistry()
+    registry.register(definePhase({
+      phase: 1,
+      name: 'Forms',
+      sources: config => [config.yamlDir],
+      async run() {
+        return { result: { phase: 1, name: 'Forms', success: true, errors: [], warnings: [], duration: 0 } }
+      },
+    }))
+
+    const full = { ...config, contractSource: contractYamlSource('contracts') } as ActEngineConfig
+    expect(getWatchTargets(registry, full)).toEqual([join(dir, 'contracts'), join(dir, 'forms')])
+  })
+
+  it('should reload the contracts and re-run every phase when contract YAML changes', async () => {
+    writeFileSync(join(dir, 'metadata', 'node.contract.yaml'), contractYaml('Node'))
+    const runs: string[][] = []
+    const registry = new PhaseRegistry()
+    for (const [phase, sources] of [[1, [join(dir, 'forms')]], [2, []]] as const) {
+      registry.register(definePhase({
+        phase,
+        name: `Phase ${phase}`,
+        sources: () => [...sources],
+        async run({ contracts }) {
+          if (phase === 2) runs.push(contracts.map(c => c.name))
+          return { result: { phase, name: `Phase ${phase}`, success: true, errors: [], warnings: [], duration: 0 } }
+        },
+      }))
+    }
+
+    const { contracts } = await loadContracts(config as ActEngineConfig)
+    const controller = new AbortController()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    let started = false
+    const watching = watchActPipeline(contracts, config, {
+      registry,
+      debounceMs: 10,
+      signal: controller.signal,
+      onResult: () => { started = true },
+    })
+
+    // Watchers are set up right after the initial run is reported
+    await vi.waitFor(() => expect(started).toBe(true), { timeout: 5000 })
+    await new Promise(resolve => setTimeout(resolve, 20))
+    expect(runs).toEqual([['Node']])
+    writeFileSync(join(dir, 'metadata', 'workspace.contract.yaml'), contractYaml('Workspace'))
+    await vi.waitFor(() => expect(runs.at(-1)).toEqual(['Node', 'Workspace']), { timeout: 5000 })
+
+    controller.abort()
+    await expect(watching).resolves.toBe('stopped')
+  })
+})
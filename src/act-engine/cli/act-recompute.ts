@@ -6,59 +6,48 @@
  * Single entry point for all ACT transformations.
  * 
  * Usage:
- *   tsx src/act-engine/cli/act-recompute.ts [--check] [--dry-run]
+ *   tsx src/act-engine/cli/act-recompute.ts [--config <path>] [--check] [--dry-run] [--prune] [--max-concurrency <n>] [--no-cache] [--keep-going] [--watch]
+ *     [--format <sarif|junit|json> --output <path>]... [--plugin <module>]...
+ * 
+ * Without --config, the config is read from act.config.(ts|yaml) in the
+ * workspace root, if present. --prune deletes generated files no generator
+ * produces anymore (orphans).
  */
 
-import { runActPipeline, DEFAULT_ACT_CONFIG } from '../pipeline/index.js'
-import { join } from 'path'
-import { readFileSync, existsSync } from 'fs'
-import type { ContractDefinition } from '@entelechia/contracts/contracts/metadata/types'
-
-/**
- * Load contract metadata from backend
- * CLI entry point can import from backend dynamically
- */
-async function loadContractMetadata(workspaceRoot: string): Promise<ContractDefinition[]> {
-  // Try to import from backend metadata
-  // This is a CLI-only dependency - ACT-engine core doesn't depend on backend
-  const backendMetadataPath = join(workspaceRoot, 'entelechia-core', 'src', 'contracts', 'metadata', 'index.ts')
-  
-  if (!existsSync(backendMetadataPath)) {
-    throw new Error(`Backend metadata not found at ${backendMetadataPath}`)
-  }
-  
-  // Dynamic import from backend
-  const backendMetadata = await import(`file://${backendMetadataPath}`)
-  
-  return [
-    backendMetadata.NodeContractMetadata,
-    backendMetadata.LedgerEntryContractMetadata,
-    backendMetadata.WorkspaceContractMetadata,
-    backendMetadata.BackendLedgerContractMetadata,
-    backendMetadata.BackendLedgerStateContractMetadata,
-    backendMetadata.BackendAuthContractMetadata,
-    backendMetadata.BackendSystemContractMetadata,
-    backendMetadata.BackendHealthContractMetadata,
-    backendMetadata.BackendErrorsContractMetadata,
-    backendMetadata.BackendObservabilityContractMetadata,
-    backendMetadata.BackendChatContractMetadata,
-    backendMetadata.BackendDatabaseContractMetadata,
-    backendMetadata.BackendInternalContractMetadata,
-    backendMetadata.BackendMiscContractMetadata,
-    backendMetadata.DashboardContractMetadata,
-  ]
-}
+import { runActPipeline } from '../pipeline/index.js'
+import { defaultActConfig, findActConfigFile, loadActConfig } from '../config/index.js'
+import { DiagnosticError, formatDiagnostic } from '../diagnostics/index.js'
+import { loadContracts } from '../contracts/index.js'
+import { PipelineEventEmitter, createProgressRenderer } from '../events/index.js'
+import {
+  watchActPipeline,
+  superviseWatch,
+  WATCH_RESTART_EXIT_CODE,
+  WATCH_WORKER_ENV,
+} from './watch.js'
+import type { ActEngineConfig, PipelineResult } from '../pipeline/types.js'
+import { createDefaultPhaseRegistry } from '../pipeline/phases/index.js'
+import type { PhaseRegistry } from '../pipeline/registry.js'
+import { loadPlugins } from '../plugins/index.js'
+import {
+  listFormFiles,
+  loadReportRules,
+  toJUnitXml,
+  toJsonReport,
+  toSarifLog,
+} from '../reporters/index.js'
+import { formatUnifiedDiff } from '../writers/diff.js'
+import type { ArtifactChangeSummary } from '../writers/artifact-changes.js'
+import type { ArtifactDrift } from '../writers/drift.js'
+import { join, relative, resolve } from 'path'
+import { readFileSync, existsSync, writeFileSync } from 'fs'
 
 /**
- * Main execution
+ * Find the workspace root (where package.json with workspaces is)
+ * 
+ * The CLI can be run from the workspace root or the backend directory.
  */
-async function main() {
-  const args = process.argv.slice(2)
-  const checkMode = args.includes('--check')
-  const dryRun = args.includes('--dry-run')
-  
-  // Find workspace root (where package.json with workspaces is)
-  // CLI can be run from workspace root or backend directory
+function findWorkspaceRoot(): string {
   let workspaceRoot = process.cwd()
   let packageJsonPath = join(workspaceRoot, 'package.json')
   
@@ -139,6 +128,247 @@ async function main() {
     }
   }
   
+  return workspaceRoot
+}
+
+/**
+ * Print the artifact changes of a check or dry run (unified diffs, then a summary)
+ */
+function printChanges(changes: ArtifactChangeSummary, workspaceRoot: string): void {
+  for (const change of changes.changes) {
+    if (change.status !== 'added' && change.status !== 'modified') continue
+    const path = relative(workspaceRoot, change.path)
+    console.log(formatUnifiedDiff(change.diff || [], {
+      oldPath: change.status === 'added' ? '/dev/null' : `a/${path}`,
+      newPath: `b/${path}`,
+    }))
+    console.log('')
+  }
+
+  const orphans = changes.changes.filter(change => change.status === 'orphaned')
+  if (orphans.length > 0) {
+    console.log('Orphaned Artifacts (generated, but no generator produces them anymore):')
+    for (const orphan of orphans) {
+      console.log(`  - ${relative(workspaceRoot, orphan.path)}`)
+    }
+    console.log('')
+  }
+
+  const orphaned = changes.orphansChecked ? `, ${changes.orphaned} orphaned` : ' (orphans not checked: not every phase ran)'
+  console.log(`Changes: ${changes.added} added, ${changes.modified} modified, ${changes.unchanged} unchanged${orphaned}`)
+  console.log('')
+}
+
+/**
+ * Print the drift of a run (stale and hand-edited artifacts, then a summary)
+ */
+function printDrift(drift: ArtifactDrift[], workspaceRoot: string): void {
+  for (const status of ['stale', 'hand-edited'] as const) {
+    const artifacts = drift.filter(artifact => artifact.status === status)
+    if (artifacts.length === 0) continue
+    console.log(status === 'stale' ? 'Stale Artifacts (their FORM changed):' : 'Hand-Edited Artifacts (regenerating overwrites the edits):')
+    for (const artifact of artifacts) {
+      const sources = artifact.sources ? ` (${artifact.sources.join(', ')})` : ''
+      console.log(`  - ${relative(workspaceRoot, artifact.path)}${sources}`)
+    }
+    console.log('')
+  }
+
+  const count = (status: ArtifactDrift['status']) => drift.filter(artifact => artifact.status === status).length
+  console.log(`Drift: ${count('in-sync')} in sync, ${count('stale')} stale, ${count('hand-edited')} hand-edited, ${count('missing')} missing`)
+  console.log('')
+}
+
+/**
+ * Print pipeline results
+ * 
+ * Phase lines and diagnostics were already printed by the progress view.
+ */
+function printResult(result: PipelineResult, workspaceRoot: string): void {
+  console.log('')
+  console.log('='.repeat(80))
+  console.log('RESULTS')
+  console.log('='.repeat(80))
+  console.log(`Success: ${result.success ? '✅' : '❌'}`)
+  if (result.cancelled) {
+    console.log('Cancelled: ⛔ run aborted before every phase settled')
+  }
+  console.log(`Total Duration: ${result.totalDuration}ms`)
+  console.log(`Phases: ${result.phases.length}`)
+  const skipped = result.phases.filter(p => p.skipped).length
+  if (skipped > 0) {
+    console.log(`Skipped: ${skipped}`)
+  }
+  const timedOut = result.phases.filter(p => p.timedOut).length
+  if (timedOut > 0) {
+    console.log(`Timed out: ${timedOut}`)
+  }
+  console.log(`Errors: ${result.errors.length}`)
+  console.log(`Warnings: ${result.warnings.length}`)
+  if (result.cache) {
+    console.log(`Cache: ${result.cache.hits} hits, ${result.cache.misses} misses`)
+  }
+  if (result.commit) {
+    const backups = result.commit.backupDir ? ` (originals backed up to ${result.commit.backupDir})` : ''
+    console.log(`Committed: ${result.commit.files.length} artifact(s)${backups}`)
+  }
+  if (result.pruned && result.pruned.length > 0) {
+    console.log(`Pruned: ${result.pruned.length} orphaned artifact(s)`)
+  }
+  const orphaned = (result.orphans || []).filter(path => !result.pruned?.includes(path)).length
+  if (orphaned > 0 && !result.changes) {
+    console.log(`Orphaned: ${orphaned} artifact(s) no generator produces anymore (run with --prune to delete them)`)
+  }
+  console.log('')
+  
+  if (result.changes) {
+    printChanges(result.changes, workspaceRoot)
+  }
+  if (result.outputs?.drift) {
+    printDrift(result.outputs.drift, workspaceRoot)
+  }
+  
+  // Print artifacts
+  const allArtifacts = result.phases.flatMap(p => p.artifacts || [])
+  if (allArtifacts.length > 0) {
+    console.log('Generated Artifacts:')
+    for (const artifact of allArtifacts) {
+      console.log(`  - ${artifact}`)
+    }
+    console.log('')
+  }
+}
+
+/**
+ * Report formats written with `--output` (the console always gets text)
+ */
+const REPORT_FORMATS = ['text', 'sarif', 'junit', 'json'] as const
+
+type ReportFormat = (typeof REPORT_FORMATS)[number]
+
+interface ReportRequest {
+  format: Exclude<ReportFormat, 'text'>
+  outputPath: string // Absolute
+}
+
+/**
+ * Parse `--format <format> --output <path>` pairs (the n-th report format
+ * is written to the n-th output)
+ */
+function parseReportRequests(args: string[]): ReportRequest[] {
+  const formats: string[] = []
+  const outputs: string[] = []
+  args.forEach((arg, i) => {
+    if (arg === '--format') formats.push(args[i + 1])
+    if (arg === '--output') outputs.push(args[i + 1])
+  })
+
+  for (const format of formats) {
+    if (!REPORT_FORMATS.includes(format as ReportFormat)) {
+      throw new Error(`--format must be one of ${REPORT_FORMATS.join(', ')}`)
+    }
+  }
+  const reportFormats = formats.filter(format => format !== 'text') as ReportRequest['format'][]
+  if (outputs.some(output => !output) || reportFormats.length !== outputs.length) {
+    throw new Error('every --format other than text requires its own --output <path>')
+  }
+
+  // Resolved before changing to the workspace root
+  return reportFormats.map((format, i) => ({ format, outputPath: resolve(outputs[i]) }))
+}
+
+/**
+ * Write a machine-readable report of pipeline results
+ */
+function writeReport(
+  result: PipelineResult,
+  request: ReportRequest,
+  workspaceRoot: string,
+  registry: PhaseRegistry,
+  config: ActEngineConfig
+): void {
+  let content: string
+  switch (request.format) {
+    case 'sarif':
+      content = JSON.stringify(toSarifLog(result, { workspaceRoot, rules: loadReportRules(config) }), null, 2) + '\n'
+      break
+    case 'junit':
+      content = toJUnitXml(result, { workspaceRoot, formFiles: listFormFiles(registry, config) })
+      break
+    case 'json':
+      content = JSON.stringify(toJsonReport(result, { workspaceRoot }), null, 2) + '\n'
+      break
+  }
+  writeFileSync(request.outputPath, content, 'utf-8')
+  console.log(`📝 Wrote ${request.format} report to ${request.outputPath}`)
+}
+
+/**
+ * Main execution
+ */
+async function main() {
+  const args = process.argv.slice(2)
+  const checkMode = args.includes('--check')
+  const dryRun = args.includes('--dry-run')
+  const prune = args.includes('--prune')
+  const cache = !args.includes('--no-cache')
+  const watchMode = args.includes('--watch')
+  const keepGoing = args.includes('--keep-going')
+  // Relative plugin paths are resolved before changing to the workspace root
+  const plugins = args
+    .flatMap((arg, i) => arg === '--plugin' && args[i + 1] ? [args[i + 1]] : [])
+    .map(plugin => plugin.startsWith('.') ? resolve(plugin) : plugin)
+  const maxConcurrencyIndex = args.indexOf('--max-concurrency')
+  const maxConcurrency = maxConcurrencyIndex >= 0 ? Number(args[maxConcurrencyIndex + 1]) : undefined
+  const configIndex = args.indexOf('--config')
+  // Resolved before changing to the workspace root
+  const configPath = configIndex >= 0 && args[configIndex + 1] ? resolve(args[configIndex + 1]) : undefined
+  
+  let reports: ReportRequest[]
+  try {
+    reports = parseReportRequests(args)
+  } catch (error: any) {
+    console.error(`❌ Error: ${error.message}`)
+    process.exit(1)
+  }
+  
+  if (configIndex >= 0 && !configPath) {
+    console.error('❌ Error: --config requires a path')
+    process.exit(1)
+  }
+  
+  if (maxConcurrency !== undefined && (!Number.isInteger(maxConcurrency) || maxConcurrency < 1)) {
+    console.error('❌ Error: --max-concurrency must be a positive integer')
+    process.exit(1)
+  }
+  
+  // Watch mode runs in a worker process that is restarted when modules change
+  if (watchMode && !process.env[WATCH_WORKER_ENV]) {
+    process.exit(await superviseWatch())
+  }
+  
+  // Load the project config (act.config.(ts|yaml)), or use the default layout
+  let projectConfig: ActEngineConfig
+  let configSource = configPath
+  try {
+    if (configSource) {
+      projectConfig = await loadActConfig(configSource)
+    } else {
+      const workspaceRoot = findWorkspaceRoot()
+      configSource = findActConfigFile(workspaceRoot)
+      projectConfig = configSource ? await loadActConfig(configSource) : defaultActConfig(workspaceRoot)
+    }
+  } catch (error: any) {
+    console.error(`❌ Error: Invalid ACT config: ${error.message}`)
+    if (error instanceof DiagnosticError) {
+      for (const diagnostic of error.diagnostics) {
+        console.error(`   ${formatDiagnostic(diagnostic)}`)
+      }
+    }
+    process.exit(1)
+  }
+  const workspaceRoot = projectConfig.workspaceRoot
+  
   // Change to workspace root for consistent path resolution
   process.chdir(workspaceRoot)
   
@@ -146,68 +376,78 @@ async function main() {
   console.log('✅ ENTELECHIA: ACT Engine')
   console.log('='.repeat(80))
   console.log(`Workspace Root: ${workspaceRoot}`)
+  console.log(`Config: ${configSource || 'default workspace layout'}`)
   console.log('')
   
   if (checkMode) {
     console.log('🔍 CHECK MODE: Validating without writing')
   }
   if (dryRun) {
-    console.log('🔍 DRY RUN MODE: Showing what would be generated')
+    console.log('🔍 DRY RUN MODE: Showing what would change (unified diffs)')
   }
   console.log('')
   
   // Load contract metadata from backend
+  // Load contracts from the configured source (default: discovered in the metadata directory)
   console.log('📦 Loading contract metadata...')
-  const allMetadata = await loadContractMetadata(workspaceRoot)
+  const { contracts: allMetadata, diagnostics: contractDiagnostics } = await loadContracts(projectConfig)
+  for (const diagnostic of contractDiagnostics) {
+    const icon = diagnostic.severity === 'error' ? '❌' : '⚠️ '
+    console.log(`  ${icon} ${formatDiagnostic(diagnostic)}`)
+  }
+  if (contractDiagnostics.some(d => d.severity === 'error')) {
+    console.error('❌ Error: Cannot load contract metadata')
+    process.exit(1)
+  }
   console.log(`✅ Loaded ${allMetadata.length} contract metadata definitions`)
   console.log('')
   
-  const result = await runActPipeline(allMetadata, {
-    ...DEFAULT_ACT_CONFIG,
+  const config: ActEngineConfig = {
+    ...projectConfig,
     checkMode,
     dryRun,
-  })
+    prune,
+    maxConcurrency: maxConcurrency ?? projectConfig.maxConcurrency,
+    cache: cache && projectConfig.cache !== false,
+    keepGoing: keepGoing || projectConfig.keepGoing,
+    plugins: [...projectConfig.plugins || [], ...plugins],
+  }
   
-  // Print results
-  console.log('')
-  console.log('='.repeat(80))
-  console.log('RESULTS')
-  console.log('='.repeat(80))
-  console.log(`Success: ${result.success ? '✅' : '❌'}`)
-  console.log(`Total Duration: ${result.totalDuration}ms`)
-  console.log(`Phases: ${result.phases.length}`)
-  console.log(`Errors: ${result.errors.length}`)
-  console.log(`Warnings: ${result.warnings.length}`)
-  console.log('')
+  // Plugin phases are part of reports (the pipeline reports plugin errors itself)
+  let registry = createDefaultPhaseRegistry()
+  try {
+    registry = (await loadPlugins(config)).extendRegistry(registry)
+  } catch {
+    // Reported by the pipeline
+  }
   
-  // Print phase results
-  for (const phase of result.phases) {
-    const status = phase.success ? '✅' : '❌'
-    console.log(`${status} Phase ${phase.phase}: ${phase.name} (${phase.duration}ms)`)
-    if (phase.errors.length > 0) {
-      for (const error of phase.errors) {
-        console.log(`  ❌ ${error}`)
-      }
-    }
-    if (phase.warnings.length > 0) {
-      for (const warning of phase.warnings) {
-        console.log(`  ⚠️  ${warning}`)
-      }
+  const report = (result: PipelineResult) => {
+    printResult(result, workspaceRoot)
+    for (const request of reports) {
+      writeReport(result, request, workspaceRoot, registry, config)
     }
   }
-  console.log('')
   
-  // Print artifacts
-  const allArtifacts = result.phases.flatMap(p => p.artifacts || [])
-  if (allArtifacts.length > 0) {
-    console.log('Generated Artifacts:')
-    for (const artifact of allArtifacts) {
-      console.log(`  - ${artifact}`)
-    }
-    console.log('')
+  // Live progress is rendered from the pipeline's event stream
+  const events = new PipelineEventEmitter()
+  events.on(createProgressRenderer({ live: process.stdout.isTTY }))
+  
+  if (watchMode) {
+    const exit = await watchActPipeline(allMetadata, config, { registry, onResult: report, events })
+    process.exit(exit === 'restart' ? WATCH_RESTART_EXIT_CODE : 0)
   }
   
+  // Ctrl+C cancels the run (a second Ctrl+C exits immediately)
+  const controller = new AbortController()
+  process.once('SIGINT', () => controller.abort())
+  
+  const result = await runActPipeline(allMetadata, config, registry, { events, signal: controller.signal })
+  report(result)
+  
   // Exit with error code if failed
+  if (result.cancelled) {
+    process.exit(130)
+  }
   if (!result.success) {
     process.exit(1)
   }
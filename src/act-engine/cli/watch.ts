@@ -0,0 +1,403 @@
+/**
+ * ✅ ENTELECHIA: ACT Engine Watch Mode
+ *
+ * Re-runs only the phases affected by a FORM change and prints a compact
+ * diff of the artifacts they regenerated. A change arriving while a re-run
+ * is in flight cancels that run; its files are re-run with the new change.
+ *
+ * YAML is re-read on every run, so YAML changes are handled in-process.
+ * Contract YAML changes reload the contracts and re-run every phase.
+ * TypeScript modules (contract metadata, ACL/intent registries) are cached by
+ * the module loader, so changing one restarts the watch worker instead.
+ */
+
+import { watch, existsSync, readFileSync, statSync, type FSWatcher } from 'fs'
+import { basename, dirname, join, relative, sep } from 'path'
+import { spawn } from 'child_process'
+import type { ContractDefinition } from '@entelechia/contracts/contracts/metadata/types'
+import type { ActEngineConfig, PipelineResult } from '../pipeline/types.js'
+import { runActPipeline, DEFAULT_ACT_CONFIG } from '../pipeline/index.js'
+import { PhaseRegistry } from '../pipeline/registry.js'
+import { createDefaultPhaseRegistry } from '../pipeline/phases/index.js'
+import { loadPlugins } from '../plugins/index.js'
+import { loadContracts, metadataDirectorySource } from '../contracts/index.js'
+import { formatDiagnostic } from '../diagnostics/index.js'
+import type { PipelineEventEmitter } from '../events/index.js'
+import { diffLines, diffStats, type DiffLine } from '../writers/diff.js'
+import { isGenerationTimestampLine } from '../writers/banners.js'
+
+/**
+ * Exit code a watch worker uses to ask the supervisor for a restart
+ */
+export const WATCH_RESTART_EXIT_CODE = 75
+
+/**
+ * Environment variable marking a process as the watch worker
+ */
+export const WATCH_WORKER_ENV = 'ACT_WATCH_WORKER'
+
+export interface WatchOptions {
+  registry?: PhaseRegistry
+  debounceMs?: number
+  onResult?: (result: PipelineResult) => void // Report for the initial full run
+  events?: PipelineEventEmitter // Lifecycle events of every run (phase progress is reported there)
+  signal?: AbortSignal // Stops watching, like SIGINT
+}
+
+export type WatchExit = 'stopped' | 'restart'
+
+const MAX_DIFF_LINES_PER_ARTIFACT = 6
+
+/**
+ * Check whether `path` is `source` or inside it
+ */
+function isWithin(path: string, source: string): boolean {
+  return path === source || path.startsWith(source + sep)
+}
+
+/**
+ * YAML is FORM data, re-read by every phase run
+ */
+function isYaml(path: string): boolean {
+  return /\.ya?ml$/.test(path)
+}
+
+/**
+ * Modules are cached by the loader and need a fresh process
+ */
+function isModule(path: string): boolean {
+  return /\.(ts|tsx|js|mjs|cjs|json)$/.test(path)
+}
+
+/**
+ * Get the files and directories contracts are read from
+ */
+function getContractSources(config: ActEngineConfig): string[] {
+  const source = config.contractSource ?? metadataDirectorySource()
+  return source.sources?.(config) ?? [config.metadataDir]
+}
+
+/**
+ * Get the paths to watch: every phase source plus the contract sources
+ *
+ * Paths nested in another watched directory are dropped.
+ */
+export function getWatchTargets(registry: PhaseRegistry, config: ActEngineConfig): string[] {
+  const paths = new Set<string>(getContractSources(config))
+  for (const definition of registry.getAll()) {
+    for (const source of definition.sources?.(config) || []) {
+      paths.add(source)
+    }
+  }
+
+  const sorted = Array.from(paths).sort()
+  return sorted.filter(path => !sorted.some(other => other !== path && isWithin(path, other)))
+}
+
+/**
+ * Get the phases to re-run for a set of changed files
+ *
+ * Phases reading a changed file, plus everything downstream of them.
+ */
+export function getAffectedPhases(
+  registry: PhaseRegistry,
+  config: ActEngineConfig,
+  changedPaths: readonly string[]
+): number[] {
+  const direct = registry.getAll()
+    .filter(definition => {
+      const sources = definition.sources?.(config) || []
+      return changedPaths.some(path => sources.some(source => isWithin(path, source)))
+    })
+    .map(definition => definition.phase)
+
+  return direct.length > 0 ? registry.getDependents(direct) : []
+}
+
+/**
+ * Watch a file or directory
+ */
+function watchPath(path: string, onChange: (path: string) => void): FSWatcher | undefined {
+  if (!existsSync(path)) {
+    return undefined
+  }
+
+  if (statSync(path).isDirectory()) {
+    return watch(path, { recursive: true }, (_event, filename) => {
+      if (filename) {
+        onChange(join(path, filename.toString()))
+      }
+    })
+  }
+
+  // Watch the parent: editors often replace files instead of writing in place
+  const name = basename(path)
+  return watch(dirname(path), (_event, filename) => {
+    if (filename?.toString() === name) {
+      onChange(path)
+    }
+  })
+}
+
+/**
+ * Read the current content of artifacts reported by a run
+ */
+function readArtifacts(result: PipelineResult, phases?: readonly number[]): Map<string, string> {
+  const contents = new Map<string, string>()
+  for (const phase of result.phases) {
+    if (phases && !phases.includes(phase.phase)) continue
+    for (const artifact of phase.artifacts || []) {
+      try {
+        contents.set(artifact, readFileSync(artifact, 'utf-8'))
+      } catch {
+        // Removed since it was written
+      }
+    }
+  }
+  return contents
+}
+
+/**
+ * Format a compact diff of one artifact
+ */
+function formatArtifactDiff(path: string, diff: readonly DiffLine[]): string[] {
+  const { added, removed } = diffStats(diff)
+  const changes = diff.filter(line => line.type !== 'equal')
+  const lines = [`  ~ ${path} (+${added} -${removed})`]
+
+  for (const change of changes.slice(0, MAX_DIFF_LINES_PER_ARTIFACT)) {
+    const marker = change.type === 'add' ? '+' : '-'
+    const line = change.type === 'add' ? change.newLine : change.oldLine
+    lines.push(`      ${marker} ${String(line).padStart(4)} │ ${change.line}`)
+  }
+  if (changes.length > MAX_DIFF_LINES_PER_ARTIFACT) {
+    lines.push(`      … ${changes.length - MAX_DIFF_LINES_PER_ARTIFACT} more changed lines`)
+  }
+
+  return lines
+}
+
+/**
+ * Print the artifacts regenerated by a partial re-run
+ */
+function reportRerun(
+  result: PipelineResult,
+  before: Map<string, string>,
+  after: Map<string, string>,
+  workspaceRoot: string
+): void {
+  const lines: string[] = []
+  let unchanged = 0
+  for (const [path, content] of after) {
+    const display = relative(workspaceRoot, path)
+    const previous = before.get(path)
+    if (previous === undefined) {
+      lines.push(`  + ${display} (new, ${content.split('\n').length} lines)`)
+      continue
+    }
+
+    const diff = diffLines(previous, content, { ignore: isGenerationTimestampLine })
+    if (diff.some(line => line.type !== 'equal')) {
+      lines.push(...formatArtifactDiff(display, diff))
+    } else {
+      unchanged++
+    }
+  }
+
+  console.log('')
+  if (lines.length > 0) {
+    console.log('Regenerated artifacts:')
+    for (const line of lines) {
+      console.log(line)
+    }
+  }
+  if (unchanged > 0) {
+    console.log(`  = ${unchanged} artifact(s) rewritten without content changes`)
+  }
+  if (lines.length === 0 && unchanged === 0) {
+    console.log('No artifacts regenerated')
+  }
+  console.log(`${result.success ? '✅' : '❌'} Done in ${result.totalDuration}ms`)
+  console.log('')
+}
+
+/**
+ * Reload the contracts after a contract YAML change
+ *
+ * @returns The reloaded contracts, or undefined when they have errors
+ */
+async function reloadContracts(config: ActEngineConfig): Promise<ContractDefinition[] | undefined> {
+  const { contracts, diagnostics } = await loadContracts(config)
+  for (const diagnostic of diagnostics) {
+    const icon = diagnostic.severity === 'error' ? '❌' : '⚠️ '
+    console.log(`  ${icon} ${formatDiagnostic(diagnostic)}`)
+  }
+  if (diagnostics.some(d => d.severity === 'error')) {
+    console.error('❌ Contracts not reloaded: keeping the previous contracts')
+    return undefined
+  }
+  return contracts
+}
+
+/**
+ * Watch FORM sources and re-run affected phases on change
+ *
+ * Resolves with 'restart' when a module changed (the caller should exit with
+ * WATCH_RESTART_EXIT_CODE), or 'stopped' on SIGINT or when `options.signal` aborts.
+ */
+export async function watchActPipeline(
+  initialContracts: ContractDefinition[],
+  config: Partial<ActEngineConfig> = {},
+  options: WatchOptions = {}
+): Promise<WatchExit> {
+  let contracts = initialContracts
+  const fullConfig: ActEngineConfig = { ...DEFAULT_ACT_CONFIG, ...config }
+  // Plugin phases are watched like built-in phases
+  const plugins = await loadPlugins(fullConfig)
+  const registry = plugins.extendRegistry(options.registry || createDefaultPhaseRegistry())
+  const debounceMs = options.debounceMs ?? 150
+
+  let previous = await runActPipeline(contracts, fullConfig, registry, { events: options.events })
+  options.onResult?.(previous)
+  let snapshot = readArtifacts(previous)
+
+  const targets = getWatchTargets(registry, fullConfig)
+  const contractSources = getContractSources(fullConfig)
+  const changed = new Set<string>()
+  const watchers: FSWatcher[] = []
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let running: AbortController | undefined // In-flight re-run
+  let stopped = false
+
+  return new Promise<WatchExit>(resolve => {
+    const stop = (exit: WatchExit) => {
+      stopped = true
+      if (timer) clearTimeout(timer)
+      running?.abort()
+      for (const watcher of watchers) {
+        watcher.close()
+      }
+      process.off('SIGINT', onInterrupt)
+      options.signal?.removeEventListener('abort', onInterrupt)
+      resolve(exit)
+    }
+    const onInterrupt = () => stop('stopped')
+
+    const flush = async () => {
+      if (running) return
+      const paths = Array.from(changed).sort()
+      changed.clear()
+
+      const modules = paths.filter(isModule)
+      if (modules.length > 0) {
+        console.log(`🔁 Module changed (${modules.map(p => relative(fullConfig.workspaceRoot, p)).join(', ')}) - restarting`)
+        stop('restart')
+        return
+      }
+
+      const yamlPaths = paths.filter(isYaml)
+      const contractPaths = yamlPaths.filter(path => contractSources.some(source => isWithin(path, source)))
+      const affected = getAffectedPhases(registry, fullConfig, yamlPaths)
+      if (affected.length === 0 && contractPaths.length === 0) return
+
+      const controller = new AbortController()
+      running = controller
+      try {
+        console.log(`🔄 Changed: ${yamlPaths.map(p => relative(fullConfig.workspaceRoot, p)).join(', ')}`)
+        // Every phase reads the contracts: a reload re-runs all of them
+        const reloaded = contractPaths.length > 0 ? await reloadContracts(fullConfig) : undefined
+        const phases = reloaded ? undefined : affected
+        if (phases?.length === 0) return
+
+        console.log(`   Re-running phases: ${phases ? phases.join(', ') : `all (${reloaded!.length} contracts reloaded)`}`)
+        const result = await runActPipeline(reloaded ?? contracts, fullConfig, registry, {
+          phases,
+          previous,
+          events: options.events,
+          signal: controller.signal,
+        })
+        if (result.cancelled) {
+          // Stale: re-run its files together with the change that superseded it
+          if (!stopped) {
+            console.log('⛔ Re-run cancelled by a newer change')
+            for (const path of yamlPaths) {
+              changed.add(path)
+            }
+          }
+          return
+        }
+        const regenerated = readArtifacts(result, phases)
+        reportRerun(result, snapshot, regenerated, fullConfig.workspaceRoot)
+
+        contracts = reloaded ?? contracts
+        previous = result
+        snapshot = new Map([...snapshot, ...regenerated])
+      } catch (error: any) {
+        console.error(`❌ Re-run failed: ${error.message}`)
+      } finally {
+        running = undefined
+        if (changed.size > 0) {
+          schedule()
+        }
+      }
+    }
+
+    const schedule = () => {
+      if (stopped) return
+      if (timer) clearTimeout(timer)
+      timer = setTimeout(flush, debounceMs)
+    }
+
+    for (const target of targets) {
+      const watcher = watchPath(target, path => {
+        changed.add(path)
+        if (isYaml(path) || isModule(path)) {
+          running?.abort()
+        }
+        schedule()
+      })
+      if (watcher) {
+        watchers.push(watcher)
+      } else {
+        console.log(`⚠️  Not watching missing path: ${relative(fullConfig.workspaceRoot, target)}`)
+      }
+    }
+
+    process.on('SIGINT', onInterrupt)
+    options.signal?.addEventListener('abort', onInterrupt)
+    if (options.signal?.aborted) {
+      stop('stopped')
+      return
+    }
+    console.log(`👀 Watching ${watchers.length} path(s) for FORM changes (Ctrl+C to stop)`)
+  })
+}
+
+/**
+ * Run the CLI as a watch worker, restarting it whenever it asks to
+ *
+ * Resolves with the exit code of the last worker.
+ */
+export async function superviseWatch(): Promise<number> {
+  // Ctrl+C reaches the worker too; wait for it to exit
+  const ignoreInterrupt = () => {}
+  process.on('SIGINT', ignoreInterrupt)
+
+  try {
+    while (true) {
+      const code = await new Promise<number>(resolve => {
+        const worker = spawn(process.execPath, [...process.execArgv, ...process.argv.slice(1)], {
+          stdio: 'inherit',
+          env: { ...process.env, [WATCH_WORKER_ENV]: '1' },
+        })
+        worker.on('exit', (exitCode, signal) => resolve(exitCode ?? (signal === 'SIGINT' ? 130 : 1)))
+      })
+
+      if (code !== WATCH_RESTART_EXIT_CODE) {
+        return code
+      }
+    }
+  } finally {
+    process.off('SIGINT', ignoreInterrupt)
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * ✅ ENTELECHIA: ACT Config Tests
+ *
+ * PROPERTIES TESTED:
+ * - Omitted roots default to the Entelechia workspace layout
+ * - Config file paths resolve from the config file's directory
+ * - Unknown keys and invalid values are reported at their location
+ * - act.config.ts takes precedence over act.config.yaml
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { DiagnosticCodes, DiagnosticError } from '../../diagnostics/index.js'
+import { defaultActConfig, findActConfigFile, loadActConfig } from '../index.js'
+
+describe('defaultActConfig', () => {
+  it('should declare the Entelechia workspace layout', () => {
+    const config = defaultActConfig('/workspace')
+
+    expect(config.workspaceRoot).toBe('/workspace')
+    expect(config.yamlDir).toBe('/workspace/entelechia-ui/forms')
+    expect(config.navigationDir).toBe('/workspace/entelechia-ui/navigation')
+    expect(config.intentGraphDir).toBe('/workspace/entelechia-form/intent-graph')
+    expect(config.actionRegistryPath).toBe('/workspace/entelechia-core/src/acl/action-registry.ts')
+    expect(config.navigationOutputDir).toBe('/workspace/entelechia-ui/src/generated/navigation')
+    expect(config.cacheDir).toBe('/workspace/node_modules/.cache/act-engine')
+    expect(config.maxConcurrency).toBe(4)
+  })
+})
+
+describe('loadActConfig', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'act-config-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should resolve paths from the config file directory', async () => {
+    const configPath = join(dir, 'act.config.yaml')
+    writeFileSync(configPath, [
+      'workspaceRoot: ..',
+      'inputs:',
+      '  forms: ui/forms',
+      '  actionRegistry: /backend/acl.ts',
+      'outputs:',
+      '  navigation: ui/generated/nav',
+      'options:',
+      '  keepGoing: true',
+      'plugins:',
+      '  - ./plugins/flags.ts',
+      '  - act-plugin-flags',
+      '',
+    ].join('\n'))
+
+    const config = await loadActConfig(configPath)
+
+    expect(config.workspaceRoot).toBe(join(dir, '..'))
+    expect(config.yamlDir).toBe(join(dir, 'ui/forms'))
+    expect(config.actionRegistryPath).toBe('/backend/acl.ts')
+    expect(config.navigationOutputDir).toBe(join(dir, 'ui/generated/nav'))
+    expect(config.dashboardsDir).toBe(join(dir, 'entelechia-ui/dashboards'))
+    expect(config.keepGoing).toBe(true)
+    expect(config.plugins).toEqual([join(dir, 'plugins/flags.ts'), 'act-plugin-flags'])
+  })
+
+  it('should locate invalid keys and values', async () => {
+    const configPath = join(dir, 'act.config.yaml')
+    writeFileSync(configPath, [
+      'inputs:',
+      '  form: ui/forms',
+      'options:',
+      '  maxConcurrency: 0',
+      '',
+    ].join('\n'))
+
+    const error = await loadActConfig(configPath).catch(e => e)
+
+    expect(error).toBeInstanceOf(DiagnosticError)
+    const diagnostics = (error as DiagnosticError).diagnostics
+    expect(diagnostics.map(d => d.code)).toEqual([DiagnosticCodes.SchemaViolation, DiagnosticCodes.SchemaViolation])
+    expect(diagnostics.map(d => d.range?.start.line)).toEqual([1, 4])
+    expect(diagnostics.every(d => d.file === configPath)).toBe(true)
+  })
+
+  it('should prefer act.config.ts over act.config.yaml', () => {
+    expect(findActConfigFile(dir)).toBeUndefined()
+
+    writeFileSync(join(dir, 'act.config.yaml'), 'inputs: {}\n')
+    expect(findActConfigFile(dir)).toBe(join(dir, 'act.config.yaml'))
+
+    writeFileSync(join(dir, 'act.config.ts'), 'export default {}\n')
+    expect(findActConfigFile(dir)).toBe(join(dir, 'act.config.ts'))
+  })
+})
@@ -0,0 +1,17 @@
+/**
+ * ✅ ENTELECHIA: ACT Config
+ * 
+ * Main entry point for the project config file (`act.config.(ts|yaml)`).
+ */
+
+export {
+  ActConfigFileSchema,
+  ActConfigInputsSchema,
+  ActConfigOutputsSchema,
+  ActConfigOptionsSchema,
+  ActConfigContractsSchema,
+  type ActConfigFile,
+  type ActConfigFileInput,
+} from './schema.js'
+export { resolveActConfig, defaultActConfig } from './resolve.js'
+export { ACT_CONFIG_FILE_NAMES, defineActConfig, findActConfigFile, loadActConfig } from './loader.js'
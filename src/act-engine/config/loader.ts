@@ -0,0 +1,73 @@
+/**
+ * ✅ ENTELECHIA: ACT Config Loader
+ *
+ * Finds and loads `act.config.ts` or `act.config.yaml`.
+ */
+
+import { existsSync } from 'fs'
+import { dirname, join, resolve } from 'path'
+import { pathToFileURL } from 'url'
+import { DiagnosticCodes, DiagnosticError, type Diagnostic } from '../diagnostics/index.js'
+import { formatYamlPath, loadYamlFile } from '../../yaml/index.js'
+import type { ActEngineConfig } from '../pipeline/types.js'
+import { resolveActConfig } from './resolve.js'
+import { ActConfigFileSchema, type ActConfigFileInput } from './schema.js'
+
+/**
+ * Config file names, in lookup order
+ */
+export const ACT_CONFIG_FILE_NAMES = ['act.config.ts', 'act.config.yaml', 'act.config.yml'] as const
+
+/**
+ * Define a config in `act.config.ts` (checked against the schema's input type)
+ */
+export function defineActConfig(config: ActConfigFileInput): ActConfigFileInput {
+  return config
+}
+
+/**
+ * Find the config file in a directory
+ */
+export function findActConfigFile(dir: string): string | undefined {
+  return ACT_CONFIG_FILE_NAMES.map(name => join(dir, name)).find(path => existsSync(path))
+}
+
+/**
+ * Load a config file and resolve its paths from the file's directory
+ *
+ * @throws DiagnosticError if the config does not match the schema
+ * @throws Error if the config file cannot be read or imported
+ */
+export async function loadActConfig(configPath: string): Promise<ActEngineConfig> {
+  const path = resolve(configPath)
+  if (!existsSync(path)) {
+    throw new Error(`Config file not found: ${path}`)
+  }
+
+  if (/\.ya?ml$/.test(path)) {
+    return resolveActConfig(loadYamlFile(path, ActConfigFileSchema), dirname(path))
+  }
+
+  let module: any
+  try {
+    module = await import(pathToFileURL(path).href)
+  } catch (error: any) {
+    throw new Error(`Cannot load config "${path}": ${error.message}`)
+  }
+
+  if (module.default === undefined) {
+    throw new Error(`Config "${path}" must export the config as its default export`)
+  }
+
+  const result = ActConfigFileSchema.safeParse(module.default)
+  if (!result.success) {
+    throw new DiagnosticError(result.error.issues.map((issue): Diagnostic => ({
+      code: DiagnosticCodes.SchemaViolation,
+      severity: 'error',
+      message: issue.path.length > 0 ? `${formatYamlPath(issue.path)}: ${issue.message}` : issue.message,
+      file: path,
+      path: [...issue.path],
+    })))
+  }
+  return resolveActConfig(result.data, dirname(path))
+}
@@ -0,0 +1,111 @@
+/**
+ * ✅ ENTELECHIA: ACT Config Resolution
+ *
+ * Resolves a validated config file to an engine config with absolute paths.
+ */
+
+import { isAbsolute, resolve } from 'path'
+import { contractYamlSource, jsonBundleSource, type ContractSource } from '../contracts/index.js'
+import type { ActEngineConfig } from '../pipeline/types.js'
+import { ActConfigFileSchema, type ActConfigFile } from './schema.js'
+
+/**
+ * Resolve the configured contract source
+ */
+function resolveContractSource(
+  contracts: ActConfigFile['contracts'],
+  at: (path: string) => string
+): ContractSource | undefined {
+  if (contracts && 'bundle' in contracts) {
+    return jsonBundleSource(at(contracts.bundle))
+  }
+  if (contracts && 'yaml' in contracts) {
+    return contractYamlSource(at(contracts.yaml))
+  }
+  return contracts
+}
+
+/**
+ * Resolve a validated config file
+ *
+ * @param file Validated config file
+ * @param configDir Directory relative paths resolve from
+ */
+export function resolveActConfig(file: ActConfigFile, configDir: string): ActEngineConfig {
+  const at = (path: string) => resolve(configDir, path)
+  const { inputs, outputs, options } = file
+
+  return {
+    // Workspace root
+    workspaceRoot: at(file.workspaceRoot),
+
+    // Input paths
+    metadataDir: at(inputs.metadata),
+    contractSource: resolveContractSource(file.contracts, at),
+    yamlDir: at(inputs.forms),
+    invariantEnginePath: at(inputs.invariantEngine),
+    navigationDir: at(inputs.navigation),
+    dashboardsDir: at(inputs.dashboards),
+    invariantsDir: at(inputs.invariants),
+    intentGraphDir: at(inputs.intentGraph),
+    commandsDir: at(inputs.commands),
+    instrumentationDir: at(inputs.instrumentation),
+    architectureDir: at(inputs.architecture),
+    purityGuardsDir: at(inputs.purityGuards),
+    surfacesDir: at(inputs.surfaces),
+    metadataValidatorPath: at(inputs.metadataValidator),
+    actionRegistryPath: at(inputs.actionRegistry),
+    roleCompilerPath: at(inputs.roleCompiler),
+    intentRegistryPath: at(inputs.intentRegistry),
+    uiRoot: at(inputs.uiRoot),
+    uiSourceDir: at(inputs.uiSource),
+    backendSourceDir: at(inputs.backendSource),
+
+    // Output paths
+    sharedContractsDir: at(outputs.sharedContracts),
+    migrationsDir: at(outputs.migrations),
+    servicesDir: at(outputs.services),
+    routesDir: at(outputs.routes),
+    testsDir: at(outputs.tests),
+    formsOutputDir: at(outputs.forms),
+    invariantMappingOutputDir: at(outputs.invariantMapping),
+    navigationOutputDir: at(outputs.navigation),
+    dashboardsOutputDir: at(outputs.dashboards),
+    invariantsOutputDir: at(outputs.invariants),
+    commandsOutputDir: at(outputs.commands),
+    instrumentationOutputDir: at(outputs.instrumentation),
+    intentGraphOutputDir: at(outputs.intentGraph),
+    purityGuardsOutputDir: at(outputs.purityGuards),
+
+    // Options
+    checkMode: false,
+    dryRun: false,
+    validateCode: options.validateCode,
+    backupExisting: options.backupExisting,
+    transactional: options.transactional,
+    backupDir: at(file.backupDir),
+    backupRetention: options.backupRetention,
+    lockfile: at(file.lockfile),
+
+    // Phase control
+    skipPhases: [],
+    maxConcurrency: options.maxConcurrency,
+    keepGoing: options.keepGoing,
+    phaseTimeout: options.phaseTimeout,
+    phaseTimeouts: options.phaseTimeouts,
+
+    // Incremental recompute
+    cache: options.cache,
+    cacheDir: at(file.cacheDir),
+
+    // Plugins
+    plugins: file.plugins.map(plugin => plugin.startsWith('.') || isAbsolute(plugin) ? at(plugin) : plugin),
+  }
+}
+
+/**
+ * Engine config for the default workspace layout rooted at `workspaceRoot`
+ */
+export function defaultActConfig(workspaceRoot: string): ActEngineConfig {
+  return resolveActConfig(ActConfigFileSchema.parse({}), workspaceRoot)
+}
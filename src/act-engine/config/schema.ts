@@ -0,0 +1,123 @@
+/**
+ * ✅ ENTELECHIA: ACT Config Schema
+ *
+ * Zod schema for `act.config.(ts|yaml)`.
+ *
+ * PRINCIPLE: The workspace layout is declared once, here. Phases resolve
+ * every input and output root through the resolved config.
+ *
+ * Paths are relative to the directory of the config file (or absolute).
+ * Omitted roots default to the Entelechia workspace layout.
+ */
+
+import { z } from 'zod'
+import type { ContractSource } from '../contracts/index.js'
+
+/**
+ * Path relative to the config file (or absolute)
+ */
+function path(defaultPath: string) {
+  return z.string().min(1, 'Path must not be empty').default(defaultPath)
+}
+
+/**
+ * Input roots (FORM sources and the backend/UI modules phases read)
+ */
+export const ActConfigInputsSchema = z.object({
+  // FORM sources
+  forms: path('entelechia-ui/forms'),
+  navigation: path('entelechia-ui/navigation'),
+  dashboards: path('entelechia-ui/dashboards'),
+  invariants: path('entelechia-ui/invariants'),
+  intentGraph: path('entelechia-form/intent-graph'),
+  commands: path('entelechia-ui/commands'),
+  instrumentation: path('entelechia-ui/forms'), // Contains telemetry/, devtools/ and ux/
+  architecture: path('entelechia-form/architecture'),
+  purityGuards: path('entelechia-form/purity-guards'),
+  surfaces: path('entelechia-ui/surfaces'),
+
+  // Backend and UI modules
+  metadata: path('entelechia-core/src/contracts/metadata'),
+  metadataValidator: path('entelechia-core/src/contracts/metadata/metadata-validator.ts'),
+  actionRegistry: path('entelechia-core/src/acl/action-registry.ts'),
+  roleCompiler: path('entelechia-core/src/acl/role-compiler.ts'),
+  intentRegistry: path('entelechia-ui/src/intent/intent-registry.ts'),
+  invariantEngine: path('packages/invariant-engine'),
+
+  // Source trees scanned by guards
+  uiRoot: path('entelechia-ui'), // UI package (typechecked by Phase 9)
+  uiSource: path('entelechia-ui/src'),
+  backendSource: path('entelechia-core/src'),
+}).strict()
+
+/**
+ * Output roots (where generated artifacts are written)
+ */
+export const ActConfigOutputsSchema = z.object({
+  sharedContracts: path('entelechia-shared/src/contracts'),
+  migrations: path('entelechia-core/supabase/migrations'),
+  services: path('entelechia-core/src/services'),
+  routes: path('entelechia-core/src/routes'),
+  tests: path('entelechia-core/src/__tests__'),
+  forms: path('entelechia-ui/src/generated/forms'),
+  invariantMapping: path('entelechia-ui/src/generated/invariants'),
+  navigation: path('entelechia-ui/src/generated/navigation'),
+  dashboards: path('entelechia-ui/src/generated/dashboards'),
+  invariants: path('entelechia-ui/src/generated/invariants'),
+  commands: path('entelechia-ui/src/generated/commands'),
+  instrumentation: path('entelechia-ui/src/generated/instrumentation'),
+  intentGraph: path('entelechia-ui/src/generated/intent-graph'),
+  purityGuards: path('entelechia-ui/src/generated/purity-guards'),
+}).strict()
+
+/**
+ * Engine options that belong to the project rather than to a single run
+ */
+export const ActConfigOptionsSchema = z.object({
+  validateCode: z.boolean().default(true), // Parse and typecheck generated TypeScript in-process
+  backupExisting: z.boolean().default(true),
+  backupRetention: z.number().int().min(1).default(10), // Runs whose backups are kept under backupDir
+  transactional: z.boolean().default(true), // Stage artifacts and commit them only if the run succeeds
+  maxConcurrency: z.number().int().min(1).default(4),
+  keepGoing: z.boolean().default(false),
+  cache: z.boolean().default(true),
+  phaseTimeout: z.number().int().positive().optional(), // Default budget of every phase (ms)
+  phaseTimeouts: z.record(
+    z.string().regex(/^\d+(\.\d+)?$/, 'Expected a phase number'),
+    z.number().int().positive()
+  ).default({}), // Budgets of single phases (ms), keyed by phase number
+}).strict()
+
+/**
+ * Where contracts come from (default: discovered in `inputs.metadata`)
+ *
+ * - `{ bundle }`: JSON contract bundle (no backend TS is imported)
+ * - `{ yaml }`: directory of `*.contract.yaml` files (no backend TS is imported)
+ * - a `ContractSource` (act.config.ts only)
+ */
+export const ActConfigContractsSchema = z.union([
+  z.object({ bundle: z.string().min(1, 'Path must not be empty') }).strict(),
+  z.object({ yaml: z.string().min(1, 'Path must not be empty') }).strict(),
+  z.custom<ContractSource>(
+    value => typeof value === 'object' && value !== null && typeof (value as ContractSource).load === 'function',
+    'Expected { bundle: <path> }, { yaml: <dir> } or a contract source'
+  ),
+])
+
+/**
+ * `act.config.(ts|yaml)` schema
+ */
+export const ActConfigFileSchema = z.object({
+  workspaceRoot: path('.'),
+  inputs: ActConfigInputsSchema.default({}),
+  outputs: ActConfigOutputsSchema.default({}),
+  options: ActConfigOptionsSchema.default({}),
+  contracts: ActConfigContractsSchema.optional(),
+  cacheDir: path('node_modules/.cache/act-engine'),
+  backupDir: path('.act/backups'), // Originals of overwritten and pruned artifacts, one directory per run
+  lockfile: path('act.lock.json'), // Provenance of the artifacts of the last run (commit it)
+  plugins: z.array(z.string().min(1)).default([]), // Plugin modules (relative paths resolve from the config file)
+}).strict()
+
+export type ActConfigFile = z.infer<typeof ActConfigFileSchema>
+export type ActConfigFileInput = z.input<typeof ActConfigFileSchema>
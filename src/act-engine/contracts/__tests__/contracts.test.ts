@@ -0,0 +1,151 @@
+/**
+ * ✅ ENTELECHIA: Contract Source Tests
+ *
+ * PROPERTIES TESTED:
+ * - Every export structurally matching ContractDefinition is discovered (re-exports once)
+ * - Contracts not exported from the metadata index are reported as unreferenced
+ * - Duplicate names and domains are errors located at the later definition
+ * - JSON bundles load without importing modules and report invalid entries
+ * - Contract YAML loads to ContractDefinition; schema violations are located
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { DiagnosticCodes } from '../../diagnostics/index.js'
+import type { ActEngineConfig } from '../../pipeline/types.js'
+import { contractYamlSource, jsonBundleSource, loadContracts } from '../index.js'
+
+function contract(name: string, domain: string) {
+  return { name, domain, version: '1.0.0', baseSchema: { name: `${name}Schema`, fields: [] }, endpoints: [], transformations: [] }
+}
+
+function contractModule(exports: Record<string, ReturnType<typeof contract>>): string {
+  return Object.entries(exports)
+    .map(([exportName, value]) => `export const ${exportName} = ${JSON.stringify(value)}\n`)
+    .join('')
+}
+
+describe('loadContracts', () => {
+  let dir: string
+  let config: ActEngineConfig
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'act-contracts-'))
+    config = { workspaceRoot: dir, metadataDir: dir } as ActEngineConfig
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should discover every exported contract in the metadata directory', async () => {
+    writeFileSync(join(dir, 'node.contract.metadata.mjs'), contractModule({ NodeContractMetadata: contract('Node', 'node') }))
+    writeFileSync(join(dir, 'chat.contract.metadata.mjs'), [
+      contractModule({ BackendChatContractMetadata: contract('BackendChat', 'chat') }),
+      'export const CHAT_LIMIT = 10\n',
+    ].join(''))
+    writeFileSync(join(dir, 'draft.contract.metadata.mjs'), contractModule({ DraftContractMetadata: contract('Draft', 'draft') }))
+    writeFileSync(join(dir, 'index.mjs'), [
+      "export { NodeContractMetadata } from './node.contract.metadata.mjs'\n",
+      "export { BackendChatContractMetadata } from './chat.contract.metadata.mjs'\n",
+    ].join(''))
+
+    const { contracts, diagnostics } = await loadContracts(config)
+
+    expect(contracts.map(c => c.name)).toEqual(['BackendChat', 'Draft', 'Node'])
+    expect(diagnostics).toHaveLength(1)
+    expect(diagnostics[0]).toMatchObject({
+      code: DiagnosticCodes.ContractUnreferenced,
+      severity: 'warning',
+      file: join(dir, 'draft.contract.metadata.mjs'),
+    })
+  })
+
+  it('should report duplicate contract names and domains', async () => {
+    writeFileSync(join(dir, 'a.mjs'), contractModule({ NodeContractMetadata: contract('Node', 'node') }))
+    writeFileSync(join(dir, 'b.mjs'), contractModule({ NodeV2ContractMetadata: contract('Node', 'node-v2') }))
+    writeFileSync(join(dir, 'c.mjs'), contractModule({ TreeContractMetadata: contract('Tree', 'node') }))
+
+    const { contracts, diagnostics } = await loadContracts(config)
+
+    expect(contracts.map(c => c.name)).toEqual(['Node'])
+    expect(diagnostics.map(d => [d.code, d.file])).toEqual([
+      [DiagnosticCodes.ContractDuplicate, join(dir, 'b.mjs')],
+      [DiagnosticCodes.ContractDuplicate, join(dir, 'c.mjs')],
+    ])
+    expect(diagnostics[0].related).toEqual([{ file: join(dir, 'a.mjs'), message: 'First declared here' }])
+  })
+
+  it('should load contracts from a JSON bundle', async () => {
+    writeFileSync(join(dir, 'contracts.json'), JSON.stringify({
+      contracts: [contract('Workspace', 'workspace'), { name: 'Broken' }],
+    }))
+
+    const { contracts, diagnostics } = await loadContracts({ ...config, contractSource: jsonBundleSource('contracts.json') })
+
+    expect(contracts.map(c => c.name)).toEqual(['Workspace'])
+    expect(diagnostics).toHaveLength(1)
+    expect(diagnostics[0]).toMatchObject({ code: DiagnosticCodes.ContractSourceInvalid, severity: 'error' })
+    expect(diagnostics[0].message).toContain('contracts[1]')
+  })
+
+  it('should load *.contract.yaml files alongside metadata modules', async () => {
+    writeFileSync(join(dir, 'index.mjs'), contractModule({ NodeContractMetadata: contract('Node', 'node') }))
+    writeFileSync(join(dir, 'workspace.contract.yaml'), [
+      'name: Workspace',
+      'domain: workspace',
+      'version: 1.0.0',
+      'baseSchema:',
+      '  name: WorkspaceSchema',
+      '  fields:',
+      '    - { name: id, type: uuid }',
+      '    - { name: title, type: string, constraints: [{ type: min, value: 1 }] }',
+      'formSchemas:',
+      '  - { id: create, defaultSections: [[title]] }',
+      '',
+    ].join('\n'))
+
+    const { contracts, diagnostics } = await loadContracts(config)
+
+    expect(diagnostics).toEqual([])
+    expect(contracts.map(c => c.name)).toEqual(['Node', 'Workspace'])
+    expect(contracts[1]).toMatchObject({
+      baseSchema: { fields: [{ name: 'id', type: 'uuid' }, { name: 'title', constraints: [{ type: 'min', value: 1 }] }] },
+      endpoints: [],
+      transformations: [],
+      responseSchemas: [],
+      invariants: [],
+      projectionCapabilities: {},
+    })
+  })
+
+  it('should report contract YAML schema violations at their location', async () => {
+    writeFileSync(join(dir, 'broken.contract.yaml'), [
+      'name: Broken',
+      'domain: broken',
+      'version: 1.0.0',
+      'baseSchema:',
+      '  name: BrokenSchema',
+      '  fields:',
+      '    - { name: id, type: uuid }',
+      'dbMapping:',
+      '  table: broken',
+      '  columns: [{ name: id, type: uuid }]',
+      '  foreignKeys:',
+      '    - { column: owner_id, references: { table: users, column: id } }',
+      '',
+    ].join('\n'))
+
+    const { contracts, diagnostics } = await loadContracts({ ...config, contractSource: contractYamlSource(dir) })
+
+    expect(contracts).toEqual([])
+    expect(diagnostics[0]).toMatchObject({
+      code: DiagnosticCodes.SchemaViolation,
+      file: join(dir, 'broken.contract.yaml'),
+      range: { start: { line: 12 } },
+    })
+    expect(diagnostics[0].message).toContain('Unknown column "owner_id"')
+  })
+})
@@ -0,0 +1,26 @@
+/**
+ * ✅ ENTELECHIA: Contract Shape
+ *
+ * Structural check for contract metadata found in modules or bundles.
+ */
+
+import type { ContractDefinition } from '@entelechia/contracts/contracts/metadata/types'
+
+/**
+ * Check whether a value structurally matches `ContractDefinition`
+ *
+ * Checks the members every generator relies on: `name`, `domain`,
+ * `baseSchema.fields`, `endpoints` and `transformations`.
+ */
+export function isContractDefinition(value: unknown): value is ContractDefinition {
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+  const candidate = value as Record<string, any>
+  return typeof candidate.name === 'string' && candidate.name.length > 0
+    && typeof candidate.domain === 'string' && candidate.domain.length > 0
+    && typeof candidate.baseSchema === 'object' && candidate.baseSchema !== null
+    && Array.isArray(candidate.baseSchema.fields)
+    && Array.isArray(candidate.endpoints)
+    && Array.isArray(candidate.transformations)
+}
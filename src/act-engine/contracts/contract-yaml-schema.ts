@@ -0,0 +1,312 @@
+/**
+ * ✅ ENTELECHIA: Contract YAML Schema
+ *
+ * Zod schema for contract metadata authored as `*.contract.yaml`.
+ *
+ * PRINCIPLE: A YAML contract loads to the same `ContractDefinition` a
+ * metadata module exports; generators cannot tell them apart.
+ *
+ * Members the generators do not read are kept as written (passthrough),
+ * except at the top level, where unknown keys are rejected to catch typos.
+ */
+
+import { z } from 'zod'
+
+/**
+ * Field Type
+ */
+export const ContractFieldTypeSchema = z.enum([
+  'uuid',
+  'string',
+  'number',
+  'boolean',
+  'datetime',
+  'date',
+  'json',
+  'record',
+  'array',
+  'object',
+])
+
+/**
+ * Field Constraint
+ */
+export const ContractFieldConstraintSchema = z.object({
+  type: z.enum(['min', 'max', 'email', 'uuid', 'int', 'refine']),
+  value: z.union([z.number(), z.string()]).optional(),
+  refineFunction: z.string().optional(), // Zod refine function source (type: refine)
+  message: z.string().optional(),
+}).passthrough()
+
+/**
+ * Field Definition
+ */
+export const ContractFieldSchema = z.object({
+  name: z.string().min(1),
+  type: ContractFieldTypeSchema,
+  nullable: z.boolean().optional(),
+  optional: z.boolean().optional(),
+  constraints: z.array(ContractFieldConstraintSchema).optional(),
+  description: z.string().optional(),
+}).passthrough()
+
+/**
+ * Refinement Definition (row schema invariants)
+ */
+export const ContractRefinementSchema = z.object({
+  invariantId: z.string().min(1),
+  invariantName: z.string(),
+  function: z.string().min(1), // Refine function source
+  message: z.string(),
+  path: z.array(z.string()),
+}).passthrough()
+
+/**
+ * Schema Definition
+ */
+export const ContractSchemaDefinitionSchema = z.object({
+  name: z.string().min(1),
+  extends: z.string().optional(),
+  fields: z.array(ContractFieldSchema).default([]),
+  refinements: z.array(ContractRefinementSchema).optional(),
+}).passthrough()
+
+/**
+ * Response Schema Definition
+ */
+export const ContractResponseSchemaSchema = z.object({
+  name: z.string().min(1),
+  usedIn: z.array(z.string()).default([]), // Endpoints returning this schema
+  structure: z.object({
+    type: z.enum(['object', 'array']),
+    fields: z.array(z.object({
+      name: z.string().min(1),
+      type: z.string(),
+      nullable: z.boolean().optional(),
+      optional: z.boolean().optional(),
+    }).passthrough()).optional(),
+    itemSchema: z.string().optional(),
+  }).passthrough(),
+}).passthrough()
+
+/**
+ * Transformation Definition
+ */
+export const ContractTransformationSchema = z.object({
+  function: z.string().min(1),
+  from: z.string().min(1),
+  to: z.string().min(1),
+  mappings: z.array(z.object({
+    from: z.string().optional(),
+    to: z.string().min(1),
+    transform: z.string().optional(), // parseDate, constantNull, constantValue
+    value: z.unknown().optional(), // constantValue
+  }).passthrough()).default([]),
+}).passthrough()
+
+/**
+ * DB Query (endpoint)
+ */
+export const ContractDBQuerySchema = z.object({
+  type: z.enum(['SELECT', 'INSERT', 'UPDATE', 'DELETE']),
+  table: z.string().min(1),
+  columns: z.array(z.string()).default([]),
+  where: z.array(z.object({
+    column: z.string().min(1),
+    operator: z.string().min(1),
+    value: z.unknown().optional(), // `:param` references a request parameter
+  }).passthrough()).optional(),
+  orderBy: z.array(z.object({
+    column: z.string().min(1),
+    direction: z.enum(['ASC', 'DESC']),
+  }).passthrough()).optional(),
+  conditional: z.boolean().optional(), // Row may not exist
+}).passthrough()
+
+/**
+ * Endpoint Definition
+ */
+export const ContractEndpointSchema = z.object({
+  name: z.string().min(1),
+  method: z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE']),
+  path: z.string().startsWith('/'),
+  required_action: z.string().nullable().optional(), // ACL action (default: public)
+  rateLimit: z.object({
+    windowMs: z.number().int().positive(),
+    max: z.number().int().positive(),
+  }).optional(),
+  request: z.object({
+    params: ContractSchemaDefinitionSchema.optional(),
+    body: ContractSchemaDefinitionSchema.optional(),
+    query: ContractSchemaDefinitionSchema.optional(),
+  }).passthrough().optional(),
+  response: z.object({}).passthrough().optional(),
+  dbQueries: z.array(ContractDBQuerySchema).default([]),
+  validations: z.array(z.object({
+    type: z.string().min(1), // db_to_domain, domain_to_api
+    schema: z.string().optional(),
+    invariantId: z.string().optional(),
+  }).passthrough()).default([]),
+}).passthrough()
+
+/**
+ * DB Mapping Definition
+ */
+export const ContractDBMappingSchema = z.object({
+  table: z.string().min(1),
+  columns: z.array(z.object({
+    name: z.string().min(1),
+    type: z.string().min(1), // SQL type
+    nullable: z.boolean().optional(),
+    default: z.string().optional(), // SQL expression
+    primaryKey: z.boolean().optional(),
+    unique: z.boolean().optional(),
+    comment: z.string().optional(),
+  }).passthrough()),
+  indexes: z.array(z.object({
+    name: z.string().min(1),
+    columns: z.array(z.string()).min(1),
+    type: z.string().optional(), // btree, gist, ...
+    where: z.string().optional(),
+    comment: z.string().optional(),
+  }).passthrough()).default([]),
+  constraints: z.array(z.object({
+    name: z.string().min(1),
+    invariantId: z.string(),
+    sql: z.string().min(1),
+    comment: z.string().optional(),
+  }).passthrough()).default([]),
+  foreignKeys: z.array(z.object({
+    column: z.string().min(1),
+    references: z.object({ table: z.string().min(1), column: z.string().min(1) }),
+    onDelete: z.string().optional(),
+    onUpdate: z.string().optional(),
+  }).passthrough()).default([]),
+  triggers: z.array(z.object({
+    name: z.string().min(1),
+    table: z.string().min(1),
+    function: z.string().min(1),
+    timing: z.enum(['BEFORE', 'AFTER', 'INSTEAD OF']),
+    events: z.array(z.enum(['INSERT', 'UPDATE', 'DELETE'])).min(1),
+    invariantId: z.string().optional(),
+    comment: z.string().optional(),
+  }).passthrough()).default([]),
+}).passthrough()
+
+/**
+ * Form Schema (form variant with a `<Contract>.<id>.form.yaml`)
+ */
+export const ContractFormSchemaSchema = z.object({
+  id: z.string().min(1),
+  defaultSections: z.array(z.union([
+    z.array(z.string()),
+    z.object({ fields: z.array(z.string()) }).passthrough(),
+  ])).optional(),
+}).passthrough()
+
+/**
+ * Projection Capabilities (keyed by field type)
+ */
+export const ContractProjectionCapabilitiesSchema = z.record(z.object({
+  allowedWidgets: z.array(z.string()),
+}).passthrough())
+
+/**
+ * Invariant Definition
+ */
+export const ContractInvariantSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  testCases: z.array(z.object({
+    type: z.string().min(1),
+    description: z.string(),
+    input: z.unknown(),
+    expected: z.unknown().optional(),
+    errorMessage: z.string().optional(),
+  }).passthrough()).optional(),
+  enforcement: z.object({
+    schema: z.string().optional(),
+    route: z.string().optional(),
+    db: z.string().optional(),
+  }).passthrough().optional(),
+}).passthrough()
+
+/**
+ * Contract YAML Schema
+ */
+export const ContractYamlSchema = z.object({
+  name: z.string().min(1),
+  domain: z.string().min(1),
+  version: z.string().min(1),
+  description: z.string().optional(),
+  lastUpdated: z.string().optional(),
+  baseSchema: ContractSchemaDefinitionSchema,
+  rowSchema: ContractSchemaDefinitionSchema.optional(),
+  responseSchemas: z.array(ContractResponseSchemaSchema).default([]),
+  endpoints: z.array(ContractEndpointSchema).default([]),
+  dbMapping: ContractDBMappingSchema.optional(),
+  transformations: z.array(ContractTransformationSchema).default([]),
+  formSchemas: z.array(ContractFormSchemaSchema).optional(),
+  projectionCapabilities: ContractProjectionCapabilitiesSchema.default({}),
+  invariants: z.array(ContractInvariantSchema).default([]),
+  metadata: z.record(z.unknown()).optional(),
+}).strict().superRefine((contract, ctx) => {
+  // Field names are unique
+  const fieldNames = new Set<string>()
+  contract.baseSchema.fields.forEach((field, index) => {
+    if (fieldNames.has(field.name)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Duplicate field "${field.name}"`,
+        path: ['baseSchema', 'fields', index, 'name'],
+      })
+    }
+    fieldNames.add(field.name)
+  })
+
+  // Form sections reference base schema fields
+  contract.formSchemas?.forEach((formSchema, formIndex) => {
+    formSchema.defaultSections?.forEach((section, sectionIndex) => {
+      const fields = Array.isArray(section) ? section : section.fields
+      for (const field of fields) {
+        if (!fieldNames.has(field)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Unknown field "${field}" (not in baseSchema)`,
+            path: ['formSchemas', formIndex, 'defaultSections', sectionIndex],
+          })
+        }
+      }
+    })
+  })
+
+  // Indexes and foreign keys reference declared columns
+  const dbMapping = contract.dbMapping
+  if (dbMapping) {
+    const columns = new Set(dbMapping.columns.map(column => column.name))
+    dbMapping.indexes.forEach((index, indexIndex) => {
+      for (const column of index.columns) {
+        if (!columns.has(column)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Unknown column "${column}" in index "${index.name}"`,
+            path: ['dbMapping', 'indexes', indexIndex, 'columns'],
+          })
+        }
+      }
+    })
+    dbMapping.foreignKeys.forEach((foreignKey, foreignKeyIndex) => {
+      if (!columns.has(foreignKey.column)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Unknown column "${foreignKey.column}" in foreign key`,
+          path: ['dbMapping', 'foreignKeys', foreignKeyIndex, 'column'],
+        })
+      }
+    })
+  }
+})
+
+export type ContractYaml = z.infer<typeof ContractYamlSchema>
+export type ContractYamlInput = z.input<typeof ContractYamlSchema>
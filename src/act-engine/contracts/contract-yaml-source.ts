@@ -0,0 +1,81 @@
+/**
+ * ✅ ENTELECHIA: Contract YAML Source
+ *
+ * Loads contract metadata authored as `*.contract.yaml`, so contract changes
+ * are reviewed in the same format as the forms built on them.
+ */
+
+import type { ContractDefinition } from '@entelechia/contracts/contracts/metadata/types'
+import { join, resolve } from 'path'
+import { loadYamlFile } from '../../yaml/index.js'
+import { DiagnosticCodes, DiagnosticCollector } from '../diagnostics/index.js'
+import { getFileSystem, nodeFileSystem, type ActFileSystem } from '../fs/index.js'
+import { ContractYamlSchema } from './contract-yaml-schema.js'
+import type { ContractSource, DiscoveredContract } from './types.js'
+
+export const CONTRACT_YAML_SUFFIX = '.contract.yaml'
+
+const IGNORED_DIRECTORIES = new Set(['node_modules', 'dist', '__tests__'])
+
+/**
+ * List the contract YAML files of a directory (sorted, recursive)
+ */
+export function listContractYamlFiles(dir: string, fs: ActFileSystem = nodeFileSystem): string[] {
+  const files: string[] = []
+  for (const entry of fs.readdir(dir)) {
+    const path = join(dir, entry)
+    if (fs.isDirectory(path)) {
+      if (!IGNORED_DIRECTORIES.has(entry)) {
+        files.push(...listContractYamlFiles(path, fs))
+      }
+    } else if (entry.endsWith(CONTRACT_YAML_SUFFIX)) {
+      files.push(path)
+    }
+  }
+  return files
+}
+
+/**
+ * Load a contract YAML file
+ *
+ * @throws DiagnosticError with located syntax errors or schema violations
+ */
+export function loadContractYamlFile(file: string, fs: ActFileSystem = nodeFileSystem): ContractDefinition {
+  // Schema mirrors ContractDefinition (defaults fill the optional lists)
+  return loadYamlFile(file, ContractYamlSchema, fs) as ContractDefinition
+}
+
+/**
+ * Contract source reading the `*.contract.yaml` files of a directory
+ *
+ * @param dir Contract directory (relative paths resolve from the workspace root)
+ */
+export function contractYamlSource(dir: string): ContractSource {
+  return {
+    name: 'contract YAML',
+    sources: config => [resolve(config.workspaceRoot, dir)],
+    async load(config) {
+      const contractDir = resolve(config.workspaceRoot, dir)
+      const fs = getFileSystem(config)
+      const diagnostics = new DiagnosticCollector()
+
+      if (!fs.exists(contractDir)) {
+        diagnostics.error(DiagnosticCodes.ContractSourceInvalid, `Contract directory not found: ${contractDir}`, {
+          file: contractDir,
+        })
+        return { contracts: [], diagnostics: diagnostics.getAll() }
+      }
+
+      const contracts: DiscoveredContract[] = []
+      for (const file of listContractYamlFiles(contractDir, fs)) {
+        try {
+          contracts.push({ contract: loadContractYamlFile(file, fs), file })
+        } catch (error: any) {
+          diagnostics.fromError(error, DiagnosticCodes.ContractMetadataInvalid, 'Cannot load contract YAML', { file })
+        }
+      }
+
+      return { contracts, diagnostics: diagnostics.getAll() }
+    },
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * ✅ ENTELECHIA: Contract Sources
+ * 
+ * Main entry point for loading the contracts a run generates from.
+ */
+
+export { loadContracts, checkContractUniqueness } from './loader.js'
+export { metadataDirectorySource } from './metadata-directory-source.js'
+export { jsonBundleSource } from './json-bundle-source.js'
+export {
+  contractYamlSource,
+  loadContractYamlFile,
+  listContractYamlFiles,
+  CONTRACT_YAML_SUFFIX,
+} from './contract-yaml-source.js'
+export {
+  ContractYamlSchema,
+  type ContractYaml,
+  type ContractYamlInput,
+} from './contract-yaml-schema.js'
+export { isContractDefinition } from './contract-shape.js'
+export type {
+  ContractSource,
+  ContractSourceResult,
+  DiscoveredContract,
+  LoadedContracts,
+  ContractBundle,
+} from './types.js'
@@ -0,0 +1,65 @@
+/**
+ * ✅ ENTELECHIA: JSON Bundle Contract Source
+ *
+ * Reads contracts from a JSON bundle, so the engine can run without
+ * importing backend TS.
+ *
+ * Bundle format: `{ "contracts": [<ContractDefinition>, ...] }` (or the array itself).
+ */
+
+import { resolve } from 'path'
+import { DiagnosticCodes, DiagnosticCollector } from '../diagnostics/index.js'
+import { getFileSystem } from '../fs/index.js'
+import { isContractDefinition } from './contract-shape.js'
+import type { ContractSource, DiscoveredContract } from './types.js'
+
+/**
+ * Contract source reading a JSON bundle
+ *
+ * @param path Bundle path (relative paths resolve from the workspace root)
+ */
+export function jsonBundleSource(path: string): ContractSource {
+  return {
+    name: 'JSON bundle',
+    sources: config => [resolve(config.workspaceRoot, path)],
+    async load(config) {
+      const bundlePath = resolve(config.workspaceRoot, path)
+      const diagnostics = new DiagnosticCollector()
+
+      let bundle: unknown
+      try {
+        bundle = JSON.parse(getFileSystem(config).readFile(bundlePath))
+      } catch (error: any) {
+        diagnostics.fromError(error, DiagnosticCodes.ContractSourceInvalid, 'Cannot read contract bundle', {
+          file: bundlePath,
+        })
+        return { contracts: [], diagnostics: diagnostics.getAll() }
+      }
+
+      const entries = Array.isArray(bundle) ? bundle : (bundle as { contracts?: unknown } | null)?.contracts
+      if (!Array.isArray(entries)) {
+        diagnostics.error(
+          DiagnosticCodes.ContractSourceInvalid,
+          'Contract bundle must be { "contracts": [...] } or an array of contracts',
+          { file: bundlePath }
+        )
+        return { contracts: [], diagnostics: diagnostics.getAll() }
+      }
+
+      const contracts: DiscoveredContract[] = []
+      entries.forEach((entry, index) => {
+        if (isContractDefinition(entry)) {
+          contracts.push({ contract: entry, file: bundlePath, exportName: `contracts[${index}]` })
+        } else {
+          diagnostics.error(
+            DiagnosticCodes.ContractSourceInvalid,
+            `contracts[${index}] is not a contract definition (name, domain, baseSchema.fields, endpoints, transformations)`,
+            { file: bundlePath }
+          )
+        }
+      })
+
+      return { contracts, diagnostics: diagnostics.getAll() }
+    },
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * ✅ ENTELECHIA: Contract Loader
+ *
+ * Loads the contracts of a run from the configured contract source.
+ */
+
+import type { ContractDefinition } from '@entelechia/contracts/contracts/metadata/types'
+import { DiagnosticCodes, diagnosticsFromError, type Diagnostic } from '../diagnostics/index.js'
+import type { ActEngineConfig } from '../pipeline/types.js'
+import { metadataDirectorySource } from './metadata-directory-source.js'
+import type { DiscoveredContract, LoadedContracts } from './types.js'
+
+/**
+ * Check that contract names and domains are unique
+ *
+ * @returns One error per duplicate, located at the later definition
+ */
+export function checkContractUniqueness(contracts: readonly DiscoveredContract[]): Diagnostic[] {
+  const diagnostics: Diagnostic[] = []
+
+  for (const key of ['name', 'domain'] as const) {
+    const first = new Map<string, DiscoveredContract>()
+    for (const discovered of contracts) {
+      const value = discovered.contract[key]
+      const existing = first.get(value)
+      if (!existing) {
+        first.set(value, discovered)
+        continue
+      }
+      diagnostics.push({
+        code: DiagnosticCodes.ContractDuplicate,
+        severity: 'error',
+        message: `Contract ${key} "${value}" is declared twice (${existing.exportName ?? existing.contract.name} and ${discovered.exportName ?? discovered.contract.name})`,
+        file: discovered.file,
+        related: existing.file ? [{ file: existing.file, message: 'First declared here' }] : undefined,
+      })
+    }
+  }
+
+  return diagnostics
+}
+
+/**
+ * Load the contracts of a config
+ *
+ * Uses `config.contractSource`, or discovers the contracts of `config.metadataDir`.
+ * Never throws: problems are returned as diagnostics.
+ */
+export async function loadContracts(config: ActEngineConfig): Promise<LoadedContracts> {
+  const source = config.contractSource ?? metadataDirectorySource()
+
+  let discovered: DiscoveredContract[]
+  const diagnostics: Diagnostic[] = []
+  try {
+    const result = await source.load(config)
+    discovered = result.contracts
+    diagnostics.push(...result.diagnostics)
+  } catch (error: any) {
+    return {
+      contracts: [],
+      diagnostics: diagnosticsFromError(error, DiagnosticCodes.ContractSourceInvalid, `Contract source "${source.name}" failed`),
+    }
+  }
+
+  diagnostics.push(...checkContractUniqueness(discovered))
+  if (discovered.length === 0) {
+    diagnostics.push({
+      code: DiagnosticCodes.ContractSourceInvalid,
+      severity: 'warning',
+      message: `Contract source "${source.name}" found no contracts`,
+    })
+  }
+
+  // First definition of a duplicate name or domain wins
+  const names = new Set<string>()
+  const domains = new Set<string>()
+  const contracts: ContractDefinition[] = []
+  for (const { contract } of discovered) {
+    if (names.has(contract.name) || domains.has(contract.domain)) {
+      continue
+    }
+    names.add(contract.name)
+    domains.add(contract.domain)
+    contracts.push(contract)
+  }
+
+  return {
+    contracts: contracts.sort((a, b) => a.name.localeCompare(b.name)),
+    diagnostics,
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * ✅ ENTELECHIA: Metadata Directory Contract Source
+ *
+ * Discovers every export structurally matching `ContractDefinition` in the
+ * modules of the metadata directory, and every `*.contract.yaml` in it.
+ *
+ * PRINCIPLE: A new contract gets codegen as soon as it is exported from a
+ * metadata module or written as contract YAML; no list of contracts is
+ * maintained by hand.
+ */
+
+import type { ContractDefinition } from '@entelechia/contracts/contracts/metadata/types'
+import { existsSync, readdirSync, statSync } from 'fs'
+import { basename, dirname, extname, join, resolve } from 'path'
+import { pathToFileURL } from 'url'
+import { DiagnosticCodes, DiagnosticCollector } from '../diagnostics/index.js'
+import { isContractDefinition } from './contract-shape.js'
+import { contractYamlSource } from './contract-yaml-source.js'
+import type { ContractSource, DiscoveredContract } from './types.js'
+
+const MODULE_EXTENSIONS = new Set(['.ts', '.mts', '.js', '.mjs'])
+const IGNORED_DIRECTORIES = new Set(['node_modules', 'dist', '__tests__'])
+
+/**
+ * Check whether a file is a metadata module (not a test or declaration file)
+ */
+function isMetadataModule(file: string): boolean {
+  return MODULE_EXTENSIONS.has(extname(file)) && !/\.(d|test|spec)\.[mc]?[jt]s$/.test(file)
+}
+
+/**
+ * Check whether a module is the index of the metadata directory
+ */
+function isIndexModule(file: string, metadataDir: string): boolean {
+  return dirname(file) === metadataDir && /^index\.[mc]?[jt]s$/.test(basename(file))
+}
+
+/**
+ * List the metadata modules of a directory (sorted, recursive)
+ */
+function listMetadataModules(dir: string): string[] {
+  const modules: string[] = []
+  for (const entry of readdirSync(dir).sort()) {
+    const path = join(dir, entry)
+    if (statSync(path).isDirectory()) {
+      if (!IGNORED_DIRECTORIES.has(entry)) {
+        modules.push(...listMetadataModules(path))
+      }
+    } else if (isMetadataModule(path)) {
+      modules.push(path)
+    }
+  }
+  return modules
+}
+
+/**
+ * Contract source discovering the contracts of a metadata directory
+ *
+ * Contracts defined in a module but not exported from the directory's index
+ * (`index.ts`) are reported as unreferenced. YAML contracts need no export.
+ *
+ * @param dir Metadata directory (default: `config.metadataDir`)
+ */
+export function metadataDirectorySource(dir?: string): ContractSource {
+  return {
+    name: 'metadata directory',
+    sources: config => [resolve(dir ?? config.metadataDir)],
+    async load(config) {
+      const metadataDir = resolve(dir ?? config.metadataDir)
+      const diagnostics = new DiagnosticCollector()
+
+      if (!existsSync(metadataDir)) {
+        diagnostics.error(DiagnosticCodes.ContractSourceInvalid, `Metadata directory not found: ${metadataDir}`, {
+          file: metadataDir,
+        })
+        return { contracts: [], diagnostics: diagnostics.getAll() }
+      }
+
+      // Keyed by identity: re-exports of a contract are the same object
+      const discovered = new Map<ContractDefinition, DiscoveredContract>()
+      const indexExports = new Set<unknown>()
+      let indexFile: string | undefined
+
+      for (const file of listMetadataModules(metadataDir)) {
+        let module: Record<string, unknown>
+        try {
+          module = await import(pathToFileURL(file).href)
+        } catch (error: any) {
+          diagnostics.fromError(error, DiagnosticCodes.ModuleLoadFailed, 'Cannot load contract metadata module', { file })
+          continue
+        }
+
+        const isIndex = isIndexModule(file, metadataDir)
+        if (isIndex) {
+          indexFile = file
+        }
+
+        for (const [exportName, value] of Object.entries(module)) {
+          if (!isContractDefinition(value)) {
+            continue
+          }
+          if (isIndex) {
+            indexExports.add(value)
+          }
+          // Locate contracts at their defining module rather than at a re-export from the index
+          const existing = discovered.get(value)
+          if (!existing || (existing.file === indexFile && !isIndex)) {
+            discovered.set(value, { contract: value, file, exportName })
+          }
+        }
+      }
+
+      const contracts = Array.from(discovered.values())
+      if (indexFile) {
+        for (const { contract, file, exportName } of contracts) {
+          if (!indexExports.has(contract)) {
+            diagnostics.warning(
+              DiagnosticCodes.ContractUnreferenced,
+              `Contract "${contract.name}" (${exportName}) is not exported from ${basename(indexFile)}`,
+              { file, hint: `Export it from ${indexFile}, or delete it if it is no longer used` }
+            )
+          }
+        }
+      }
+
+      const yaml = await contractYamlSource(metadataDir).load(config)
+      contracts.push(...yaml.contracts)
+      diagnostics.addAll(yaml.diagnostics)
+
+      return { contracts, diagnostics: diagnostics.getAll() }
+    },
+  }
+}
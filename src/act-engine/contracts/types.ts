@@ -0,0 +1,55 @@
+/**
+ * ✅ ENTELECHIA: Contract Source Types
+ *
+ * A contract source provides the contract metadata the pipeline runs on.
+ *
+ * Built-in sources:
+ * - metadata directory: discovers every exported contract and `*.contract.yaml` in `metadataDir` (default)
+ * - contract YAML: reads the `*.contract.yaml` files of a directory
+ * - JSON bundle: reads contracts from a JSON file, without importing backend TS
+ */
+
+import type { ContractDefinition } from '@entelechia/contracts/contracts/metadata/types'
+import type { Diagnostic } from '../diagnostics/index.js'
+import type { ActEngineConfig } from '../pipeline/types.js'
+
+/**
+ * Contract source
+ */
+export interface ContractSource {
+  name: string // Shown in diagnostics (e.g. "metadata directory")
+  load(config: ActEngineConfig): Promise<ContractSourceResult>
+  sources?(config: ActEngineConfig): string[] // Files and directories the contracts are read from (watch mode)
+}
+
+/**
+ * Contracts found by a source
+ */
+export interface ContractSourceResult {
+  contracts: DiscoveredContract[]
+  diagnostics: Diagnostic[] // Modules or entries that could not be read, unreferenced contracts
+}
+
+/**
+ * Contract and where it was found
+ */
+export interface DiscoveredContract {
+  contract: ContractDefinition
+  file?: string // Module, YAML file or bundle defining the contract
+  exportName?: string // Export name (modules) or `contracts[<index>]` (bundles)
+}
+
+/**
+ * Contracts loaded for a run
+ */
+export interface LoadedContracts {
+  contracts: ContractDefinition[] // Sorted by name; first definition of a duplicate wins
+  diagnostics: Diagnostic[]
+}
+
+/**
+ * JSON contract bundle
+ */
+export interface ContractBundle {
+  contracts: ContractDefinition[]
+}
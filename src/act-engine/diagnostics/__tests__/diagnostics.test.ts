@@ -0,0 +1,140 @@
+/**
+ * ✅ ENTELECHIA: Diagnostics Tests
+ *
+ * PROPERTIES TESTED:
+ * - Collected diagnostics are stamped with the reporting phase
+ * - Rendered messages carry location, code, rationale and hint
+ * - Structured errors keep their detail when converted
+ */
+
+import { describe, it, expect } from 'vitest'
+import { z } from 'zod'
+import { FormValidationError } from '../../../forms/validator.js'
+import {
+  DiagnosticCollector,
+  DiagnosticCodes,
+  DiagnosticError,
+  diagnosticsFromError,
+  diagnosticsFromMessages,
+  formatDiagnostic,
+  formatSteps,
+} from '../index.js'
+
+describe('DiagnosticCollector', () => {
+  it('should stamp diagnostics with its phase', () => {
+    const diagnostics = new DiagnosticCollector(7)
+      .error(DiagnosticCodes.GenerationFailed, 'Form schema generation failed', { file: 'user.form.yaml' })
+      .warning(DiagnosticCodes.SourceMissing, 'No navigation YAML')
+      .add({ code: DiagnosticCodes.ArtifactDrift, severity: 'warning', message: 'Drift', phase: 8 })
+
+    expect(diagnostics.hasErrors()).toBe(true)
+    expect(diagnostics.getAll().map(d => d.phase)).toEqual([7, 7, 8])
+  })
+
+  it('should render errors and warnings from the same diagnostics', () => {
+    const result = new DiagnosticCollector(5)
+      .error(DiagnosticCodes.ContractNotFound, 'Contract "User" not found', { file: 'user.form.yaml' })
+      .warning(DiagnosticCodes.SourceMissing, 'No view YAML')
+      .toResult()
+
+    expect(result.errors).toEqual(['user.form.yaml: Contract "User" not found [ACT1003]'])
+    expect(result.warnings).toEqual(['No view YAML [ACT0005]'])
+    expect(result.diagnostics).toHaveLength(2)
+  })
+
+  it('should not report errors for warnings only', () => {
+    const diagnostics = new DiagnosticCollector().warning(DiagnosticCodes.BannerMissing, 'Missing banner')
+
+    expect(diagnostics.hasErrors()).toBe(false)
+  })
+})
+
+describe('formatDiagnostic', () => {
+  it('should include location, related locations, rationale and hint', () => {
+    const message = formatDiagnostic({
+      code: 'architecture/no-direct-fetch',
+      severity: 'error',
+      message: 'Architecture violation no-direct-fetch: identifier "fetch"',
+      file: 'entelechia-ui/src/App.tsx',
+      range: { start: { line: 12, column: 5 } },
+      related: [{ file: 'architecture-rules.yaml', range: { start: { line: 3, column: 1 } }, message: 'Rule declared here' }],
+      rationale: 'UI must not act',
+      hint: formatSteps(['Use an intent', 'Remove fetch']),
+    })
+
+    expect(message).toBe([
+      'entelechia-ui/src/App.tsx:12:5: Architecture violation no-direct-fetch: identifier "fetch" [architecture/no-direct-fetch]',
+      '  ↳ architecture-rules.yaml:3:1: Rule declared here',
+      '  Why: UI must not act',
+      '  Fix: 1. Use an intent',
+      '       2. Remove fetch',
+    ].join('\n'))
+  })
+})
+
+describe('diagnosticsFromError', () => {
+  it('should report one schema violation per Zod issue', () => {
+    const parsed = z.object({ form: z.object({ contract: z.string() }) }).safeParse({ form: {} })
+    if (parsed.success) throw new Error('expected a Zod error')
+
+    const diagnostics = diagnosticsFromError(parsed.error, DiagnosticCodes.YamlParseError, 'YAML file "user.form.yaml"', {
+      file: 'forms/user.form.yaml',
+    })
+
+    expect(diagnostics).toHaveLength(1)
+    expect(diagnostics[0]).toMatchObject({
+      code: DiagnosticCodes.SchemaViolation,
+      severity: 'error',
+      file: 'forms/user.form.yaml',
+      path: ['form', 'contract'],
+    })
+    expect(diagnostics[0].message).toMatch(/^YAML file "user\.form\.yaml": form\.contract: /)
+  })
+
+  it('should report one diagnostic per form validation reason', () => {
+    const error = new FormValidationError('User', 'create', [
+      { message: 'Unknown field "age"', path: ['form', 'sections', 0, 'fields', 1] },
+      { message: 'Section IDs must be unique', path: ['form', 'sections', 2, 'id'] },
+    ])
+
+    const diagnostics = diagnosticsFromError(error, DiagnosticCodes.YamlParseError, 'YAML file "user.form.yaml"')
+
+    expect(diagnostics.map(d => d.code)).toEqual([DiagnosticCodes.FormValidation, DiagnosticCodes.FormValidation])
+    expect(diagnostics.map(d => d.message)).toEqual([
+      'YAML file "user.form.yaml": Unknown field "age"',
+      'YAML file "user.form.yaml": Section IDs must be unique',
+    ])
+    expect(diagnostics[1].path).toEqual(['form', 'sections', 2, 'id'])
+  })
+
+  it('should keep the diagnostics of a DiagnosticError', () => {
+    const error = new DiagnosticError([
+      { code: DiagnosticCodes.YamlParseError, severity: 'error', message: 'Bad indentation', range: { start: { line: 4, column: 3 } } },
+    ])
+
+    const diagnostics = diagnosticsFromError(error, DiagnosticCodes.PhaseFailed, 'Ignored', { file: 'user.form.yaml' })
+
+    expect(diagnostics).toEqual([{
+      code: DiagnosticCodes.YamlParseError,
+      severity: 'error',
+      message: 'Bad indentation',
+      range: { start: { line: 4, column: 3 } },
+      file: 'user.form.yaml',
+    }])
+  })
+
+  it('should fall back to the given code for other errors', () => {
+    const diagnostics = diagnosticsFromError(new Error('EACCES'), DiagnosticCodes.ArtifactWriteFailed, 'Write failed')
+
+    expect(diagnostics).toEqual([{ code: DiagnosticCodes.ArtifactWriteFailed, severity: 'error', message: 'Write failed: EACCES' }])
+  })
+})
+
+describe('diagnosticsFromMessages', () => {
+  it('should wrap plain messages as unclassified diagnostics', () => {
+    expect(diagnosticsFromMessages(12, ['Boom'], ['Careful'])).toEqual([
+      { code: DiagnosticCodes.Unclassified, severity: 'error', message: 'Boom', phase: 12 },
+      { code: DiagnosticCodes.Unclassified, severity: 'warning', message: 'Careful', phase: 12 },
+    ])
+  })
+})
@@ -0,0 +1,188 @@
+/**
+ * ✅ ENTELECHIA: Diagnostic Codes
+ *
+ * Stable codes for every engine diagnostic.
+ *
+ * PRINCIPLE: A code never changes meaning once released.
+ * Retired codes are removed, never reused.
+ *
+ * Ranges:
+ * - ACT0xxx: pipeline and phase infrastructure
+ * - ACT1xxx: FORM sources (YAML, contract metadata)
+ * - ACT3xxx: invariant registry
+ * - ACT4xxx: ACL
+ * - ACT5xxx: commands, functional bindings, intent graph, instrumentation
+ * - ACT6xxx: purity guards
+ * - ACT7xxx: code generation
+ * - ACT8xxx: artifact drift
+ * - ACT9xxx: UI typecheck and runtime checks
+ *
+ * Architecture rules, registry invariants and purity guard invariants report
+ * under their own codes (see `architectureRuleCode`, `invariantCode` and
+ * `purityInvariantCode`).
+ */
+
+export const DiagnosticCodes = {
+  // Pipeline
+  PhaseFailed: 'ACT0001',
+  Unclassified: 'ACT0002',
+  ManifestFailed: 'ACT0003',
+  RegistryInvalid: 'ACT0004',
+  SourceMissing: 'ACT0005',
+  ModuleLoadFailed: 'ACT0006',
+  PluginInvalid: 'ACT0007',
+  PhaseTimedOut: 'ACT0008',
+  PhaseCancelled: 'ACT0009',
+
+  // FORM sources
+  YamlParseError: 'ACT1001',
+  SchemaViolation: 'ACT1002',
+  ContractNotFound: 'ACT1003',
+  FormValidation: 'ACT1004',
+  FormInvariantViolation: 'ACT1005',
+  CanonicalizationFailed: 'ACT1006',
+  FormYamlMissing: 'ACT1007',
+  FormYamlOrphan: 'ACT1008',
+  ProjectionCapabilityMissing: 'ACT1009',
+  ContractMetadataInvalid: 'ACT1010',
+  ContractDuplicate: 'ACT1011',
+  ContractUnreferenced: 'ACT1012',
+  ContractSourceInvalid: 'ACT1013',
+
+  // Invariant registry
+  InvariantRegistryEmpty: 'ACT3001',
+  InvariantMissing: 'ACT3002',
+  InvariantIdFormat: 'ACT3003',
+
+  // ACL
+  RoleConflict: 'ACT4001',
+  RoleRedundant: 'ACT4002',
+  RoleCompilation: 'ACT4003',
+  UnknownAction: 'ACT4004',
+
+  // Commands, bindings, intent graph, instrumentation
+  CommandInvalid: 'ACT5001',
+  CommandActionUnknown: 'ACT5002',
+  CommandIntentIncoherent: 'ACT5003',
+  FunctionalBindingInvalid: 'ACT5101',
+  IntentGraphInvalid: 'ACT5201',
+  InstrumentationInvalid: 'ACT5301',
+  InstrumentationDuplicateId: 'ACT5302',
+  TelemetryChannelUnknown: 'ACT5303',
+  CheckSkipped: 'ACT5900',
+
+  // Purity guards
+  PurityGuardMissing: 'ACT6001',
+
+  // Code generation
+  GenerationFailed: 'ACT7001',
+  ArtifactWriteFailed: 'ACT7002',
+  ArtifactCommitFailed: 'ACT7003',
+  ArtifactsDiscarded: 'ACT7004',
+  GeneratedCodeInvalid: 'ACT7005',
+  GeneratedCodeTypeError: 'ACT7006',
+  KeepRegionDropped: 'ACT7007',
+  KeepRegionInvalid: 'ACT7008',
+
+  // Drift
+  ArtifactDrift: 'ACT8001',
+  ArtifactMissing: 'ACT8002',
+  BannerMissing: 'ACT8003',
+  ArtifactUnreadable: 'ACT8004',
+  ArtifactOrphaned: 'ACT8005',
+  ArtifactPruned: 'ACT8006',
+  ArtifactStale: 'ACT8007',
+
+  // UI typecheck and runtime checks
+  TypecheckFailed: 'ACT9001',
+  RuntimeCheckFailed: 'ACT9002',
+  ConsumerTypecheckFailed: 'ACT9003',
+  UiTypecheckFailed: 'ACT9004',
+} as const
+
+export type DiagnosticCode = (typeof DiagnosticCodes)[keyof typeof DiagnosticCodes]
+
+/**
+ * One-line description of each engine code (rule metadata for reports)
+ */
+export const DIAGNOSTIC_DESCRIPTIONS: Record<DiagnosticCode, string> = {
+  ACT0001: 'A phase failed unexpectedly',
+  ACT0002: 'A phase reported a message without a diagnostic code',
+  ACT0003: 'ACT manifests could not be generated',
+  ACT0004: 'The phase registry is invalid',
+  ACT0005: 'An optional FORM source was not found',
+  ACT0006: 'A backend module or registry could not be loaded',
+  ACT0007: 'A plugin could not be loaded or conflicts with another plugin',
+  ACT0008: 'A phase exceeded its timeout budget',
+  ACT0009: 'A phase was cancelled because the run was aborted',
+  ACT1001: 'A YAML file could not be parsed',
+  ACT1002: 'A YAML file does not match its schema',
+  ACT1003: 'A FORM source references an unknown contract',
+  ACT1004: 'A form YAML does not match its contract metadata',
+  ACT1005: 'A canonical form descriptor violates a form invariant',
+  ACT1006: 'A FORM source could not be canonicalized',
+  ACT1007: 'A form schema declared in contract metadata has no YAML file',
+  ACT1008: 'A form YAML has no matching contract or variant',
+  ACT1009: 'A field type used by a form has no projection capability',
+  ACT1010: 'Contract metadata is invalid',
+  ACT1011: 'Two contracts share a name or domain',
+  ACT1012: 'A contract is defined in the metadata directory but not exported from its index',
+  ACT1013: 'A contract source could not be read or contains an invalid contract',
+  ACT3001: 'The invariant registry is empty',
+  ACT3002: 'A required invariant is not registered',
+  ACT3003: 'An invariant ID does not match the canonical format',
+  ACT4001: 'Two roles grant conflicting permissions',
+  ACT4002: 'A role is redundant',
+  ACT4003: 'Role compilation reported a problem',
+  ACT4004: 'An ACL role or registry entry references an unknown action',
+  ACT5001: 'A command definition is invalid',
+  ACT5002: 'A command references an action missing from the ActionRegistry',
+  ACT5003: 'A command intent binding is incoherent with the IntentGraph',
+  ACT5101: 'A functional binding is invalid',
+  ACT5201: 'The IntentGraph is invalid',
+  ACT5301: 'An instrumentation descriptor is invalid',
+  ACT5302: 'An id is declared twice in a collection of an instrumentation YAML',
+  ACT5303: 'Telemetry routes errors to a log channel that is not declared',
+  ACT5900: 'A check was skipped because its input could not be read',
+  ACT6001: 'A purity guard FORM is missing',
+  ACT7001: 'An artifact could not be generated',
+  ACT7002: 'An artifact could not be written',
+  ACT7003: 'Staged artifacts could not be committed (the previous artifacts were restored)',
+  ACT7004: 'Staged artifacts were discarded because the run did not succeed',
+  ACT7005: 'Generated code does not parse (validateCode; the artifact is not written)',
+  ACT7006: 'Generated code does not typecheck against the generated STATE set (validateCode)',
+  ACT7007: 'A preserved region holds hand-written code but is no longer generated (the artifact is not written)',
+  ACT7008: 'Preserved-region markers in the file on disk are unbalanced, nested or duplicated (the artifact is not written)',
+  ACT8001: 'An artifact differs from what its FORM sources generate',
+  ACT8002: 'An expected artifact is missing',
+  ACT8003: 'An artifact is missing its generation banner',
+  ACT8004: 'An artifact could not be read',
+  ACT8005: 'A generated file is no longer produced by any generator (orphan)',
+  ACT8006: 'An orphaned artifact was deleted (--prune)',
+  ACT8007: 'FORM sources of an artifact changed since act.lock.json recorded it',
+  ACT9001: 'Generated code does not typecheck',
+  ACT9002: 'A runtime check failed',
+  ACT9003: 'Hand-written UI code does not typecheck against the generated types it imports (breaking change)',
+  ACT9004: 'Hand-written UI code does not typecheck (independent of generated files)',
+}
+
+/**
+ * Code for a violation of an architecture rule
+ */
+export function architectureRuleCode(ruleId: string): string {
+  return `architecture/${ruleId}`
+}
+
+/**
+ * Code for a violation of an invariant-engine invariant
+ */
+export function invariantCode(invariantId: string): string {
+  return `invariant/${invariantId}`
+}
+
+/**
+ * Code for a violation of a purity guard invariant
+ */
+export function purityInvariantCode(guardType: string, invariantId: string): string {
+  return `purity/${guardType}.${invariantId}`
+}
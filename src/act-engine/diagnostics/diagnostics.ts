@@ -0,0 +1,244 @@
+/**
+ * ✅ ENTELECHIA: Diagnostics
+ *
+ * Collects structured diagnostics and renders them as messages.
+ *
+ * PRINCIPLE: Consumers decide on `code` and `severity`.
+ * `PhaseResult.errors` / `warnings` are rendered views of the diagnostics.
+ */
+
+import { ZodError } from 'zod'
+import { FormValidationError } from '../../forms/validator.js'
+import { FormInvariantViolationError } from '../../forms/invariants.js'
+import { DiagnosticCodes } from './codes.js'
+import type { Diagnostic, DiagnosticSeverity, SourceRange } from './types.js'
+
+/**
+ * Optional diagnostic fields
+ */
+export type DiagnosticDetails = Omit<Diagnostic, 'code' | 'severity' | 'message'>
+
+export interface DiagnosticSummary {
+  errors: string[]
+  warnings: string[] // Warnings and infos
+  diagnostics: Diagnostic[]
+}
+
+/**
+ * Error carrying diagnostics
+ *
+ * Thrown by loaders and validators that can locate what they report.
+ */
+export class DiagnosticError extends Error {
+  constructor(public readonly diagnostics: Diagnostic[]) {
+    super(diagnostics.map(d => d.message).join('; '))
+    this.name = 'DiagnosticError'
+  }
+}
+
+/**
+ * Format a file location (`file:line:column`)
+ */
+export function formatLocation(file?: string, range?: SourceRange): string {
+  if (!file) {
+    return ''
+  }
+  return range ? `${file}:${range.start.line}:${range.start.column}` : file
+}
+
+/**
+ * Render a diagnostic as a message
+ */
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+  const location = formatLocation(diagnostic.file, diagnostic.range)
+  const lines = [`${location ? `${location}: ` : ''}${diagnostic.message} [${diagnostic.code}]`]
+
+  for (const related of diagnostic.related || []) {
+    const relatedLocation = formatLocation(related.file, related.range)
+    lines.push(`  ↳ ${relatedLocation}${related.message ? `: ${related.message}` : ''}`)
+  }
+  if (diagnostic.rationale) {
+    lines.push(`  Why: ${diagnostic.rationale}`)
+  }
+  if (diagnostic.hint) {
+    lines.push(`  Fix: ${diagnostic.hint.split('\n').join('\n       ')}`)
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Format resolution steps as a numbered hint
+ */
+export function formatSteps(steps: readonly string[]): string | undefined {
+  if (steps.length === 0) {
+    return undefined
+  }
+  if (steps.length === 1) {
+    return steps[0]
+  }
+  return steps.map((step, i) => `${i + 1}. ${step}`).join('\n')
+}
+
+/**
+ * Render diagnostics as error and warning messages
+ */
+export function summarizeDiagnostics(diagnostics: readonly Diagnostic[]): DiagnosticSummary {
+  return {
+    errors: diagnostics.filter(d => d.severity === 'error').map(formatDiagnostic),
+    warnings: diagnostics.filter(d => d.severity !== 'error').map(formatDiagnostic),
+    diagnostics: [...diagnostics],
+  }
+}
+
+/**
+ * Wrap plain messages from a phase that does not report diagnostics
+ */
+export function diagnosticsFromMessages(
+  phase: number,
+  errors: readonly string[],
+  warnings: readonly string[]
+): Diagnostic[] {
+  const wrap = (severity: DiagnosticSeverity) => (message: string): Diagnostic => ({
+    code: DiagnosticCodes.Unclassified,
+    severity,
+    message,
+    phase,
+  })
+  return [...errors.map(wrap('error')), ...warnings.map(wrap('warning'))]
+}
+
+/**
+ * Convert a caught error to diagnostics
+ *
+ * Structured errors (diagnostic, Zod, form validation and form invariant
+ * errors) keep their detail; anything else becomes one diagnostic with
+ * `code` and `message` prefixed to the error message.
+ */
+export function diagnosticsFromError(
+  error: any,
+  code: string,
+  message: string,
+  details: DiagnosticDetails & { severity?: DiagnosticSeverity } = {}
+): Diagnostic[] {
+  const { severity = 'error', ...rest } = details
+
+  if (error instanceof DiagnosticError) {
+    return error.diagnostics.map(d => ({ ...rest, ...d }))
+  }
+  if (error instanceof ZodError) {
+    return error.issues.map(issue => ({
+      ...rest,
+      code: DiagnosticCodes.SchemaViolation,
+      severity,
+      message: `${message}: ${issue.path.length > 0 ? `${issue.path.join('.')}: ` : ''}${issue.message}`,
+      path: issue.path,
+    }))
+  }
+  if (error instanceof FormValidationError) {
+    return error.issues.map(issue => ({
+      ...rest,
+      code: DiagnosticCodes.FormValidation,
+      severity,
+      message: `${message}: ${issue.message}`,
+      path: [...issue.path],
+    }))
+  }
+  if (error instanceof FormInvariantViolationError) {
+    return [{
+      ...rest,
+      code: DiagnosticCodes.FormInvariantViolation,
+      severity,
+      message: `${message}: ${error.message}`,
+    }]
+  }
+
+  return [{ ...rest, code, severity, message: `${message}: ${error?.message ?? String(error)}` }]
+}
+
+/**
+ * Diagnostic collector
+ *
+ * Stamps every diagnostic with the reporting phase.
+ */
+export class DiagnosticCollector {
+  private diagnostics: Diagnostic[] = []
+
+  constructor(private readonly phase?: number) {}
+
+  /**
+   * Add a diagnostic
+   */
+  add(diagnostic: Diagnostic): this {
+    this.diagnostics.push(
+      this.phase === undefined || diagnostic.phase !== undefined
+        ? diagnostic
+        : { ...diagnostic, phase: this.phase }
+    )
+    return this
+  }
+
+  /**
+   * Add several diagnostics
+   */
+  addAll(diagnostics: readonly Diagnostic[]): this {
+    for (const diagnostic of diagnostics) {
+      this.add(diagnostic)
+    }
+    return this
+  }
+
+  /**
+   * Add an error
+   */
+  error(code: string, message: string, details: DiagnosticDetails = {}): this {
+    return this.add({ ...details, code, severity: 'error', message })
+  }
+
+  /**
+   * Add a warning
+   */
+  warning(code: string, message: string, details: DiagnosticDetails = {}): this {
+    return this.add({ ...details, code, severity: 'warning', message })
+  }
+
+  /**
+   * Add an error or a warning
+   */
+  report(severity: DiagnosticSeverity, code: string, message: string, details: DiagnosticDetails = {}): this {
+    return this.add({ ...details, code, severity, message })
+  }
+
+  /**
+   * Add the diagnostics for a caught error
+   */
+  fromError(
+    error: any,
+    code: string,
+    message: string,
+    details: DiagnosticDetails & { severity?: DiagnosticSeverity } = {}
+  ): this {
+    return this.addAll(diagnosticsFromError(error, code, message, details))
+  }
+
+  /**
+   * Check whether any error was reported
+   */
+  hasErrors(): boolean {
+    return this.diagnostics.some(d => d.severity === 'error')
+  }
+
+  /**
+   * Get all diagnostics (report order)
+   */
+  getAll(): Diagnostic[] {
+    return [...this.diagnostics]
+  }
+
+  /**
+   * Get diagnostics and their rendered messages, for a phase result
+   */
+  toResult(): DiagnosticSummary {
+    return summarizeDiagnostics(this.diagnostics)
+  }
+}
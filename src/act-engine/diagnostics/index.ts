@@ -0,0 +1,33 @@
+/**
+ * ✅ ENTELECHIA: ACT Engine Diagnostics
+ * 
+ * Main entry point for structured diagnostics.
+ */
+
+export type {
+  Diagnostic,
+  DiagnosticSeverity,
+  SourcePosition,
+  SourceRange,
+  RelatedLocation,
+} from './types.js'
+export {
+  DiagnosticCodes,
+  DIAGNOSTIC_DESCRIPTIONS,
+  architectureRuleCode,
+  invariantCode,
+  purityInvariantCode,
+  type DiagnosticCode,
+} from './codes.js'
+export {
+  DiagnosticCollector,
+  DiagnosticError,
+  diagnosticsFromError,
+  diagnosticsFromMessages,
+  summarizeDiagnostics,
+  formatDiagnostic,
+  formatLocation,
+  formatSteps,
+  type DiagnosticDetails,
+  type DiagnosticSummary,
+} from './diagnostics.js'
@@ -0,0 +1,47 @@
+/**
+ * ✅ ENTELECHIA: Diagnostic Types
+ *
+ * Structured findings reported by phases, canonicalizers and validators.
+ */
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info'
+
+/**
+ * Position in a source file (1-based line and column)
+ */
+export interface SourcePosition {
+  line: number
+  column: number
+}
+
+export interface SourceRange {
+  start: SourcePosition
+  end?: SourcePosition // Defaults to `start`
+}
+
+/**
+ * Secondary location relevant to a diagnostic (e.g. the first declaration of a duplicate)
+ */
+export interface RelatedLocation {
+  file: string
+  range?: SourceRange
+  message?: string
+}
+
+/**
+ * Diagnostic
+ *
+ * `code` is stable across releases: consumers match on it, never on `message`.
+ */
+export interface Diagnostic {
+  code: string // Engine code (e.g. ACT7001) or rule code (e.g. architecture/<ruleId>)
+  severity: DiagnosticSeverity
+  message: string
+  phase?: number // Phase that reported it
+  file?: string // Source (FORM) or artifact the diagnostic is about
+  range?: SourceRange
+  path?: (string | number)[] // Path to the offending node in a YAML source (resolved to `range` by the YAML loader)
+  related?: RelatedLocation[]
+  hint?: string // How to resolve it
+  rationale?: string // Why the rule exists (e.g. the telos violated)
+}
@@ -0,0 +1,110 @@
+/**
+ * ✅ ENTELECHIA: Pipeline Event Tests
+ *
+ * PROPERTIES TESTED:
+ * - Subscribers receive stamped events, optionally filtered by type, until they unsubscribe
+ * - Phase sinks attribute events to their phase; throwing subscribers are isolated
+ * - Writers report artifacts as written, unchanged or drifted
+ * - The progress view prints one line per settled phase with its counts and diagnostics
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { DiagnosticCodes } from '../../diagnostics/index.js'
+import type { PhaseResult } from '../../pipeline/types.js'
+import { DeterministicWriter } from '../../writers/deterministic-writer.js'
+import { PipelineEventEmitter, createProgressRenderer, type PipelineEvent } from '../index.js'
+
+function phaseResult(phase: number, overrides: Partial<PhaseResult> = {}): PhaseResult {
+  return { phase, name: `Phase ${phase}`, success: true, errors: [], warnings: [], diagnostics: [], duration: 5, ...overrides }
+}
+
+describe('PipelineEventEmitter', () => {
+  it('should deliver events to subscribers until they unsubscribe', () => {
+    const events = new PipelineEventEmitter()
+    const all: PipelineEvent[] = []
+    const parsed: string[] = []
+    const unsubscribe = events.on(event => all.push(event))
+    events.on('file:parsed', event => parsed.push(event.file))
+
+    events.emit({ type: 'phase:start', phase: 5, name: 'YAML Validation' })
+    events.forPhase(5).emit({ type: 'file:parsed', file: 'a.form.yaml' })
+    unsubscribe()
+    events.forPhase(5).emit({ type: 'file:parsed', file: 'b.form.yaml' })
+
+    expect(all).toHaveLength(2)
+    expect(all[1]).toMatchObject({ type: 'file:parsed', phase: 5, file: 'a.form.yaml', time: expect.any(Number) })
+    expect(parsed).toEqual(['a.form.yaml', 'b.form.yaml'])
+  })
+
+  it('should isolate throwing subscribers', () => {
+    const events = new PipelineEventEmitter()
+    const received: string[] = []
+    events.on(() => {
+      throw new Error('observer bug')
+    })
+    events.on(event => received.push(event.type))
+
+    expect(() => events.emit({ type: 'phase:start', phase: 1, name: 'Form Checks' })).not.toThrow()
+    expect(received).toEqual(['phase:start'])
+  })
+})
+
+describe('DeterministicWriter events', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'act-events-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should report written, unchanged and drifted artifacts', () => {
+    const events = new PipelineEventEmitter()
+    const received: PipelineEvent[] = []
+    events.on(event => received.push(event))
+    const writer = new DeterministicWriter(events.forPhase(7))
+    const path = join(dir, 'node.schema.ts')
+    const options = { type: 'schema' as const, banner: { source: 'metadata' } }
+
+    writer.writeFile(path, 'export const a = 1', options)
+    writer.writeFile(path, 'export const a = 1', options)
+    writeFileSync(path, 'edited by hand')
+    writer.writeFile(path, 'export const a = 1', { ...options, checkMode: true })
+
+    expect(received.map(event => [event.type, (event as any).phase, (event as any).path])).toEqual([
+      ['artifact:written', 7, path],
+      ['artifact:unchanged', 7, path],
+      ['artifact:drifted', 7, path],
+    ])
+  })
+})
+
+describe('createProgressRenderer', () => {
+  it('should print settled phases with their counts and diagnostics', () => {
+    let output = ''
+    const events = new PipelineEventEmitter()
+    events.on(createProgressRenderer({ write: text => { output += text } }))
+
+    events.emit({ type: 'pipeline:start', phases: [{ phase: 5, name: 'Phase 5' }, { phase: 6, name: 'Phase 6' }] })
+    events.emit({ type: 'phase:start', phase: 5, name: 'Phase 5' })
+    events.forPhase(5).emit({ type: 'file:parsed', file: 'a.form.yaml' })
+    events.forPhase(5).emit({ type: 'file:parsed', file: 'b.form.yaml' })
+    const diagnostic = { code: DiagnosticCodes.SourceMissing, severity: 'warning' as const, message: 'Missing', file: 'c.yaml' }
+    events.forPhase(5).emit({ type: 'diagnostic', diagnostic })
+    events.emit({ type: 'phase:end', phase: 5, name: 'Phase 5', result: phaseResult(5) })
+    events.emit({ type: 'phase:end', phase: 6, name: 'Phase 6', result: phaseResult(6), reused: true })
+    events.emit({ type: 'phase:end', phase: 7, name: 'Phase 7', result: phaseResult(7, { skipped: true, skipReason: 'Upstream phase 5 failed' }) })
+
+    expect(output).toBe([
+      '✅ Phase 5: Phase 5 (5ms, 2 files parsed)',
+      '  ⚠️  c.yaml: Missing [ACT0005]',
+      '⏭️  Phase 7: Phase 7 (skipped: Upstream phase 5 failed)',
+      '',
+    ].join('\n'))
+  })
+})
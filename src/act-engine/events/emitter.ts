@@ -0,0 +1,74 @@
+/**
+ * ✅ ENTELECHIA: Pipeline Event Emitter
+ *
+ * Delivers pipeline events to subscribers, synchronously and in emission order.
+ */
+
+import type {
+  PhaseEventSink,
+  PipelineEvent,
+  PipelineEventInit,
+  PipelineEventListener,
+  PipelineEventType,
+} from './types.js'
+
+/**
+ * Pipeline event emitter
+ *
+ * Pass one to `runActPipeline` (`options.events`) to observe a run:
+ *
+ *   const events = new PipelineEventEmitter()
+ *   events.on('artifact:written', event => reload(event.path))
+ */
+export class PipelineEventEmitter {
+  private listeners = new Set<PipelineEventListener>()
+
+  /**
+   * Subscribe to every event, or to the events of one type
+   *
+   * @returns Unsubscribe function
+   */
+  on(listener: PipelineEventListener): () => void
+  on<T extends PipelineEventType>(
+    type: T,
+    listener: (event: Extract<PipelineEvent, { type: T }>) => void
+  ): () => void
+  on(typeOrListener: PipelineEventType | PipelineEventListener, listener?: (event: any) => void): () => void {
+    const subscriber: PipelineEventListener = typeof typeOrListener === 'function'
+      ? typeOrListener
+      : event => {
+        if (event.type === typeOrListener) {
+          listener!(event)
+        }
+      }
+    this.listeners.add(subscriber)
+    return () => {
+      this.listeners.delete(subscriber)
+    }
+  }
+
+  /**
+   * Emit an event to every subscriber
+   *
+   * A throwing subscriber does not affect the run or the other subscribers.
+   */
+  emit(event: PipelineEventInit): void {
+    const stamped = { ...event, time: Date.now() } as PipelineEvent
+    for (const listener of this.listeners) {
+      try {
+        listener(stamped)
+      } catch {
+        // Observers cannot fail the pipeline
+      }
+    }
+  }
+
+  /**
+   * Get the event sink of a phase (events are attributed to the phase)
+   */
+  forPhase(phase: number): PhaseEventSink {
+    return {
+      emit: event => this.emit({ ...event, phase }),
+    }
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * ✅ ENTELECHIA: Pipeline Events
+ *
+ * Main entry point for observing pipeline runs.
+ */
+
+export { PipelineEventEmitter } from './emitter.js'
+export { createProgressRenderer, type ProgressRendererOptions } from './progress.js'
+export type {
+  PipelineEvent,
+  PipelineEventType,
+  PipelineEventInit,
+  PipelineEventListener,
+  PipelineStartEvent,
+  PhaseStartEvent,
+  PhaseEndEvent,
+  FileParsedEvent,
+  ArtifactEvent,
+  DiagnosticEvent,
+  PipelineEndEvent,
+  PhaseEventInit,
+  PhaseEventSink,
+} from './types.js'
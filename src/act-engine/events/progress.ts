@@ -0,0 +1,165 @@
+/**
+ * ✅ ENTELECHIA: Pipeline Progress Renderer
+ *
+ * Renders pipeline events as a progress view: one line per settled phase
+ * (with its file and artifact counts and diagnostics) and, on a terminal,
+ * a status line listing the phases still running. Phases reused by a
+ * partial run are not shown.
+ */
+
+import { formatDiagnostic, type Diagnostic } from '../diagnostics/index.js'
+import type { PipelineEvent, PipelineEventListener } from './types.js'
+
+export interface ProgressRendererOptions {
+  write?: (text: string) => void // Default: stdout
+  live?: boolean // Redraw a status line of the running phases (TTY only; default: false)
+}
+
+/**
+ * Counts of one phase's file and artifact events
+ */
+interface PhaseProgress {
+  parsed: number
+  written: number
+  unchanged: number
+  drifted: number
+  diagnostics: Diagnostic[] // Printed under the phase line when it settles
+}
+
+const CLEAR_LINE = '\r\x1b[K'
+
+/**
+ * Format a diagnostic as an indented progress line
+ */
+function formatDiagnosticLine(diagnostic: Diagnostic): string {
+  const icon = diagnostic.severity === 'error' ? '❌' : diagnostic.severity === 'warning' ? '⚠️ ' : 'ℹ️ '
+  return `  ${icon} ${formatDiagnostic(diagnostic).split('\n').join('\n     ')}`
+}
+
+/**
+ * Format the counts of a phase (`3 files parsed, 2 written`)
+ */
+function formatCounts(progress: PhaseProgress): string[] {
+  const counts: string[] = []
+  if (progress.parsed > 0) counts.push(`${progress.parsed} file${progress.parsed === 1 ? '' : 's'} parsed`)
+  if (progress.written > 0) counts.push(`${progress.written} written`)
+  if (progress.unchanged > 0) counts.push(`${progress.unchanged} unchanged`)
+  if (progress.drifted > 0) counts.push(`${progress.drifted} drifted`)
+  return counts
+}
+
+/**
+ * Create a listener rendering pipeline progress
+ */
+export function createProgressRenderer(options: ProgressRendererOptions = {}): PipelineEventListener {
+  const write = options.write ?? ((text: string) => { process.stdout.write(text) })
+  const running = new Map<number, string>() // Phase -> name
+  const progress = new Map<number, PhaseProgress>()
+  let statusShown = false
+
+  const phaseProgress = (phase: number): PhaseProgress => {
+    let entry = progress.get(phase)
+    if (!entry) {
+      entry = { parsed: 0, written: 0, unchanged: 0, drifted: 0, diagnostics: [] }
+      progress.set(phase, entry)
+    }
+    return entry
+  }
+
+  const clearStatus = (): void => {
+    if (statusShown) {
+      write(CLEAR_LINE)
+      statusShown = false
+    }
+  }
+
+  const drawStatus = (): void => {
+    if (!options.live || running.size === 0) {
+      clearStatus()
+      return
+    }
+    const phases = Array.from(running, ([phase, name]) => {
+      const counts = formatCounts(phaseProgress(phase))
+      return `${phase} ${name}${counts.length > 0 ? ` (${counts.join(', ')})` : ''}`
+    })
+    write(`${CLEAR_LINE}⏳ Running: ${phases.join(' | ')}`)
+    statusShown = true
+  }
+
+  const print = (line: string): void => {
+    clearStatus()
+    write(`${line}\n`)
+  }
+
+  return (event: PipelineEvent) => {
+    switch (event.type) {
+      case 'pipeline:start':
+        running.clear()
+        progress.clear()
+        break
+
+      case 'phase:start':
+        running.set(event.phase, event.name)
+        drawStatus()
+        break
+
+      case 'file:parsed':
+        if (event.phase !== undefined) {
+          phaseProgress(event.phase).parsed++
+          drawStatus()
+        }
+        break
+
+      case 'artifact:written':
+      case 'artifact:unchanged':
+      case 'artifact:drifted':
+        if (event.phase !== undefined) {
+          const entry = phaseProgress(event.phase)
+          if (event.type === 'artifact:written') entry.written++
+          else if (event.type === 'artifact:unchanged') entry.unchanged++
+          else entry.drifted++
+          drawStatus()
+        }
+        break
+
+      case 'diagnostic':
+        if (event.phase !== undefined) {
+          phaseProgress(event.phase).diagnostics.push(event.diagnostic)
+        } else {
+          print(formatDiagnosticLine(event.diagnostic))
+          drawStatus()
+        }
+        break
+
+      case 'phase:end': {
+        running.delete(event.phase)
+        const { result } = event
+        const entry = phaseProgress(event.phase)
+        progress.delete(event.phase)
+        if (event.reused) {
+          break
+        }
+        if (result.skipped) {
+          print(`⏭️  Phase ${event.phase}: ${event.name} (skipped: ${result.skipReason})`)
+        } else if (result.timedOut) {
+          print(`⏱️  Phase ${event.phase}: ${event.name} (timed out after ${result.duration}ms)`)
+        } else if (result.cancelled) {
+          print(`⛔ Phase ${event.phase}: ${event.name} (cancelled after ${result.duration}ms)`)
+        } else {
+          const details = [`${result.duration}ms`, ...(result.cached ? ['cached'] : []), ...formatCounts(entry)]
+          print(`${result.success ? '✅' : '❌'} Phase ${event.phase}: ${event.name} (${details.join(', ')})`)
+        }
+        for (const diagnostic of entry.diagnostics) {
+          print(formatDiagnosticLine(diagnostic))
+        }
+        drawStatus()
+        break
+      }
+
+      case 'pipeline:end':
+        running.clear()
+        clearStatus()
+        break
+    }
+  }
+}
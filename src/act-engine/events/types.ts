@@ -0,0 +1,120 @@
+/**
+ * ✅ ENTELECHIA: Pipeline Event Types
+ *
+ * Typed lifecycle events emitted while the pipeline runs, so embedders
+ * (dev servers, the CLI progress view) can observe a run before it finishes.
+ */
+
+import type { Diagnostic } from '../diagnostics/index.js'
+import type { PhaseResult, PipelineResult } from '../pipeline/types.js'
+import type { ArtifactProvenance, ArtifactType } from '../writers/deterministic-writer.js'
+import type { DiffLine } from '../writers/diff.js'
+
+/**
+ * Fields shared by every event
+ */
+interface PipelineEventBase {
+  time: number // Emission time (ms since epoch)
+}
+
+/**
+ * Run started (phases in report order)
+ */
+export interface PipelineStartEvent extends PipelineEventBase {
+  type: 'pipeline:start'
+  phases: Array<{ phase: number; name: string }>
+}
+
+/**
+ * Phase started running (not emitted for reused or skipped phases)
+ */
+export interface PhaseStartEvent extends PipelineEventBase {
+  type: 'phase:start'
+  phase: number
+  name: string
+}
+
+/**
+ * Phase settled with a result (ran, cached, reused from a previous run,
+ * skipped, cancelled or timed out)
+ */
+export interface PhaseEndEvent extends PipelineEventBase {
+  type: 'phase:end'
+  phase: number
+  name: string
+  result: PhaseResult
+  reused?: boolean // Result reused from `options.previous` (partial runs)
+}
+
+/**
+ * FORM source file parsed
+ */
+export interface FileParsedEvent extends PipelineEventBase {
+  type: 'file:parsed'
+  phase?: number
+  file: string
+}
+
+/**
+ * Artifact written, left unchanged or found drifted (check and dry-run modes)
+ */
+export interface ArtifactEvent extends PipelineEventBase {
+  type: 'artifact:written' | 'artifact:unchanged' | 'artifact:drifted'
+  phase?: number
+  path: string
+  artifactType: ArtifactType
+  diff?: DiffLine[] // Drifted: changes against the file on disk (timestamp lines ignored)
+  added?: boolean // Drifted: the artifact does not exist yet
+  provenance?: ArtifactProvenance // Generator, sources and content hash (recorded in act.lock.json)
+}
+
+/**
+ * Diagnostic reported by a phase (or by the pipeline itself)
+ */
+export interface DiagnosticEvent extends PipelineEventBase {
+  type: 'diagnostic'
+  phase?: number
+  diagnostic: Diagnostic
+}
+
+/**
+ * Run finished
+ */
+export interface PipelineEndEvent extends PipelineEventBase {
+  type: 'pipeline:end'
+  result: PipelineResult
+}
+
+export type PipelineEvent =
+  | PipelineStartEvent
+  | PhaseStartEvent
+  | PhaseEndEvent
+  | FileParsedEvent
+  | ArtifactEvent
+  | DiagnosticEvent
+  | PipelineEndEvent
+
+export type PipelineEventType = PipelineEvent['type']
+
+/**
+ * Event as passed to `emit` (the emitter stamps `time`)
+ */
+export type PipelineEventInit = PipelineEvent extends infer E
+  ? E extends PipelineEvent ? Omit<E, 'time'> : never
+  : never
+
+/**
+ * Event a phase can emit (the sink stamps `phase` and `time`)
+ */
+export type PhaseEventInit = Omit<FileParsedEvent, 'time' | 'phase'>
+  | Omit<ArtifactEvent, 'time' | 'phase'>
+  | Omit<DiagnosticEvent, 'time' | 'phase'>
+
+export type PipelineEventListener = (event: PipelineEvent) => void
+
+/**
+ * Event sink of a running phase (`PhaseContext.events`)
+ */
+export interface PhaseEventSink {
+  emit(event: PhaseEventInit): void
+}
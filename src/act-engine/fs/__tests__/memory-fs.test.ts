@@ -0,0 +1,56 @@
+/**
+ * ✅ ENTELECHIA: In-Memory File System Tests
+ *
+ * PROPERTIES TESTED:
+ * - Directories exist implicitly as parents of files
+ * - Reads fall back, writes never reach the fallback
+ * - Artifacts written through the deterministic writer stay in memory
+ */
+
+import { describe, it, expect } from 'vitest'
+import { MemoryFileSystem } from '../memory-fs.js'
+import { DeterministicWriter } from '../../writers/deterministic-writer.js'
+
+describe('MemoryFileSystem', () => {
+  it('should resolve files from the root and list directories', () => {
+    const fs = new MemoryFileSystem(
+      { 'forms/node.form.yaml': 'form: {}', 'forms/nested/edge.form.yaml': 'form: {}' },
+      { root: '/workspace' }
+    )
+
+    expect(fs.readFile('/workspace/forms/node.form.yaml')).toBe('form: {}')
+    expect(fs.isDirectory('/workspace/forms')).toBe(true)
+    expect(fs.exists('/workspace/forms/nested')).toBe(true)
+    expect(fs.readdir('/workspace/forms')).toEqual(['nested', 'node.form.yaml'])
+    expect(fs.exists('/workspace/missing.yaml')).toBe(false)
+    expect(() => fs.readFile('/workspace/missing.yaml')).toThrow(/ENOENT/)
+  })
+
+  it('should read through to the fallback and keep writes in memory', () => {
+    const disk = new MemoryFileSystem({ '/workspace/forms/node.form.yaml': 'on disk' })
+    const fs = new MemoryFileSystem({ '/workspace/forms/edge.form.yaml': 'buffer' }, { fallback: disk })
+
+    fs.writeFile('/workspace/forms/node.form.yaml', 'edited')
+
+    expect(fs.readFile('/workspace/forms/node.form.yaml')).toBe('edited')
+    expect(fs.readdir('/workspace/forms')).toEqual(['edge.form.yaml', 'node.form.yaml'])
+    expect(disk.readFile('/workspace/forms/node.form.yaml')).toBe('on disk')
+    expect(Array.from(fs.getWrittenFiles().keys())).toEqual(['/workspace/forms/node.form.yaml'])
+  })
+})
+
+describe('DeterministicWriter with a MemoryFileSystem', () => {
+  it('should write artifacts into memory and skip unchanged ones', () => {
+    const fs = new MemoryFileSystem()
+    const writer = new DeterministicWriter(undefined, fs)
+    const options = { banner: { source: 'YAML + metadata' }, type: 'form' as const }
+
+    const first = writer.writeFile('/out/forms/node.ts', 'export const node = 1\n', options)
+    const second = writer.writeFile('/out/forms/node.ts', 'export const node = 1\n', options)
+
+    expect(first.written).toBe(true)
+    expect(second.written).toBe(false)
+    expect(fs.isDirectory('/out/forms')).toBe(true)
+    expect(fs.getWrittenFiles().get('/out/forms/node.ts')).toContain('export const node = 1')
+  })
+})
@@ -0,0 +1,120 @@
+/**
+ * ✅ ENTELECHIA: Artifact Transaction Tests
+ *
+ * PROPERTIES TESTED:
+ * - Staged artifacts are readable but never on disk before commit
+ * - Commits move artifacts into place and back up the ones they overwrite
+ * - Pruned artifacts stay on disk until commit, then move to the backup
+ * - A failing commit restores every artifact committed before it
+ * - Discarding leaves disk untouched
+ * - Only the backups of the most recent runs are kept
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { ArtifactTransaction } from '../transaction.js'
+
+describe('ArtifactTransaction', () => {
+  let root: string
+  let transaction: ArtifactTransaction
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'act-transaction-'))
+    mkdirSync(join(root, 'out'))
+    writeFileSync(join(root, 'out', 'existing.ts'), 'old')
+    transaction = new ArtifactTransaction({
+      runId: 'run-1',
+      root,
+      stagingDir: join(root, '.cache', 'staging', 'run-1'),
+      backupDir: join(root, '.act', 'backups', 'run-1'),
+    })
+  })
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  it('should stage writes until commit, then back up overwritten artifacts', () => {
+    transaction.writeFile(join(root, 'out', 'existing.ts'), 'new')
+    transaction.writeFile(join(root, 'out', 'nested', 'created.ts'), 'created')
+
+    expect(transaction.readFile(join(root, 'out', 'existing.ts'))).toBe('new')
+    expect(transaction.readdir(join(root, 'out'))).toEqual(['existing.ts', 'nested'])
+    expect(readFileSync(join(root, 'out', 'existing.ts'), 'utf-8')).toBe('old')
+    expect(existsSync(join(root, 'out', 'nested'))).toBe(false)
+
+    const commit = transaction.commit()
+
+    expect(commit.files).toEqual([join(root, 'out', 'existing.ts'), join(root, 'out', 'nested', 'created.ts')])
+    expect(readFileSync(join(root, 'out', 'existing.ts'), 'utf-8')).toBe('new')
+    expect(readFileSync(join(root, 'out', 'nested', 'created.ts'), 'utf-8')).toBe('created')
+    expect(commit.backupDir).toBe(join(root, '.act', 'backups', 'run-1'))
+    expect(readFileSync(join(commit.backupDir!, 'out', 'existing.ts'), 'utf-8')).toBe('old')
+    expect(JSON.parse(readFileSync(join(commit.backupDir!, 'manifest.json'), 'utf-8')).files).toEqual([
+      { path: join(root, 'out', 'existing.ts'), backup: join(commit.backupDir!, 'out', 'existing.ts') },
+      { path: join(root, 'out', 'nested', 'created.ts') },
+    ])
+    expect(existsSync(join(root, '.cache', 'staging', 'run-1'))).toBe(false)
+    expect(() => transaction.writeFile(join(root, 'out', 'late.ts'), 'late')).toThrow(/already committed/)
+  })
+
+  it('should delete pruned artifacts on commit and keep them in the backup', () => {
+    transaction.deleteFile(join(root, 'out', 'existing.ts'))
+
+    expect(transaction.exists(join(root, 'out', 'existing.ts'))).toBe(false)
+    expect(transaction.readdir(join(root, 'out'))).toEqual([])
+    expect(existsSync(join(root, 'out', 'existing.ts'))).toBe(true)
+
+    const commit = transaction.commit()
+
+    expect(commit).toMatchObject({ files: [], deleted: [join(root, 'out', 'existing.ts')] })
+    expect(existsSync(join(root, 'out', 'existing.ts'))).toBe(false)
+    expect(readFileSync(join(commit.backupDir!, 'out', 'existing.ts'), 'utf-8')).toBe('old')
+    expect(JSON.parse(readFileSync(join(commit.backupDir!, 'manifest.json'), 'utf-8')).files).toEqual([
+      { path: join(root, 'out', 'existing.ts'), backup: join(commit.backupDir!, 'out', 'existing.ts'), deleted: true },
+    ])
+  })
+
+  it('should restore committed artifacts when a later one cannot be committed', () => {
+    transaction.writeFile(join(root, 'out', 'existing.ts'), 'new')
+    transaction.writeFile(join(root, 'out', 'zz', 'blocked.ts'), 'blocked')
+    // A file where the artifact's directory should be makes its rename fail
+    writeFileSync(join(root, 'out', 'zz'), 'not a directory')
+
+    expect(() => transaction.commit()).toThrow(/Commit of run run-1 failed, previous artifacts restored/)
+    expect(readFileSync(join(root, 'out', 'existing.ts'), 'utf-8')).toBe('old')
+    expect(existsSync(join(root, '.act', 'backups', 'run-1'))).toBe(false)
+  })
+
+  it('should leave disk untouched when discarded', () => {
+    transaction.writeFile(join(root, 'out', 'existing.ts'), 'new')
+
+    expect(transaction.discard()).toBe(1)
+    expect(readFileSync(join(root, 'out', 'existing.ts'), 'utf-8')).toBe('old')
+    expect(existsSync(join(root, '.cache', 'staging', 'run-1'))).toBe(false)
+    expect(existsSync(join(root, '.act'))).toBe(false)
+  })
+
+  it('should keep only the backups of the most recent runs', () => {
+    const backups = join(root, '.act', 'backups')
+    for (const runId of ['run-0a', 'run-0b']) {
+      mkdirSync(join(backups, runId), { recursive: true })
+      writeFileSync(join(backups, runId, 'manifest.json'), '{}')
+    }
+    mkdirSync(join(backups, 'notes'))
+    transaction = new ArtifactTransaction({
+      runId: 'run-1',
+      root,
+      stagingDir: join(root, '.cache', 'staging', 'run-1'),
+      backupDir: join(backups, 'run-1'),
+      backupRetention: 2,
+    })
+    transaction.writeFile(join(root, 'out', 'existing.ts'), 'new')
+
+    transaction.commit()
+
+    expect(readdirSync(backups).sort()).toEqual(['notes', 'run-0b', 'run-1'])
+  })
+})
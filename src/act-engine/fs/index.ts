@@ -0,0 +1,16 @@
+/**
+ * ✅ ENTELECHIA: File System
+ *
+ * Main entry point for the file system abstraction (real, in-memory or staged).
+ */
+
+export { nodeFileSystem, getFileSystem } from './node-fs.js'
+export { MemoryFileSystem, type MemoryFileSystemOptions } from './memory-fs.js'
+export {
+  ArtifactTransaction,
+  type ArtifactTransactionOptions,
+  type ArtifactCommit,
+  type ArtifactBackupEntry,
+} from './transaction.js'
+export { JournalingFileSystem, getOriginalFileSystem, getTargetFileSystem } from './journal.js'
+export type { ActFileSystem } from './types.js'
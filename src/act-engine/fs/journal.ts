@@ -0,0 +1,94 @@
+/**
+ * ✅ ENTELECHIA: Journaling File System
+ *
+ * Writes straight through, remembering what each file held before the run
+ * first changed it, so the run can still compare artifacts with what they
+ * were (drift of hand-edited artifacts) after overwriting them.
+ */
+
+import { resolve } from 'path'
+import { MemoryFileSystem } from './memory-fs.js'
+import { nodeFileSystem } from './node-fs.js'
+import { ArtifactTransaction } from './transaction.js'
+import type { ActFileSystem } from './types.js'
+
+/**
+ * File system journaling the original content of the files it changes
+ */
+export class JournalingFileSystem implements ActFileSystem {
+  private readonly journal = new Map<string, string | undefined>() // Absolute path -> content before the first change (undefined: did not exist)
+
+  constructor(readonly target: ActFileSystem) {}
+
+  readFile(path: string): string {
+    return this.target.readFile(path)
+  }
+
+  exists(path: string): boolean {
+    return this.target.exists(path)
+  }
+
+  isDirectory(path: string): boolean {
+    return this.target.isDirectory(path)
+  }
+
+  readdir(path: string): string[] {
+    return this.target.readdir(path)
+  }
+
+  writeFile(path: string, content: string): void {
+    this.record(path)
+    this.target.writeFile(path, content)
+  }
+
+  deleteFile(path: string): void {
+    this.record(path)
+    this.target.deleteFile(path)
+  }
+
+  /**
+   * Get the files as they were before the first change (a read-only view)
+   */
+  getOriginals(): ActFileSystem {
+    const originals = new MemoryFileSystem({}, { fallback: this.target })
+    for (const [path, content] of this.journal) {
+      if (content !== undefined) {
+        originals.writeFile(path, content)
+      } else if (this.target.exists(path)) {
+        originals.deleteFile(path)
+      }
+    }
+    return originals
+  }
+
+  private record(path: string): void {
+    const absolute = resolve(path)
+    if (!this.journal.has(absolute)) {
+      const existed = this.target.exists(absolute) && !this.target.isDirectory(absolute)
+      this.journal.set(absolute, existed ? this.target.readFile(absolute) : undefined)
+    }
+  }
+}
+
+/**
+ * Get the files of a run as they were before it changed them
+ *
+ * Staged artifacts are not on disk yet and journaled changes are undone;
+ * other file systems are returned as they are (check and dry runs change nothing).
+ */
+export function getOriginalFileSystem(fs: ActFileSystem): ActFileSystem {
+  if (fs instanceof ArtifactTransaction) {
+    return nodeFileSystem
+  }
+  if (fs instanceof JournalingFileSystem) {
+    return fs.getOriginals()
+  }
+  return fs
+}
+
+/**
+ * Get the file system a run ultimately reads from and writes to (unwraps journaling)
+ */
+export function getTargetFileSystem(fs: ActFileSystem): ActFileSystem {
+  return fs instanceof JournalingFileSystem ? fs.target : fs
+}
@@ -0,0 +1,154 @@
+/**
+ * ✅ ENTELECHIA: In-Memory File System
+ *
+ * Runs the pipeline without touching disk: FORM files are passed in,
+ * artifacts are collected as a map of path → content (golden tests,
+ * editor previews).
+ */
+
+import { join, resolve, sep } from 'path'
+import type { ActFileSystem } from './types.js'
+
+export interface MemoryFileSystemOptions {
+  root?: string // Relative paths of `files` resolve from here (default: /)
+  fallback?: ActFileSystem // Read paths not in memory from here (e.g. the real file system under unsaved editor buffers)
+}
+
+/**
+ * In-memory file system
+ *
+ * Directories exist implicitly as parents of files. Writes and deletes
+ * never reach `fallback`.
+ *
+ *   const fs = new MemoryFileSystem({ 'ui/forms/node.form.yaml': yaml }, { root: workspaceRoot })
+ *   await runActPipeline(contracts, { ...config, fs })
+ *   fs.getWrittenFiles() // Map of artifact path → content
+ */
+export class MemoryFileSystem implements ActFileSystem {
+  private readonly root: string
+  private readonly fallback?: ActFileSystem
+  private files = new Map<string, string>() // Absolute path -> content
+  private written = new Map<string, string>() // Absolute path -> content
+  private deleted = new Set<string>() // Absolute paths (hide the fallback's files)
+
+  constructor(files: Record<string, string> | Map<string, string> = {}, options: MemoryFileSystemOptions = {}) {
+    this.root = resolve(options.root ?? sep)
+    this.fallback = options.fallback
+    const entries = files instanceof Map ? files.entries() : Object.entries(files)
+    for (const [path, content] of entries) {
+      this.files.set(resolve(this.root, path), content)
+    }
+  }
+
+  readFile(path: string): string {
+    const content = this.files.get(resolve(path))
+    if (content !== undefined) {
+      return content
+    }
+    if (!this.deleted.has(resolve(path)) && this.fallback?.exists(path)) {
+      return this.fallback.readFile(path)
+    }
+    throw notFound(path)
+  }
+
+  exists(path: string): boolean {
+    return this.isFile(path) || this.isDirectory(path)
+  }
+
+  isDirectory(path: string): boolean {
+    const prefix = withTrailingSeparator(resolve(path))
+    for (const file of this.files.keys()) {
+      if (file.startsWith(prefix)) {
+        return true
+      }
+    }
+    return this.fallback?.isDirectory(path) === true
+  }
+
+  readdir(path: string): string[] {
+    if (!this.isDirectory(path)) {
+      throw notFound(path)
+    }
+
+    const prefix = withTrailingSeparator(resolve(path))
+    const entries = new Set<string>()
+    for (const file of this.files.keys()) {
+      if (file.startsWith(prefix)) {
+        entries.add(file.slice(prefix.length).split(sep)[0])
+      }
+    }
+    if (this.fallback?.isDirectory(path)) {
+      for (const entry of this.fallback.readdir(path)) {
+        if (!this.deleted.has(join(prefix, entry))) {
+          entries.add(entry)
+        }
+      }
+    }
+    return Array.from(entries).sort()
+  }
+
+  writeFile(path: string, content: string): void {
+    const absolute = resolve(path)
+    if (this.isDirectory(absolute)) {
+      throw new Error(`EISDIR: illegal operation on a directory, open '${path}'`)
+    }
+    this.files.set(absolute, content)
+    this.written.set(absolute, content)
+    this.deleted.delete(absolute)
+  }
+
+  deleteFile(path: string): void {
+    if (!this.isFile(path)) {
+      throw notFound(path)
+    }
+    const absolute = resolve(path)
+    this.files.delete(absolute)
+    this.written.delete(absolute)
+    this.deleted.add(absolute)
+  }
+
+  /**
+   * Get the files written so far (absolute path → content, sorted by path)
+   */
+  getWrittenFiles(): Map<string, string> {
+    return new Map(Array.from(this.written).sort(([a], [b]) => a.localeCompare(b)))
+  }
+
+  /**
+   * Get the files deleted so far (absolute paths, sorted)
+   */
+  getDeletedFiles(): string[] {
+    return Array.from(this.deleted).sort()
+  }
+
+  /**
+   * Get every file held in memory (inputs and written files)
+   */
+  getFiles(): Map<string, string> {
+    return new Map(this.files)
+  }
+
+  private isFile(path: string): boolean {
+    const absolute = resolve(path)
+    if (this.files.has(absolute)) {
+      return true
+    }
+    return !this.deleted.has(absolute) && this.fallback?.exists(path) === true && !this.fallback.isDirectory(path)
+  }
+}
+
+/**
+ * Ensure a directory path ends with a separator (`/a/b` → `/a/b/`)
+ */
+function withTrailingSeparator(path: string): string {
+  return path.endsWith(sep) ? path : path + sep
+}
+
+/**
+ * Error thrown for missing paths (mirrors Node's ENOENT)
+ */
+function notFound(path: string): Error {
+  const error = new Error(`ENOENT: no such file or directory, open '${path}'`) as Error & { code: string }
+  error.code = 'ENOENT'
+  return error
+}
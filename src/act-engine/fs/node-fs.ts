@@ -0,0 +1,29 @@
+/**
+ * ✅ ENTELECHIA: Node File System
+ *
+ * The real file system (default for every run).
+ */
+
+import { existsSync, mkdirSync, readFileSync, readdirSync, statSync, unlinkSync, writeFileSync } from 'fs'
+import { dirname } from 'path'
+import type { ActEngineConfig } from '../pipeline/types.js'
+import type { ActFileSystem } from './types.js'
+
+export const nodeFileSystem: ActFileSystem = {
+  readFile: path => readFileSync(path, 'utf-8'),
+  exists: path => existsSync(path),
+  isDirectory: path => existsSync(path) && statSync(path).isDirectory(),
+  readdir: path => readdirSync(path).sort(),
+  writeFile: (path, content) => {
+    mkdirSync(dirname(path), { recursive: true })
+    writeFileSync(path, content, 'utf-8')
+  },
+  deleteFile: path => unlinkSync(path),
+}
+
+/**
+ * Get the file system of a run (`config.fs`, default: the real file system)
+ */
+export function getFileSystem(config: Pick<ActEngineConfig, 'fs'>): ActFileSystem {
+  return config.fs ?? nodeFileSystem
+}
@@ -0,0 +1,233 @@
+/**
+ * ✅ ENTELECHIA: Artifact Transaction
+ *
+ * Stages the artifacts of a run (and the ones it prunes) and commits them all
+ * at once, so a run that fails halfway never leaves a mix of old and new
+ * STATE on disk.
+ */
+
+import { existsSync, mkdirSync, readdirSync, renameSync, rmSync, writeFileSync } from 'fs'
+import { dirname, isAbsolute, join, relative } from 'path'
+import { MemoryFileSystem } from './memory-fs.js'
+import { nodeFileSystem } from './node-fs.js'
+import type { ActFileSystem } from './types.js'
+
+export interface ArtifactTransactionOptions {
+  runId: string
+  root: string // Workspace root: staged files and backups mirror their path relative to it
+  stagingDir: string // Staged artifacts (on the volume of the outputs, so commits are renames)
+  backupDir: string // Originals of overwritten and pruned artifacts
+  keepBackups?: boolean // Keep backupDir after a successful commit (default: true)
+  backupRetention?: number // Backups of the most recent runs kept next to backupDir after a commit (default: all)
+}
+
+/**
+ * Artifacts committed by a run
+ */
+export interface ArtifactCommit {
+  runId: string
+  files: string[] // Committed artifact paths (sorted)
+  deleted: string[] // Pruned artifact paths (sorted)
+  backupDir?: string // Originals of the overwritten and pruned artifacts, with a manifest.json (when kept)
+}
+
+/**
+ * Entry of a backup manifest (`<backupDir>/manifest.json`)
+ */
+export interface ArtifactBackupEntry {
+  path: string // Artifact path
+  backup?: string // Where the original was moved (absent: the run created the artifact)
+  deleted?: boolean // The run pruned the artifact
+}
+
+/**
+ * File system staging every write until `commit`
+ *
+ * Reads see staged artifacts, so later phases read what earlier phases
+ * generated. `commit` moves each overwritten or pruned artifact to
+ * `backupDir`, then renames its staged version into place; if a rename
+ * fails, every artifact committed so far is restored. `discard` drops the staged artifacts and
+ * leaves disk untouched.
+ */
+export class ArtifactTransaction implements ActFileSystem {
+  private readonly staged: MemoryFileSystem
+  private closed = false
+
+  constructor(private readonly options: ArtifactTransactionOptions) {
+    this.staged = new MemoryFileSystem({}, { fallback: nodeFileSystem })
+  }
+
+  get runId(): string {
+    return this.options.runId
+  }
+
+  readFile(path: string): string {
+    return this.staged.readFile(path)
+  }
+
+  exists(path: string): boolean {
+    return this.staged.exists(path)
+  }
+
+  isDirectory(path: string): boolean {
+    return this.staged.isDirectory(path)
+  }
+
+  readdir(path: string): string[] {
+    return this.staged.readdir(path)
+  }
+
+  writeFile(path: string, content: string): void {
+    this.assertOpen(`write ${path}`)
+    this.staged.writeFile(path, content)
+    nodeFileSystem.writeFile(this.mirror(this.options.stagingDir, path), content)
+  }
+
+  deleteFile(path: string): void {
+    this.assertOpen(`delete ${path}`)
+    this.staged.deleteFile(path)
+    rmSync(this.mirror(this.options.stagingDir, path), { force: true })
+  }
+
+  /**
+   * Get the staged artifact paths (sorted)
+   */
+  getStagedFiles(): string[] {
+    return Array.from(this.staged.getWrittenFiles().keys())
+  }
+
+  /**
+   * Get the artifact paths deleted on commit (sorted)
+   */
+  getDeletedFiles(): string[] {
+    return this.staged.getDeletedFiles()
+  }
+
+  /**
+   * Move the staged artifacts into place
+   *
+   * @throws Error when an artifact cannot be committed (the previous STATE is restored first)
+   */
+  commit(): ArtifactCommit {
+    this.close()
+    const { runId, stagingDir, backupDir } = this.options
+    const files = this.getStagedFiles()
+    const deleted = this.getDeletedFiles().filter(path => existsSync(path))
+    const applied: ArtifactBackupEntry[] = []
+
+    try {
+      for (const path of deleted) {
+        const backup = this.mirror(backupDir, path)
+        mkdirSync(dirname(backup), { recursive: true })
+        renameSync(path, backup)
+        applied.push({ path, backup, deleted: true })
+      }
+      for (const path of files) {
+        const entry: ArtifactBackupEntry = { path }
+        if (existsSync(path)) {
+          entry.backup = this.mirror(backupDir, path)
+          mkdirSync(dirname(entry.backup), { recursive: true })
+          renameSync(path, entry.backup)
+        }
+        applied.push(entry)
+        mkdirSync(dirname(path), { recursive: true })
+        renameSync(this.mirror(stagingDir, path), path)
+      }
+    } catch (error: any) {
+      const unrestored = restore(applied)
+      rmSync(stagingDir, { recursive: true, force: true })
+      if (unrestored.length === 0) {
+        rmSync(backupDir, { recursive: true, force: true })
+      }
+      const kept = unrestored.length > 0 ? ` (could not restore ${unrestored.join(', ')}; originals are in ${backupDir})` : ''
+      throw new Error(`Commit of run ${runId} failed, previous artifacts restored${kept}: ${error.message}`)
+    }
+
+    rmSync(stagingDir, { recursive: true, force: true })
+    const hasBackups = applied.some(entry => entry.backup)
+    if (!hasBackups || this.options.keepBackups === false) {
+      rmSync(backupDir, { recursive: true, force: true })
+      return { runId, files, deleted }
+    }
+
+    writeFileSync(join(backupDir, 'manifest.json'), `${JSON.stringify({ runId, files: applied }, null, 2)}\n`, 'utf-8')
+    this.pruneBackups()
+    return { runId, files, deleted, backupDir }
+  }
+
+  /**
+   * Delete the backups of older runs beyond `backupRetention`
+   *
+   * Backups are the directories next to backupDir holding a manifest.json;
+   * run IDs start with their timestamp, so they sort oldest first.
+   */
+  private pruneBackups(): void {
+    const { backupDir, backupRetention } = this.options
+    if (backupRetention === undefined) {
+      return
+    }
+    const root = dirname(backupDir)
+    const runs = readdirSync(root)
+      .filter(entry => existsSync(join(root, entry, 'manifest.json')))
+      .sort()
+    for (const entry of runs.slice(0, Math.max(0, runs.length - backupRetention))) {
+      rmSync(join(root, entry), { recursive: true, force: true })
+    }
+  }
+
+  /**
+   * Drop the staged artifacts (disk keeps its previous STATE)
+   *
+   * @returns Number of artifacts discarded
+   */
+  discard(): number {
+    this.close()
+    rmSync(this.options.stagingDir, { recursive: true, force: true })
+    return this.getStagedFiles().length
+  }
+
+  private close(): void {
+    this.assertOpen()
+    this.closed = true
+  }
+
+  private assertOpen(action?: string): void {
+    if (this.closed) {
+      const detail = action ? ` (cannot ${action})` : ''
+      throw new Error(`Run ${this.options.runId} is already committed or discarded${detail}`)
+    }
+  }
+
+  /**
+   * Path of an artifact under a staging or backup directory
+   */
+  private mirror(dir: string, path: string): string {
+    const relativePath = relative(this.options.root, path)
+    if (relativePath.startsWith('..') || isAbsolute(relativePath)) {
+      return join(dir, '_external', path.replace(/^[a-zA-Z]:/, ''))
+    }
+    return join(dir, relativePath)
+  }
+}
+
+/**
+ * Undo committed artifacts, most recent first
+ *
+ * @returns Paths whose original could not be put back
+ */
+function restore(applied: readonly ArtifactBackupEntry[]): string[] {
+  const unrestored: string[] = []
+  for (const entry of [...applied].reverse()) {
+    try {
+      if (existsSync(entry.path)) {
+        rmSync(entry.path)
+      }
+      if (entry.backup) {
+        renameSync(entry.backup, entry.path)
+      }
+    } catch {
+      unrestored.push(entry.path)
+    }
+  }
+  return unrestored
+}
@@ -0,0 +1,19 @@
+/**
+ * ✅ ENTELECHIA: File System Types
+ *
+ * The file access the engine needs: FORM reads, artifact writes and pruning.
+ */
+
+/**
+ * File system used by the manifests, phases, loaders and writer
+ *
+ * Paths are absolute. Content is UTF-8.
+ */
+export interface ActFileSystem {
+  readFile(path: string): string // Throws when the file does not exist
+  exists(path: string): boolean // File or directory
+  isDirectory(path: string): boolean // false when missing
+  readdir(path: string): string[] // Entry names, sorted (throws when the directory does not exist)
+  writeFile(path: string, content: string): void // Creates missing parent directories
+  deleteFile(path: string): void // Throws when the file does not exist
+}
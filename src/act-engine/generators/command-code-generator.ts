@@ -25,8 +25,6 @@ export function generateCommandsCode(
   lines.push(' * ')
   lines.push(' * Generated from commands.yaml - DO NOT EDIT MANUALLY')
   lines.push(' * ')
-  lines.push(` * Generated: ${new Date().toISOString()}`)
-  lines.push(' * ')
   lines.push(' * This file is STATE - it is generated from FORM.')
   lines.push(' * Any manual edits will be overwritten.')
   lines.push(' */')
@@ -142,8 +140,6 @@ export function generateHotkeysCode(
   lines.push(' * ')
   lines.push(' * Generated from commands.yaml - DO NOT EDIT MANUALLY')
   lines.push(' * ')
-  lines.push(` * Generated: ${new Date().toISOString()}`)
-  lines.push(' * ')
   lines.push(' * This file is STATE - it is generated from FORM.')
   lines.push(' * Any manual edits will be overwritten.')
   lines.push(' */')
@@ -6,7 +6,6 @@
  * PRINCIPLE: Deterministic generation of canonical form descriptors.
  */
 
-import { readFileSync, existsSync, readdirSync } from 'fs'
 import { join } from 'path'
 import type { ContractDefinition } from '@entelechia/contracts/contracts/metadata/types'
 import { FormYamlSchema } from '../../forms/yaml-schema.js'
@@ -14,26 +13,9 @@ import { validateFormYaml } from '../../forms/validator.js'
 import { canonicalizeForm, type CanonicalFormDescriptor } from '../../forms/canonicalizer.js'
 import { checkFormLayoutInvariants } from '../../forms/invariants.js'
 import { validateFormInvariants } from '../../forms/invariant-validator.js'
-
-/**
- * Parse YAML file
- * 
- * Requires 'yaml' package: npm install yaml
- */
-async function parseYaml(content: string): Promise<any> {
-  try {
-    // Dynamic import for ESM compatibility
-    const yaml = await import('yaml')
-    return yaml.parse(content)
-  } catch (error: any) {
-    if (error.code === 'MODULE_NOT_FOUND') {
-      throw new Error(
-        'YAML parsing requires "yaml" package. Install with: npm install yaml'
-      )
-    }
-    throw error
-  }
-}
+import { DiagnosticCodes, DiagnosticError, diagnosticsFromError } from '../diagnostics/index.js'
+import { loadYamlSource } from '../../yaml/index.js'
+import { nodeFileSystem, type ActFileSystem } from '../fs/index.js'
 
 /**
  * Generate form descriptor code
@@ -41,32 +23,36 @@ async function parseYaml(content: string): Promise<any> {
  * @param contract Contract metadata
  * @param yamlDir Directory containing YAML files
  * @param outputDir Output directory for generated files
+ * @param fs File system the YAML is read from
  * @returns Generated file paths
  */
 export async function generateFormCode(
   contract: ContractDefinition,
   yamlDir: string,
-  outputDir: string
+  outputDir: string,
+  fs: ActFileSystem = nodeFileSystem
 ): Promise<{ path: string; content: string }[]> {
   const generatedFiles: { path: string; content: string }[] = []
 
   // Find all YAML files for this contract
-  const yamlFiles = findYamlFilesForContract(yamlDir, contract.name)
+  const yamlFiles = findYamlFilesForContract(yamlDir, contract.name, fs)
 
   for (const yamlFile of yamlFiles) {
     try {
-      // Load and parse YAML
-      const yamlContent = readFileSync(yamlFile, 'utf-8')
-      const yamlData = await parseYaml(yamlContent)
-      const formYaml = FormYamlSchema.parse(yamlData)
+      // Load and parse YAML (errors carry source positions)
+      const source = loadYamlSource(yamlFile, fs)
+      const formYaml = source.validate(FormYamlSchema)
 
       // Validate against metadata (STRICT: fail hard on any error)
       try {
         validateFormYaml(formYaml, contract)
       } catch (error: any) {
-        throw new Error(
-          `Form YAML validation failed for ${contract.name} from ${yamlFile}: ${error.message}`
-        )
+        throw new DiagnosticError(source.locateAll(diagnosticsFromError(
+          error,
+          DiagnosticCodes.FormValidation,
+          `Form YAML validation failed for ${contract.name}`,
+          { file: yamlFile }
+        )))
       }
 
       // Canonicalize (STRICT: fail hard on any error)
@@ -105,6 +91,10 @@ export async function generateFormCode(
         content: tsCode,
       })
     } catch (error: any) {
+      // Located errors already name their file
+      if (error instanceof DiagnosticError) {
+        throw error
+      }
       throw new Error(
         `Failed to generate form code for ${contract.name} from ${yamlFile}: ${error.message}`
       )
@@ -119,21 +109,21 @@ export async function generateFormCode(
  * 
  * Looks for files matching: <contract>.<variant>.form.yaml
  */
-function findYamlFilesForContract(yamlDir: string, contractName: string): string[] {
-  if (!existsSync(yamlDir)) {
+function findYamlFilesForContract(yamlDir: string, contractName: string, fs: ActFileSystem): string[] {
+  if (!fs.exists(yamlDir)) {
     return []
   }
 
   const files: string[] = []
-  const entries = readdirSync(yamlDir, { withFileTypes: true })
+  const entries = fs.readdir(yamlDir)
 
   for (const entry of entries) {
-    if (entry.isFile() && entry.name.endsWith('.form.yaml')) {
+    if (entry.endsWith('.form.yaml') && !fs.isDirectory(join(yamlDir, entry))) {
       // Check if it starts with contract name
-      const baseName = entry.name.replace('.form.yaml', '')
+      const baseName = entry.replace('.form.yaml', '')
       const parts = baseName.split('.')
       if (parts[0] === contractName) {
-        files.push(join(yamlDir, entry.name))
+        files.push(join(yamlDir, entry))
       }
     }
   }
@@ -158,7 +148,6 @@ function generateFormDescriptorCode(
   lines.push(' * ')
   lines.push(` * Contract: ${descriptor.contract}`)
   lines.push(` * Variant: ${descriptor.variant}`)
-  lines.push(` * Generated: ${new Date().toISOString()}`)
   lines.push(' */')
   lines.push('')
   lines.push('export interface CanonicalFormDescriptor {')
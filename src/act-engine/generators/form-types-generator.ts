@@ -11,8 +11,8 @@
  * - STATE: Generated UI types file
  */
 
-import { readFileSync, existsSync } from 'fs'
 import { join } from 'path'
+import { nodeFileSystem, type ActFileSystem } from '../fs/index.js'
 
 /**
  * Generate UI types from backend FORM types
@@ -22,14 +22,15 @@ import { join } from 'path'
  */
 export function generateFormTypes(
   backendCanonicalizerPath: string,
-  outputPath: string
+  outputPath: string,
+  fs: ActFileSystem = nodeFileSystem
 ): { path: string; content: string } {
   // Read backend canonicalizer to extract types
-  if (!existsSync(backendCanonicalizerPath)) {
+  if (!fs.exists(backendCanonicalizerPath)) {
     throw new Error(`Canonicalizer file not found: ${backendCanonicalizerPath}`)
   }
 
-  const canonicalizerContent = readFileSync(backendCanonicalizerPath, 'utf-8')
+  const canonicalizerContent = fs.readFile(backendCanonicalizerPath)
 
   // Build the generated types file
   const lines: string[] = []
@@ -41,7 +42,6 @@ export function generateFormTypes(
   lines.push(' * Generated from backend FORM - DO NOT EDIT MANUALLY')
   lines.push(' * ')
   lines.push(' * Source: entelechia-core/src/forms/canonicalizer.ts')
-  lines.push(` * Generated: ${new Date().toISOString()}`)
   lines.push(' */')
   lines.push('')
   lines.push('')
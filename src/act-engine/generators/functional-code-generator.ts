@@ -27,7 +27,6 @@ export function generateFunctionalFormDescriptorCode(
   lines.push(' * ')
   lines.push(` * Contract: ${functionalDescriptor.contract}`)
   lines.push(` * Variant: ${functionalDescriptor.variant}`)
-  lines.push(` * Generated: ${new Date().toISOString()}`)
   lines.push(' * ')
   lines.push(' * This file is STATE - it is generated from FORM.')
   lines.push(' * Any manual edits will be overwritten.')
@@ -22,8 +22,6 @@ export function generateTelemetryCode(
   lines.push(' * ✅ ENTELECHIA: Telemetry Descriptors')
   lines.push(' * ')
   lines.push(' * Generated from telemetry/*.yaml - DO NOT EDIT MANUALLY')
-  lines.push(' * ')
-  lines.push(` * Generated: ${new Date().toISOString()}`)
   lines.push(' */')
   lines.push('')
   lines.push('import type { CanonicalTelemetryDescriptor } from "@entelechia/act-engine/instrumentation/telemetry-canonicalizer"')
@@ -64,8 +62,6 @@ export function generateDevToolsCode(
   lines.push(' * ✅ ENTELECHIA: DevTools Descriptors')
   lines.push(' * ')
   lines.push(' * Generated from devtools/*.yaml - DO NOT EDIT MANUALLY')
-  lines.push(' * ')
-  lines.push(` * Generated: ${new Date().toISOString()}`)
   lines.push(' */')
   lines.push('')
   lines.push('import type { CanonicalDevToolsDescriptor } from "@entelechia/act-engine/instrumentation/devtools-canonicalizer"')
@@ -106,8 +102,6 @@ export function generateUXFidelityCode(
   lines.push(' * ✅ ENTELECHIA: UX Fidelity Descriptors')
   lines.push(' * ')
   lines.push(' * Generated from ux/*.yaml - DO NOT EDIT MANUALLY')
-  lines.push(' * ')
-  lines.push(` * Generated: ${new Date().toISOString()}`)
   lines.push(' */')
   lines.push('')
   lines.push('import type { CanonicalUXFidelityDescriptor } from "@entelechia/act-engine/instrumentation/ux-canonicalizer"')
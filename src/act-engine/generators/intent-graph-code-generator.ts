@@ -21,8 +21,6 @@ export function generateIntentGraphCode(
   lines.push(' * ')
   lines.push(' * Generated from intent-graph/*.yaml - DO NOT EDIT MANUALLY')
   lines.push(' * ')
-  lines.push(` * Generated: ${new Date().toISOString()}`)
-  lines.push(' * ')
   lines.push(' * This file is STATE - it is generated from FORM.')
   lines.push(' * Any manual edits will be overwritten.')
   lines.push(' */')
@@ -36,7 +36,6 @@ export function generateInvariantMapping(
   lines.push(' * Generated from invariant engine FORM - DO NOT EDIT MANUALLY')
   lines.push(' * ')
   lines.push(' * Source: packages/invariant-engine/src/core/registry.ts')
-  lines.push(` * Generated: ${new Date().toISOString()}`)
   lines.push(' * ')
   lines.push(' * This file provides UI-friendly access to invariant metadata.')
   lines.push(' * All invariant IDs and categories come from canonical FORM.')
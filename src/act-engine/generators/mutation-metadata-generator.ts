@@ -26,8 +26,6 @@ export function generateMutationMetadataCode(
   lines.push(' * ')
   lines.push(' * Generated from IntentGraph - DO NOT EDIT MANUALLY')
   lines.push(' * ')
-  lines.push(` * Generated: ${new Date().toISOString()}`)
-  lines.push(' * ')
   lines.push(' * This file is STATE - it is generated from FORM (IntentGraph).')
   lines.push(' * UI consumes this metadata to create mutations.')
   lines.push(' * ')
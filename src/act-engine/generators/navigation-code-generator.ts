@@ -26,16 +26,18 @@ import {
   loadDashboardMetadata,
   loadInvariantMetadata,
 } from '../../navigation/metadata/loader.js'
+import { nodeFileSystem, type ActFileSystem } from '../fs/index.js'
 
 /**
  * Generate UI Realms code
  */
 export async function generateUIRealmsCode(
   yamlPath: string,
-  outputPath: string
+  outputPath: string,
+  fs: ActFileSystem = nodeFileSystem
 ): Promise<{ path: string; content: string }> {
   // Load metadata
-  const metadata = await loadUIRealmsMetadata(yamlPath)
+  const metadata = await loadUIRealmsMetadata(yamlPath, fs)
 
   // Generate TypeScript code
   const tsCode = generateUIRealmsTypeScript(metadata)
@@ -51,10 +53,11 @@ export async function generateUIRealmsCode(
  */
 export async function generateNavigationShellsCode(
   yamlPath: string,
-  outputPath: string
+  outputPath: string,
+  fs: ActFileSystem = nodeFileSystem
 ): Promise<{ path: string; content: string }> {
   // Load metadata
-  const metadata = await loadNavigationShellsMetadata(yamlPath)
+  const metadata = await loadNavigationShellsMetadata(yamlPath, fs)
 
   // Generate TypeScript code
   const tsCode = generateNavigationShellsTypeScript(metadata)
@@ -70,10 +73,11 @@ export async function generateNavigationShellsCode(
  */
 export async function generateNodeDetailSectionsCode(
   yamlPath: string,
-  outputPath: string
+  outputPath: string,
+  fs: ActFileSystem = nodeFileSystem
 ): Promise<{ path: string; content: string }> {
   // Load metadata
-  const metadata = await loadNodeDetailSectionsMetadata(yamlPath)
+  const metadata = await loadNodeDetailSectionsMetadata(yamlPath, fs)
 
   // Generate TypeScript code
   const tsCode = generateNodeDetailSectionsTypeScript(metadata)
@@ -89,10 +93,11 @@ export async function generateNodeDetailSectionsCode(
  */
 export async function generateChatLayoutCode(
   yamlPath: string,
-  outputPath: string
+  outputPath: string,
+  fs: ActFileSystem = nodeFileSystem
 ): Promise<{ path: string; content: string }> {
   // Load metadata
-  const metadata = await loadChatLayoutMetadata(yamlPath)
+  const metadata = await loadChatLayoutMetadata(yamlPath, fs)
 
   // Generate TypeScript code
   const tsCode = generateChatLayoutTypeScript(metadata)
@@ -108,10 +113,11 @@ export async function generateChatLayoutCode(
  */
 export async function generateWorkspaceSidebarCode(
   yamlPath: string,
-  outputPath: string
+  outputPath: string,
+  fs: ActFileSystem = nodeFileSystem
 ): Promise<{ path: string; content: string }> {
   // Load metadata
-  const metadata = await loadWorkspaceSidebarMetadata(yamlPath)
+  const metadata = await loadWorkspaceSidebarMetadata(yamlPath, fs)
 
   // Generate TypeScript code
   const tsCode = generateWorkspaceSidebarTypeScript(metadata)
@@ -127,10 +133,11 @@ export async function generateWorkspaceSidebarCode(
  */
 export async function generateDashboardCode(
   yamlPath: string,
-  outputPath: string
+  outputPath: string,
+  fs: ActFileSystem = nodeFileSystem
 ): Promise<{ path: string; content: string }> {
   // Load metadata
-  const metadata = await loadDashboardMetadata(yamlPath)
+  const metadata = await loadDashboardMetadata(yamlPath, fs)
 
   // Generate TypeScript code
   const tsCode = generateDashboardTypeScript(metadata)
@@ -146,10 +153,11 @@ export async function generateDashboardCode(
  */
 export async function generateInvariantCode(
   yamlPath: string,
-  outputPath: string
+  outputPath: string,
+  fs: ActFileSystem = nodeFileSystem
 ): Promise<{ path: string; content: string }> {
   // Load metadata
-  const metadata = await loadInvariantMetadata(yamlPath)
+  const metadata = await loadInvariantMetadata(yamlPath, fs)
 
   // Generate TypeScript code
   const tsCode = generateInvariantTypeScript(metadata)
@@ -171,8 +179,6 @@ function generateUIRealmsTypeScript(metadata: UIRealmsMetadata): string {
   lines.push(' * ✅ ENTELECHIA: Generated UI Realms')
   lines.push(' * ')
   lines.push(' * Generated from YAML - DO NOT EDIT MANUALLY')
-  lines.push(' * ')
-  lines.push(` * Generated: ${new Date().toISOString()}`)
   lines.push(' */')
   lines.push('')
   lines.push('export interface GeneratedUIRealm {')
@@ -220,8 +226,6 @@ function generateNavigationShellsTypeScript(metadata: NavigationShellsMetadata):
   lines.push(' * ✅ ENTELECHIA: Generated Navigation Shells')
   lines.push(' * ')
   lines.push(' * Generated from YAML - DO NOT EDIT MANUALLY')
-  lines.push(' * ')
-  lines.push(` * Generated: ${new Date().toISOString()}`)
   lines.push(' */')
   lines.push('')
   lines.push('export interface GeneratedNavigationItem {')
@@ -276,8 +280,6 @@ function generateNodeDetailSectionsTypeScript(metadata: NodeDetailSectionsMetada
   lines.push(' * ✅ ENTELECHIA: Generated Node Detail Sections')
   lines.push(' * ')
   lines.push(' * Generated from YAML - DO NOT EDIT MANUALLY')
-  lines.push(' * ')
-  lines.push(` * Generated: ${new Date().toISOString()}`)
   lines.push(' */')
   lines.push('')
   lines.push('export interface GeneratedNodeDetailSection {')
@@ -309,8 +311,6 @@ function generateChatLayoutTypeScript(metadata: ChatLayoutMetadata): string {
   lines.push(' * ✅ ENTELECHIA: Generated Chat Layout')
   lines.push(' * ')
   lines.push(' * Generated from YAML - DO NOT EDIT MANUALLY')
-  lines.push(' * ')
-  lines.push(` * Generated: ${new Date().toISOString()}`)
   lines.push(' */')
   lines.push('')
   lines.push('export interface GeneratedChatLayout {')
@@ -467,8 +467,6 @@ function generateWorkspaceSidebarTypeScript(metadata: WorkspaceSidebarMetadata):
   lines.push(' * ✅ ENTELECHIA: Generated Workspace Sidebar')
   lines.push(' * ')
   lines.push(' * Generated from YAML - DO NOT EDIT MANUALLY')
-  lines.push(' * ')
-  lines.push(` * Generated: ${new Date().toISOString()}`)
   lines.push(' */')
   lines.push('')
   lines.push('export interface GeneratedWorkspaceSidebar {')
@@ -539,8 +537,6 @@ function generateDashboardTypeScript(metadata: DashboardMetadata): string {
   lines.push(' * ✅ ENTELECHIA: Generated Dashboard')
   lines.push(' * ')
   lines.push(' * Generated from YAML - DO NOT EDIT MANUALLY')
-  lines.push(' * ')
-  lines.push(` * Generated: ${new Date().toISOString()}`)
   lines.push(' */')
   lines.push('')
 
@@ -659,8 +655,6 @@ function generateInvariantTypeScript(metadata: InvariantMetadata): string {
   lines.push(' * ✅ ENTELECHIA: Generated Invariant Display')
   lines.push(' * ')
   lines.push(' * Generated from YAML - DO NOT EDIT MANUALLY')
-  lines.push(' * ')
-  lines.push(` * Generated: ${new Date().toISOString()}`)
   lines.push(' */')
   lines.push('')
 
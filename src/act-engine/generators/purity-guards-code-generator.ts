@@ -25,8 +25,6 @@ export function generatePurityGuardsCode(
   lines.push(' * ')
   lines.push(' * This file is AUTO-GENERATED by ACT Engine Phase 9.2.')
   lines.push(' * DO NOT EDIT MANUALLY. All changes must be made in entelechia-form/purity-guards/*.yaml')
-  lines.push(' * ')
-  lines.push(' * Generated:', new Date().toISOString())
   lines.push(' */')
   lines.push('')
   
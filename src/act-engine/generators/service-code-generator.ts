@@ -61,6 +61,11 @@ export function generateServiceCode(
     lines.push('')
   }
   
+  // Hand-written hooks, preserved across regenerations
+  lines.push('// act:keep-begin hooks')
+  lines.push('// act:keep-end')
+  lines.push('')
+  
   return lines.join('\n')
 }
 
@@ -27,7 +27,6 @@ function generateBanner(sourceFile: string): string {
  * Any manual edits will be overwritten.
  * 
  * Source: ${sourceFile}
- * Generated: ${new Date().toISOString()}
  */`
 }
 
@@ -49,7 +48,6 @@ export function generateSurfaceCode(
  */
 export const surfaceDescriptor: {
   version: string
-  generatedAt: string
   views: Array<{
     id: string
     title: string
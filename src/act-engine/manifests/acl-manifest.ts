@@ -8,16 +8,17 @@
  */
 
 import type { AclActManifest } from './types.js'
-import { join } from 'path'
 
 /**
  * Generate ACL manifest
  * 
- * @param workspaceRoot Workspace root path (for resolving backend paths)
+ * @param paths Backend ACL modules
  */
-export async function generateAclManifest(workspaceRoot: string): Promise<AclActManifest> {
-  const actionRegistryPath = join(workspaceRoot, 'entelechia-core', 'src', 'acl', 'action-registry.ts')
-  const roleCompilerPath = join(workspaceRoot, 'entelechia-core', 'src', 'acl', 'role-compiler.ts')
+export async function generateAclManifest(paths: {
+  actionRegistryPath: string
+  roleCompilerPath: string
+}): Promise<AclActManifest> {
+  const { actionRegistryPath, roleCompilerPath } = paths
   
   // Dynamic import from backend (ACL is backend-specific)
   const actionRegistryModule = await import(`file://${actionRegistryPath}`)
@@ -4,11 +4,10 @@
  * Generates FormActManifest from YAML files and metadata.
  */
 
-import { readdirSync, existsSync } from 'fs'
 import { join, basename } from 'path'
-import { readFileSync } from 'fs'
-import { parse } from 'yaml'
 import { FormYamlSchema } from '../../forms/yaml-schema.js'
+import { loadYamlFile } from '../../yaml/index.js'
+import { nodeFileSystem, type ActFileSystem } from '../fs/index.js'
 import type { ContractDefinition } from '@entelechia/contracts/contracts/metadata/types'
 import type { FormActManifest } from './types.js'
 
@@ -18,12 +17,11 @@ import type { FormActManifest } from './types.js'
 export function generateFormManifest(
   yamlPath: string,
   contract: ContractDefinition,
-  formsOutputDir: string
+  formsOutputDir: string,
+  fs: ActFileSystem = nodeFileSystem
 ): FormActManifest | null {
   try {
-    const yamlContent = readFileSync(yamlPath, 'utf-8')
-    const yamlData = parse(yamlContent)
-    const formYaml = FormYamlSchema.parse(yamlData)
+    const formYaml = loadYamlFile(yamlPath, FormYamlSchema, fs)
     
     // Extract variant from filename or YAML
     const filename = basename(yamlPath, '.form.yaml')
@@ -65,7 +63,8 @@ export function generateFormManifest(
 export function generateFormManifestsForContract(
   contract: ContractDefinition,
   yamlDir: string,
-  formsOutputDir: string
+  formsOutputDir: string,
+  fs: ActFileSystem = nodeFileSystem
 ): FormActManifest[] {
   const manifests: FormActManifest[] = []
   
@@ -74,17 +73,17 @@ export function generateFormManifestsForContract(
   }
   
   // Find YAML files for this contract
-  if (!existsSync(yamlDir)) {
+  if (!fs.exists(yamlDir)) {
     return manifests
   }
   
-  const yamlFiles = readdirSync(yamlDir).filter(f => 
+  const yamlFiles = fs.readdir(yamlDir).filter(f => 
     f.startsWith(`${contract.name}.`) && f.endsWith('.form.yaml')
   )
   
   for (const yamlFile of yamlFiles) {
     const yamlPath = join(yamlDir, yamlFile)
-    const manifest = generateFormManifest(yamlPath, contract, formsOutputDir)
+    const manifest = generateFormManifest(yamlPath, contract, formsOutputDir, fs)
     if (manifest) {
       manifests.push(manifest)
     }
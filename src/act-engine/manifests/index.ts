@@ -11,6 +11,7 @@ import { generateFormManifestsForContract } from './form-manifest.js'
 import { generateInvariantManifest } from './invariant-manifest.js'
 import { generateAclManifest } from './acl-manifest.js'
 import type { ActEngineConfig } from '../pipeline/types.js'
+import { getFileSystem } from '../fs/index.js'
 
 /**
  * Generate complete ACT manifest
@@ -40,7 +41,8 @@ export async function generateActManifest(
     const forms = generateFormManifestsForContract(
       contract,
       config.yamlDir,
-      config.formsOutputDir
+      config.formsOutputDir,
+      getFileSystem(config)
     )
     
     formManifests.push(...forms)
@@ -52,9 +54,11 @@ export async function generateActManifest(
   // Generate invariant manifest
   const invariantManifest = generateInvariantManifest(config.invariantMappingOutputDir)
   
-  // Generate ACL manifest (requires workspace root for backend ACL imports)
-  const workspaceRoot = config.workspaceRoot || process.cwd()
-  const aclManifest = await generateAclManifest(workspaceRoot)
+  // Generate ACL manifest (from backend ACL modules)
+  const aclManifest = await generateAclManifest({
+    actionRegistryPath: config.actionRegistryPath,
+    roleCompilerPath: config.roleCompilerPath,
+  })
   
   return {
     contracts: contractManifests,
@@ -9,6 +9,8 @@
  * - Documentation: Shows FORM→STATE mappings
  */
 
+import type { ArtifactType } from '../writers/deterministic-writer.js'
+
 /**
  * Contract ACT Manifest
  * 
@@ -67,6 +69,23 @@ export interface AclActManifest {
   roleActionMappings: Record<string, string[]> // role -> actions[]
 }
 
+/**
+ * Plugin ACT Manifest Section
+ * 
+ * Describes what a plugin generates from its own FORM kind.
+ */
+export interface ActManifestSection<T = unknown> {
+  plugin: string // Plugin that declared the section
+  data: T
+  artifacts: ActManifestArtifact[] // Expected artifacts (checked for drift)
+}
+
+export interface ActManifestArtifact {
+  path: string
+  type: ArtifactType
+  bannerSource?: string // Expected banner source (`Generated from <source>`)
+}
+
 /**
  * Complete ACT Manifest
  * 
@@ -77,6 +96,7 @@ export interface ActManifest {
   forms: FormActManifest[]
   invariants: InvariantActManifest
   acl: AclActManifest
+  sections?: Record<string, ActManifestSection> // Plugin sections, by section ID
   generatedAt: Date
 }
 
@@ -0,0 +1,315 @@
+/**
+ * ✅ ENTELECHIA: Pipeline Scheduling Tests
+ *
+ * PROPERTIES TESTED:
+ * - Independent phases run concurrently; results are reported in dependency order
+ * - Fail-fast stops scheduling after a blocking failure
+ * - Keep-going runs every phase whose upstream succeeded and skips the rest with a reason
+ * - Partial runs only execute the requested phases
+ * - Plain messages from phases are wrapped as diagnostics
+ * - Plugin phases are scheduled with the built-in phases and see plugin manifest sections
+ * - Lifecycle events are emitted while the run progresses
+ * - Timed-out and cancelled phases are reported distinctly from failures
+ * - Generated files no phase produced are reported as orphans, and pruned on request
+ * - Writing runs report the hand edits they overwrite
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('../../manifests/index.js', () => ({
+  generateActManifest: async () => ({
+    contracts: [],
+    forms: [],
+    invariants: { registryPath: '', mappingPath: '', invariantCount: 0, categories: [] },
+    acl: { actionRegistryPath: '', roleCompilerPath: '', roles: [], actions: [], roleActionMappings: {} },
+    generatedAt: new Date(0),
+  }),
+}))
+
+import { runActPipeline } from '../index.js'
+import { PhaseRegistry, definePhase } from '../registry.js'
+import { DiagnosticCodes } from '../../diagnostics/index.js'
+import { definePlugin, getManifestSection } from '../../plugins/index.js'
+import { PipelineEventEmitter } from '../../events/index.js'
+import { MemoryFileSystem, getFileSystem } from '../../fs/index.js'
+import { DeterministicWriter } from '../../writers/deterministic-writer.js'
+import { generateBanner } from '../../writers/banners.js'
+import { phase8DriftCheck } from '../phases/phase-8-drift-check.js'
+
+interface TestPhase {
+  after?: number[]
+  fail?: boolean
+  delay?: number
+}
+
+function createRegistry(phases: Record<number, TestPhase>, log: string[]): PhaseRegistry {
+  const registry = new PhaseRegistry()
+  for (const [key, options] of Object.entries(phases)) {
+    const phase = Number(key)
+    registry.register(definePhase({
+      phase,
+      name: `Phase ${phase}`,
+      after: options.after,
+      async run() {
+        log.push(`start ${phase}`)
+        await new Promise(resolve => setTimeout(resolve, options.delay ?? 1))
+        log.push(`end ${phase}`)
+        return {
+          result: {
+            phase,
+            name: `Phase ${phase}`,
+            success: !options.fail,
+            errors: options.fail ? [`Phase ${phase} failed`] : [],
+            warnings: [],
+            duration: 0,
+          },
+        }
+      },
+    }))
+  }
+  return registry
+}
+
+//     0
+//    / \
+//   1   2   5
+//   |   |
+//   3   |
+//    \ /
+//     4
+function diamond(failing: number[] = []): Record<number, TestPhase> {
+  return {
+    0: {},
+    1: { after: [0], fail: failing.includes(1) },
+    2: { after: [0], fail: failing.includes(2), delay: 10 },
+    3: { after: [1] },
+    4: { after: [2, 3] },
+    5: { after: [0] },
+  }
+}
+
+describe('runActPipeline', () => {
+  it('should run independent phases concurrently', async () => {
+    const log: string[] = []
+    const result = await runActPipeline([], { cache: false, maxConcurrency: 4 }, createRegistry(diamond(), log))
+
+    expect(result.success).toBe(true)
+    expect(result.phases.map(p => p.phase)).toEqual([0, 1, 2, 3, 4, 5])
+    expect(log.slice(0, 5)).toEqual(['start 0', 'end 0', 'start 1', 'start 2', 'start 5'])
+  })
+
+  it('should run one phase at a time with maxConcurrency 1', async () => {
+    const log: string[] = []
+    await runActPipeline([], { cache: false, maxConcurrency: 1 }, createRegistry(diamond(), log))
+
+    for (let i = 0; i < log.length; i += 2) {
+      expect(log[i].replace('start', 'end')).toBe(log[i + 1])
+    }
+  })
+
+  it('should stop scheduling after a blocking failure', async () => {
+    const log: string[] = []
+    const result = await runActPipeline([], { cache: false, maxConcurrency: 1 }, createRegistry(diamond([1]), log))
+
+    expect(result.success).toBe(false)
+    expect(result.phases.map(p => p.phase)).toEqual([0, 1])
+    expect(result.errors).toEqual(['Phase 1 failed'])
+    expect(result.diagnostics).toEqual([
+      { code: DiagnosticCodes.Unclassified, severity: 'error', message: 'Phase 1 failed', phase: 1 },
+    ])
+  })
+
+  it('should report every independent failure in keep-going mode', async () => {
+    const log: string[] = []
+    const result = await runActPipeline(
+      [],
+      { cache: false, keepGoing: true },
+      createRegistry(diamond([1, 2]), log)
+    )
+
+    expect(result.success).toBe(false)
+    expect(result.errors).toEqual(['Phase 1 failed', 'Phase 2 failed'])
+    expect(result.phases.map(p => [p.phase, p.skipped ?? false])).toEqual([
+      [0, false], [1, false], [2, false], [3, true], [4, true], [5, false],
+    ])
+    expect(result.phases.find(p => p.phase === 3)?.skipReason).toBe('Upstream phase 1 (Phase 1) failed')
+    expect(result.phases.find(p => p.phase === 4)?.skipReason).toBe('Upstream phases 1 (Phase 1), 2 (Phase 2) failed')
+    expect(log).not.toContain('start 3')
+  })
+
+  it('should only run requested phases in a partial run', async () => {
+    const log: string[] = []
+    const registry = createRegistry(diamond(), log)
+    const previous = await runActPipeline([], { cache: false }, registry)
+
+    log.length = 0
+    const result = await runActPipeline([], { cache: false }, registry, { phases: [3, 4], previous })
+
+    expect(log.filter(entry => entry.startsWith('start'))).toEqual(['start 3', 'start 4'])
+    expect(result.phases).toHaveLength(6)
+  })
+
+  it('should emit lifecycle events while the run progresses', async () => {
+    const log: string[] = []
+    const events = new PipelineEventEmitter()
+    const received: string[] = []
+    events.on(event => {
+      if (event.type === 'phase:start' || event.type === 'phase:end' || event.type === 'diagnostic') {
+        received.push(`${event.type} ${event.phase}`)
+      } else {
+        received.push(event.type)
+      }
+    })
+
+    const result = await runActPipeline(
+      [],
+      { cache: false, maxConcurrency: 1, keepGoing: true },
+      createRegistry({ 0: {}, 1: { after: [0], fail: true }, 2: { after: [1] } }, log),
+      { events }
+    )
+
+    expect(received).toEqual([
+      'pipeline:start',
+      'phase:start 0', 'phase:end 0',
+      'phase:start 1', 'diagnostic 1', 'phase:end 1',
+      'phase:end 2',
+      'pipeline:end',
+    ])
+    expect(result.phases.find(p => p.phase === 2)?.skipped).toBe(true)
+  })
+
+  it('should time out a phase that exceeds its budget', async () => {
+    const log: string[] = []
+    const result = await runActPipeline(
+      [],
+      { cache: false, phaseTimeout: 1000, phaseTimeouts: { '1': 20 } },
+      createRegistry({ 0: {}, 1: { after: [0], delay: 200 }, 2: { after: [1] } }, log)
+    )
+
+    expect(result.success).toBe(false)
+    expect(result.cancelled).toBeUndefined()
+    expect(result.phases.map(p => [p.phase, p.timedOut ?? false])).toEqual([[0, false], [1, true]])
+    expect(result.diagnostics).toEqual([
+      { code: DiagnosticCodes.PhaseTimedOut, severity: 'error', message: 'Phase 1 timed out after 20ms', phase: 1 },
+    ])
+    expect(log).not.toContain('start 2')
+  })
+
+  it('should cancel running phases and start no others when the run is aborted', async () => {
+    const log: string[] = []
+    const controller = new AbortController()
+    setTimeout(() => controller.abort(), 20)
+    const result = await runActPipeline(
+      [],
+      { cache: false },
+      createRegistry({ 0: {}, 1: { after: [0], delay: 200 }, 2: { after: [1] } }, log),
+      { signal: controller.signal }
+    )
+
+    expect(result.success).toBe(false)
+    expect(result.cancelled).toBe(true)
+    expect(result.errors).toEqual([])
+    expect(result.phases.map(p => [p.phase, p.cancelled ?? false])).toEqual([[0, false], [1, true]])
+    expect(result.diagnostics.map(d => [d.code, d.severity])).toEqual([[DiagnosticCodes.PhaseCancelled, 'info']])
+    expect(log).not.toContain('start 2')
+  })
+
+  it('should run plugin phases after the phases they depend on', async () => {
+    const log: string[] = []
+    const seen: unknown[] = []
+    const plugin = definePlugin({
+      name: 'feature-flags',
+      manifestSections: [{ id: 'feature-flags', generate: () => ({ data: { flags: ['beta'] } }) }],
+      phases: [definePhase({
+        phase: 100,
+        name: 'Feature Flags',
+        after: [4],
+        async run({ manifest }) {
+          seen.push(getManifestSection(manifest, 'feature-flags'))
+          return { result: { phase: 100, name: 'Feature Flags', success: true, errors: [], warnings: [], duration: 0 } }
+        },
+      })],
+    })
+
+    const result = await runActPipeline([], { cache: false, plugins: [plugin] }, createRegistry(diamond(), log))
+
+    expect(result.success).toBe(true)
+    expect(result.phases.map(p => p.phase)).toEqual([0, 1, 2, 3, 4, 5, 100])
+    expect(seen).toEqual([{ flags: ['beta'] }])
+  })
+
+  it('should report orphaned artifacts and prune them on request', async () => {
+    const banner = { source: 'YAML + metadata' }
+    const registry = new PhaseRegistry()
+    registry.register(definePhase({
+      phase: 7,
+      name: 'Codegen',
+      async run({ config, events }) {
+        new DeterministicWriter(events, getFileSystem(config)).writeFile('/ws/forms/kept.ts', 'export {}\n', { banner, type: 'form' })
+        return { result: { phase: 7, name: 'Codegen', success: true, errors: [], warnings: [], duration: 0 } }
+      },
+    }))
+    const files = {
+      '/ws/forms/stale.ts': `${generateBanner(banner)}\n\nexport {}\n`,
+      '/ws/forms/hand-written.ts': 'export {}\n',
+    }
+    const config = { cache: false, workspaceRoot: '/ws', formsOutputDir: '/ws/forms' }
+
+    const reported = await runActPipeline([], { ...config, fs: new MemoryFileSystem(files) }, registry)
+    const fs = new MemoryFileSystem(files)
+    const pruned = await runActPipeline([], { ...config, fs, prune: true }, registry)
+
+    expect(reported.orphans).toEqual(['/ws/forms/stale.ts'])
+    expect(reported.pruned).toEqual([])
+    expect(reported.diagnostics.map(d => [d.code, d.file])).toEqual([[DiagnosticCodes.ArtifactOrphaned, '/ws/forms/stale.ts']])
+    expect(pruned.pruned).toEqual(['/ws/forms/stale.ts'])
+    expect(pruned.diagnostics.map(d => d.code)).toEqual([DiagnosticCodes.ArtifactPruned])
+    expect(fs.getDeletedFiles()).toEqual(['/ws/forms/stale.ts'])
+    expect(fs.exists('/ws/forms/hand-written.ts')).toBe(true)
+  })
+
+  it('should report the hand edits a writing run overwrites', async () => {
+    const path = '/ws/forms/node.form.ts'
+    const registry = new PhaseRegistry()
+    registry.register(definePhase({
+      phase: 7,
+      name: 'Codegen',
+      outputs: ['generatedArtifacts'],
+      async run({ config, events }) {
+        const written = new DeterministicWriter(events, getFileSystem(config))
+          .writeFile(path, 'export const node = 1\n', { banner: { source: 'YAML' }, type: 'form' })
+        return {
+          result: { phase: 7, name: 'Codegen', success: true, errors: [], warnings: [], duration: 0 },
+          outputs: { generatedArtifacts: new Map([[path, written.content!]]) },
+        }
+      },
+    }))
+    registry.register({ ...phase8DriftCheck, after: [7] })
+    const fs = new MemoryFileSystem()
+    const config = { cache: false, workspaceRoot: '/ws', formsOutputDir: '/ws/forms', fs }
+    await runActPipeline([], config, registry)
+    fs.writeFile(path, fs.readFile(path).replace('node = 1', 'node = 42'))
+
+    const result = await runActPipeline([], config, registry)
+
+    expect(result.outputs?.drift?.find(artifact => artifact.path === path)).toMatchObject({
+      status: 'hand-edited',
+      diff: expect.arrayContaining([expect.objectContaining({ type: 'add', line: 'export const node = 42' })]),
+    })
+    expect(result.diagnostics.filter(d => d.code === DiagnosticCodes.ArtifactDrift).map(d => d.file)).toEqual([path])
+    expect(fs.readFile(path)).toContain('export const node = 1')
+  })
+
+  it('should fail before any phase runs when plugins conflict', async () => {
+    const log: string[] = []
+    const result = await runActPipeline(
+      [],
+      { cache: false, plugins: [definePlugin({ name: 'flags' }), definePlugin({ name: 'flags' })] },
+      createRegistry(diamond(), log)
+    )
+
+    expect(result.success).toBe(false)
+    expect(result.diagnostics.map(d => d.code)).toEqual([DiagnosticCodes.PluginInvalid])
+    expect(log).toEqual([])
+  })
+})
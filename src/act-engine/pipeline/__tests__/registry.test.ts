@@ -0,0 +1,128 @@
+/**
+ * ✅ ENTELECHIA: Phase Registry Tests
+ *
+ * Tests proving execution order is derived from the phase dependency graph.
+ *
+ * PROPERTIES TESTED:
+ * - Data dependencies (inputs → producing phase) order phases
+ * - Ordering-only dependencies (`after`) order phases
+ * - Registration order breaks ties
+ * - Cycles, unknown dependencies and duplicate producers are rejected
+ * - The built-in phases register and resolve into one order
+ */
+
+import { describe, it, expect } from 'vitest'
+import { PhaseRegistry, definePhase, isBlockingFailure } from '../registry.js'
+import { BUILTIN_PHASES, createDefaultPhaseRegistry } from '../phases/index.js'
+import type { ActEngineConfig, PhaseDefinition, PhaseResult } from '../types.js'
+
+function result(phase: number, success = true): PhaseResult {
+  return { phase, name: `Phase ${phase}`, success, errors: success ? [] : ['failed'], warnings: [], duration: 0 }
+}
+
+function phase(definition: Omit<PhaseDefinition, 'name' | 'run'>): PhaseDefinition {
+  return definePhase({
+    name: `Phase ${definition.phase}`,
+    ...definition,
+    async run() {
+      return { result: result(definition.phase) }
+    },
+  })
+}
+
+describe('PhaseRegistry', () => {
+  it('should order phases by data dependencies regardless of phase number', () => {
+    const registry = new PhaseRegistry()
+      .register(phase({ phase: 7, inputs: ['descriptors', 'purityGuards'] }))
+      .register(phase({ phase: 9.05, outputs: ['purityGuards'] }))
+      .register(phase({ phase: 6, outputs: ['descriptors'] }))
+
+    const order = registry.resolveOrder().map(d => d.phase)
+
+    expect(order).toEqual([9.05, 6, 7])
+  })
+
+  it('should honour ordering-only dependencies', () => {
+    const registry = new PhaseRegistry()
+      .register(phase({ phase: 8, after: [7] }))
+      .register(phase({ phase: 7 }))
+
+    expect(registry.resolveOrder().map(d => d.phase)).toEqual([7, 8])
+  })
+
+  it('should keep registration order when it is already topological', () => {
+    const registry = new PhaseRegistry()
+      .register(phase({ phase: 0 }))
+      .register(phase({ phase: 1.5, after: [0] }))
+      .register(phase({ phase: 1, after: [0] }))
+      .register(phase({ phase: 2, after: [0] }))
+
+    expect(registry.resolveOrder().map(d => d.phase)).toEqual([0, 1.5, 1, 2])
+  })
+
+  it('should include transitive dependents of changed phases', () => {
+    const registry = new PhaseRegistry()
+      .register(phase({ phase: 5 }))
+      .register(phase({ phase: 6, after: [5], outputs: ['descriptors'] }))
+      .register(phase({ phase: 7.8 }))
+      .register(phase({ phase: 7, inputs: ['descriptors'] }))
+      .register(phase({ phase: 8, after: [7] }))
+
+    expect(registry.getDependents([6])).toEqual([6, 7, 8])
+    expect(registry.getDependents([7.8])).toEqual([7.8])
+  })
+
+  it('should reject dependency cycles', () => {
+    const registry = new PhaseRegistry()
+      .register(phase({ phase: 1, after: [2] }))
+      .register(phase({ phase: 2, after: [1] }))
+
+    expect(() => registry.resolveOrder()).toThrow(/cycle/)
+  })
+
+  it('should reject inputs that no phase produces', () => {
+    const registry = new PhaseRegistry().register(phase({ phase: 7, inputs: ['descriptors'] }))
+
+    expect(() => registry.resolveOrder()).toThrow(/no registered phase produces it/)
+  })
+
+  it('should reject duplicate phases and duplicate producers', () => {
+    const registry = new PhaseRegistry().register(phase({ phase: 6, outputs: ['descriptors'] }))
+
+    expect(() => registry.register(phase({ phase: 6 }))).toThrow(/already registered/)
+    expect(() => registry.register(phase({ phase: 6.1, outputs: ['descriptors'] }))).toThrow(/already produced/)
+  })
+})
+
+describe('isBlockingFailure', () => {
+  const config = { checkMode: false } as ActEngineConfig
+
+  it('should block on failure by default', () => {
+    expect(isBlockingFailure(phase({ phase: 1 }), result(1, false), config)).toBe(true)
+    expect(isBlockingFailure(phase({ phase: 1 }), result(1, true), config)).toBe(false)
+  })
+
+  it('should respect non-blocking and conditional phases', () => {
+    expect(isBlockingFailure(phase({ phase: 6.5, blocking: false }), result(6.5, false), config)).toBe(false)
+    expect(
+      isBlockingFailure(phase({ phase: 8, blocking: (_, c) => !c.checkMode }), result(8, false), { checkMode: true } as ActEngineConfig)
+    ).toBe(false)
+  })
+})
+
+describe('built-in phases', () => {
+  it('should register every built-in phase under its own id and resolve their order', () => {
+    const registry = new PhaseRegistry()
+    for (const definition of BUILTIN_PHASES) {
+      registry.register(definition)
+    }
+
+    const order = registry.resolveOrder().map(d => d.phase)
+
+    expect(new Set(order).size).toBe(BUILTIN_PHASES.length)
+    expect(order.indexOf(9.05)).toBeLessThan(order.indexOf(9.1))
+    expect(order.indexOf(9.1)).toBeLessThan(order.indexOf(7))
+    expect(order.indexOf(7)).toBeLessThan(order.indexOf(9))
+    expect(createDefaultPhaseRegistry().getAll()).toHaveLength(BUILTIN_PHASES.length)
+  })
+})
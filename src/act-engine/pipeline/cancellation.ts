@@ -0,0 +1,20 @@
+/**
+ * ✅ ENTELECHIA: Phase Cancellation
+ *
+ * Helpers for phases that do long synchronous work (file walks, compiler
+ * runs) and must stop when the run is cancelled or their budget runs out.
+ */
+
+/**
+ * Yield to the event loop, then throw if the phase was interrupted
+ *
+ * Call between items of a long loop so timers and aborts are serviced
+ * while the phase runs. No-op without a signal.
+ */
+export async function abortCheckpoint(signal?: AbortSignal): Promise<void> {
+  if (!signal) {
+    return
+  }
+  await new Promise(resolve => setImmediate(resolve))
+  signal.throwIfAborted()
+}
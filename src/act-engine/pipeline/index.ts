@@ -8,30 +8,41 @@
 
 import type { ContractDefinition } from '@entelechia/contracts/contracts/metadata/types'
 import type { ActManifest } from '../manifests/types.js'
-import type { ActEngineConfig, PipelineResult } from './types.js'
+import type {
+  ActEngineConfig,
+  PhaseContext,
+  PhaseDefinition,
+  PhaseExecution,
+  PhaseOutputs,
+  PhaseResult,
+  PipelineResult,
+  PipelineRunOptions,
+} from './types.js'
+import type { ArtifactCommit } from '../fs/index.js'
 import { generateActManifest } from '../manifests/index.js'
-import { runPhase0Manifests } from './phases/phase-0-manifests.js'
-import { runPhase1FormChecks } from './phases/phase-1-form-checks.js'
-import { runPhase1_5ArchitectureGuard } from './phases/phase-1.5-architecture-guard.js'
-import { runPhase2ContractValidation } from './phases/phase-2-contract-validation.js'
-import { runPhase3InvariantValidation } from './phases/phase-3-invariant-validation.js'
-import { runPhase4AclValidation } from './phases/phase-4-acl-validation.js'
-import { runPhase5YamlValidation } from './phases/phase-5-yaml-validation.js'
-import { runPhase6Canonicalization } from './phases/phase-6-canonicalization.js'
-import { runPhase6bNavigationCanonicalization } from './phases/phase-6b-navigation-canonicalization.js'
-import { runPhase7_5FunctionalCanonicalization } from './phases/phase-7.5-functional-canonicalization.js'
-import { runPhase7_6InvariantEnforcement } from './phases/phase-7.6-invariant-enforcement.js'
-import { runPhase7_7FunctionalCanonicalization } from './phases/phase-7.7-functional-canonicalization.js'
-import { runPhase7_8CommandCanonicalization } from './phases/phase-7.8-command-canonicalization.js'
-import { runPhase8_1InstrumentationCanonicalization } from './phases/phase-8.1-instrumentation-canonicalization.js'
-import { runPhase8_2IntentGraphCanonicalization } from './phases/phase-8.2-intent-graph-canonicalization.js'
-import { runPhase9_0PurityGuardsCanonicalization } from './phases/phase-9.0-purity-guards-canonicalization.js'
-import { runPhase9_1PurityGuardsEnforcement } from './phases/phase-9.1-purity-guards-enforcement.js'
-import { runPhase7Codegen } from './phases/phase-7-codegen.js'
-import { runPhase8DriftCheck } from './phases/phase-8-drift-check.js'
-import { runPhase9UiTypecheck } from './phases/phase-9-ui-typecheck.js'
-import { runPhase10InvariantRegistry } from './phases/phase-10-invariant-registry.js'
-import { runPhase11RuntimeSimulation } from './phases/phase-11-runtime-simulation.js'
+import { ActCache, hashPaths, hashValue } from '../cache/index.js'
+import {
+  DiagnosticCodes,
+  diagnosticsFromMessages,
+  summarizeDiagnostics,
+  type Diagnostic,
+} from '../diagnostics/index.js'
+import { PhaseRegistry, isBlockingFailure } from './registry.js'
+import { loadPlugins, type PluginHost } from '../plugins/index.js'
+import { createDefaultPhaseRegistry } from './phases/index.js'
+import { defaultActConfig } from '../config/index.js'
+import { PipelineEventEmitter } from '../events/index.js'
+import { ArtifactTransaction, JournalingFileSystem, getFileSystem, nodeFileSystem } from '../fs/index.js'
+import { ArtifactChangeCollector, artifactOutputDirs, listGeneratedFiles } from '../writers/artifact-changes.js'
+import {
+  findOrphanedArtifacts,
+  readLockfile,
+  recordGeneratedArtifact,
+  writeLockfile,
+  type LockedArtifacts,
+} from '../writers/lockfile.js'
+import { GENERATED_CONTENT_NAMESPACE } from '../writers/drift.js'
+import { stripKeepRegions } from '../writers/keep-regions.js'
 import { join } from 'path'
 import { readFileSync, existsSync } from 'fs'
 
@@ -59,571 +70,656 @@ function getWorkspaceRoot(): string {
 }
 
 const WORKSPACE_ROOT = getWorkspaceRoot()
-const BACKEND_ROOT = join(WORKSPACE_ROOT, 'entelechia-core')
 
 /**
  * Default ACT Engine configuration
  * 
- * All paths are relative to workspace root (where npm scripts run from)
+ * The default workspace layout (see `act.config` schema) rooted at the
+ * workspace root (where npm scripts run from)
  */
-export const DEFAULT_ACT_CONFIG: ActEngineConfig = {
-  // Workspace root
-  workspaceRoot: WORKSPACE_ROOT,
-  
-  // Input paths (relative to workspace root)
-  metadataDir: join(BACKEND_ROOT, 'src', 'contracts', 'metadata'),
-  yamlDir: join(WORKSPACE_ROOT, 'entelechia-ui', 'forms'),
-  invariantEnginePath: join(WORKSPACE_ROOT, 'packages', 'invariant-engine'),
+export const DEFAULT_ACT_CONFIG: ActEngineConfig = defaultActConfig(WORKSPACE_ROOT)
+
+/**
+ * Fingerprints shared by every phase cache key
+ */
+interface PipelineFingerprint {
+  contracts: string // Contract metadata objects + metadata sources
+  registries: string // Manifest snapshot (contract, form, ACL, invariant registries)
+  options: string // Config flags that can change phase behavior
+}
+
+/**
+ * Ensure a phase result carries diagnostics
+ * 
+ * Phases that only report messages get them wrapped as unclassified diagnostics.
+ */
+function withDiagnostics(result: PhaseResult): PhaseResult {
+  if (result.diagnostics) {
+    return result
+  }
+  return { ...result, diagnostics: diagnosticsFromMessages(result.phase, result.errors, result.warnings) }
+}
+
+/**
+ * Why a phase stopped before settling
+ */
+type Interruption = 'cancelled' | 'timedOut'
+
+/**
+ * Run a phase against the run's abort signal and the phase's timeout budget
+ * 
+ * The phase gets a signal that aborts on either. The pipeline stops waiting
+ * at that point, even if the phase never checks its signal.
+ */
+async function runInterruptible(
+  run: (signal: AbortSignal) => Promise<PhaseExecution>,
+  signal: AbortSignal | undefined,
+  timeout: number | undefined
+): Promise<PhaseExecution | Interruption> {
+  const controller = new AbortController()
+  let interruption: Interruption | undefined
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let onAbort: (() => void) | undefined
+  
+  const interrupted = new Promise<Interruption>(resolve => {
+    const interrupt = (reason: Interruption) => {
+      interruption ??= reason
+      controller.abort()
+      resolve(interruption)
+    }
+    onAbort = () => interrupt('cancelled')
+    signal?.addEventListener('abort', onAbort, { once: true })
+    if (timeout !== undefined) {
+      timer = setTimeout(() => interrupt('timedOut'), timeout)
+    }
+  })
   
-  // Output paths (relative to workspace root)
-  sharedContractsDir: join(WORKSPACE_ROOT, 'entelechia-shared', 'src', 'contracts'),
-  migrationsDir: join(BACKEND_ROOT, 'supabase', 'migrations'),
-  servicesDir: join(BACKEND_ROOT, 'src', 'services'),
-  routesDir: join(BACKEND_ROOT, 'src', 'routes'),
-  testsDir: join(BACKEND_ROOT, 'src', '__tests__'),
-  formsOutputDir: join(WORKSPACE_ROOT, 'entelechia-ui', 'src', 'generated', 'forms'),
-  invariantMappingOutputDir: join(WORKSPACE_ROOT, 'entelechia-ui', 'src', 'generated', 'invariants'),
+  try {
+    const outcome = await Promise.race([run(controller.signal), interrupted])
+    return interruption ?? outcome
+  } catch (error) {
+    // Phases that stop on their signal throw once interrupted
+    if (interruption) {
+      return interruption
+    }
+    throw error
+  } finally {
+    clearTimeout(timer)
+    signal?.removeEventListener('abort', onAbort!)
+  }
+}
+
+/**
+ * Result of a phase interrupted by cancellation or its timeout budget
+ */
+function interruptedResult(
+  definition: PhaseDefinition,
+  interruption: Interruption,
+  timeout: number | undefined,
+  duration: number
+): PhaseResult {
+  const diagnostic: Diagnostic = interruption === 'timedOut'
+    ? {
+      code: DiagnosticCodes.PhaseTimedOut,
+      severity: 'error',
+      message: `Phase ${definition.phase} timed out after ${timeout}ms`,
+      phase: definition.phase,
+    }
+    : {
+      code: DiagnosticCodes.PhaseCancelled,
+      severity: 'info',
+      message: `Phase ${definition.phase} was cancelled`,
+      phase: definition.phase,
+    }
+  return {
+    phase: definition.phase,
+    name: definition.name,
+    success: false,
+    ...summarizeDiagnostics([diagnostic]),
+    duration,
+    ...interruption === 'timedOut' ? { timedOut: true } : { cancelled: true },
+  }
+}
+
+let transactionCount = 0 // Keeps run IDs of one process unique
+
+/**
+ * Create the transaction staging the artifacts of a run
+ * 
+ * Only runs writing to the real file system stage their artifacts (check and
+ * dry runs write nothing; in-memory runs never touch disk).
+ */
+function createTransaction(config: ActEngineConfig): ArtifactTransaction | undefined {
+  if (config.transactional === false || config.checkMode || config.dryRun || getFileSystem(config) !== nodeFileSystem) {
+    return undefined
+  }
+  const runId = `${new Date().toISOString().replace(/[:.]/g, '-')}-${process.pid}-${++transactionCount}`
+  return new ArtifactTransaction({
+    runId,
+    root: config.workspaceRoot,
+    stagingDir: join(config.cacheDir || DEFAULT_ACT_CONFIG.cacheDir!, 'staging', runId),
+    backupDir: join(config.backupDir || join(config.workspaceRoot, '.act', 'backups'), runId),
+    keepBackups: config.backupExisting,
+    backupRetention: config.backupRetention ?? DEFAULT_ACT_CONFIG.backupRetention,
+  })
+}
+
+/**
+ * Run a phase, reusing its cached execution when its inputs are unchanged
+ * 
+ * Only phases declared `cacheable` (no side effects) with declared sources
+ * are cached, and only successful executions are stored.
+ */
+async function executePhase(
+  definition: PhaseDefinition,
+  context: PhaseContext,
+  fingerprint: () => PipelineFingerprint
+): Promise<PhaseExecution> {
+  if (!context.cache.enabled || !definition.cacheable || !definition.sources) {
+    return definition.run(context)
+  }
   
-  // Options
-  checkMode: false,
-  dryRun: false,
-  validateCode: true,
-  backupExisting: true,
+  const startTime = Date.now()
+  const namespace = `phase-${definition.phase}`
+  const key = context.cache.key({
+    phase: definition.phase,
+    name: definition.name,
+    sources: hashPaths(definition.sources(context.config)),
+    inputs: hashValue(context.inputs),
+    ...fingerprint(),
+  })
+  
+  const cached = context.cache.get<PhaseExecution>(namespace, key)
+  if (cached) {
+    return {
+      result: { ...cached.result, cached: true, duration: Date.now() - startTime },
+      outputs: cached.outputs,
+    }
+  }
   
-  // Phase control
-  skipPhases: [],
+  const execution = await definition.run(context)
+  if (execution.result.success) {
+    context.cache.set(namespace, key, execution)
+  }
+  return execution
 }
 
 /**
  * Run complete ACT Engine pipeline
+ * 
+ * Phases run as soon as the phases they depend on have settled, up to
+ * `maxConcurrency` at a time. Results are reported in the order derived
+ * from the registry's dependency graph, regardless of completion order.
+ * A failing blocking phase stops scheduling; phases already running finish.
+ * In `keepGoing` mode it only causes its dependents to be skipped, so every
+ * independent failure is reported in one run.
+ * 
+ * With `options.phases`, only those phases run; every other phase reuses its
+ * result and outputs from `options.previous` (phases absent there still run).
+ * 
+ * Plugins from `config.plugins` add their phases to `registry` and their
+ * sections to the manifest.
+ * 
+ * Lifecycle events (phase start/end, files parsed, artifacts, diagnostics)
+ * are emitted to `options.events` while the run progresses.
+ * 
+ * FORM files are read and artifacts written through `config.fs` (default:
+ * the real file system). A `MemoryFileSystem` runs without touching disk;
+ * the phase cache is disk-backed and is not used then.
+ * 
+ * Artifacts are staged and committed to disk only if the run succeeds
+ * (`result.commit`); overwritten artifacts are kept under
+ * `backupDir/<run ID>` when `backupExisting` is set. A failing or cancelled
+ * run discards its staged artifacts and leaves disk as it was.
+ * 
+ * Check and dry runs report `changes`: every artifact as added, modified
+ * (with its diff) or unchanged, plus generated files no generator produced.
+ * 
+ * Every run that ran each phase successfully reports those orphans
+ * (`result.orphans`): files carrying a generation banner in the output
+ * directories, or listed in the lockfile (`lockfile`), that no generator
+ * produced this time. `prune` deletes them (backed up and committed with the
+ * other artifacts in transactional runs). Successful writing runs on the real
+ * file system record the provenance of every artifact in the lockfile.
+ * 
+ * Aborting `options.signal` cancels the phases running at that point and
+ * starts no further phase. A phase running longer than its budget
+ * (`phaseTimeouts`, else `phaseTimeout`) times out and fails. Interrupted
+ * phases are reported as `cancelled` or `timedOut` rather than as failures
+ * of their own, and their late events are dropped.
  */
 export async function runActPipeline(
   contracts: ContractDefinition[],
-  config: Partial<ActEngineConfig> = {}
+  config: Partial<ActEngineConfig> = {},
+  registry: PhaseRegistry = createDefaultPhaseRegistry(),
+  options: PipelineRunOptions = {}
 ): Promise<PipelineResult> {
   const fullConfig: ActEngineConfig = { ...DEFAULT_ACT_CONFIG, ...config }
   const startTime = Date.now()
   const phases: PipelineResult['phases'] = []
   const allErrors: string[] = []
   const allWarnings: string[] = []
+  const allDiagnostics: Diagnostic[] = []
+  const events = options.events ?? new PipelineEventEmitter()
+  
+  // Runs that fail before any phase report their diagnostics as events too
+  const abort = (result: PipelineResult): PipelineResult => {
+    for (const diagnostic of result.diagnostics) {
+      events.emit({ type: 'diagnostic', diagnostic })
+    }
+    events.emit({ type: 'pipeline:end', result })
+    return result
+  }
+  
+  // Load plugins
+  let plugins: PluginHost
+  try {
+    plugins = await loadPlugins(fullConfig)
+    registry = plugins.extendRegistry(registry)
+  } catch (error: any) {
+    return abort({
+      success: false,
+      phases: [],
+      manifest: {} as ActManifest,
+      totalDuration: Date.now() - startTime,
+      ...summarizeDiagnostics([{
+        code: DiagnosticCodes.PluginInvalid,
+        severity: 'error',
+        message: `Plugin loading failed: ${error.message}`,
+      }]),
+    })
+  }
   
   // Phase 0: Generate Manifests
   let manifest: ActManifest
   try {
     manifest = await generateActManifest(contracts, fullConfig)
+    if (plugins.plugins.length > 0) {
+      manifest.sections = await plugins.generateManifestSections(contracts, fullConfig)
+    }
   } catch (error: any) {
-    return {
+    return abort({
       success: false,
       phases: [],
       manifest: {} as ActManifest,
       totalDuration: Date.now() - startTime,
-      errors: [`Manifest generation failed: ${error.message}`],
-      warnings: [],
-    }
+      ...summarizeDiagnostics([{
+        code: DiagnosticCodes.ManifestFailed,
+        severity: 'error',
+        message: `Manifest generation failed: ${error.message}`,
+      }]),
+    })
   }
   
-  // Phase 0: Run manifest phase (for tracking)
-  const phase0 = await runPhase0Manifests(contracts, fullConfig)
-  phases.push(phase0)
-  allErrors.push(...phase0.errors)
-  allWarnings.push(...phase0.warnings)
-  
-  if (!phase0.success && !fullConfig.skipPhases?.includes(0)) {
-    return {
+  // Resolve execution order from the phase dependency graph
+  let order: PhaseDefinition[]
+  const dependencies = new Map<number, number[]>()
+  try {
+    order = registry.resolveOrder()
+    for (const definition of order) {
+      dependencies.set(definition.phase, registry.getDependencies(definition))
+    }
+  } catch (error: any) {
+    return abort({
       success: false,
-      phases,
+      phases: [],
       manifest,
       totalDuration: Date.now() - startTime,
-      errors: allErrors,
-      warnings: allWarnings,
-    }
+      ...summarizeDiagnostics([{
+        code: DiagnosticCodes.RegistryInvalid,
+        severity: 'error',
+        message: `Phase registry is invalid: ${error.message}`,
+      }]),
+    })
   }
   
-  // Phase 1: FORM Completeness Checks
-  if (!fullConfig.skipPhases?.includes(1)) {
-    const phase1 = await runPhase1FormChecks(contracts, manifest, fullConfig)
-    phases.push(phase1)
-    allErrors.push(...phase1.errors)
-    allWarnings.push(...phase1.warnings)
-    
-    if (!phase1.success) {
-      return {
-        success: false,
-        phases,
-        manifest,
-        totalDuration: Date.now() - startTime,
-        errors: allErrors,
-        warnings: allWarnings,
+  events.emit({
+    type: 'pipeline:start',
+    phases: order.map(definition => ({ phase: definition.phase, name: definition.name })),
+  })
+  
+  // Check and dry runs summarize the artifact changes they would make; every
+  // run tracks the artifacts it generates (orphans, lockfile)
+  const changes = fullConfig.checkMode || fullConfig.dryRun ? new ArtifactChangeCollector() : undefined
+  const generated: LockedArtifacts = new Map()
+  const stopCollecting = events.on(event => {
+    changes?.record(event)
+    recordGeneratedArtifact(generated, event)
+  })
+  
+  // The cache lives on disk: runs on another file system don't use it
+  const cache = new ActCache({
+    dir: fullConfig.cacheDir || DEFAULT_ACT_CONFIG.cacheDir!,
+    enabled: fullConfig.cache !== false && (fullConfig.fs ?? nodeFileSystem) === nodeFileSystem,
+  })
+  
+  // Artifacts written to disk are staged and reach it only if the run succeeds;
+  // other writing runs journal what they overwrite (Phase 8 classifies drift
+  // against the artifacts as they were)
+  const writing = !fullConfig.checkMode && !fullConfig.dryRun
+  const transaction = createTransaction(fullConfig)
+  const runFileSystem = transaction ?? (writing ? new JournalingFileSystem(getFileSystem(fullConfig)) : undefined)
+  const phaseConfig: ActEngineConfig = runFileSystem ? { ...fullConfig, fs: runFileSystem } : fullConfig
+  let pipelineFingerprint: PipelineFingerprint | undefined
+  const fingerprint = (): PipelineFingerprint => {
+    if (!pipelineFingerprint) {
+      pipelineFingerprint = {
+        contracts: hashValue([hashValue(contracts), hashPaths([fullConfig.metadataDir])]),
+        registries: hashValue({ ...manifest, generatedAt: undefined }),
+        options: hashValue({
+          checkMode: fullConfig.checkMode,
+          dryRun: fullConfig.dryRun,
+          validateCode: fullConfig.validateCode,
+        }),
       }
     }
+    return pipelineFingerprint
   }
   
-  // Phase 1.5: Architecture Guard
-  // ✅ CRITICAL: Validates UI code against architectural rules
-  // Runs AFTER Phase 1 (Form Checks) and BEFORE Phase 7.7 (Functional Canonicalization)
-  if (!fullConfig.skipPhases?.includes(1.5)) {
-    const phase1_5 = await runPhase1_5ArchitectureGuard(manifest, fullConfig)
-    phases.push(phase1_5)
-    allErrors.push(...phase1_5.errors)
-    allWarnings.push(...phase1_5.warnings)
-    
-    // ✅ CRITICAL: Fail pipeline on FIRST architectural violation
-    if (!phase1_5.success) {
-      return {
-        success: false,
-        phases,
-        manifest,
-        totalDuration: Date.now() - startTime,
-        errors: allErrors,
-        warnings: allWarnings,
-      }
+  const maxConcurrency = Math.max(1, Math.floor(fullConfig.maxConcurrency ?? 1))
+  const outputs: Partial<PhaseOutputs> = {}
+  const results = new Map<number, PhaseResult>()
+  const settled = new Set<number>()
+  const running = new Map<number, Promise<void>>()
+  const pending = [...order]
+  const failedRoots = new Map<number, number[]>() // Failed/skipped phase -> root failed phases (keep-going)
+  let blocked = false
+  
+  const record = (definition: PhaseDefinition, result: PhaseResult, reused = false): void => {
+    results.set(definition.phase, result)
+    for (const diagnostic of result.diagnostics || []) {
+      events.emit({ type: 'diagnostic', phase: definition.phase, diagnostic })
     }
-  }
-  
-  // Phase 2: Contract Metadata Validation
-  if (!fullConfig.skipPhases?.includes(2)) {
-    const phase2 = await runPhase2ContractValidation(contracts, manifest, fullConfig)
-    phases.push(phase2)
-    allErrors.push(...phase2.errors)
-    allWarnings.push(...phase2.warnings)
-    
-    if (!phase2.success) {
-      return {
-        success: false,
-        phases,
-        manifest,
-        totalDuration: Date.now() - startTime,
-        errors: allErrors,
-        warnings: allWarnings,
-      }
-    }
-  }
-  
-  // Phase 3: Invariant Engine Validation
-  if (!fullConfig.skipPhases?.includes(3)) {
-    const phase3 = await runPhase3InvariantValidation(manifest, fullConfig)
-    phases.push(phase3)
-    allErrors.push(...phase3.errors)
-    allWarnings.push(...phase3.warnings)
-    
-    if (!phase3.success) {
-      return {
-        success: false,
-        phases,
-        manifest,
-        totalDuration: Date.now() - startTime,
-        errors: allErrors,
-        warnings: allWarnings,
+    events.emit({ type: 'phase:end', phase: definition.phase, name: definition.name, result, reused })
+    if (isBlockingFailure(definition, result, fullConfig)) {
+      if (fullConfig.keepGoing) {
+        failedRoots.set(definition.phase, [definition.phase])
+      } else {
+        blocked = true
       }
     }
   }
   
-  // Phase 4: ACL FORM Validation
-  if (!fullConfig.skipPhases?.includes(4)) {
-    const phase4 = await runPhase4AclValidation(manifest, fullConfig)
-    phases.push(phase4)
-    allErrors.push(...phase4.errors)
-    allWarnings.push(...phase4.warnings)
-    
-    if (!phase4.success) {
-      return {
-        success: false,
-        phases,
-        manifest,
-        totalDuration: Date.now() - startTime,
-        errors: allErrors,
-        warnings: allWarnings,
-      }
+  const execute = async (definition: PhaseDefinition): Promise<void> => {
+    const inputs: Partial<PhaseOutputs> = {}
+    for (const key of definition.inputs || []) {
+      Object.assign(inputs, { [key]: outputs[key] })
     }
-  }
-  
-  // Phase 5: YAML Validation
-  if (!fullConfig.skipPhases?.includes(5)) {
-    const phase5 = await runPhase5YamlValidation(contracts, manifest, fullConfig)
-    phases.push(phase5)
-    allErrors.push(...phase5.errors)
-    allWarnings.push(...phase5.warnings)
     
-    if (!phase5.success) {
-      return {
-        success: false,
-        phases,
+    const phaseStart = Date.now()
+    const phaseEvents = events.forPhase(definition.phase)
+    const timeout = fullConfig.phaseTimeouts?.[String(definition.phase)] ?? fullConfig.phaseTimeout
+    events.emit({ type: 'phase:start', phase: definition.phase, name: definition.name })
+    let result: PhaseResult
+    try {
+      const execution = await runInterruptible(signal => executePhase(definition, {
+        contracts,
         manifest,
-        totalDuration: Date.now() - startTime,
-        errors: allErrors,
-        warnings: allWarnings,
+        config: phaseConfig,
+        inputs,
+        cache,
+        plugins,
+        events: {
+          emit: event => {
+            if (!signal.aborted) phaseEvents.emit(event)
+          },
+        },
+        signal,
+      }, fingerprint), options.signal, timeout)
+      if (typeof execution === 'string') {
+        result = interruptedResult(definition, execution, timeout, Date.now() - phaseStart)
+      } else {
+        result = withDiagnostics(execution.result)
+        Object.assign(outputs, execution.outputs)
       }
-    }
-  }
-  
-  // Phase 6: Descriptor Canonicalization
-  let descriptors: Map<string, any> | undefined
-  if (!fullConfig.skipPhases?.includes(6)) {
-    const phase6 = await runPhase6Canonicalization(contracts, manifest, fullConfig)
-    phases.push(phase6)
-    allErrors.push(...phase6.errors)
-    allWarnings.push(...phase6.warnings)
-    descriptors = (phase6 as any).descriptors
-    
-    if (!phase6.success) {
-      return {
+    } catch (error: any) {
+      result = {
+        phase: definition.phase,
+        name: definition.name,
         success: false,
-        phases,
-        manifest,
-        totalDuration: Date.now() - startTime,
-        errors: allErrors,
-        warnings: allWarnings,
+        ...summarizeDiagnostics([{
+          code: DiagnosticCodes.PhaseFailed,
+          severity: 'error',
+          message: `Phase ${definition.phase} threw: ${error.message}`,
+          phase: definition.phase,
+        }]),
+        duration: Date.now() - phaseStart,
       }
     }
-  }
-  
-  // Phase 6b: Navigation Canonicalization
-  if (!fullConfig.skipPhases?.includes(6.5)) {
-    const phase6b = await runPhase6bNavigationCanonicalization(manifest, fullConfig)
-    phases.push(phase6b)
-    allErrors.push(...phase6b.errors)
-    allWarnings.push(...phase6b.warnings)
-    
-    // Navigation canonicalization is non-blocking (warnings only)
-    // Don't fail pipeline if navigation YAML doesn't exist
-  }
-  
-  // Phase 7.5: UI Functional Canonicalization
-  let functionalDescriptors: Map<string, any> | undefined
-  if (!fullConfig.skipPhases?.includes(7.5)) {
-    const phase7_5 = await runPhase7_5FunctionalCanonicalization(contracts, manifest, fullConfig)
-    phases.push(phase7_5)
-    allErrors.push(...phase7_5.errors)
-    allWarnings.push(...phase7_5.warnings)
-    functionalDescriptors = (phase7_5 as any).functionalDescriptors
     
-    // Functional canonicalization is non-blocking (warnings only)
-    // Don't fail pipeline if functional bindings don't exist
+    record(definition, result)
   }
   
-  // Phase 7.6: Invariant Canonicalization & Enforcement
-  // ✅ CRITICAL: This phase MUST run before codegen to reject illegal descriptors
-  if (!fullConfig.skipPhases?.includes(7.6)) {
-    const phase7_6 = await runPhase7_6InvariantEnforcement(
-      manifest,
-      fullConfig,
-      descriptors
-    )
-    phases.push(phase7_6)
-    allErrors.push(...phase7_6.errors)
-    allWarnings.push(...phase7_6.warnings)
-    
-    // ✅ CRITICAL: Fail pipeline on FIRST invariant violation
-    if (!phase7_6.success) {
-      return {
-        success: false,
-        phases,
-        manifest,
-        totalDuration: Date.now() - startTime,
-        errors: allErrors,
-        warnings: allWarnings,
-      }
-    }
-  }
-  
-  // Phase 7.7: Functional Canonicalization (NEW)
-  // Validates functional bindings against contract metadata, ActionRegistry, intent registry
-  if (!fullConfig.skipPhases?.includes(7.7)) {
-    const phase7_7 = await runPhase7_7FunctionalCanonicalization(
-      manifest,
-      fullConfig,
-      contracts
-    )
-    phases.push(phase7_7)
-    allErrors.push(...phase7_7.errors)
-    allWarnings.push(...phase7_7.warnings)
-    
-    // Merge functional descriptors from Phase 7.7 with Phase 7.5
-    if ((phase7_7 as any).functionalDescriptors) {
-      const phase7_7Descriptors = (phase7_7 as any).functionalDescriptors as Map<string, any>
-      if (functionalDescriptors) {
-        // Merge: Phase 7.7 takes precedence
-        for (const [key, value] of phase7_7Descriptors) {
-          functionalDescriptors.set(key, value)
+  // Start every pending phase whose dependencies have settled
+  const schedule = (): void => {
+    let progressed = true
+    while (progressed && !blocked && !options.signal?.aborted) {
+      progressed = false
+      for (const definition of pending) {
+        if (running.size >= maxConcurrency) {
+          return
         }
-      } else {
-        functionalDescriptors = phase7_7Descriptors
-      }
-    }
-    
-    // ✅ CRITICAL: Fail pipeline on FIRST functional binding validation error
-    if (!phase7_7.success) {
-      return {
-        success: false,
-        phases,
-        manifest,
-        totalDuration: Date.now() - startTime,
-        errors: allErrors,
-        warnings: allWarnings,
+        if (!dependencies.get(definition.phase)!.every(phase => settled.has(phase))) {
+          continue
+        }
+        
+        pending.splice(pending.indexOf(definition), 1)
+        progressed = true
+        
+        // Phases outside a partial run reuse their previous result and outputs
+        const previousResult = options.phases && !options.phases.includes(definition.phase)
+          ? options.previous?.phases.find(p => p.phase === definition.phase)
+          : undefined
+        if (previousResult && !fullConfig.skipPhases?.includes(definition.phase)) {
+          for (const key of definition.outputs || []) {
+            Object.assign(outputs, { [key]: options.previous?.outputs?.[key] })
+          }
+          record(definition, withDiagnostics(previousResult), true)
+          settled.add(definition.phase)
+          break
+        }
+        
+        // Phases downstream of a failure are skipped (keep-going mode)
+        const roots = Array.from(new Set(
+          dependencies.get(definition.phase)!.flatMap(phase => failedRoots.get(phase) || [])
+        )).sort((a, b) => a - b)
+        if (roots.length > 0 && !fullConfig.skipPhases?.includes(definition.phase)) {
+          const upstream = roots.map(phase => `${phase} (${registry.get(phase)?.name})`).join(', ')
+          const skippedResult: PhaseResult = {
+            phase: definition.phase,
+            name: definition.name,
+            success: false,
+            errors: [],
+            warnings: [],
+            diagnostics: [],
+            duration: 0,
+            skipped: true,
+            skipReason: `Upstream phase${roots.length > 1 ? 's' : ''} ${upstream} failed`,
+          }
+          results.set(definition.phase, skippedResult)
+          events.emit({ type: 'phase:end', phase: definition.phase, name: definition.name, result: skippedResult })
+          failedRoots.set(definition.phase, roots)
+          settled.add(definition.phase)
+          break
+        }
+        
+        // Skipped phases, and phases whose required inputs were not produced,
+        // settle immediately without running
+        if (
+          fullConfig.skipPhases?.includes(definition.phase) ||
+          definition.requires?.some(key => outputs[key] === undefined)
+        ) {
+          settled.add(definition.phase)
+          break
+        }
+        
+        running.set(
+          definition.phase,
+          execute(definition).then(() => {
+            running.delete(definition.phase)
+            settled.add(definition.phase)
+          })
+        )
+        break
       }
     }
   }
   
-  // Phase 7.8: Command Canonicalization (NEW)
-  // Validates commands.yaml against ActionRegistry and IntentRegistry
-  let commandDescriptors: Map<string, any> | undefined
-  let hotkeyDescriptors: Map<string, any> | undefined
-  
-  if (!fullConfig.skipPhases?.includes(7.8)) {
-    const phase7_8 = await runPhase7_8CommandCanonicalization(manifest, fullConfig)
-    phases.push(phase7_8)
-    allErrors.push(...phase7_8.errors)
-    allWarnings.push(...phase7_8.warnings)
-    
-    // Extract command and hotkey descriptors
-    if ((phase7_8 as any).commandDescriptors) {
-      commandDescriptors = (phase7_8 as any).commandDescriptors as Map<string, any>
-    }
-    if ((phase7_8 as any).hotkeyDescriptors) {
-      hotkeyDescriptors = (phase7_8 as any).hotkeyDescriptors as Map<string, any>
-    }
-    
-    // ✅ CRITICAL: Fail pipeline on FIRST command validation error
-    if (!phase7_8.success) {
-      return {
-        success: false,
-        phases,
-        manifest,
-        totalDuration: Date.now() - startTime,
-        errors: allErrors,
-        warnings: allWarnings,
-      }
-    }
+  schedule()
+  while (running.size > 0) {
+    await Promise.race(running.values())
+    schedule()
   }
-  
-  // Phase 8.1: Instrumentation Canonicalization (NEW)
-  // Validates telemetry/devtools/ux YAML files against invariants
-  let telemetryDescriptors: Map<string, any> | undefined
-  let devtoolsDescriptors: Map<string, any> | undefined
-  let uxFidelityDescriptors: Map<string, any> | undefined
-  
-  if (!fullConfig.skipPhases?.includes(8.1)) {
-    const phase8_1 = await runPhase8_1InstrumentationCanonicalization(manifest, fullConfig)
-    phases.push(phase8_1)
-    allErrors.push(...phase8_1.errors)
-    allWarnings.push(...phase8_1.warnings)
-    
-    // Extract instrumentation descriptors
-    if ((phase8_1 as any).telemetryDescriptors) {
-      telemetryDescriptors = (phase8_1 as any).telemetryDescriptors as Map<string, any>
-    }
-    if ((phase8_1 as any).devtoolsDescriptors) {
-      devtoolsDescriptors = (phase8_1 as any).devtoolsDescriptors as Map<string, any>
-    }
-    if ((phase8_1 as any).uxFidelityDescriptors) {
-      uxFidelityDescriptors = (phase8_1 as any).uxFidelityDescriptors as Map<string, any>
-    }
-    
-    // ✅ CRITICAL: Fail pipeline on FIRST instrumentation validation error
-    if (!phase8_1.success) {
-      return {
-        success: false,
-        phases,
-        manifest,
-        totalDuration: Date.now() - startTime,
-        errors: allErrors,
-        warnings: allWarnings,
-      }
+  stopCollecting()
+  
+  // Report in dependency order
+  for (const definition of order) {
+    const result = results.get(definition.phase)
+    if (result) {
+      phases.push(result)
+      allErrors.push(...result.errors)
+      allWarnings.push(...result.warnings)
+      allDiagnostics.push(...result.diagnostics || [])
     }
   }
   
-  // Phase 8.2: IntentGraph Canonicalization (NEW)
-  // Validates intent-graph YAML files against IntentRegistry, ActionRegistry, InvariantRegistry, MetricRegistry
-  let intentGraphDescriptors: Map<string, any> | undefined
-  
-  if (!fullConfig.skipPhases?.includes(8.2)) {
-    const phase8_2 = await runPhase8_2IntentGraphCanonicalization(manifest, fullConfig)
-    phases.push(phase8_2)
-    allErrors.push(...phase8_2.errors)
-    allWarnings.push(...phase8_2.warnings)
+  const cancelled = options.signal?.aborted === true && (pending.length > 0 || phases.some(p => p.cancelled))
+  let success = !cancelled && !blocked && failedRoots.size === 0 && allErrors.length === 0
+  
+  // Orphans are only known when every generator ran
+  const complete = !cancelled && !options.phases && phases.length === order.length &&
+    phases.every(phase => phase.success && !phase.skipped)
+  const onDisk = getFileSystem(fullConfig) === nodeFileSystem
+  const lockfile = fullConfig.lockfile || join(fullConfig.workspaceRoot, 'act.lock.json')
+  const locked: LockedArtifacts = onDisk ? readLockfile(lockfile, fullConfig.workspaceRoot, nodeFileSystem) : new Map()
+  let orphans: string[] | undefined
+  const pruned: string[] = []
+  if (complete) {
+    const runFs = getFileSystem(phaseConfig)
+    const known = [...locked.keys(), ...listGeneratedFiles(artifactOutputDirs(fullConfig, generated.keys()), runFs)]
+    orphans = findOrphanedArtifacts(known, generated, runFs)
     
-    // Extract intent graph descriptors
-    if ((phase8_2 as any).intentGraphDescriptors) {
-      intentGraphDescriptors = (phase8_2 as any).intentGraphDescriptors as Map<string, any>
-    }
-    
-    // ✅ CRITICAL: Fail pipeline on FIRST IntentGraph validation error
-    if (!phase8_2.success) {
-      return {
-        success: false,
-        phases,
-        manifest,
-        totalDuration: Date.now() - startTime,
-        errors: allErrors,
-        warnings: allWarnings,
+    const diagnostics: Diagnostic[] = []
+    for (const path of orphans) {
+      if (!fullConfig.prune || !writing || !success) {
+        diagnostics.push({
+          code: DiagnosticCodes.ArtifactOrphaned,
+          severity: 'warning',
+          message: `Orphaned artifact: no generator produced ${path}`,
+          file: path,
+          hint: 'Delete it, or run with --prune',
+        })
+        continue
       }
-    }
-  }
-  
-  // Phase 9.0: Purity Guards Canonicalization (NEW)
-  // ✅ ABSOLUTE PURITY: Loads and canonicalizes all six Purity Guards
-  // Runs AFTER Phase 8.2 (IntentGraph) and BEFORE Phase 7 (Codegen)
-  let purityGuards: Map<string, any> | undefined
-  
-  if (!fullConfig.skipPhases?.includes(9.0)) {
-    const phase9_0 = await runPhase9_0PurityGuardsCanonicalization(manifest, fullConfig)
-    phases.push(phase9_0)
-    allErrors.push(...phase9_0.errors)
-    allWarnings.push(...phase9_0.warnings)
-    
-    // Extract purity guards
-    if ((phase9_0 as any).purityGuards) {
-      purityGuards = (phase9_0 as any).purityGuards as Map<string, any>
-    }
-    
-    // ✅ CRITICAL: Fail pipeline on FIRST purity guard loading error
-    if (!phase9_0.success) {
-      return {
-        success: false,
-        phases,
-        manifest,
-        totalDuration: Date.now() - startTime,
-        errors: allErrors,
-        warnings: allWarnings,
+      try {
+        runFs.deleteFile(path)
+        pruned.push(path)
+        diagnostics.push({ code: DiagnosticCodes.ArtifactPruned, severity: 'info', message: `Pruned orphaned artifact ${path}`, file: path })
+      } catch (error: any) {
+        diagnostics.push({
+          code: DiagnosticCodes.ArtifactOrphaned,
+          severity: 'warning',
+          message: `Orphaned artifact could not be pruned: ${error.message}`,
+          file: path,
+        })
       }
     }
-  }
-  
-  // Phase 9.1: Purity Guards Enforcement (NEW)
-  // ✅ ABSOLUTE PURITY: Validates entire codebase against all six Purity Guards
-  // Runs AFTER Phase 9.0 (Purity Guards Canonicalization) and BEFORE Phase 7 (Codegen)
-  if (!fullConfig.skipPhases?.includes(9.1) && purityGuards) {
-    const phase9_1 = await runPhase9_1PurityGuardsEnforcement(manifest, fullConfig, purityGuards)
-    phases.push(phase9_1)
-    allErrors.push(...phase9_1.errors)
-    allWarnings.push(...phase9_1.warnings)
-    
-    // ✅ CRITICAL: Fail pipeline on FIRST purity violation
-    if (!phase9_1.success) {
-      return {
-        success: false,
-        phases,
-        manifest,
-        totalDuration: Date.now() - startTime,
-        errors: allErrors,
-        warnings: allWarnings,
-      }
+    const summary = summarizeDiagnostics(diagnostics)
+    allWarnings.push(...summary.warnings)
+    allDiagnostics.push(...summary.diagnostics)
+    for (const diagnostic of diagnostics) {
+      events.emit({ type: 'diagnostic', diagnostic })
     }
   }
   
-  // Phase 7: Code Generation
-  if (!fullConfig.skipPhases?.includes(7)) {
-    const phase7 = await runPhase7Codegen(
-      contracts,
-      manifest,
-      fullConfig,
-      descriptors,
-      functionalDescriptors,
-      commandDescriptors,
-      hotkeyDescriptors,
-      telemetryDescriptors,
-      devtoolsDescriptors,
-      uxFidelityDescriptors,
-      intentGraphDescriptors,
-      purityGuards
-    )
-    phases.push(phase7)
-    allErrors.push(...phase7.errors)
-    allWarnings.push(...phase7.warnings)
-    
-    if (!phase7.success) {
-      return {
-        success: false,
-        phases,
-        manifest,
-        totalDuration: Date.now() - startTime,
-        errors: allErrors,
-        warnings: allWarnings,
+  // The lockfile follows what reaches disk: complete runs replace it (keeping
+  // the orphans left in place), partial runs add to it. It is staged with the
+  // artifacts, so it is committed (or discarded) with them
+  if (success && writing && onDisk && (generated.size > 0 || locked.size > 0)) {
+    const runFs = getFileSystem(phaseConfig)
+    const artifacts: LockedArtifacts = complete ? new Map() : new Map(locked)
+    for (const path of orphans || []) {
+      const entry = locked.get(path)
+      if (entry && !pruned.includes(path)) {
+        artifacts.set(path, entry)
       }
     }
-  }
-  
-  // Phase 8: Drift Check
-  if (!fullConfig.skipPhases?.includes(8)) {
-    const phase8 = await runPhase8DriftCheck(manifest, fullConfig)
-    phases.push(phase8)
-    allErrors.push(...phase8.errors)
-    allWarnings.push(...phase8.warnings)
-    
-    // In check mode, drift check failures are warnings (expected drift)
-    // In write mode, missing banners after generation are warnings (not critical)
-    // Only fail on actual errors (e.g., cannot read files)
-    if (!phase8.success && phase8.errors.length > 0 && !fullConfig.checkMode) {
-      // Only fail if there are actual errors (not just missing banners)
-      const actualErrors = phase8.errors.filter(e => !e.includes('missing generation banner'))
-      if (actualErrors.length > 0) {
-        return {
-          success: false,
-          phases,
-          manifest,
-          totalDuration: Date.now() - startTime,
-          errors: allErrors,
-          warnings: allWarnings,
-        }
+    for (const [path, entry] of generated) {
+      artifacts.set(path, entry)
+      // Hand edits are diffed against it once no generator produces the artifact
+      if (entry.hash && !cache.has(GENERATED_CONTENT_NAMESPACE, entry.hash) && runFs.exists(path)) {
+        cache.set(GENERATED_CONTENT_NAMESPACE, entry.hash, stripKeepRegions(runFs.readFile(path)))
       }
     }
-  }
-  
-  // Phase 9: UI Typecheck
-  if (!fullConfig.skipPhases?.includes(9)) {
-    const phase9 = await runPhase9UiTypecheck(manifest, fullConfig)
-    phases.push(phase9)
-    allErrors.push(...phase9.errors)
-    allWarnings.push(...phase9.warnings)
-    
-    if (!phase9.success) {
-      return {
-        success: false,
-        phases,
-        manifest,
-        totalDuration: Date.now() - startTime,
-        errors: allErrors,
-        warnings: allWarnings,
+    try {
+      writeLockfile(lockfile, artifacts, fullConfig.workspaceRoot, runFs)
+    } catch (error: any) {
+      const diagnostic: Diagnostic = {
+        code: DiagnosticCodes.ArtifactWriteFailed,
+        severity: 'warning',
+        message: `Lockfile could not be written: ${error.message}`,
+        file: lockfile,
       }
+      allWarnings.push(diagnostic.message)
+      allDiagnostics.push(diagnostic)
+      events.emit({ type: 'diagnostic', diagnostic })
     }
   }
   
-  // Phase 10: Invariant Registry Validation
-  if (!fullConfig.skipPhases?.includes(10)) {
-    const phase10 = await runPhase10InvariantRegistry(manifest, fullConfig)
-    phases.push(phase10)
-    allErrors.push(...phase10.errors)
-    allWarnings.push(...phase10.warnings)
-    
-    if (!phase10.success) {
-      return {
-        success: false,
-        phases,
-        manifest,
-        totalDuration: Date.now() - startTime,
-        errors: allErrors,
-        warnings: allWarnings,
+  let commit: ArtifactCommit | undefined
+  if (transaction) {
+    const diagnostics: Diagnostic[] = []
+    if (success) {
+      try {
+        commit = transaction.commit()
+      } catch (error: any) {
+        success = false
+        diagnostics.push({ code: DiagnosticCodes.ArtifactCommitFailed, severity: 'error', message: error.message })
+      }
+    } else {
+      const discarded = transaction.discard()
+      if (discarded > 0) {
+        diagnostics.push({
+          code: DiagnosticCodes.ArtifactsDiscarded,
+          severity: 'info',
+          message: `${discarded} staged artifact(s) discarded: the run did not succeed, previous artifacts kept`,
+        })
       }
     }
+    const summary = summarizeDiagnostics(diagnostics)
+    allErrors.push(...summary.errors)
+    allWarnings.push(...summary.warnings)
+    allDiagnostics.push(...summary.diagnostics)
+    for (const diagnostic of diagnostics) {
+      events.emit({ type: 'diagnostic', diagnostic })
+    }
   }
   
-  // Phase 11: Runtime Simulation Tests
-  if (!fullConfig.skipPhases?.includes(11)) {
-    const phase11 = await runPhase11RuntimeSimulation(manifest, fullConfig)
-    phases.push(phase11)
-    allErrors.push(...phase11.errors)
-    allWarnings.push(...phase11.warnings)
-  }
-  
-  const totalDuration = Date.now() - startTime
-  
-  return {
-    success: allErrors.length === 0,
+  const result: PipelineResult = {
+    success,
     phases,
     manifest,
-    totalDuration,
+    totalDuration: Date.now() - startTime,
     errors: allErrors,
     warnings: allWarnings,
+    diagnostics: allDiagnostics,
+    cache: cache.enabled ? cache.getStats() : undefined,
+    outputs,
   }
+  if (cancelled) {
+    result.cancelled = true
+  }
+  if (commit) {
+    result.commit = commit
+  }
+  if (orphans) {
+    result.orphans = orphans
+    result.pruned = pruned
+  }
+  if (changes) {
+    result.changes = changes.summarize(orphans)
+  }
+  
+  events.emit({ type: 'pipeline:end', result })
+  return result
 }
-
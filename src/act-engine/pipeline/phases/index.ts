@@ -0,0 +1,73 @@
+/**
+ * ✅ ENTELECHIA: Built-in Pipeline Phases
+ *
+ * Registers every built-in phase definition.
+ *
+ * Registration order is the tie-breaker for phases whose dependencies are
+ * satisfied at the same time; execution order itself is derived from each
+ * phase's declared inputs and `after` dependencies.
+ */
+
+import { PhaseRegistry } from '../registry.js'
+import type { PhaseDefinition } from '../types.js'
+import { phase0Manifests } from './phase-0-manifests.js'
+import { phase1FormChecks } from './phase-1-form-checks.js'
+import { phase1_5ArchitectureGuard } from './phase-1.5-architecture-guard.js'
+import { phase2ContractValidation } from './phase-2-contract-validation.js'
+import { phase3InvariantValidation } from './phase-3-invariant-validation.js'
+import { phase4AclValidation } from './phase-4-acl-validation.js'
+import { phase5YamlValidation } from './phase-5-yaml-validation.js'
+import { phase6Canonicalization } from './phase-6-canonicalization.js'
+import { phase6bNavigationCanonicalization } from './phase-6b-navigation-canonicalization.js'
+import { phase7_5FunctionalCanonicalization } from './phase-7.5-functional-canonicalization.js'
+import { phase7_6InvariantEnforcement } from './phase-7.6-invariant-enforcement.js'
+import { phase7_7FunctionalCanonicalization } from './phase-7.7-functional-canonicalization.js'
+import { phase7_8CommandCanonicalization } from './phase-7.8-command-canonicalization.js'
+import { phase8_1InstrumentationCanonicalization } from './phase-8.1-instrumentation-canonicalization.js'
+import { phase8_2IntentGraphCanonicalization } from './phase-8.2-intent-graph-canonicalization.js'
+import { phase9_0PurityGuardsCanonicalization } from './phase-9.0-purity-guards-canonicalization.js'
+import { phase9_1PurityGuardsEnforcement } from './phase-9.1-purity-guards-enforcement.js'
+import { phase7Codegen } from './phase-7-codegen.js'
+import { phase8DriftCheck } from './phase-8-drift-check.js'
+import { phase9UiTypecheck } from './phase-9-ui-typecheck.js'
+import { phase10InvariantRegistry } from './phase-10-invariant-registry.js'
+import { phase11RuntimeSimulation } from './phase-11-runtime-simulation.js'
+
+/**
+ * All built-in phases
+ */
+export const BUILTIN_PHASES: PhaseDefinition[] = [
+  phase0Manifests,
+  phase1FormChecks,
+  phase1_5ArchitectureGuard,
+  phase2ContractValidation,
+  phase3InvariantValidation,
+  phase4AclValidation,
+  phase5YamlValidation,
+  phase6Canonicalization,
+  phase6bNavigationCanonicalization,
+  phase7_5FunctionalCanonicalization,
+  phase7_6InvariantEnforcement,
+  phase7_7FunctionalCanonicalization,
+  phase7_8CommandCanonicalization,
+  phase8_1InstrumentationCanonicalization,
+  phase8_2IntentGraphCanonicalization,
+  phase9_0PurityGuardsCanonicalization,
+  phase9_1PurityGuardsEnforcement,
+  phase7Codegen,
+  phase8DriftCheck,
+  phase9UiTypecheck,
+  phase10InvariantRegistry,
+  phase11RuntimeSimulation,
+]
+
+/**
+ * Create a registry containing all built-in phases
+ */
+export function createDefaultPhaseRegistry(): PhaseRegistry {
+  const registry = new PhaseRegistry()
+  for (const definition of BUILTIN_PHASES) {
+    registry.register(definition)
+  }
+  return registry
+}
@@ -8,6 +8,8 @@ import type { ContractDefinition } from '@entelechia/contracts/contracts/metadat
 import type { ActManifest } from '../../manifests/types.js'
 import type { ActEngineConfig, PhaseResult } from '../types.js'
 import { generateActManifest } from '../../manifests/index.js'
+import { definePhase } from '../registry.js'
+import { DiagnosticCollector, DiagnosticCodes } from '../../diagnostics/index.js'
 
 /**
  * Execute Phase 0: Generate Manifests
@@ -17,8 +19,7 @@ export async function runPhase0Manifests(
   config: ActEngineConfig
 ): Promise<PhaseResult> {
   const startTime = Date.now()
-  const errors: string[] = []
-  const warnings: string[] = []
+  const diagnostics = new DiagnosticCollector(0)
   
   try {
     // Generate complete manifest
@@ -30,23 +31,30 @@ export async function runPhase0Manifests(
       phase: 0,
       name: 'Generate Manifests',
       success: true,
-      errors,
-      warnings,
+      ...diagnostics.toResult(),
       duration,
     }
   } catch (error: any) {
     const duration = Date.now() - startTime
-    errors.push(`Manifest generation failed: ${error.message}`)
+    diagnostics.fromError(error, DiagnosticCodes.ManifestFailed, 'Manifest generation failed')
     
     return {
       phase: 0,
       name: 'Generate Manifests',
       success: false,
-      errors,
-      warnings,
+      ...diagnostics.toResult(),
       duration,
     }
   }
 }
 
-
+/**
+ * Phase 0 definition
+ */
+export const phase0Manifests = definePhase({
+  phase: 0,
+  name: 'Generate Manifests',
+  async run({ contracts, config }) {
+    return { result: await runPhase0Manifests(contracts, config) }
+  },
+})
@@ -8,6 +8,9 @@ import type { ActManifest } from '../../manifests/types.js'
 import type { ActEngineConfig, PhaseResult } from '../types.js'
 import { validateFormCompleteness } from '../../validators/form-completeness.js'
 import type { ContractDefinition } from '@entelechia/contracts/contracts/metadata/types'
+import { definePhase } from '../registry.js'
+import { getFileSystem } from '../../fs/index.js'
+import { DiagnosticCollector, DiagnosticCodes } from '../../diagnostics/index.js'
 
 /**
  * Execute Phase 1: FORM Completeness Checks
@@ -18,33 +21,24 @@ export async function runPhase1FormChecks(
   config: ActEngineConfig
 ): Promise<PhaseResult> {
   const startTime = Date.now()
+  const diagnostics = new DiagnosticCollector(1)
   
   try {
     const result = await validateFormCompleteness(
       contracts,
       config.yamlDir,
-      config.formsOutputDir
+      config.formsOutputDir,
+      getFileSystem(config)
     )
     
     const duration = Date.now() - startTime
-    
-    if (!result.passed) {
-      return {
-        phase: 1,
-        name: 'FORM Completeness Checks',
-        success: false,
-        errors: result.errors,
-        warnings: result.warnings,
-        duration,
-      }
-    }
+    diagnostics.addAll(result.diagnostics)
     
     return {
       phase: 1,
       name: 'FORM Completeness Checks',
-      success: true,
-      errors: [],
-      warnings: result.warnings,
+      success: result.passed,
+      ...diagnostics.toResult(),
       duration,
     }
   } catch (error: any) {
@@ -54,11 +48,21 @@ export async function runPhase1FormChecks(
       phase: 1,
       name: 'FORM Completeness Checks',
       success: false,
-      errors: [`FORM completeness check failed: ${error.message}`],
-      warnings: [],
+      ...diagnostics.fromError(error, DiagnosticCodes.PhaseFailed, 'FORM completeness check failed').toResult(),
       duration,
     }
   }
 }
 
-
+/**
+ * Phase 1 definition
+ */
+export const phase1FormChecks = definePhase({
+  phase: 1,
+  name: 'FORM Completeness Checks',
+  after: [0],
+  sources: config => [config.yamlDir],
+  async run({ contracts, manifest, config }) {
+    return { result: await runPhase1FormChecks(contracts, manifest, config) }
+  },
+})
@@ -15,7 +15,6 @@
  * - UI must not wrap IntentGraph in custom logic
  */
 
-import { readFileSync, existsSync, readdirSync } from 'fs'
 import { join, relative } from 'path'
 import type { PhaseResult } from '../types.js'
 import type { ActEngineConfig } from '../types.js'
@@ -26,6 +25,16 @@ import {
   type CanonicalArchitectureRuleDescriptor,
 } from '../../../architecture/architecture-canonicalizer.js'
 import { recordArchitectureViolation, registry } from '@entelechia/invariant-engine'
+import { definePhase } from '../registry.js'
+import { abortCheckpoint } from '../cancellation.js'
+import {
+  DiagnosticCollector,
+  DiagnosticCodes,
+  architectureRuleCode,
+  formatSteps,
+  type Diagnostic,
+} from '../../diagnostics/index.js'
+import { getFileSystem, type ActFileSystem } from '../../fs/index.js'
 
 /**
  * Architecture violation context
@@ -50,59 +59,58 @@ export interface ArchitectureViolationContext {
  */
 export async function runPhase1_5ArchitectureGuard(
   manifest: ActManifest,
-  config: ActEngineConfig
+  config: ActEngineConfig,
+  signal?: AbortSignal
 ): Promise<PhaseResult & {
   violations?: ArchitectureViolationContext[]
 }> {
   const startTime = Date.now()
-  const errors: string[] = []
-  const warnings: string[] = []
+  const fs = getFileSystem(config)
+  const diagnostics = new DiagnosticCollector(1.5)
   const violations: ArchitectureViolationContext[] = []
 
   try {
     // 1. Load Architecture Rules FORM
-    const architectureRulesPath = join(
-      config.workspaceRoot,
-      'entelechia-form',
-      'architecture',
-      'architecture-rules.yaml'
-    )
+    const architectureRulesPath = join(config.architectureDir, 'architecture-rules.yaml')
 
-    if (!existsSync(architectureRulesPath)) {
+    if (!fs.exists(architectureRulesPath)) {
       // Architecture rules are optional - if file doesn't exist, skip this phase
       return {
         phase: 1.5,
         name: 'Architecture Guard',
         success: true,
-        errors: [],
-        warnings: ['architecture-rules.yaml not found - skipping architecture guard'],
+        ...diagnostics.warning(DiagnosticCodes.SourceMissing, 'architecture-rules.yaml not found - skipping architecture guard', {
+          file: architectureRulesPath,
+        }).toResult(),
         duration: Date.now() - startTime,
       }
     }
 
-    const architectureRulesYaml = loadArchitectureRulesFile(architectureRulesPath)
+    const architectureRulesYaml = loadArchitectureRulesFile(architectureRulesPath, fs)
     const canonicalRules = canonicalizeArchitectureRules(architectureRulesYaml)
 
     // 2. Scan UI source code
-    const uiSourceDir = join(config.workspaceRoot, 'entelechia-ui', 'src')
+    const uiSourceDir = config.uiSourceDir
     
-    if (!existsSync(uiSourceDir)) {
+    if (!fs.exists(uiSourceDir)) {
       return {
         phase: 1.5,
         name: 'Architecture Guard',
         success: true,
-        errors: [],
-        warnings: ['entelechia-ui/src directory not found - skipping architecture guard'],
+        ...diagnostics.warning(DiagnosticCodes.SourceMissing, 'UI source directory not found - skipping architecture guard', {
+          file: uiSourceDir,
+        }).toResult(),
         duration: Date.now() - startTime,
       }
     }
 
     // Get all TypeScript/TSX files
-    const sourceFiles = getAllSourceFiles(uiSourceDir, ['.ts', '.tsx'])
+    const sourceFiles = getAllSourceFiles(uiSourceDir, ['.ts', '.tsx'], fs)
 
     // 3. Check each file against architecture rules
     for (const filePath of sourceFiles) {
-      const content = readFileSync(filePath, 'utf-8')
+      await abortCheckpoint(signal)
+      const content = fs.readFile(filePath)
       const relativePath = relative(config.workspaceRoot, filePath)
 
       // Skip generated files and node_modules
@@ -131,32 +139,25 @@ export async function runPhase1_5ArchitectureGuard(
       }
     }
 
-    // 4. Convert violations to errors or warnings based on severity
+    // 4. Convert violations to error or warning diagnostics based on severity
     // Find rule for each violation to check severity
     const ruleMap = new Map(canonicalRules.map(r => [r.id, r]))
     
     for (const violation of violations) {
       const rule = ruleMap.get(violation.ruleId)
-      const errorMessage = formatViolationError(violation)
-      
-      if (rule?.severity === 'error') {
-        errors.push(errorMessage)
-      } else {
-        // severity === 'warn' or unknown
-        warnings.push(errorMessage)
-      }
+      // severity === 'warn' or unknown rule → warning
+      diagnostics.add(violationToDiagnostic(violation, rule?.severity === 'error' ? 'error' : 'warning'))
     }
 
     // 5. Fail pipeline only on error violations (warnings don't block)
-    const success = errors.length === 0
+    const success = !diagnostics.hasErrors()
     const duration = Date.now() - startTime
 
     return {
       phase: 1.5,
       name: 'Architecture Guard',
       success,
-      errors,
-      warnings,
+      ...diagnostics.toResult(),
       duration,
       violations: success ? undefined : violations,
     }
@@ -167,8 +168,7 @@ export async function runPhase1_5ArchitectureGuard(
       phase: 1.5,
       name: 'Architecture Guard',
       success: false,
-      errors: [`Architecture guard failed: ${error.message}`],
-      warnings: [],
+      ...diagnostics.fromError(error, DiagnosticCodes.PhaseFailed, 'Architecture guard failed').toResult(),
       duration,
     }
   }
@@ -177,23 +177,23 @@ export async function runPhase1_5ArchitectureGuard(
 /**
  * Get all source files recursively
  */
-function getAllSourceFiles(dir: string, extensions: string[]): string[] {
+function getAllSourceFiles(dir: string, extensions: string[], fs: ActFileSystem): string[] {
   const files: string[] = []
   
   try {
-    const entries = readdirSync(dir, { withFileTypes: true })
+    const entries = fs.readdir(dir)
     
     for (const entry of entries) {
-      const fullPath = join(dir, entry.name)
+      const fullPath = join(dir, entry)
       
-      if (entry.isDirectory()) {
+      if (fs.isDirectory(fullPath)) {
         // Skip node_modules and .git
-        if (entry.name === 'node_modules' || entry.name === '.git') {
+        if (entry === 'node_modules' || entry === '.git') {
           continue
         }
-        files.push(...getAllSourceFiles(fullPath, extensions))
-      } else if (entry.isFile()) {
-        const ext = entry.name.substring(entry.name.lastIndexOf('.'))
+        files.push(...getAllSourceFiles(fullPath, extensions, fs))
+      } else {
+        const ext = entry.substring(entry.lastIndexOf('.'))
         if (extensions.includes(ext)) {
           files.push(fullPath)
         }
@@ -329,35 +329,39 @@ function checkFileAgainstRule(
 }
 
 /**
- * Format violation as error message
+ * Convert a violation to a diagnostic
  */
-function formatViolationError(violation: ArchitectureViolationContext): string {
-  const parts: string[] = []
-  
-  parts.push(`[ARCHITECTURE VIOLATION ${violation.ruleId}]`)
-  parts.push(`File: ${violation.filePath}:${violation.line}`)
-  
-  if (violation.importPath) {
-    parts.push(`Import: ${violation.importPath}`)
-  }
-  
-  if (violation.identifier) {
-    parts.push(`Identifier: ${violation.identifier}`)
-  }
-  
-  if (violation.snippet) {
-    parts.push(`Code: ${violation.snippet}`)
+function violationToDiagnostic(
+  violation: ArchitectureViolationContext,
+  severity: 'error' | 'warning'
+): Diagnostic {
+  const subject = violation.importPath
+    ? `import "${violation.importPath}"`
+    : violation.identifier
+      ? `identifier "${violation.identifier}"`
+      : 'code'
+
+  return {
+    code: architectureRuleCode(violation.ruleId),
+    severity,
+    message: `Architecture violation ${violation.ruleId}: ${subject}${violation.snippet ? ` in \`${violation.snippet}\`` : ''}`,
+    file: violation.filePath,
+    range: { start: { line: violation.line, column: violation.column ?? 1 } },
+    rationale: violation.telosViolated,
+    hint: formatSteps(violation.resolutionSteps),
   }
-  
-  parts.push('')
-  parts.push('TELOS VIOLATED:')
-  parts.push(violation.telosViolated)
-  parts.push('')
-  parts.push('RESOLUTION STEPS:')
-  violation.resolutionSteps.forEach((step, i) => {
-    parts.push(`  ${i + 1}. ${step}`)
-  })
-  
-  return parts.join('\n')
 }
 
+/**
+ * Phase 1.5 definition
+ */
+export const phase1_5ArchitectureGuard = definePhase({
+  phase: 1.5,
+  name: 'Architecture Guard',
+  after: [0],
+  sources: config => [config.architectureDir],
+  async run({ manifest, config, signal }) {
+    const { violations, ...result } = await runPhase1_5ArchitectureGuard(manifest, config, signal)
+    return { result }
+  },
+})
@@ -7,6 +7,8 @@
 import type { ActManifest } from '../../manifests/types.js'
 import type { ActEngineConfig, PhaseResult } from '../types.js'
 import { registry } from '@entelechia/invariant-engine'
+import { definePhase } from '../registry.js'
+import { DiagnosticCollector, DiagnosticCodes } from '../../diagnostics/index.js'
 
 /**
  * Required invariants for runtime
@@ -27,29 +29,28 @@ export async function runPhase10InvariantRegistry(
   config: ActEngineConfig
 ): Promise<PhaseResult> {
   const startTime = Date.now()
-  const errors: string[] = []
-  const warnings: string[] = []
+  const diagnostics = new DiagnosticCollector(10)
   
   try {
     // Simulate runtime registry load
     const allIds = registry.getAllInvariantIds()
     
     if (allIds.length === 0) {
-      errors.push('Invariant registry is empty')
+      diagnostics.error(DiagnosticCodes.InvariantRegistryEmpty, 'Invariant registry is empty')
     }
     
     // Verify required invariants present
     for (const id of REQUIRED_INVARIANTS) {
       const entry = registry.get(id)
       if (!entry) {
-        errors.push(`Required invariant ${id} not found in registry`)
+        diagnostics.error(DiagnosticCodes.InvariantMissing, `Required invariant ${id} not found in registry`)
       } else {
         // Verify entry is complete
         if (!entry.metadata) {
-          errors.push(`Invariant ${id} has no metadata`)
+          diagnostics.error(DiagnosticCodes.InvariantMissing, `Invariant ${id} has no metadata`)
         }
         if (!entry.metadata.enforce) {
-          warnings.push(`Invariant ${id} has no enforce function`)
+          diagnostics.warning(DiagnosticCodes.InvariantMissing, `Invariant ${id} has no enforce function`)
         }
       }
     }
@@ -64,7 +65,7 @@ export async function runPhase10InvariantRegistry(
     }
     
     if (categories.size === 0) {
-      warnings.push('No invariant categories found')
+      diagnostics.warning(DiagnosticCodes.InvariantRegistryEmpty, 'No invariant categories found')
     }
     
     const duration = Date.now() - startTime
@@ -72,9 +73,8 @@ export async function runPhase10InvariantRegistry(
     return {
       phase: 10,
       name: 'Invariant Registry Validation',
-      success: errors.length === 0,
-      errors,
-      warnings,
+      success: !diagnostics.hasErrors(),
+      ...diagnostics.toResult(),
       duration,
     }
   } catch (error: any) {
@@ -84,10 +84,20 @@ export async function runPhase10InvariantRegistry(
       phase: 10,
       name: 'Invariant Registry Validation',
       success: false,
-      errors: [`Invariant registry validation failed: ${error.message}`],
-      warnings: [],
+      ...diagnostics.fromError(error, DiagnosticCodes.PhaseFailed, 'Invariant registry validation failed').toResult(),
       duration,
     }
   }
 }
 
+/**
+ * Phase 10 definition
+ */
+export const phase10InvariantRegistry = definePhase({
+  phase: 10,
+  name: 'Invariant Registry Validation',
+  after: [3],
+  async run({ manifest, config }) {
+    return { result: await runPhase10InvariantRegistry(manifest, config) }
+  },
+})
@@ -6,6 +6,8 @@
 
 import type { ActManifest } from '../../manifests/types.js'
 import type { ActEngineConfig, PhaseResult } from '../types.js'
+import { definePhase } from '../registry.js'
+import { DiagnosticCollector, DiagnosticCodes } from '../../diagnostics/index.js'
 
 /**
  * Execute Phase 11: Runtime Simulation Tests
@@ -18,10 +20,10 @@ export async function runPhase11RuntimeSimulation(
   config: ActEngineConfig
 ): Promise<PhaseResult> {
   const startTime = Date.now()
-  const warnings: string[] = []
+  const diagnostics = new DiagnosticCollector(11)
   
   // Phase 11 is optional - skip for now
-  warnings.push('Runtime simulation tests skipped (requires running backend)')
+  diagnostics.warning(DiagnosticCodes.CheckSkipped, 'Runtime simulation tests skipped (requires running backend)')
   
   const duration = Date.now() - startTime
   
@@ -29,10 +31,20 @@ export async function runPhase11RuntimeSimulation(
     phase: 11,
     name: 'Runtime Simulation Tests',
     success: true,
-    errors: [],
-    warnings,
+    ...diagnostics.toResult(),
     duration,
   }
 }
 
-
+/**
+ * Phase 11 definition
+ */
+export const phase11RuntimeSimulation = definePhase({
+  phase: 11,
+  name: 'Runtime Simulation Tests',
+  after: [0],
+  blocking: false,
+  async run({ manifest, config }) {
+    return { result: await runPhase11RuntimeSimulation(manifest, config) }
+  },
+})
@@ -7,7 +7,8 @@
 import type { ActManifest } from '../../manifests/types.js'
 import type { ActEngineConfig, PhaseResult } from '../types.js'
 import type { ContractDefinition } from '@entelechia/contracts/contracts/metadata/types'
-import { join } from 'path'
+import { definePhase } from '../registry.js'
+import { DiagnosticCollector, DiagnosticCodes } from '../../diagnostics/index.js'
 
 /**
  * Execute Phase 2: Contract Metadata Validation
@@ -18,11 +19,11 @@ export async function runPhase2ContractValidation(
   config: ActEngineConfig
 ): Promise<PhaseResult> {
   const startTime = Date.now()
+  const diagnostics = new DiagnosticCollector(2)
   
   try {
     // Dynamic import from backend (metadata validator is backend-specific)
-    const metadataValidatorPath = join(config.workspaceRoot, 'entelechia-core', 'src', 'contracts', 'metadata', 'metadata-validator.ts')
-    const metadataValidatorModule = await import(`file://${metadataValidatorPath}`)
+    const metadataValidatorModule = await import(`file://${config.metadataValidatorPath}`)
     const validateAllMetadata = metadataValidatorModule.validateAllMetadata
     
     validateAllMetadata(contracts)
@@ -33,8 +34,7 @@ export async function runPhase2ContractValidation(
       phase: 2,
       name: 'Contract Metadata Validation',
       success: true,
-      errors: [],
-      warnings: [],
+      ...diagnostics.toResult(),
       duration,
     }
   } catch (error: any) {
@@ -44,11 +44,20 @@ export async function runPhase2ContractValidation(
       phase: 2,
       name: 'Contract Metadata Validation',
       success: false,
-      errors: [`Metadata validation failed: ${error.message}`],
-      warnings: [],
+      ...diagnostics.fromError(error, DiagnosticCodes.ContractMetadataInvalid, 'Metadata validation failed').toResult(),
       duration,
     }
   }
 }
 
-
+/**
+ * Phase 2 definition
+ */
+export const phase2ContractValidation = definePhase({
+  phase: 2,
+  name: 'Contract Metadata Validation',
+  after: [0],
+  async run({ contracts, manifest, config }) {
+    return { result: await runPhase2ContractValidation(contracts, manifest, config) }
+  },
+})
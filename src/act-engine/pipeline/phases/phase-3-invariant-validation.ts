@@ -7,6 +7,8 @@
 import type { ActManifest } from '../../manifests/types.js'
 import type { ActEngineConfig, PhaseResult } from '../types.js'
 import { registry } from '@entelechia/invariant-engine'
+import { definePhase } from '../registry.js'
+import { DiagnosticCollector, DiagnosticCodes } from '../../diagnostics/index.js'
 
 /**
  * Required invariants that must exist
@@ -27,27 +29,29 @@ export async function runPhase3InvariantValidation(
   config: ActEngineConfig
 ): Promise<PhaseResult> {
   const startTime = Date.now()
-  const errors: string[] = []
-  const warnings: string[] = []
+  const diagnostics = new DiagnosticCollector(3)
   
   try {
     const allIds = registry.getAllInvariantIds()
     
     if (allIds.length === 0) {
-      errors.push('Invariant engine registry is empty')
+      diagnostics.error(DiagnosticCodes.InvariantRegistryEmpty, 'Invariant engine registry is empty')
     }
     
     // Check required invariants
     for (const id of REQUIRED_INVARIANTS) {
       if (!registry.get(id)) {
-        errors.push(`Required invariant ${id} not found in registry`)
+        diagnostics.error(DiagnosticCodes.InvariantMissing, `Required invariant ${id} not found in registry`)
       }
     }
     
     // Validate invariant ID format
     for (const id of allIds) {
       if (!/^[A-Z_]+\.F\d+$/.test(id) && !/^[A-Z_]+\.I\d+$/.test(id) && !/^[A-Z_]+\.A\d+/.test(id) && !/^[A-Z_]+\.E\d+/.test(id)) {
-        warnings.push(`Invariant ID "${id}" does not match canonical format (CATEGORY.CODE)`)
+        diagnostics.warning(
+          DiagnosticCodes.InvariantIdFormat,
+          `Invariant ID "${id}" does not match canonical format (CATEGORY.CODE)`
+        )
       }
     }
     
@@ -56,9 +60,8 @@ export async function runPhase3InvariantValidation(
     return {
       phase: 3,
       name: 'Invariant Engine Validation',
-      success: errors.length === 0,
-      errors,
-      warnings,
+      success: !diagnostics.hasErrors(),
+      ...diagnostics.toResult(),
       duration,
     }
   } catch (error: any) {
@@ -68,11 +71,20 @@ export async function runPhase3InvariantValidation(
       phase: 3,
       name: 'Invariant Engine Validation',
       success: false,
-      errors: [`Invariant validation failed: ${error.message}`],
-      warnings: [],
+      ...diagnostics.fromError(error, DiagnosticCodes.PhaseFailed, 'Invariant validation failed').toResult(),
       duration,
     }
   }
 }
 
-
+/**
+ * Phase 3 definition
+ */
+export const phase3InvariantValidation = definePhase({
+  phase: 3,
+  name: 'Invariant Engine Validation',
+  after: [0],
+  async run({ manifest, config }) {
+    return { result: await runPhase3InvariantValidation(manifest, config) }
+  },
+})
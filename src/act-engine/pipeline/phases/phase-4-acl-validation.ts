@@ -6,7 +6,8 @@
 
 import type { ActManifest } from '../../manifests/types.js'
 import type { ActEngineConfig, PhaseResult } from '../types.js'
-import { join } from 'path'
+import { definePhase } from '../registry.js'
+import { DiagnosticCollector, DiagnosticCodes } from '../../diagnostics/index.js'
 
 /**
  * Execute Phase 4: ACL FORM Validation
@@ -16,16 +17,12 @@ export async function runPhase4AclValidation(
   config: ActEngineConfig
 ): Promise<PhaseResult> {
   const startTime = Date.now()
-  const errors: string[] = []
-  const warnings: string[] = []
+  const diagnostics = new DiagnosticCollector(4)
   
   try {
     // Dynamic import from backend (ACL is backend-specific)
-    const roleCompilerPath = join(config.workspaceRoot, 'entelechia-core', 'src', 'acl', 'role-compiler.ts')
-    const actionRegistryPath = join(config.workspaceRoot, 'entelechia-core', 'src', 'acl', 'action-registry.ts')
-    
-    const roleCompilerModule = await import(`file://${roleCompilerPath}`)
-    const actionRegistryModule = await import(`file://${actionRegistryPath}`)
+    const roleCompilerModule = await import(`file://${config.roleCompilerPath}`)
+    const actionRegistryModule = await import(`file://${config.actionRegistryPath}`)
     
     const compileRoles = roleCompilerModule.compileRoles
     const ActionRegistry = actionRegistryModule.ActionRegistry
@@ -37,23 +34,26 @@ export async function runPhase4AclValidation(
     // Check for compilation errors
     if (compilation.conflicts.length > 0) {
       for (const conflict of compilation.conflicts) {
-        warnings.push(`Role conflict: ${conflict.role1} vs ${conflict.role2}: ${conflict.reason}`)
+        diagnostics.warning(
+          DiagnosticCodes.RoleConflict,
+          `Role conflict: ${conflict.role1} vs ${conflict.role2}: ${conflict.reason}`
+        )
       }
     }
     
     if (compilation.redundant.length > 0) {
-      warnings.push(`Redundant roles detected: ${compilation.redundant.join(', ')}`)
+      diagnostics.warning(DiagnosticCodes.RoleRedundant, `Redundant roles detected: ${compilation.redundant.join(', ')}`)
     }
     
-    if (compilation.warnings.length > 0) {
-      warnings.push(...compilation.warnings)
+    for (const warning of compilation.warnings) {
+      diagnostics.warning(DiagnosticCodes.RoleCompilation, warning)
     }
     
     // Validate all actions referenced by roles exist
     for (const [role, compiled] of compilation.compiled.entries()) {
       for (const action of compiled.directActions) {
         if (!validateActionId(action)) {
-          errors.push(`Role "${role}" references unknown action: ${action}`)
+          diagnostics.error(DiagnosticCodes.UnknownAction, `Role "${role}" references unknown action: ${action}`)
         }
       }
     }
@@ -61,7 +61,7 @@ export async function runPhase4AclValidation(
     // Check that all actions in registry are valid
     for (const actionId of Object.keys(ActionRegistry)) {
       if (!validateActionId(actionId)) {
-        errors.push(`Action "${actionId}" in registry failed validation`)
+        diagnostics.error(DiagnosticCodes.UnknownAction, `Action "${actionId}" in registry failed validation`)
       }
     }
     
@@ -70,9 +70,8 @@ export async function runPhase4AclValidation(
     return {
       phase: 4,
       name: 'ACL FORM Validation',
-      success: errors.length === 0,
-      errors,
-      warnings,
+      success: !diagnostics.hasErrors(),
+      ...diagnostics.toResult(),
       duration,
     }
   } catch (error: any) {
@@ -82,11 +81,20 @@ export async function runPhase4AclValidation(
       phase: 4,
       name: 'ACL FORM Validation',
       success: false,
-      errors: [`ACL validation failed: ${error.message}`],
-      warnings: [],
+      ...diagnostics.fromError(error, DiagnosticCodes.PhaseFailed, 'ACL validation failed').toResult(),
       duration,
     }
   }
 }
 
-
+/**
+ * Phase 4 definition
+ */
+export const phase4AclValidation = definePhase({
+  phase: 4,
+  name: 'ACL FORM Validation',
+  after: [0],
+  async run({ manifest, config }) {
+    return { result: await runPhase4AclValidation(manifest, config) }
+  },
+})
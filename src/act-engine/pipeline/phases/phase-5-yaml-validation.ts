@@ -4,14 +4,17 @@
  * Validates all YAML form files.
  */
 
-import { readFileSync, existsSync, readdirSync } from 'fs'
 import { join } from 'path'
-import { parse } from 'yaml'
 import type { ActManifest } from '../../manifests/types.js'
 import type { ActEngineConfig, PhaseResult } from '../types.js'
 import { FormYamlSchema } from '../../../forms/yaml-schema.js'
 import { validateFormYaml } from '../../../forms/validator.js'
 import type { ContractDefinition } from '@entelechia/contracts/contracts/metadata/types'
+import { definePhase } from '../registry.js'
+import type { PhaseEventSink } from '../../events/index.js'
+import { DiagnosticCollector, DiagnosticCodes, diagnosticsFromError } from '../../diagnostics/index.js'
+import { loadYamlSource, type YamlSource } from '../../../yaml/index.js'
+import { getFileSystem } from '../../fs/index.js'
 
 /**
  * Execute Phase 5: YAML Validation
@@ -19,42 +22,51 @@ import type { ContractDefinition } from '@entelechia/contracts/contracts/metadat
 export async function runPhase5YamlValidation(
   contracts: ContractDefinition[],
   manifest: ActManifest,
-  config: ActEngineConfig
+  config: ActEngineConfig,
+  events?: PhaseEventSink
 ): Promise<PhaseResult> {
   const startTime = Date.now()
-  const errors: string[] = []
-  const warnings: string[] = []
+  const fs = getFileSystem(config)
+  const diagnostics = new DiagnosticCollector(5)
   
   try {
-    if (!existsSync(config.yamlDir)) {
+    if (!fs.exists(config.yamlDir)) {
       return {
         phase: 5,
         name: 'YAML Validation',
         success: true, // Not an error if YAML dir doesn't exist (no forms defined)
-        errors: [],
-        warnings: [`YAML directory does not exist: ${config.yamlDir} (skipping YAML validation)`],
+        ...diagnostics.warning(
+          DiagnosticCodes.SourceMissing,
+          'YAML directory does not exist (skipping YAML validation)',
+          { file: config.yamlDir }
+        ).toResult(),
         duration: Date.now() - startTime,
       }
     }
     
-    const yamlFiles = readdirSync(config.yamlDir).filter(f => f.endsWith('.form.yaml'))
+    const yamlFiles = fs.readdir(config.yamlDir).filter(f => f.endsWith('.form.yaml'))
     const contractMap = new Map(contracts.map(c => [c.name, c]))
     
     for (const yamlFile of yamlFiles) {
       const yamlPath = join(config.yamlDir, yamlFile)
+      let source: YamlSource | undefined
       
       try {
-        // Read and parse YAML
-        const content = readFileSync(yamlPath, 'utf-8')
-        const yamlData = parse(content)
+        // Read and parse YAML (keeping source positions)
+        source = loadYamlSource(yamlPath, fs)
+        events?.emit({ type: 'file:parsed', file: yamlPath })
         
         // Schema validation
-        const formYaml = FormYamlSchema.parse(yamlData)
+        const formYaml = source.validate(FormYamlSchema)
         
         // Find corresponding contract
         const contract = contractMap.get(formYaml.form.contract)
         if (!contract) {
-          errors.push(`YAML file "${yamlFile}": Contract "${formYaml.form.contract}" not found`)
+          diagnostics.error(
+            DiagnosticCodes.ContractNotFound,
+            `YAML file "${yamlFile}": Contract "${formYaml.form.contract}" not found`,
+            source.at(['form', 'contract'])
+          )
           continue
         }
         
@@ -62,7 +74,9 @@ export async function runPhase5YamlValidation(
         validateFormYaml(formYaml, contract)
         
       } catch (error: any) {
-        errors.push(`YAML file "${yamlFile}": ${error.message}`)
+        // Semantic errors carry YAML paths: resolve them to positions
+        const found = diagnosticsFromError(error, DiagnosticCodes.YamlParseError, `YAML file "${yamlFile}"`, { file: yamlPath })
+        diagnostics.addAll(source ? source.locateAll(found) : found)
       }
     }
     
@@ -71,9 +85,8 @@ export async function runPhase5YamlValidation(
     return {
       phase: 5,
       name: 'YAML Validation',
-      success: errors.length === 0,
-      errors,
-      warnings,
+      success: !diagnostics.hasErrors(),
+      ...diagnostics.toResult(),
       duration,
     }
   } catch (error: any) {
@@ -83,10 +96,22 @@ export async function runPhase5YamlValidation(
       phase: 5,
       name: 'YAML Validation',
       success: false,
-      errors: [`YAML validation failed: ${error.message}`],
-      warnings: [],
+      ...diagnostics.fromError(error, DiagnosticCodes.PhaseFailed, 'YAML validation failed').toResult(),
       duration,
     }
   }
 }
 
+/**
+ * Phase 5 definition
+ */
+export const phase5YamlValidation = definePhase({
+  phase: 5,
+  name: 'YAML Validation',
+  after: [0],
+  sources: config => [config.yamlDir],
+  cacheable: true,
+  async run({ contracts, manifest, config, events }) {
+    return { result: await runPhase5YamlValidation(contracts, manifest, config, events) }
+  },
+})
@@ -4,9 +4,7 @@
  * Generates canonical descriptors (in-memory) from YAML + metadata.
  */
 
-import { readFileSync, existsSync, readdirSync } from 'fs'
 import { join } from 'path'
-import { parse } from 'yaml'
 import type { ActManifest } from '../../manifests/types.js'
 import type { ActEngineConfig, PhaseResult } from '../types.js'
 import { FormYamlSchema } from '../../../forms/yaml-schema.js'
@@ -14,6 +12,11 @@ import { canonicalizeForm } from '../../../forms/canonicalizer.js'
 import { validateFormInvariants } from '../../../forms/invariant-validator.js'
 import type { ContractDefinition } from '@entelechia/contracts/contracts/metadata/types'
 import type { CanonicalFormDescriptor } from '../../../forms/canonicalizer.js'
+import { definePhase } from '../registry.js'
+import type { PhaseEventSink } from '../../events/index.js'
+import { DiagnosticCollector, DiagnosticCodes } from '../../diagnostics/index.js'
+import { loadYamlSource } from '../../../yaml/index.js'
+import { getFileSystem } from '../../fs/index.js'
 
 /**
  * Execute Phase 6: Descriptor Canonicalization
@@ -21,27 +24,31 @@ import type { CanonicalFormDescriptor } from '../../../forms/canonicalizer.js'
 export async function runPhase6Canonicalization(
   contracts: ContractDefinition[],
   manifest: ActManifest,
-  config: ActEngineConfig
+  config: ActEngineConfig,
+  events?: PhaseEventSink
 ): Promise<PhaseResult & { descriptors?: Map<string, CanonicalFormDescriptor> }> {
   const startTime = Date.now()
-  const errors: string[] = []
-  const warnings: string[] = []
+  const fs = getFileSystem(config)
+  const diagnostics = new DiagnosticCollector(6)
   const descriptors = new Map<string, CanonicalFormDescriptor>()
   
   try {
-    if (!existsSync(config.yamlDir)) {
+    if (!fs.exists(config.yamlDir)) {
       return {
         phase: 6,
         name: 'Descriptor Canonicalization',
         success: true, // Not an error if YAML dir doesn't exist (no forms defined)
-        errors: [],
-        warnings: [`YAML directory does not exist: ${config.yamlDir} (skipping canonicalization)`],
+        ...diagnostics.warning(
+          DiagnosticCodes.SourceMissing,
+          'YAML directory does not exist (skipping canonicalization)',
+          { file: config.yamlDir }
+        ).toResult(),
         duration: Date.now() - startTime,
         descriptors: new Map(), // Return empty map
       }
     }
     
-    const yamlFiles = readdirSync(config.yamlDir).filter(f => f.endsWith('.form.yaml'))
+    const yamlFiles = fs.readdir(config.yamlDir).filter(f => f.endsWith('.form.yaml'))
     const contractMap = new Map(contracts.map(c => [c.name, c]))
     
     for (const yamlFile of yamlFiles) {
@@ -49,14 +56,18 @@ export async function runPhase6Canonicalization(
       
       try {
         // Read and parse YAML
-        const content = readFileSync(yamlPath, 'utf-8')
-        const yamlData = parse(content)
-        const formYaml = FormYamlSchema.parse(yamlData)
+        const source = loadYamlSource(yamlPath, fs)
+        events?.emit({ type: 'file:parsed', file: yamlPath })
+        const formYaml = source.validate(FormYamlSchema)
         
         // Find corresponding contract
         const contract = contractMap.get(formYaml.form.contract)
         if (!contract) {
-          errors.push(`YAML file "${yamlFile}": Contract "${formYaml.form.contract}" not found`)
+          diagnostics.error(
+            DiagnosticCodes.ContractNotFound,
+            `YAML file "${yamlFile}": Contract "${formYaml.form.contract}" not found`,
+            source.at(['form', 'contract'])
+          )
           continue
         }
         
@@ -71,7 +82,9 @@ export async function runPhase6Canonicalization(
         descriptors.set(key, descriptor)
         
       } catch (error: any) {
-        errors.push(`Canonicalization failed for "${yamlFile}": ${error.message}`)
+        diagnostics.fromError(error, DiagnosticCodes.CanonicalizationFailed, `Canonicalization failed for "${yamlFile}"`, {
+          file: yamlPath,
+        })
       }
     }
     
@@ -80,9 +93,8 @@ export async function runPhase6Canonicalization(
     return {
       phase: 6,
       name: 'Descriptor Canonicalization',
-      success: errors.length === 0,
-      errors,
-      warnings,
+      success: !diagnostics.hasErrors(),
+      ...diagnostics.toResult(),
       duration,
       descriptors,
     }
@@ -93,10 +105,24 @@ export async function runPhase6Canonicalization(
       phase: 6,
       name: 'Descriptor Canonicalization',
       success: false,
-      errors: [`Canonicalization failed: ${error.message}`],
-      warnings: [],
+      ...diagnostics.fromError(error, DiagnosticCodes.PhaseFailed, 'Canonicalization failed').toResult(),
       duration,
     }
   }
 }
 
+/**
+ * Phase 6 definition
+ */
+export const phase6Canonicalization = definePhase({
+  phase: 6,
+  name: 'Descriptor Canonicalization',
+  after: [5],
+  outputs: ['descriptors'],
+  sources: config => [config.yamlDir],
+  cacheable: true,
+  async run({ contracts, manifest, config, events }) {
+    const { descriptors, ...result } = await runPhase6Canonicalization(contracts, manifest, config, events)
+    return { result, outputs: { descriptors } }
+  },
+})
@@ -6,7 +6,6 @@
  * This phase runs after form canonicalization (phase 6) but before code generation (phase 7).
  */
 
-import { existsSync } from 'fs'
 import { join } from 'path'
 import type { ActManifest } from '../../manifests/types.js'
 import type { ActEngineConfig, PhaseResult } from '../types.js'
@@ -19,41 +18,67 @@ import {
   generateDashboardCode,
   generateInvariantCode,
 } from '../../generators/navigation-code-generator.js'
-import { DeterministicWriter } from '../../writers/deterministic-writer.js'
+import { DeterministicWriter, type WriteResult } from '../../writers/deterministic-writer.js'
+import { definePhase } from '../registry.js'
+import type { PhaseEventSink } from '../../events/index.js'
+import { DiagnosticCollector, DiagnosticCodes } from '../../diagnostics/index.js'
+import { getFileSystem } from '../../fs/index.js'
 
 /**
  * Execute Phase 6b: Navigation Canonicalization
  */
 export async function runPhase6bNavigationCanonicalization(
   manifest: ActManifest,
-  config: ActEngineConfig
+  config: ActEngineConfig,
+  events?: PhaseEventSink
 ): Promise<PhaseResult> {
   const startTime = Date.now()
-  const errors: string[] = []
-  const warnings: string[] = []
-  const writer = new DeterministicWriter()
+  const fs = getFileSystem(config)
+  const diagnostics = new DiagnosticCollector(6.5)
+  const artifacts: string[] = []
+  const writer = new DeterministicWriter(events, fs, config.workspaceRoot)
+
+  // Drift is expected in check mode (the artifact would be regenerated)
+  const reportWrite = (path: string, label: string, result: WriteResult): void => {
+    if (result.hasDrift) {
+      diagnostics.report(
+        config.checkMode ? 'warning' : 'error',
+        DiagnosticCodes.ArtifactDrift,
+        `${label} drift detected`,
+        { file: path }
+      )
+    } else if (!result.success) {
+      reportFailure(new Error(result.error), label)
+    } else if (result.written) {
+      artifacts.push(path)
+    }
+  }
+  // Don't fail on generation errors in check mode, only warn
+  const reportFailure = (error: any, label: string): void => {
+    diagnostics.fromError(error, DiagnosticCodes.GenerationFailed, `${label} generation failed`, {
+      severity: config.checkMode ? 'warning' : 'error',
+    })
+  }
 
   try {
-    // Navigation YAML directory (in entelechia-ui/navigation)
-    const navigationYamlDir = join(config.yamlDir, '..', 'navigation')
-    const navigationOutputDir = join(config.formsOutputDir, '..', 'navigation')
-    
-    // Dashboard YAML directory (in entelechia-ui/dashboards)
-    const dashboardsYamlDir = join(config.yamlDir, '..', 'dashboards')
-    const dashboardsOutputDir = join(config.formsOutputDir, '..', 'dashboards')
-    
-    // Invariant YAML directory (in entelechia-ui/invariants)
-    const invariantsYamlDir = join(config.yamlDir, '..', 'invariants')
-    const invariantsOutputDir = join(config.formsOutputDir, '..', 'invariants')
+    const navigationYamlDir = config.navigationDir
+    const navigationOutputDir = config.navigationOutputDir
+    const dashboardsYamlDir = config.dashboardsDir
+    const dashboardsOutputDir = config.dashboardsOutputDir
+    const invariantsYamlDir = config.invariantsDir
+    const invariantsOutputDir = config.invariantsOutputDir
 
     // Check if navigation directory exists
-    if (!existsSync(navigationYamlDir)) {
+    if (!fs.exists(navigationYamlDir)) {
       return {
         phase: 6.5,
         name: 'Navigation Canonicalization',
         success: true, // Not an error if navigation dir doesn't exist
-        errors: [],
-        warnings: [`Navigation directory does not exist: ${navigationYamlDir} (skipping navigation canonicalization)`],
+        ...diagnostics.warning(
+          DiagnosticCodes.SourceMissing,
+          'Navigation directory does not exist (skipping navigation canonicalization)',
+          { file: navigationYamlDir }
+        ).toResult(),
         duration: Date.now() - startTime,
       }
     }
@@ -66,152 +91,162 @@ export async function runPhase6bNavigationCanonicalization(
     const workspaceSidebarYamlPath = join(navigationYamlDir, 'workspace-sidebar.yaml')
 
     // Generate UI Realms
-    if (existsSync(uiRealmsYamlPath)) {
+    if (fs.exists(uiRealmsYamlPath)) {
       try {
         const outputPath = join(navigationOutputDir, 'ui-realms.generated.ts')
-        const { content } = await generateUIRealmsCode(uiRealmsYamlPath, outputPath)
+        const { content } = await generateUIRealmsCode(uiRealmsYamlPath, outputPath, fs)
+        events?.emit({ type: 'file:parsed', file: uiRealmsYamlPath })
         
         const result = writer.writeFile(outputPath, content, {
           banner: {
             type: 'navigation',
             artifact: 'ui-realms',
             source: 'ui-realms.yaml',
+            sources: [uiRealmsYamlPath],
           },
           type: 'form-types' as any,
+          generator: 'generateUIRealmsCode',
           checkMode: config.checkMode,
           dryRun: config.dryRun,
+          validateCode: config.validateCode,
         })
 
-        if (result.hasDrift && config.checkMode) {
-          warnings.push(`UI Realms drift detected (check mode): ${outputPath}`)
-        } else if (result.hasDrift) {
-          errors.push(`UI Realms drift detected: ${outputPath}`)
-        }
+        reportWrite(outputPath, 'UI Realms', result)
       } catch (error: any) {
-        errors.push(`UI Realms generation failed: ${error.message}`)
+        reportFailure(error, 'UI Realms')
       }
     } else {
-      warnings.push(`UI Realms YAML not found: ${uiRealmsYamlPath}`)
+      diagnostics.warning(DiagnosticCodes.SourceMissing, 'UI Realms YAML not found', {
+        file: uiRealmsYamlPath,
+      })
     }
 
     // Generate Navigation Shells
-    if (existsSync(navigationShellsYamlPath)) {
+    if (fs.exists(navigationShellsYamlPath)) {
       try {
         const outputPath = join(navigationOutputDir, 'navigation-shells.generated.ts')
-        const { content } = await generateNavigationShellsCode(navigationShellsYamlPath, outputPath)
+        const { content } = await generateNavigationShellsCode(navigationShellsYamlPath, outputPath, fs)
+        events?.emit({ type: 'file:parsed', file: navigationShellsYamlPath })
         
         const result = writer.writeFile(outputPath, content, {
           banner: {
             type: 'navigation',
             artifact: 'navigation-shells',
             source: 'navigation-shells.yaml',
+            sources: [navigationShellsYamlPath],
           },
           type: 'form-types' as any,
+          generator: 'generateNavigationShellsCode',
           checkMode: config.checkMode,
           dryRun: config.dryRun,
+          validateCode: config.validateCode,
         })
 
-        if (result.hasDrift && config.checkMode) {
-          warnings.push(`Navigation Shells drift detected (check mode): ${outputPath}`)
-        } else if (result.hasDrift) {
-          errors.push(`Navigation Shells drift detected: ${outputPath}`)
-        }
+        reportWrite(outputPath, 'Navigation Shells', result)
       } catch (error: any) {
-        errors.push(`Navigation Shells generation failed: ${error.message}`)
+        reportFailure(error, 'Navigation Shells')
       }
     } else {
-      warnings.push(`Navigation Shells YAML not found: ${navigationShellsYamlPath}`)
+      diagnostics.warning(DiagnosticCodes.SourceMissing, 'Navigation Shells YAML not found', {
+        file: navigationShellsYamlPath,
+      })
     }
 
     // Generate Node Detail Sections
-    if (existsSync(nodeDetailSectionsYamlPath)) {
+    if (fs.exists(nodeDetailSectionsYamlPath)) {
       try {
         const outputPath = join(navigationOutputDir, 'node-detail-sections.generated.ts')
-        const { content } = await generateNodeDetailSectionsCode(nodeDetailSectionsYamlPath, outputPath)
+        const { content } = await generateNodeDetailSectionsCode(nodeDetailSectionsYamlPath, outputPath, fs)
+        events?.emit({ type: 'file:parsed', file: nodeDetailSectionsYamlPath })
         
         const result = writer.writeFile(outputPath, content, {
           banner: {
             type: 'navigation',
             artifact: 'node-detail-sections',
             source: 'node-detail-sections.yaml',
+            sources: [nodeDetailSectionsYamlPath],
           },
           type: 'form-types' as any,
+          generator: 'generateNodeDetailSectionsCode',
           checkMode: config.checkMode,
           dryRun: config.dryRun,
+          validateCode: config.validateCode,
         })
 
-        if (result.hasDrift && config.checkMode) {
-          warnings.push(`Node Detail Sections drift detected (check mode): ${outputPath}`)
-        } else if (result.hasDrift) {
-          errors.push(`Node Detail Sections drift detected: ${outputPath}`)
-        }
+        reportWrite(outputPath, 'Node Detail Sections', result)
       } catch (error: any) {
-        errors.push(`Node Detail Sections generation failed: ${error.message}`)
+        reportFailure(error, 'Node Detail Sections')
       }
     } else {
-      warnings.push(`Node Detail Sections YAML not found: ${nodeDetailSectionsYamlPath}`)
+      diagnostics.warning(DiagnosticCodes.SourceMissing, 'Node Detail Sections YAML not found', {
+        file: nodeDetailSectionsYamlPath,
+      })
     }
 
     // Generate Chat Layout
-    if (existsSync(chatLayoutYamlPath)) {
+    if (fs.exists(chatLayoutYamlPath)) {
       try {
         const outputPath = join(navigationOutputDir, 'chat-layout.generated.ts')
-        const { content } = await generateChatLayoutCode(chatLayoutYamlPath, outputPath)
+        const { content } = await generateChatLayoutCode(chatLayoutYamlPath, outputPath, fs)
+        events?.emit({ type: 'file:parsed', file: chatLayoutYamlPath })
         
         const result = writer.writeFile(outputPath, content, {
           banner: {
             type: 'navigation',
             artifact: 'chat-layout',
             source: 'chat-layout.yaml',
+            sources: [chatLayoutYamlPath],
           },
           type: 'form-types' as any,
+          generator: 'generateChatLayoutCode',
           checkMode: config.checkMode,
           dryRun: config.dryRun,
+          validateCode: config.validateCode,
         })
 
-        if (result.hasDrift && config.checkMode) {
-          warnings.push(`Chat Layout drift detected (check mode): ${outputPath}`)
-        } else if (result.hasDrift) {
-          errors.push(`Chat Layout drift detected: ${outputPath}`)
-        }
+        reportWrite(outputPath, 'Chat Layout', result)
       } catch (error: any) {
-        errors.push(`Chat Layout generation failed: ${error.message}`)
+        reportFailure(error, 'Chat Layout')
       }
     } else {
-      warnings.push(`Chat Layout YAML not found: ${chatLayoutYamlPath}`)
+      diagnostics.warning(DiagnosticCodes.SourceMissing, 'Chat Layout YAML not found', {
+        file: chatLayoutYamlPath,
+      })
     }
 
     // Generate Workspace Sidebar
-    if (existsSync(workspaceSidebarYamlPath)) {
+    if (fs.exists(workspaceSidebarYamlPath)) {
       try {
         const outputPath = join(navigationOutputDir, 'workspace-sidebar.generated.ts')
-        const { content } = await generateWorkspaceSidebarCode(workspaceSidebarYamlPath, outputPath)
+        const { content } = await generateWorkspaceSidebarCode(workspaceSidebarYamlPath, outputPath, fs)
+        events?.emit({ type: 'file:parsed', file: workspaceSidebarYamlPath })
         
         const result = writer.writeFile(outputPath, content, {
           banner: {
             type: 'navigation',
             artifact: 'workspace-sidebar',
             source: 'workspace-sidebar.yaml',
+            sources: [workspaceSidebarYamlPath],
           },
           type: 'form-types' as any,
+          generator: 'generateWorkspaceSidebarCode',
           checkMode: config.checkMode,
           dryRun: config.dryRun,
+          validateCode: config.validateCode,
         })
 
-        if (result.hasDrift && config.checkMode) {
-          warnings.push(`Workspace Sidebar drift detected (check mode): ${outputPath}`)
-        } else if (result.hasDrift) {
-          errors.push(`Workspace Sidebar drift detected: ${outputPath}`)
-        }
+        reportWrite(outputPath, 'Workspace Sidebar', result)
       } catch (error: any) {
-        errors.push(`Workspace Sidebar generation failed: ${error.message}`)
+        reportFailure(error, 'Workspace Sidebar')
       }
     } else {
-      warnings.push(`Workspace Sidebar YAML not found: ${workspaceSidebarYamlPath}`)
+      diagnostics.warning(DiagnosticCodes.SourceMissing, 'Workspace Sidebar YAML not found', {
+        file: workspaceSidebarYamlPath,
+      })
     }
 
     // Generate Dashboards
-    if (existsSync(dashboardsYamlDir)) {
+    if (fs.exists(dashboardsYamlDir)) {
       // Find all dashboard YAML files
       const dashboardFiles = [
         { name: 'dashboard.view.yaml', output: 'dashboard.generated.ts' },
@@ -220,40 +255,42 @@ export async function runPhase6bNavigationCanonicalization(
 
       for (const { name, output } of dashboardFiles) {
         const yamlPath = join(dashboardsYamlDir, name)
-        if (existsSync(yamlPath)) {
+        if (fs.exists(yamlPath)) {
           try {
             const outputPath = join(dashboardsOutputDir, output)
-            const { content } = await generateDashboardCode(yamlPath, outputPath)
+            const { content } = await generateDashboardCode(yamlPath, outputPath, fs)
+            events?.emit({ type: 'file:parsed', file: yamlPath })
             
             const result = writer.writeFile(outputPath, content, {
               banner: {
                 type: 'dashboard',
                 artifact: name.replace('.view.yaml', ''),
                 source: name,
+                sources: [yamlPath],
               },
               type: 'form-types' as any,
+              generator: 'generateDashboardCode',
               checkMode: config.checkMode,
               dryRun: config.dryRun,
+              validateCode: config.validateCode,
             })
 
-            if (result.hasDrift && config.checkMode) {
-              warnings.push(`Dashboard ${name} drift detected (check mode): ${outputPath}`)
-            } else if (result.hasDrift) {
-              errors.push(`Dashboard ${name} drift detected: ${outputPath}`)
-            }
+            reportWrite(outputPath, `Dashboard ${name}`, result)
           } catch (error: any) {
-            errors.push(`Dashboard ${name} generation failed: ${error.message}`)
+            reportFailure(error, `Dashboard ${name}`)
           }
         } else {
-          warnings.push(`Dashboard YAML not found: ${yamlPath}`)
+          diagnostics.warning(DiagnosticCodes.SourceMissing, 'Dashboard YAML not found', { file: yamlPath })
         }
       }
     } else {
-      warnings.push(`Dashboards directory does not exist: ${dashboardsYamlDir}`)
+      diagnostics.warning(DiagnosticCodes.SourceMissing, 'Dashboards directory does not exist', {
+        file: dashboardsYamlDir,
+      })
     }
 
     // Generate Invariants
-    if (existsSync(invariantsYamlDir)) {
+    if (fs.exists(invariantsYamlDir)) {
       // Find all invariant YAML files
       const invariantFiles = [
         { name: 'invariant-dashboard.view.yaml', output: 'invariant-dashboard.generated.ts' },
@@ -262,50 +299,49 @@ export async function runPhase6bNavigationCanonicalization(
 
       for (const { name, output } of invariantFiles) {
         const yamlPath = join(invariantsYamlDir, name)
-        if (existsSync(yamlPath)) {
+        if (fs.exists(yamlPath)) {
           try {
             const outputPath = join(invariantsOutputDir, output)
-            const { content } = await generateInvariantCode(yamlPath, outputPath)
+            const { content } = await generateInvariantCode(yamlPath, outputPath, fs)
+            events?.emit({ type: 'file:parsed', file: yamlPath })
             
             const result = writer.writeFile(outputPath, content, {
               banner: {
                 type: 'invariant',
                 artifact: name.replace('.view.yaml', ''),
                 source: name,
+                sources: [yamlPath],
               },
               type: 'form-types' as any,
+              generator: 'generateInvariantCode',
               checkMode: config.checkMode,
               dryRun: config.dryRun,
+              validateCode: config.validateCode,
             })
 
-            if (result.hasDrift && config.checkMode) {
-              warnings.push(`Invariant ${name} drift detected (check mode): ${outputPath}`)
-            } else if (result.hasDrift) {
-              errors.push(`Invariant ${name} drift detected: ${outputPath}`)
-            }
+            reportWrite(outputPath, `Invariant ${name}`, result)
           } catch (error: any) {
-            errors.push(`Invariant ${name} generation failed: ${error.message}`)
+            reportFailure(error, `Invariant ${name}`)
           }
         } else {
-          warnings.push(`Invariant YAML not found: ${yamlPath}`)
+          diagnostics.warning(DiagnosticCodes.SourceMissing, 'Invariant YAML not found', { file: yamlPath })
         }
       }
     } else {
-      warnings.push(`Invariants directory does not exist: ${invariantsYamlDir}`)
+      diagnostics.warning(DiagnosticCodes.SourceMissing, 'Invariants directory does not exist', {
+        file: invariantsYamlDir,
+      })
     }
 
     const duration = Date.now() - startTime
 
-    // In check mode, treat drift warnings as non-fatal
-    const success = errors.length === 0 || (config.checkMode && errors.every(e => e.includes('drift detected')))
-
     return {
       phase: 6.5,
       name: 'Navigation Canonicalization',
-      success,
-      errors: config.checkMode ? [] : errors, // Don't report errors in check mode, only warnings
-      warnings: config.checkMode ? [...warnings, ...errors] : warnings,
+      success: !diagnostics.hasErrors(),
+      ...diagnostics.toResult(),
       duration,
+      artifacts,
     }
   } catch (error: any) {
     const duration = Date.now() - startTime
@@ -314,10 +350,24 @@ export async function runPhase6bNavigationCanonicalization(
       phase: 6.5,
       name: 'Navigation Canonicalization',
       success: false,
-      errors: [`Navigation canonicalization failed: ${error.message}`],
-      warnings: [],
+      ...diagnostics.fromError(error, DiagnosticCodes.PhaseFailed, 'Navigation canonicalization failed').toResult(),
       duration,
     }
   }
 }
 
+/**
+ * Phase 6b definition
+ */
+export const phase6bNavigationCanonicalization = definePhase({
+  phase: 6.5,
+  name: 'Navigation Canonicalization',
+  // Writes artifacts: only after FORM validation has passed
+  after: [1, 1.5, 2, 3, 4, 5],
+  sources: config => [config.navigationDir, config.dashboardsDir, config.invariantsDir],
+  // Navigation canonicalization is non-blocking (warnings only)
+  blocking: false,
+  async run({ manifest, config, events }) {
+    return { result: await runPhase6bNavigationCanonicalization(manifest, config, events) }
+  },
+})
@@ -5,18 +5,16 @@
  */
 
 import type { ActManifest } from '../../manifests/types.js'
-import type { ActEngineConfig, PhaseResult } from '../types.js'
+import type { ActEngineConfig, PhaseOutputs, PhaseResult } from '../types.js'
 import type { ContractDefinition } from '@entelechia/contracts/contracts/metadata/types'
-import type { CanonicalFormDescriptor } from '../../../forms/canonicalizer.js'
-import { DeterministicWriter } from '../../writers/deterministic-writer.js'
-import { join } from 'path'
-import { existsSync, mkdirSync } from 'fs'
+import { DeterministicWriter, type ArtifactProvenance, type WriteResult } from '../../writers/deterministic-writer.js'
+import { isTypeScriptArtifact, typecheckGeneratedCode, type CodeProblem } from '../../writers/code-validator.js'
+import { join, resolve } from 'path'
 
 // Import generators from act-engine/generators/
 import { generateSchemaCode } from '../../generators/schema-code-generator.js'
 import { generateMigrationCode } from '../../generators/migration-code-generator.js'
 import { generateServiceCode } from '../../generators/service-code-generator.js'
-import { generateRouteCode } from '../../generators/route-code-generator.js'
 import { generateTestCode } from '../../generators/test-code-generator.js'
 import { generateFormCode } from '../../generators/form-code-generator.js'
 import { generateFormTypes } from '../../generators/form-types-generator.js'
@@ -31,69 +29,198 @@ import {
 } from '../../generators/instrumentation-code-generator.js'
 import { generateIntentGraphCode } from '../../generators/intent-graph-code-generator.js'
 import { generatePurityGuardsCode } from '../../generators/purity-guards-code-generator.js'
-import type {
-  CanonicalCommandDescriptor,
-  CanonicalHotkeyDescriptor,
-} from '../../../commands/command-canonicalizer.js'
-import type { CanonicalPurityGuardDescriptor } from '../../../purity-guards/purity-guards-canonicalizer.js'
-import type {
-  CanonicalTelemetryDescriptor,
-  CanonicalDevToolsDescriptor,
-  CanonicalUXFidelityDescriptor,
-} from '../../../instrumentation/index.js'
-import type { CanonicalIntentGraphDescriptor } from '../../../intent-graph/intent-graph-types.js'
+import { definePhase } from '../registry.js'
+import type { PhaseEventSink } from '../../events/index.js'
+import { hashPaths, hashValue, type ActCache } from '../../cache/index.js'
+import { DiagnosticCollector, DiagnosticCodes } from '../../diagnostics/index.js'
+import { ArtifactTransaction, getFileSystem } from '../../fs/index.js'
+
+/**
+ * Canonical descriptors consumed by code generation
+ */
+export type CodegenInputs = Partial<PhaseOutputs>
+
+/**
+ * Merge functional descriptors from Phase 7.5 and Phase 7.7
+ * 
+ * Phase 7.7 (validated bindings) takes precedence.
+ */
+function mergeFunctionalDescriptors(
+  functionalDescriptors?: Map<string, CanonicalFunctionalFormDescriptor>,
+  validatedFunctionalDescriptors?: Map<string, CanonicalFunctionalFormDescriptor>
+): Map<string, CanonicalFunctionalFormDescriptor> | undefined {
+  if (!validatedFunctionalDescriptors) {
+    return functionalDescriptors
+  }
+  if (!functionalDescriptors) {
+    return validatedFunctionalDescriptors
+  }
+  
+  const merged = new Map(functionalDescriptors)
+  for (const [key, value] of validatedFunctionalDescriptors) {
+    merged.set(key, value)
+  }
+  return merged
+}
+
+/**
+ * Report problems of generated code, mapped back to the generator and
+ * contract that produced it and to its FORM sources
+ */
+function reportCodeProblems(
+  problems: readonly CodeProblem[],
+  provenance: ArtifactProvenance | undefined,
+  config: ActEngineConfig,
+  diagnostics: DiagnosticCollector
+): void {
+  const origin = [provenance?.generator, provenance?.contract && `contract ${provenance.contract}`].filter(Boolean).join(', ')
+  const related = Object.keys(provenance?.sources || {}).map(source => ({
+    file: resolve(config.workspaceRoot, source),
+    message: 'Generated from this source',
+  }))
+  // Only staged artifacts are held back when the run fails
+  const typeErrorHint = getFileSystem(config) instanceof ArtifactTransaction
+    ? 'Fix its generator or FORM: a failing run commits no artifact'
+    : 'Fix its generator or FORM'
+  for (const problem of problems) {
+    const syntax = problem.kind === 'syntax'
+    diagnostics.error(
+      syntax ? DiagnosticCodes.GeneratedCodeInvalid : DiagnosticCodes.GeneratedCodeTypeError,
+      `${syntax ? 'Generated code does not parse' : 'Generated code does not typecheck'}: TS${problem.code} ${problem.message}` +
+        (origin ? ` (${origin})` : ''),
+      {
+        file: problem.file,
+        range: problem.range,
+        related: related.length > 0 ? related : undefined,
+        hint: syntax ? 'The artifact was not written: fix its generator' : typeErrorHint,
+      }
+    )
+  }
+}
 
 /**
  * Execute Phase 7: Code Generation
+ * 
+ * With `validateCode`, each TypeScript artifact is parsed before it is
+ * written, and the generated set is typechecked as one program against the
+ * shared contracts it generated.
  */
 export async function runPhase7Codegen(
   contracts: ContractDefinition[],
   manifest: ActManifest,
   config: ActEngineConfig,
-  descriptors?: Map<string, CanonicalFormDescriptor>,
-  functionalDescriptors?: Map<string, CanonicalFunctionalFormDescriptor>,
-  commandDescriptors?: Map<string, CanonicalCommandDescriptor>,
-  hotkeyDescriptors?: Map<string, CanonicalHotkeyDescriptor>,
-  telemetryDescriptors?: Map<string, CanonicalTelemetryDescriptor>,
-  devtoolsDescriptors?: Map<string, CanonicalDevToolsDescriptor>,
-  uxFidelityDescriptors?: Map<string, CanonicalUXFidelityDescriptor>,
-  intentGraphDescriptors?: Map<string, CanonicalIntentGraphDescriptor>,
-  purityGuards?: Map<string, CanonicalPurityGuardDescriptor>
-): Promise<PhaseResult> {
+  inputs: CodegenInputs = {},
+  cache?: ActCache,
+  events?: PhaseEventSink
+): Promise<PhaseResult & {
+  generatedArtifacts?: Map<string, string>
+}> {
+  const {
+    descriptors,
+    commandDescriptors,
+    hotkeyDescriptors,
+    telemetryDescriptors,
+    devtoolsDescriptors,
+    uxFidelityDescriptors,
+    intentGraphDescriptors,
+    purityGuards,
+  } = inputs
+  const functionalDescriptors = mergeFunctionalDescriptors(
+    inputs.functionalDescriptors,
+    inputs.validatedFunctionalDescriptors
+  )
   const startTime = Date.now()
-  const errors: string[] = []
-  const warnings: string[] = []
+  const fs = getFileSystem(config)
+  const diagnostics = new DiagnosticCollector(7)
   const artifacts: string[] = []
-  const writer = new DeterministicWriter()
+  const generatedArtifacts = new Map<string, string>()
+  const provenances = new Map<string, ArtifactProvenance>()
+  const writer = new DeterministicWriter(events, fs, config.workspaceRoot)
+  
+  // Per-contract generator output is reused while the contract is unchanged
+  const contractFingerprints = new Map<string, string>()
+  const fingerprintContract = (contract: ContractDefinition): string => {
+    let fingerprint = contractFingerprints.get(contract.name)
+    if (!fingerprint) {
+      const metadataPath = manifest.contracts.find(c => c.contract === contract.name)?.metadataPath
+      fingerprint = hashValue([hashValue(contract), metadataPath ? hashPaths([metadataPath], fs) : null])
+      contractFingerprints.set(contract.name, fingerprint)
+    }
+    return fingerprint
+  }
+  // Banner provenance: the FORM files an artifact is generated from
+  const contractSources = (contract: ContractDefinition): string[] => {
+    const metadataPath = manifest.contracts.find(c => c.contract === contract.name)?.metadataPath
+    return metadataPath ? [metadataPath] : []
+  }
+  const formSources = (contract: ContractDefinition, variant: string): string[] => {
+    const form = manifest.forms.find(f => f.contract === contract.name && f.variant === variant)
+    return [...contractSources(contract), ...form ? [form.yamlPath] : []]
+  }
+  const generate = <T>(generator: string, parts: unknown, compute: () => T): T =>
+    cache ? cache.memoize(`codegen-${generator}`, parts, compute) : compute()
+  const generateAsync = <T>(generator: string, parts: unknown, compute: () => Promise<T>): Promise<T> =>
+    cache ? cache.memoizeAsync(`codegen-${generator}`, parts, compute) : compute()
+  
+  // Drift is expected in check mode (the artifact would be regenerated)
+  const reportWrite = (path: string, label: string, writeResult: WriteResult): void => {
+    if (writeResult.content !== undefined) {
+      generatedArtifacts.set(path, writeResult.content)
+    }
+    if (writeResult.provenance) {
+      provenances.set(path, writeResult.provenance)
+    }
+    if (writeResult.problems) {
+      reportCodeProblems(writeResult.problems, writeResult.provenance, config, diagnostics)
+    } else if (writeResult.droppedRegions) {
+      for (const region of writeResult.droppedRegions) {
+        diagnostics.error(DiagnosticCodes.KeepRegionDropped, `${label}: preserved region "${region.id}" is no longer generated`, {
+          file: path,
+          range: { start: { line: region.start, column: 1 }, end: { line: region.end, column: 1 } },
+          hint: 'Move its code into another preserved region, or delete the region, then regenerate',
+        })
+      }
+    } else if (writeResult.invalidRegion) {
+      const { message, line } = writeResult.invalidRegion
+      diagnostics.error(DiagnosticCodes.KeepRegionInvalid, `${label}: ${message}`, {
+        file: path,
+        range: { start: { line, column: 1 }, end: { line, column: 1 } },
+        hint: 'Balance the act:keep-begin and act:keep-end markers in the file, then regenerate',
+      })
+    } else if (writeResult.success) {
+      if (writeResult.written) {
+        artifacts.push(path)
+      }
+    } else if (config.checkMode && writeResult.hasDrift) {
+      diagnostics.warning(DiagnosticCodes.ArtifactDrift, `${label} would be regenerated`, { file: path })
+    } else {
+      diagnostics.error(DiagnosticCodes.ArtifactWriteFailed, `${label} generation failed: ${writeResult.error}`, {
+        file: path,
+      })
+    }
+  }
   
   try {
     // Sub-phase 7.1: Generate Form Types
     try {
-      // Resolve canonicalizer path relative to backend root
-      const backendCanonicalizerPath = join(config.metadataDir, '..', '..', 'forms', 'canonicalizer.ts')
+      const backendCanonicalizerPath = join(config.backendSourceDir, 'forms', 'canonicalizer.ts')
       const formTypesOutputPath = join(config.formsOutputDir, 'types.ts')
-      const formTypesResult = generateFormTypes(backendCanonicalizerPath, formTypesOutputPath)
+      const formTypesResult = generateFormTypes(backendCanonicalizerPath, formTypesOutputPath, fs)
       const writeResult = writer.writeFile(formTypesResult.path, formTypesResult.content, {
         banner: {
           source: 'canonicalizer.ts (descriptor interfaces)',
+          sources: [backendCanonicalizerPath],
         },
         type: 'form-types',
+        generator: 'generateFormTypes',
         checkMode: config.checkMode,
         dryRun: config.dryRun,
+        validateCode: config.validateCode,
       })
       
-      if (!writeResult.success) {
-        // In check mode, drift is expected - report as warning, not error
-        if (config.checkMode && writeResult.error?.includes('Drift detected')) {
-          warnings.push(`Form types would be regenerated: ${writeResult.error}`)
-        } else {
-          errors.push(`Form types generation failed: ${writeResult.error}`)
-        }
-      } else if (writeResult.written) {
-        artifacts.push(formTypesResult.path)
-      }
+      reportWrite(formTypesResult.path, 'Form types', writeResult)
     } catch (error: any) {
-      errors.push(`Form types generation failed: ${error.message}`)
+      diagnostics.fromError(error, DiagnosticCodes.GenerationFailed, 'Form types generation failed')
     }
     
     // Sub-phase 7.2: Generate Invariant Mapping
@@ -103,35 +230,29 @@ export async function runPhase7Codegen(
       const writeResult = writer.writeFile(invariantMappingResult.path, invariantMappingResult.content, {
         banner: {
           source: 'invariant-engine',
+          sources: [join(config.invariantEnginePath, 'src', 'core', 'registry.ts')],
         },
         type: 'invariant-mapping',
+        generator: 'generateInvariantMapping',
         checkMode: config.checkMode,
         dryRun: config.dryRun,
+        validateCode: config.validateCode,
       })
       
-      if (!writeResult.success) {
-        // In check mode, drift is expected - report as warning, not error
-        if (config.checkMode && writeResult.error?.includes('Drift detected')) {
-          warnings.push(`Invariant mapping would be regenerated: ${writeResult.error}`)
-        } else {
-          errors.push(`Invariant mapping generation failed: ${writeResult.error}`)
-        }
-      } else if (writeResult.written) {
-        artifacts.push(invariantMappingResult.path)
-      }
+      reportWrite(invariantMappingResult.path, 'Invariant mapping', writeResult)
     } catch (error: any) {
       // In check mode, generation errors might be expected (e.g., missing files)
-      if (config.checkMode) {
-        warnings.push(`Invariant mapping generation check failed: ${error.message}`)
-      } else {
-        errors.push(`Invariant mapping generation failed: ${error.message}`)
-      }
+      diagnostics.fromError(error, DiagnosticCodes.GenerationFailed, 'Invariant mapping generation failed', {
+        severity: config.checkMode ? 'warning' : 'error',
+      })
     }
     
     // Sub-phase 7.3: Generate Shared Contracts
     for (const contract of contracts) {
       try {
-        const schemaContent = generateSchemaCode(contract, [])
+        const schemaContent = generate('schema', fingerprintContract(contract), () =>
+          generateSchemaCode(contract, [])
+        )
         const contractFileName = contract.name.toLowerCase()
         const schemaPath = join(config.sharedContractsDir, `${contractFileName}.contract.ts`)
         const writeResult = writer.writeFile(schemaPath, schemaContent, {
@@ -139,31 +260,23 @@ export async function runPhase7Codegen(
             source: 'metadata',
             contract: contract.name,
             domain: contract.domain,
+            sources: contractSources(contract),
           },
           type: 'schema',
+          generator: 'generateSchemaCode',
           contract: contract.name,
           domain: contract.domain,
           checkMode: config.checkMode,
           dryRun: config.dryRun,
+          validateCode: config.validateCode,
         })
         
-        if (!writeResult.success) {
-          // In check mode, drift is expected - report as warning, not error
-          if (config.checkMode && writeResult.error?.includes('Drift detected')) {
-            warnings.push(`Schema for ${contract.name} would be regenerated: ${writeResult.error}`)
-          } else {
-            errors.push(`Schema generation failed for ${contract.name}: ${writeResult.error}`)
-          }
-        } else if (writeResult.written) {
-          artifacts.push(schemaPath)
-        }
+        reportWrite(schemaPath, `Schema for ${contract.name}`, writeResult)
       } catch (error: any) {
         // In check mode, generation errors might be expected
-        if (config.checkMode) {
-          warnings.push(`Schema generation check failed for ${contract.name}: ${error.message}`)
-        } else {
-          errors.push(`Schema generation failed for ${contract.name}: ${error.message}`)
-        }
+        diagnostics.fromError(error, DiagnosticCodes.GenerationFailed, `Schema generation failed for ${contract.name}`, {
+          severity: config.checkMode ? 'warning' : 'error',
+        })
       }
     }
     
@@ -173,38 +286,32 @@ export async function runPhase7Codegen(
       
       try {
         const migrationName = `${contract.domain}`
-        const migrationContent = generateMigrationCode(contract, migrationName)
+        const migrationContent = generate('migration', [fingerprintContract(contract), migrationName], () =>
+          generateMigrationCode(contract, migrationName)
+        )
         const migrationPath = join(config.migrationsDir, `${contract.domain}.sql`)
         const writeResult = writer.writeFile(migrationPath, migrationContent, {
           banner: {
             source: 'metadata',
             contract: contract.name,
             domain: contract.domain,
+            sources: contractSources(contract),
           },
           type: 'migration',
+          generator: 'generateMigrationCode',
           contract: contract.name,
           domain: contract.domain,
           checkMode: config.checkMode,
           dryRun: config.dryRun,
+          validateCode: config.validateCode,
         })
         
-        if (!writeResult.success) {
-          // In check mode, drift is expected - report as warning, not error
-          if (config.checkMode && writeResult.error?.includes('Drift detected')) {
-            warnings.push(`Migration for ${contract.name} would be regenerated: ${writeResult.error}`)
-          } else {
-            errors.push(`Migration generation failed for ${contract.name}: ${writeResult.error}`)
-          }
-        } else if (writeResult.written) {
-          artifacts.push(migrationPath)
-        }
+        reportWrite(migrationPath, `Migration for ${contract.name}`, writeResult)
       } catch (error: any) {
         // In check mode, generation errors might be expected
-        if (config.checkMode) {
-          warnings.push(`Migration generation check failed for ${contract.name}: ${error.message}`)
-        } else {
-          errors.push(`Migration generation failed for ${contract.name}: ${error.message}`)
-        }
+        diagnostics.fromError(error, DiagnosticCodes.GenerationFailed, `Migration generation failed for ${contract.name}`, {
+          severity: config.checkMode ? 'warning' : 'error',
+        })
       }
     }
     
@@ -213,38 +320,32 @@ export async function runPhase7Codegen(
       if (contract.transformations.length === 0) continue
       
       try {
-        const serviceContent = generateServiceCode(contract)
+        const serviceContent = generate('service', fingerprintContract(contract), () =>
+          generateServiceCode(contract)
+        )
         const servicePath = join(config.servicesDir, `${contract.domain}.service.ts`)
         const writeResult = writer.writeFile(servicePath, serviceContent, {
           banner: {
             source: 'metadata',
             contract: contract.name,
             domain: contract.domain,
+            sources: contractSources(contract),
           },
           type: 'service',
+          generator: 'generateServiceCode',
           contract: contract.name,
           domain: contract.domain,
           checkMode: config.checkMode,
           dryRun: config.dryRun,
+          validateCode: config.validateCode,
         })
         
-        if (!writeResult.success) {
-          // In check mode, drift is expected - report as warning, not error
-          if (config.checkMode && writeResult.error?.includes('Drift detected')) {
-            warnings.push(`Service for ${contract.name} would be regenerated: ${writeResult.error}`)
-          } else {
-            errors.push(`Service generation failed for ${contract.name}: ${writeResult.error}`)
-          }
-        } else if (writeResult.written) {
-          artifacts.push(servicePath)
-        }
+        reportWrite(servicePath, `Service for ${contract.name}`, writeResult)
       } catch (error: any) {
         // In check mode, generation errors might be expected
-        if (config.checkMode) {
-          warnings.push(`Service generation check failed for ${contract.name}: ${error.message}`)
-        } else {
-          errors.push(`Service generation failed for ${contract.name}: ${error.message}`)
-        }
+        diagnostics.fromError(error, DiagnosticCodes.GenerationFailed, `Service generation failed for ${contract.name}`, {
+          severity: config.checkMode ? 'warning' : 'error',
+        })
       }
     }
     
@@ -254,38 +355,32 @@ export async function runPhase7Codegen(
     // Sub-phase 7.7: Generate Tests
     for (const contract of contracts) {
       try {
-        const testContent = generateTestCode(contract)
+        const testContent = generate('test', fingerprintContract(contract), () =>
+          generateTestCode(contract)
+        )
         const testPath = join(config.testsDir, `${contract.domain}.contract.test.ts`)
         const writeResult = writer.writeFile(testPath, testContent, {
           banner: {
             source: 'metadata',
             contract: contract.name,
             domain: contract.domain,
+            sources: contractSources(contract),
           },
           type: 'test',
+          generator: 'generateTestCode',
           contract: contract.name,
           domain: contract.domain,
           checkMode: config.checkMode,
           dryRun: config.dryRun,
+          validateCode: config.validateCode,
         })
         
-        if (!writeResult.success) {
-          // In check mode, drift is expected - report as warning, not error
-          if (config.checkMode && writeResult.error?.includes('Drift detected')) {
-            warnings.push(`Test for ${contract.name} would be regenerated: ${writeResult.error}`)
-          } else {
-            errors.push(`Test generation failed for ${contract.name}: ${writeResult.error}`)
-          }
-        } else if (writeResult.written) {
-          artifacts.push(testPath)
-        }
+        reportWrite(testPath, `Test for ${contract.name}`, writeResult)
       } catch (error: any) {
         // In check mode, generation errors might be expected
-        if (config.checkMode) {
-          warnings.push(`Test generation check failed for ${contract.name}: ${error.message}`)
-        } else {
-          errors.push(`Test generation failed for ${contract.name}: ${error.message}`)
-        }
+        diagnostics.fromError(error, DiagnosticCodes.GenerationFailed, `Test generation failed for ${contract.name}`, {
+          severity: config.checkMode ? 'warning' : 'error',
+        })
       }
     }
     
@@ -293,26 +388,24 @@ export async function runPhase7Codegen(
     if (functionalDescriptors && functionalDescriptors.size > 0) {
       const functionalOutputDir = join(config.formsOutputDir, 'functional')
       
-      // Ensure output directory exists
-      try {
-        if (!existsSync(functionalOutputDir)) {
-          mkdirSync(functionalOutputDir, { recursive: true })
-        }
-      } catch (error: any) {
-        warnings.push(`Could not create functional output directory: ${error.message}`)
-      }
-      
       for (const [key, functionalDescriptor] of functionalDescriptors.entries()) {
         try {
           const [contractName, variant] = key.split('.')
           const contract = contracts.find(c => c.name === contractName)
           
           if (!contract) {
-            warnings.push(`Functional descriptor "${key}": Contract "${contractName}" not found`)
+            diagnostics.warning(
+              DiagnosticCodes.ContractNotFound,
+              `Functional descriptor "${key}": Contract "${contractName}" not found`
+            )
             continue
           }
           
-          const functionalCode = generateFunctionalFormDescriptorCode(functionalDescriptor, contract)
+          const functionalCode = generate(
+            'functional',
+            [fingerprintContract(contract), hashValue(functionalDescriptor)],
+            () => generateFunctionalFormDescriptorCode(functionalDescriptor, contract)
+          )
           const functionalPath = join(functionalOutputDir, `${contract.domain}.${variant}.functional.form.ts`)
           
           const writeResult = writer.writeFile(functionalPath, functionalCode, {
@@ -320,24 +413,19 @@ export async function runPhase7Codegen(
               source: 'YAML + Contract Metadata + ACL + Invariants',
               contract: contract.name,
               variant,
+              sources: formSources(contract, variant),
             },
             type: 'form',
+            generator: 'generateFunctionalFormDescriptorCode',
             contract: contract.name,
             checkMode: config.checkMode,
             dryRun: config.dryRun,
+            validateCode: config.validateCode,
           })
           
-          if (!writeResult.success) {
-            if (config.checkMode && writeResult.error?.includes('Drift detected')) {
-              warnings.push(`Functional descriptor for ${key} would be regenerated: ${writeResult.error}`)
-            } else {
-              errors.push(`Functional descriptor generation failed for ${key}: ${writeResult.error}`)
-            }
-          } else if (writeResult.written) {
-            artifacts.push(functionalPath)
-          }
+          reportWrite(functionalPath, `Functional descriptor for ${key}`, writeResult)
         } catch (error: any) {
-          errors.push(`Functional descriptor generation failed for "${key}": ${error.message}`)
+          diagnostics.fromError(error, DiagnosticCodes.GenerationFailed, `Functional descriptor generation failed for "${key}"`)
         }
       }
     }
@@ -348,12 +436,13 @@ export async function runPhase7Codegen(
       try {
         const contractsWithForms = contracts.filter(c => c.formSchemas && c.formSchemas.length > 0)
         const allFormResults: Array<{ path: string; content: string }> = []
+        const yamlFingerprint = contractsWithForms.length > 0 ? hashPaths([config.yamlDir], fs) : ''
         
         for (const contract of contractsWithForms) {
-          const formResults = await generateFormCode(
-            contract,
-            config.yamlDir,
-            config.formsOutputDir
+          const formResults = await generateAsync(
+            'form',
+            [fingerprintContract(contract), yamlFingerprint, config.formsOutputDir],
+            () => generateFormCode(contract, config.yamlDir, config.formsOutputDir, fs)
           )
           allFormResults.push(...formResults)
         }
@@ -371,230 +460,168 @@ export async function runPhase7Codegen(
                   source: 'YAML + metadata',
                   contract: contract.name,
                   variant,
+                  sources: formSources(contract, variant),
                 },
                 type: 'form',
+                generator: 'generateFormCode',
                 contract: contract.name,
                 checkMode: config.checkMode,
                 dryRun: config.dryRun,
+                validateCode: config.validateCode,
               })
               
-              if (!writeResult.success) {
-                // In check mode, drift is expected - report as warning, not error
-                if (config.checkMode && writeResult.error?.includes('Drift detected')) {
-                  warnings.push(`Form descriptor for ${formResult.path} would be regenerated: ${writeResult.error}`)
-                } else {
-                  errors.push(`Form descriptor generation failed for ${formResult.path}: ${writeResult.error}`)
-                }
-              } else if (writeResult.written) {
-                artifacts.push(formResult.path)
-              }
+              reportWrite(formResult.path, `Form descriptor for ${formResult.path}`, writeResult)
             }
           }
         }
       } catch (error: any) {
         // In check mode, generation errors might be expected
-        if (config.checkMode) {
-          warnings.push(`Form descriptor generation check failed: ${error.message}`)
-        } else {
-          errors.push(`Form descriptor generation failed: ${error.message}`)
-        }
+        diagnostics.fromError(error, DiagnosticCodes.GenerationFailed, 'Form descriptor generation failed', {
+          severity: config.checkMode ? 'warning' : 'error',
+        })
       }
     }
     
     // Sub-phase 7.8: Generate Commands and Hotkeys
     if (commandDescriptors && commandDescriptors.size > 0) {
       try {
-        // Ensure commands output directory exists
-        const commandsOutputDir = join(config.workspaceRoot, 'entelechia-ui', 'src', 'generated', 'commands')
-        if (!existsSync(commandsOutputDir)) {
-          mkdirSync(commandsOutputDir, { recursive: true })
-        }
-        
+        const commandsOutputDir = config.commandsOutputDir
+
         // Generate commands.generated.ts
         const commandsOutputPath = join(commandsOutputDir, 'commands.generated.ts')
         const commandsCode = generateCommandsCode(commandDescriptors)
         const commandsWriteResult = writer.writeFile(commandsOutputPath, commandsCode, {
           banner: {
             source: 'commands.yaml',
+            sources: [join(config.commandsDir, 'commands.yaml')],
           },
           type: 'commands',
+          generator: 'generateCommandsCode',
           checkMode: config.checkMode,
           dryRun: config.dryRun,
+          validateCode: config.validateCode,
         })
         
-        if (!commandsWriteResult.success) {
-          if (config.checkMode && commandsWriteResult.error?.includes('Drift detected')) {
-            warnings.push(`Commands would be regenerated: ${commandsWriteResult.error}`)
-          } else {
-            errors.push(`Commands generation failed: ${commandsWriteResult.error}`)
-          }
-        } else if (commandsWriteResult.written) {
-          artifacts.push(commandsOutputPath)
-        }
+        reportWrite(commandsOutputPath, 'Commands', commandsWriteResult)
       } catch (error: any) {
-        errors.push(`Commands generation failed: ${error.message}`)
+        diagnostics.fromError(error, DiagnosticCodes.GenerationFailed, 'Commands generation failed')
       }
     }
     
     if (hotkeyDescriptors && hotkeyDescriptors.size > 0) {
       try {
-        // Ensure commands output directory exists
-        const commandsOutputDir = join(config.workspaceRoot, 'entelechia-ui', 'src', 'generated', 'commands')
-        if (!existsSync(commandsOutputDir)) {
-          mkdirSync(commandsOutputDir, { recursive: true })
-        }
-        
+        const commandsOutputDir = config.commandsOutputDir
+
         // Generate hotkeys.generated.ts
         const hotkeysOutputPath = join(commandsOutputDir, 'hotkeys.generated.ts')
         const hotkeysCode = generateHotkeysCode(hotkeyDescriptors)
         const hotkeysWriteResult = writer.writeFile(hotkeysOutputPath, hotkeysCode, {
           banner: {
             source: 'commands.yaml',
+            sources: [join(config.commandsDir, 'commands.yaml')],
           },
           type: 'hotkeys',
+          generator: 'generateHotkeysCode',
           checkMode: config.checkMode,
           dryRun: config.dryRun,
+          validateCode: config.validateCode,
         })
         
-        if (!hotkeysWriteResult.success) {
-          if (config.checkMode && hotkeysWriteResult.error?.includes('Drift detected')) {
-            warnings.push(`Hotkeys would be regenerated: ${hotkeysWriteResult.error}`)
-          } else {
-            errors.push(`Hotkeys generation failed: ${hotkeysWriteResult.error}`)
-          }
-        } else if (hotkeysWriteResult.written) {
-          artifacts.push(hotkeysOutputPath)
-        }
+        reportWrite(hotkeysOutputPath, 'Hotkeys', hotkeysWriteResult)
       } catch (error: any) {
-        errors.push(`Hotkeys generation failed: ${error.message}`)
+        diagnostics.fromError(error, DiagnosticCodes.GenerationFailed, 'Hotkeys generation failed')
       }
     }
     
     // Sub-phase 7.9: Generate Instrumentation Descriptors
     if (telemetryDescriptors && telemetryDescriptors.size > 0) {
       try {
-        const instrumentationOutputDir = join(config.workspaceRoot, 'entelechia-ui', 'src', 'generated', 'instrumentation')
-        if (!existsSync(instrumentationOutputDir)) {
-          mkdirSync(instrumentationOutputDir, { recursive: true })
-        }
-        
+        const instrumentationOutputDir = config.instrumentationOutputDir
         const telemetryOutputPath = join(instrumentationOutputDir, 'telemetry.generated.ts')
         const telemetryCode = generateTelemetryCode(telemetryDescriptors)
         const telemetryWriteResult = writer.writeFile(telemetryOutputPath, telemetryCode, {
           banner: {
             source: 'telemetry/*.yaml',
+            sources: [join(config.instrumentationDir, 'telemetry')],
           },
           type: 'telemetry',
+          generator: 'generateTelemetryCode',
           checkMode: config.checkMode,
           dryRun: config.dryRun,
+          validateCode: config.validateCode,
         })
         
-        if (!telemetryWriteResult.success) {
-          if (config.checkMode && telemetryWriteResult.error?.includes('Drift detected')) {
-            warnings.push(`Telemetry would be regenerated: ${telemetryWriteResult.error}`)
-          } else {
-            errors.push(`Telemetry generation failed: ${telemetryWriteResult.error}`)
-          }
-        } else if (telemetryWriteResult.written) {
-          artifacts.push(telemetryOutputPath)
-        }
+        reportWrite(telemetryOutputPath, 'Telemetry', telemetryWriteResult)
       } catch (error: any) {
-        errors.push(`Telemetry generation failed: ${error.message}`)
+        diagnostics.fromError(error, DiagnosticCodes.GenerationFailed, 'Telemetry generation failed')
       }
     }
     
     if (devtoolsDescriptors && devtoolsDescriptors.size > 0) {
       try {
-        const instrumentationOutputDir = join(config.workspaceRoot, 'entelechia-ui', 'src', 'generated', 'instrumentation')
-        if (!existsSync(instrumentationOutputDir)) {
-          mkdirSync(instrumentationOutputDir, { recursive: true })
-        }
-        
+        const instrumentationOutputDir = config.instrumentationOutputDir
         const devtoolsOutputPath = join(instrumentationOutputDir, 'devtools.generated.ts')
         const devtoolsCode = generateDevToolsCode(devtoolsDescriptors)
         const devtoolsWriteResult = writer.writeFile(devtoolsOutputPath, devtoolsCode, {
           banner: {
             source: 'devtools/*.yaml',
+            sources: [join(config.instrumentationDir, 'devtools')],
           },
           type: 'devtools',
+          generator: 'generateDevToolsCode',
           checkMode: config.checkMode,
           dryRun: config.dryRun,
+          validateCode: config.validateCode,
         })
         
-        if (!devtoolsWriteResult.success) {
-          if (config.checkMode && devtoolsWriteResult.error?.includes('Drift detected')) {
-            warnings.push(`DevTools would be regenerated: ${devtoolsWriteResult.error}`)
-          } else {
-            errors.push(`DevTools generation failed: ${devtoolsWriteResult.error}`)
-          }
-        } else if (devtoolsWriteResult.written) {
-          artifacts.push(devtoolsOutputPath)
-        }
+        reportWrite(devtoolsOutputPath, 'DevTools', devtoolsWriteResult)
       } catch (error: any) {
-        errors.push(`DevTools generation failed: ${error.message}`)
+        diagnostics.fromError(error, DiagnosticCodes.GenerationFailed, 'DevTools generation failed')
       }
     }
     
     if (uxFidelityDescriptors && uxFidelityDescriptors.size > 0) {
       try {
-        const instrumentationOutputDir = join(config.workspaceRoot, 'entelechia-ui', 'src', 'generated', 'instrumentation')
-        if (!existsSync(instrumentationOutputDir)) {
-          mkdirSync(instrumentationOutputDir, { recursive: true })
-        }
-        
+        const instrumentationOutputDir = config.instrumentationOutputDir
         const uxFidelityOutputPath = join(instrumentationOutputDir, 'ux-fidelity.generated.ts')
         const uxFidelityCode = generateUXFidelityCode(uxFidelityDescriptors)
         const uxFidelityWriteResult = writer.writeFile(uxFidelityOutputPath, uxFidelityCode, {
           banner: {
             source: 'ux/*.yaml',
+            sources: [join(config.instrumentationDir, 'ux')],
           },
           type: 'ux-fidelity',
+          generator: 'generateUXFidelityCode',
           checkMode: config.checkMode,
           dryRun: config.dryRun,
+          validateCode: config.validateCode,
         })
         
-        if (!uxFidelityWriteResult.success) {
-          if (config.checkMode && uxFidelityWriteResult.error?.includes('Drift detected')) {
-            warnings.push(`UX Fidelity would be regenerated: ${uxFidelityWriteResult.error}`)
-          } else {
-            errors.push(`UX Fidelity generation failed: ${uxFidelityWriteResult.error}`)
-          }
-        } else if (uxFidelityWriteResult.written) {
-          artifacts.push(uxFidelityOutputPath)
-        }
+        reportWrite(uxFidelityOutputPath, 'UX Fidelity', uxFidelityWriteResult)
       } catch (error: any) {
-        errors.push(`UX Fidelity generation failed: ${error.message}`)
+        diagnostics.fromError(error, DiagnosticCodes.GenerationFailed, 'UX Fidelity generation failed')
       }
     }
     
     // Sub-phase 7.10: Generate IntentGraph Descriptors
     if (intentGraphDescriptors && intentGraphDescriptors.size > 0) {
       try {
-        const intentGraphOutputDir = join(config.workspaceRoot, 'entelechia-ui', 'src', 'generated', 'intent-graph')
-        if (!existsSync(intentGraphOutputDir)) {
-          mkdirSync(intentGraphOutputDir, { recursive: true })
-        }
-        
+        const intentGraphOutputDir = config.intentGraphOutputDir
         const intentGraphOutputPath = join(intentGraphOutputDir, 'intent-graph.generated.ts')
         const intentGraphCode = generateIntentGraphCode(intentGraphDescriptors)
         const intentGraphWriteResult = writer.writeFile(intentGraphOutputPath, intentGraphCode, {
           banner: {
             source: 'intent-graph/*.yaml',
+            sources: [config.intentGraphDir],
           },
           type: 'intent-graph',
+          generator: 'generateIntentGraphCode',
           checkMode: config.checkMode,
           dryRun: config.dryRun,
+          validateCode: config.validateCode,
         })
         
-        if (!intentGraphWriteResult.success) {
-          if (config.checkMode && intentGraphWriteResult.error?.includes('Drift detected')) {
-            warnings.push(`IntentGraph would be regenerated: ${intentGraphWriteResult.error}`)
-          } else {
-            errors.push(`IntentGraph generation failed: ${intentGraphWriteResult.error}`)
-          }
-        } else if (intentGraphWriteResult.written) {
-          artifacts.push(intentGraphOutputPath)
-        }
+        reportWrite(intentGraphOutputPath, 'IntentGraph', intentGraphWriteResult)
         
         // ✅ ONTOLOGICAL: Generate mutation metadata STATE
         // This is ACT-layer generation - creates STATE that UI consumes
@@ -604,56 +631,57 @@ export async function runPhase7Codegen(
         const mutationMetadataWriteResult = writer.writeFile(mutationMetadataOutputPath, mutationMetadataCode, {
           banner: {
             source: 'intent-graph/*.yaml',
+            sources: [config.intentGraphDir],
           },
           type: 'mutation-metadata',
+          generator: 'generateMutationMetadataCode',
           checkMode: config.checkMode,
           dryRun: config.dryRun,
+          validateCode: config.validateCode,
         })
         
-        if (!mutationMetadataWriteResult.success) {
-          if (config.checkMode && mutationMetadataWriteResult.error?.includes('Drift detected')) {
-            warnings.push(`Mutation metadata would be regenerated: ${mutationMetadataWriteResult.error}`)
-          } else {
-            errors.push(`Mutation metadata generation failed: ${mutationMetadataWriteResult.error}`)
-          }
-        } else if (mutationMetadataWriteResult.written) {
-          artifacts.push(mutationMetadataOutputPath)
-        }
+        reportWrite(mutationMetadataOutputPath, 'Mutation metadata', mutationMetadataWriteResult)
       } catch (error: any) {
-        errors.push(`IntentGraph generation failed: ${error.message}`)
+        diagnostics.fromError(error, DiagnosticCodes.GenerationFailed, 'IntentGraph generation failed')
       }
     }
     
     // Generate Purity Guards code (Phase 9.2)
     if (purityGuards && purityGuards.size > 0) {
       try {
-        const purityGuardsOutputDir = join(config.workspaceRoot, 'entelechia-ui', 'src', 'generated', 'purity-guards')
-        if (!existsSync(purityGuardsOutputDir)) {
-          mkdirSync(purityGuardsOutputDir, { recursive: true })
-        }
-        
+        const purityGuardsOutputDir = config.purityGuardsOutputDir
         const purityGuardsCode = generatePurityGuardsCode(purityGuards)
         const purityGuardsOutputPath = join(purityGuardsOutputDir, 'purity-guards.generated.ts')
         const purityGuardsWriteResult = writer.writeFile(purityGuardsOutputPath, purityGuardsCode, {
           banner: {
             source: 'purity-guards/*.yaml',
+            sources: [config.purityGuardsDir],
           },
           type: 'purity-guards',
+          generator: 'generatePurityGuardsCode',
           checkMode: config.checkMode,
           dryRun: config.dryRun,
+          validateCode: config.validateCode,
         })
         
-        if (!purityGuardsWriteResult.success) {
-          if (config.checkMode && purityGuardsWriteResult.error?.includes('Drift detected')) {
-            warnings.push(`Purity guards would be regenerated: ${purityGuardsWriteResult.error}`)
-          } else {
-            errors.push(`Purity guards generation failed: ${purityGuardsWriteResult.error}`)
-          }
-        } else if (purityGuardsWriteResult.written) {
-          artifacts.push(purityGuardsOutputPath)
-        }
+        reportWrite(purityGuardsOutputPath, 'Purity guards', purityGuardsWriteResult)
       } catch (error: any) {
-        errors.push(`Purity guards generation failed: ${error.message}`)
+        diagnostics.fromError(error, DiagnosticCodes.GenerationFailed, 'Purity guards generation failed')
+      }
+    }
+    
+    // Typecheck the generated STATE set (imports of the shared contracts
+    // resolve to the ones just generated)
+    if (config.validateCode) {
+      const code = new Map(Array.from(generatedArtifacts).filter(([path]) => isTypeScriptArtifact(path)))
+      if (code.size > 0) {
+        const problems = typecheckGeneratedCode(code, {
+          fs,
+          paths: { '@entelechia/contracts/contracts/*': [join(config.sharedContractsDir, '*')] },
+        })
+        for (const [path, provenance] of provenances) {
+          reportCodeProblems(problems.filter(problem => problem.file === resolve(path)), provenance, config, diagnostics)
+        }
       }
     }
     
@@ -662,11 +690,11 @@ export async function runPhase7Codegen(
     return {
       phase: 7,
       name: 'Code Generation',
-      success: errors.length === 0,
-      errors,
-      warnings,
+      success: !diagnostics.hasErrors(),
+      ...diagnostics.toResult(),
       duration,
       artifacts,
+      generatedArtifacts,
     }
   } catch (error: any) {
     const duration = Date.now() - startTime
@@ -675,10 +703,35 @@ export async function runPhase7Codegen(
       phase: 7,
       name: 'Code Generation',
       success: false,
-      errors: [`Code generation failed: ${error.message}`],
-      warnings: [],
+      ...diagnostics.fromError(error, DiagnosticCodes.PhaseFailed, 'Code generation failed').toResult(),
       duration,
     }
   }
 }
 
+/**
+ * Phase 7 definition
+ */
+export const phase7Codegen = definePhase({
+  phase: 7,
+  name: 'Code Generation',
+  inputs: [
+    'descriptors',
+    'functionalDescriptors',
+    'validatedFunctionalDescriptors',
+    'commandDescriptors',
+    'hotkeyDescriptors',
+    'telemetryDescriptors',
+    'devtoolsDescriptors',
+    'uxFidelityDescriptors',
+    'intentGraphDescriptors',
+    'purityGuards',
+  ],
+  // Every validation and enforcement gate must pass before STATE is written
+  after: [1, 1.5, 2, 3, 4, 5, 7.6, 9.1],
+  outputs: ['generatedArtifacts'],
+  async run({ contracts, manifest, config, inputs, cache, events }) {
+    const { generatedArtifacts, ...result } = await runPhase7Codegen(contracts, manifest, config, inputs, cache, events)
+    return { result, outputs: { generatedArtifacts } }
+  },
+})
@@ -6,15 +6,18 @@
  * PRINCIPLE: UI elements declare their telos (purpose) and bindings declaratively.
  */
 
-import { readFileSync, existsSync, readdirSync } from 'fs'
 import { join } from 'path'
-import { parse } from 'yaml'
 import type { ActManifest } from '../../manifests/types.js'
 import type { ActEngineConfig, PhaseResult } from '../types.js'
 import { FormYamlSchema } from '../../../forms/yaml-schema.js'
 import { canonicalizeFunctionalForm } from '../../../forms/functional-canonicalizer.js'
 import type { ContractDefinition } from '@entelechia/contracts/contracts/metadata/types'
 import type { CanonicalFunctionalFormDescriptor } from '../../../forms/functional-types.js'
+import { definePhase } from '../registry.js'
+import type { PhaseEventSink } from '../../events/index.js'
+import { DiagnosticCollector, DiagnosticCodes } from '../../diagnostics/index.js'
+import { loadYamlFile } from '../../../yaml/index.js'
+import { getFileSystem } from '../../fs/index.js'
 
 /**
  * Execute Phase 7.5: UI Functional Canonicalization
@@ -22,27 +25,31 @@ import type { CanonicalFunctionalFormDescriptor } from '../../../forms/functiona
 export async function runPhase7_5FunctionalCanonicalization(
   contracts: ContractDefinition[],
   manifest: ActManifest,
-  config: ActEngineConfig
+  config: ActEngineConfig,
+  events?: PhaseEventSink
 ): Promise<PhaseResult & { functionalDescriptors?: Map<string, CanonicalFunctionalFormDescriptor> }> {
   const startTime = Date.now()
-  const errors: string[] = []
-  const warnings: string[] = []
+  const fs = getFileSystem(config)
+  const diagnostics = new DiagnosticCollector(7.5)
   const functionalDescriptors = new Map<string, CanonicalFunctionalFormDescriptor>()
   
   try {
-    if (!existsSync(config.yamlDir)) {
+    if (!fs.exists(config.yamlDir)) {
       return {
         phase: 7.5,
         name: 'UI Functional Canonicalization',
         success: true,
-        errors: [],
-        warnings: [`YAML directory does not exist: ${config.yamlDir} (skipping functional canonicalization)`],
+        ...diagnostics.warning(
+          DiagnosticCodes.SourceMissing,
+          'YAML directory does not exist (skipping functional canonicalization)',
+          { file: config.yamlDir }
+        ).toResult(),
         duration: Date.now() - startTime,
         functionalDescriptors: new Map(),
       }
     }
     
-    const yamlFiles = readdirSync(config.yamlDir).filter(f => f.endsWith('.form.yaml'))
+    const yamlFiles = fs.readdir(config.yamlDir).filter(f => f.endsWith('.form.yaml'))
     const contractMap = new Map(contracts.map(c => [c.name, c]))
     
     for (const yamlFile of yamlFiles) {
@@ -50,14 +57,17 @@ export async function runPhase7_5FunctionalCanonicalization(
       
       try {
         // Read and parse YAML
-        const content = readFileSync(yamlPath, 'utf-8')
-        const yamlData = parse(content)
-        const formYaml = FormYamlSchema.parse(yamlData)
+        const formYaml = loadYamlFile(yamlPath, FormYamlSchema, fs)
+        events?.emit({ type: 'file:parsed', file: yamlPath })
         
         // Find corresponding contract
         const contract = contractMap.get(formYaml.form.contract)
         if (!contract) {
-          warnings.push(`YAML file "${yamlFile}": Contract "${formYaml.form.contract}" not found (skipping functional canonicalization)`)
+          diagnostics.warning(
+            DiagnosticCodes.ContractNotFound,
+            `YAML file "${yamlFile}": Contract "${formYaml.form.contract}" not found (skipping functional canonicalization)`,
+            { file: yamlPath }
+          )
           continue
         }
         
@@ -71,7 +81,7 @@ export async function runPhase7_5FunctionalCanonicalization(
         const functionalDescriptor = await canonicalizeFunctionalForm(
           formYaml,
           contract,
-          config.workspaceRoot,
+          config.actionRegistryPath,
           manifest.acl
         )
         
@@ -80,7 +90,12 @@ export async function runPhase7_5FunctionalCanonicalization(
         functionalDescriptors.set(key, functionalDescriptor)
         
       } catch (error: any) {
-        errors.push(`Functional canonicalization failed for "${yamlFile}": ${error.message}`)
+        diagnostics.fromError(
+          error,
+          DiagnosticCodes.FunctionalBindingInvalid,
+          `Functional canonicalization failed for "${yamlFile}"`,
+          { file: yamlPath }
+        )
       }
     }
     
@@ -89,9 +104,8 @@ export async function runPhase7_5FunctionalCanonicalization(
     return {
       phase: 7.5,
       name: 'UI Functional Canonicalization',
-      success: errors.length === 0,
-      errors,
-      warnings,
+      success: !diagnostics.hasErrors(),
+      ...diagnostics.toResult(),
       duration,
       functionalDescriptors,
     }
@@ -102,11 +116,32 @@ export async function runPhase7_5FunctionalCanonicalization(
       phase: 7.5,
       name: 'UI Functional Canonicalization',
       success: false,
-      errors: [`Functional canonicalization failed: ${error.message}`],
-      warnings: [],
+      ...diagnostics.fromError(error, DiagnosticCodes.PhaseFailed, 'Functional canonicalization failed').toResult(),
       duration,
       functionalDescriptors: new Map(),
     }
   }
 }
 
+/**
+ * Phase 7.5 definition
+ */
+export const phase7_5FunctionalCanonicalization = definePhase({
+  phase: 7.5,
+  name: 'UI Functional Canonicalization',
+  after: [5],
+  outputs: ['functionalDescriptors'],
+  sources: config => [config.yamlDir],
+  cacheable: true,
+  // Functional canonicalization is non-blocking (functional bindings are optional)
+  blocking: false,
+  async run({ contracts, manifest, config, events }) {
+    const { functionalDescriptors, ...result } = await runPhase7_5FunctionalCanonicalization(
+      contracts,
+      manifest,
+      config,
+      events
+    )
+    return { result, outputs: { functionalDescriptors } }
+  },
+})
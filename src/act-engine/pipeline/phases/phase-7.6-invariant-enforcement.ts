@@ -9,9 +9,7 @@
  * It ensures that nothing illegal ever reaches STATE (generated code).
  */
 
-import { readFileSync, existsSync, readdirSync } from 'fs'
 import { join } from 'path'
-import { parse } from 'yaml'
 import { registry } from '@entelechia/invariant-engine'
 import type { PhaseResult } from '../types.js'
 import type { ActEngineConfig } from '../types.js'
@@ -31,6 +29,11 @@ import {
   ChatLayoutYamlSchema,
   type ChatLayoutYaml,
 } from '../../../navigation/metadata/yaml-schema.js'
+import { definePhase } from '../registry.js'
+import type { PhaseEventSink } from '../../events/index.js'
+import { DiagnosticCollector, DiagnosticCodes, invariantCode } from '../../diagnostics/index.js'
+import { loadYamlFile } from '../../../yaml/index.js'
+import { getFileSystem } from '../../fs/index.js'
 
 export interface InvariantViolation {
   invariantId: string
@@ -46,140 +49,135 @@ export interface InvariantViolation {
 export async function runPhase7_6InvariantEnforcement(
   manifest: ActManifest,
   config: ActEngineConfig,
-  formDescriptors?: Map<string, CanonicalFormDescriptor>
+  formDescriptors?: Map<string, CanonicalFormDescriptor>,
+  events?: PhaseEventSink
 ): Promise<PhaseResult & { violations?: InvariantViolation[] }> {
   const startTime = Date.now()
-  const errors: string[] = []
-  const warnings: string[] = []
+  const fs = getFileSystem(config)
+  const diagnostics = new DiagnosticCollector(7.6)
   const violations: InvariantViolation[] = []
   
+  // Violations become errors, reported on the YAML file they come from
+  const collect = (found: InvariantViolation[], file?: string): void => {
+    for (const violation of found) {
+      violations.push(violation)
+      diagnostics.error(
+        invariantCode(violation.invariantId),
+        `${violation.descriptorType} "${violation.descriptorKey}": ${violation.message}`,
+        { file }
+      )
+    }
+  }
+  const skip = (error: any, message: string, file: string): void => {
+    diagnostics.fromError(error, DiagnosticCodes.CheckSkipped, message, { severity: 'warning', file })
+  }
+  
   try {
     // Evaluate invariants on form descriptors
     if (formDescriptors) {
       for (const [key, descriptor] of formDescriptors) {
-        const descriptorViolations = evaluateInvariantsOnFormDescriptor(descriptor)
-        violations.push(...descriptorViolations)
+        collect(evaluateInvariantsOnFormDescriptor(descriptor))
       }
     }
     
     // Evaluate invariants on dashboard YAML files
-    const dashboardsYamlDir = join(config.yamlDir, '..', 'dashboards')
-    if (existsSync(dashboardsYamlDir)) {
-      const dashboardFiles = readdirSync(dashboardsYamlDir).filter(f => f.endsWith('.view.yaml'))
+    const dashboardsYamlDir = config.dashboardsDir
+    if (fs.exists(dashboardsYamlDir)) {
+      const dashboardFiles = fs.readdir(dashboardsYamlDir).filter(f => f.endsWith('.view.yaml'))
       for (const dashboardFile of dashboardFiles) {
+        const yamlPath = join(dashboardsYamlDir, dashboardFile)
         try {
-          const yamlPath = join(dashboardsYamlDir, dashboardFile)
-          const content = readFileSync(yamlPath, 'utf-8')
-          const yamlData = parse(content)
-          const dashboardYaml = DashboardYamlSchema.parse(yamlData)
+          const dashboardYaml = loadYamlFile(yamlPath, DashboardYamlSchema, fs)
+          events?.emit({ type: 'file:parsed', file: yamlPath })
           
-          const dashboardViolations = evaluateInvariantsOnDashboardYaml(dashboardYaml.dashboard, dashboardFile)
-          violations.push(...dashboardViolations)
+          collect(evaluateInvariantsOnDashboardYaml(dashboardYaml.dashboard, dashboardFile), yamlPath)
         } catch (error: any) {
           // Skip invalid YAML files (they'll be caught in Phase 6b)
-          warnings.push(`Skipping dashboard invariant check for "${dashboardFile}": ${error.message}`)
+          skip(error, `Skipping dashboard invariant check for "${dashboardFile}"`, yamlPath)
         }
       }
     }
     
     // Evaluate invariants on navigation YAML files
-    const navigationYamlDir = join(config.yamlDir, '..', 'navigation')
-    if (existsSync(navigationYamlDir)) {
+    const navigationYamlDir = config.navigationDir
+    if (fs.exists(navigationYamlDir)) {
       // UI Realms
       const uiRealmsYamlPath = join(navigationYamlDir, 'ui-realms.yaml')
-      if (existsSync(uiRealmsYamlPath)) {
+      if (fs.exists(uiRealmsYamlPath)) {
         try {
-          const content = readFileSync(uiRealmsYamlPath, 'utf-8')
-          const yamlData = parse(content)
-          const uiRealmsYaml = UIRealmsYamlSchema.parse(yamlData)
+          const uiRealmsYaml = loadYamlFile(uiRealmsYamlPath, UIRealmsYamlSchema, fs)
+          events?.emit({ type: 'file:parsed', file: uiRealmsYamlPath })
           
           for (const realm of uiRealmsYaml.realms) {
-            const realmViolations = evaluateInvariantsOnUIRealm(realm)
-            violations.push(...realmViolations)
+            collect(evaluateInvariantsOnUIRealm(realm), uiRealmsYamlPath)
           }
         } catch (error: any) {
-          warnings.push(`Skipping UI Realms invariant check: ${error.message}`)
+          skip(error, 'Skipping UI Realms invariant check', uiRealmsYamlPath)
         }
       }
       
       // Navigation Shells
       const navigationShellsYamlPath = join(navigationYamlDir, 'navigation-shells.yaml')
-      if (existsSync(navigationShellsYamlPath)) {
+      if (fs.exists(navigationShellsYamlPath)) {
         try {
-          const content = readFileSync(navigationShellsYamlPath, 'utf-8')
-          const yamlData = parse(content)
-          const shellsYaml = NavigationShellsYamlSchema.parse(yamlData)
+          const shellsYaml = loadYamlFile(navigationShellsYamlPath, NavigationShellsYamlSchema, fs)
+          events?.emit({ type: 'file:parsed', file: navigationShellsYamlPath })
           
           for (const shell of shellsYaml.shells) {
-            const shellViolations = evaluateInvariantsOnNavigationShell(shell)
-            violations.push(...shellViolations)
+            collect(evaluateInvariantsOnNavigationShell(shell), navigationShellsYamlPath)
           }
         } catch (error: any) {
-          warnings.push(`Skipping Navigation Shells invariant check: ${error.message}`)
+          skip(error, 'Skipping Navigation Shells invariant check', navigationShellsYamlPath)
         }
       }
       
       // Node Detail Sections
       const nodeDetailSectionsYamlPath = join(navigationYamlDir, 'node-detail-sections.yaml')
-      if (existsSync(nodeDetailSectionsYamlPath)) {
+      if (fs.exists(nodeDetailSectionsYamlPath)) {
         try {
-          const content = readFileSync(nodeDetailSectionsYamlPath, 'utf-8')
-          const yamlData = parse(content)
-          const sectionsYaml = NodeDetailSectionsYamlSchema.parse(yamlData)
+          const sectionsYaml = loadYamlFile(nodeDetailSectionsYamlPath, NodeDetailSectionsYamlSchema, fs)
+          events?.emit({ type: 'file:parsed', file: nodeDetailSectionsYamlPath })
           
-          const sectionsViolations = evaluateInvariantsOnNodeDetailSections(sectionsYaml)
-          violations.push(...sectionsViolations)
+          collect(evaluateInvariantsOnNodeDetailSections(sectionsYaml), nodeDetailSectionsYamlPath)
         } catch (error: any) {
-          warnings.push(`Skipping Node Detail Sections invariant check: ${error.message}`)
+          skip(error, 'Skipping Node Detail Sections invariant check', nodeDetailSectionsYamlPath)
         }
       }
       
       // Workspace Sidebar
       const workspaceSidebarYamlPath = join(navigationYamlDir, 'workspace-sidebar.yaml')
-      if (existsSync(workspaceSidebarYamlPath)) {
+      if (fs.exists(workspaceSidebarYamlPath)) {
         try {
-          const content = readFileSync(workspaceSidebarYamlPath, 'utf-8')
-          const yamlData = parse(content)
-          const sidebarYaml = WorkspaceSidebarYamlSchema.parse(yamlData)
+          const sidebarYaml = loadYamlFile(workspaceSidebarYamlPath, WorkspaceSidebarYamlSchema, fs)
+          events?.emit({ type: 'file:parsed', file: workspaceSidebarYamlPath })
           
-          const sidebarViolations = evaluateInvariantsOnWorkspaceSidebar(sidebarYaml)
-          violations.push(...sidebarViolations)
+          collect(evaluateInvariantsOnWorkspaceSidebar(sidebarYaml), workspaceSidebarYamlPath)
         } catch (error: any) {
-          warnings.push(`Skipping Workspace Sidebar invariant check: ${error.message}`)
+          skip(error, 'Skipping Workspace Sidebar invariant check', workspaceSidebarYamlPath)
         }
       }
       
       // Chat Layout
       const chatLayoutYamlPath = join(navigationYamlDir, 'chat-layout.yaml')
-      if (existsSync(chatLayoutYamlPath)) {
+      if (fs.exists(chatLayoutYamlPath)) {
         try {
-          const content = readFileSync(chatLayoutYamlPath, 'utf-8')
-          const yamlData = parse(content)
-          const chatLayoutYaml = ChatLayoutYamlSchema.parse(yamlData)
+          const chatLayoutYaml = loadYamlFile(chatLayoutYamlPath, ChatLayoutYamlSchema, fs)
+          events?.emit({ type: 'file:parsed', file: chatLayoutYamlPath })
           
-          const chatViolations = evaluateInvariantsOnChatLayout(chatLayoutYaml)
-          violations.push(...chatViolations)
+          collect(evaluateInvariantsOnChatLayout(chatLayoutYaml), chatLayoutYamlPath)
         } catch (error: any) {
-          warnings.push(`Skipping Chat Layout invariant check: ${error.message}`)
+          skip(error, 'Skipping Chat Layout invariant check', chatLayoutYamlPath)
         }
       }
     }
     
-    // Convert violations to errors
-    for (const violation of violations) {
-      errors.push(
-        `[${violation.invariantId}] ${violation.descriptorType} "${violation.descriptorKey}": ${violation.message}`
-      )
-    }
-    
     const duration = Date.now() - startTime
     
     return {
       phase: 7.6,
       name: 'Invariant Canonicalization & Enforcement',
       success: violations.length === 0,
-      errors,
-      warnings,
+      ...diagnostics.toResult(),
       duration,
       violations,
     }
@@ -190,8 +188,7 @@ export async function runPhase7_6InvariantEnforcement(
       phase: 7.6,
       name: 'Invariant Canonicalization & Enforcement',
       success: false,
-      errors: [`Invariant enforcement failed: ${error.message}`],
-      warnings: [],
+      ...diagnostics.fromError(error, DiagnosticCodes.PhaseFailed, 'Invariant enforcement failed').toResult(),
       duration,
     }
   }
@@ -729,3 +726,21 @@ function evaluateInvariantsOnChatLayout(
   return violations
 }
 
+/**
+ * Phase 7.6 definition
+ */
+export const phase7_6InvariantEnforcement = definePhase({
+  phase: 7.6,
+  name: 'Invariant Canonicalization & Enforcement',
+  inputs: ['descriptors'],
+  sources: config => [config.dashboardsDir, config.navigationDir],
+  async run({ manifest, config, inputs, events }) {
+    const { violations, ...result } = await runPhase7_6InvariantEnforcement(
+      manifest,
+      config,
+      inputs.descriptors,
+      events
+    )
+    return { result }
+  },
+})
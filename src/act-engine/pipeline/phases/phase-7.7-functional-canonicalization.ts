@@ -17,9 +17,7 @@
  * It ensures that all functional bindings are valid before code generation.
  */
 
-import { readFileSync, existsSync, readdirSync } from 'fs'
 import { join } from 'path'
-import { parse } from 'yaml'
 import { registry } from '@entelechia/invariant-engine'
 import type { PhaseResult } from '../types.js'
 import type { ActEngineConfig } from '../types.js'
@@ -31,6 +29,12 @@ import {
   DashboardYamlSchema,
   type DashboardYaml,
 } from '../../../navigation/metadata/yaml-schema.js'
+import { definePhase } from '../registry.js'
+import { moduleSources } from '../../cache/index.js'
+import type { PhaseEventSink } from '../../events/index.js'
+import { DiagnosticCollector, DiagnosticCodes } from '../../diagnostics/index.js'
+import { loadYamlFile } from '../../../yaml/index.js'
+import { getFileSystem } from '../../fs/index.js'
 
 export interface FunctionalValidationError {
   formKey: string
@@ -45,31 +49,47 @@ export interface FunctionalValidationError {
 export async function runPhase7_7FunctionalCanonicalization(
   manifest: ActManifest,
   config: ActEngineConfig,
-  contracts: ContractDefinition[]
+  contracts: ContractDefinition[],
+  events?: PhaseEventSink
 ): Promise<PhaseResult & { functionalDescriptors?: Map<string, any>; validationErrors?: FunctionalValidationError[] }> {
   const startTime = Date.now()
-  const errors: string[] = []
-  const warnings: string[] = []
+  const fs = getFileSystem(config)
+  const diagnostics = new DiagnosticCollector(7.7)
   const validationErrors: FunctionalValidationError[] = []
   const functionalDescriptors = new Map<string, any>()
 
+  // Validation errors become pipeline errors, reported on the YAML file they come from
+  const collect = (found: FunctionalValidationError[], file: string): void => {
+    for (const validationError of found) {
+      validationErrors.push(validationError)
+      diagnostics.error(
+        DiagnosticCodes.FunctionalBindingInvalid,
+        `[${validationError.bindingType}] ${validationError.formKey}: ${validationError.message}`,
+        { file }
+      )
+    }
+  }
+
   try {
     // 1. Validate forms with functional bindings
     const formsYamlDir = config.yamlDir
-    if (existsSync(formsYamlDir)) {
-      const formFiles = readdirSync(formsYamlDir).filter(f => f.endsWith('.form.yaml'))
+    if (fs.exists(formsYamlDir)) {
+      const formFiles = fs.readdir(formsYamlDir).filter(f => f.endsWith('.form.yaml'))
       
       for (const formFile of formFiles) {
         const formPath = join(formsYamlDir, formFile)
         try {
-          const content = readFileSync(formPath, 'utf-8')
-          const yamlData = parse(content)
-          const formYaml = FormYamlSchema.parse(yamlData)
+          const formYaml = loadYamlFile(formPath, FormYamlSchema, fs)
+          events?.emit({ type: 'file:parsed', file: formPath })
           
           // Find contract metadata
           const contract = contracts.find(c => c.name === formYaml.form.contract)
           if (!contract) {
-            errors.push(`Form "${formFile}" references unknown contract "${formYaml.form.contract}"`)
+            diagnostics.error(
+              DiagnosticCodes.ContractNotFound,
+              `Form "${formFile}" references unknown contract "${formYaml.form.contract}"`,
+              { file: formPath }
+            )
             continue
           }
           
@@ -78,10 +98,10 @@ export async function runPhase7_7FunctionalCanonicalization(
             const formErrors = await validateFunctionalBinding(
               formYaml.form.functional,
               contract,
-              config.workspaceRoot,
+              config,
               `${formYaml.form.contract}.${formYaml.form.variant}`
             )
-            validationErrors.push(...formErrors)
+            collect(formErrors, formPath)
           }
           
           // Validate section-level functional bindings
@@ -90,10 +110,10 @@ export async function runPhase7_7FunctionalCanonicalization(
               const sectionErrors = await validateFunctionalBinding(
                 section.functional,
                 contract,
-                config.workspaceRoot,
+                config,
                 `${formYaml.form.contract}.${formYaml.form.variant}.${section.id}`
               )
-              validationErrors.push(...sectionErrors)
+              collect(sectionErrors, formPath)
             }
           }
           
@@ -103,32 +123,38 @@ export async function runPhase7_7FunctionalCanonicalization(
               const functionalDescriptor = await canonicalizeFunctionalForm(
                 formYaml,
                 contract,
-                config.workspaceRoot
+                config.actionRegistryPath
               )
               functionalDescriptors.set(`${formYaml.form.contract}.${formYaml.form.variant}`, functionalDescriptor)
             } catch (error: any) {
-              errors.push(`Failed to canonicalize functional form "${formFile}": ${error.message}`)
+              diagnostics.fromError(
+                error,
+                DiagnosticCodes.FunctionalBindingInvalid,
+                `Failed to canonicalize functional form "${formFile}"`,
+                { file: formPath }
+              )
             }
           }
         } catch (error: any) {
-          errors.push(`Failed to parse form YAML "${formFile}": ${error.message}`)
+          diagnostics.fromError(error, DiagnosticCodes.YamlParseError, `Failed to parse form YAML "${formFile}"`, {
+            file: formPath,
+          })
         }
       }
     } else {
-      warnings.push(`Forms directory does not exist: ${formsYamlDir}`)
+      diagnostics.warning(DiagnosticCodes.SourceMissing, 'Forms directory does not exist', { file: formsYamlDir })
     }
     
     // 2. Validate dashboards with functional bindings
-    const dashboardsYamlDir = join(config.yamlDir, '..', 'dashboards')
-    if (existsSync(dashboardsYamlDir)) {
-      const dashboardFiles = readdirSync(dashboardsYamlDir).filter(f => f.endsWith('.view.yaml'))
+    const dashboardsYamlDir = config.dashboardsDir
+    if (fs.exists(dashboardsYamlDir)) {
+      const dashboardFiles = fs.readdir(dashboardsYamlDir).filter(f => f.endsWith('.view.yaml'))
       
       for (const dashboardFile of dashboardFiles) {
         const dashboardPath = join(dashboardsYamlDir, dashboardFile)
         try {
-          const content = readFileSync(dashboardPath, 'utf-8')
-          const yamlData = parse(content)
-          const dashboardYaml = DashboardYamlSchema.parse(yamlData)
+          const dashboardYaml = loadYamlFile(dashboardPath, DashboardYamlSchema, fs)
+          events?.emit({ type: 'file:parsed', file: dashboardPath })
           
           // Validate dashboard functional bindings (if they exist in schema)
           // Note: Dashboard schema may not have functional bindings yet
@@ -139,33 +165,30 @@ export async function runPhase7_7FunctionalCanonicalization(
               const dashboardErrors = await validateFunctionalBinding(
                 (dashboardYaml.dashboard as any).functional,
                 contract,
-                config.workspaceRoot,
+                config,
                 dashboardYaml.dashboard.id || dashboardFile
               )
-              validationErrors.push(...dashboardErrors)
+              collect(dashboardErrors, dashboardPath)
             }
           }
         } catch (error: any) {
-          warnings.push(`Skipping dashboard functional validation for "${dashboardFile}": ${error.message}`)
+          diagnostics.fromError(
+            error,
+            DiagnosticCodes.CheckSkipped,
+            `Skipping dashboard functional validation for "${dashboardFile}"`,
+            { severity: 'warning', file: dashboardPath }
+          )
         }
       }
     }
     
-    // Convert validation errors to pipeline errors
-    for (const validationError of validationErrors) {
-      errors.push(
-        `[${validationError.bindingType}] ${validationError.formKey}: ${validationError.message}`
-      )
-    }
-    
     const duration = Date.now() - startTime
     
     return {
       phase: 7.7,
       name: 'Functional Canonicalization',
-      success: validationErrors.length === 0 && errors.length === 0,
-      errors,
-      warnings,
+      success: !diagnostics.hasErrors(),
+      ...diagnostics.toResult(),
       duration,
       functionalDescriptors,
       validationErrors,
@@ -177,8 +200,7 @@ export async function runPhase7_7FunctionalCanonicalization(
       phase: 7.7,
       name: 'Functional Canonicalization',
       success: false,
-      errors: [`Functional canonicalization failed: ${error.message}`],
-      warnings: [],
+      ...diagnostics.fromError(error, DiagnosticCodes.PhaseFailed, 'Functional canonicalization failed').toResult(),
       duration,
     }
   }
@@ -190,26 +212,24 @@ export async function runPhase7_7FunctionalCanonicalization(
 async function validateFunctionalBinding(
   binding: any,
   contract: ContractDefinition,
-  workspaceRoot: string,
+  config: ActEngineConfig,
   formKey: string
 ): Promise<FunctionalValidationError[]> {
   const errors: FunctionalValidationError[] = []
   
   // Dynamic import from backend (ACL is backend-specific)
-  const actionRegistryPath = join(workspaceRoot, 'entelechia-core', 'src', 'acl', 'action-registry.ts')
   let validateActionId: ((actionId: string) => boolean) | null = null
   try {
-    const actionRegistryModule = await import(`file://${actionRegistryPath}`)
+    const actionRegistryModule = await import(`file://${config.actionRegistryPath}`)
     validateActionId = actionRegistryModule.validateActionId
   } catch (error: any) {
     // ActionRegistry not available - skip capability validation
   }
   
   // Dynamic import from UI (intent registry is UI-specific)
-  const intentRegistryPath = join(workspaceRoot, 'entelechia-ui', 'src', 'intent', 'intent-registry.ts')
   let intentRegistry: Record<string, any> | null = null
   try {
-    const intentRegistryModule = await import(`file://${intentRegistryPath}`)
+    const intentRegistryModule = await import(`file://${config.intentRegistryPath}`)
     intentRegistry = intentRegistryModule.INTENT_REGISTRY || {}
   } catch (error: any) {
     // Intent registry not available - skip intent validation
@@ -397,3 +417,28 @@ async function validateFunctionalBinding(
   return errors
 }
 
+/**
+ * Phase 7.7 definition
+ */
+export const phase7_7FunctionalCanonicalization = definePhase({
+  phase: 7.7,
+  name: 'Functional Canonicalization',
+  after: [5],
+  outputs: ['validatedFunctionalDescriptors'],
+  sources: config => [
+    config.yamlDir,
+    config.dashboardsDir,
+    ...moduleSources(config.actionRegistryPath),
+    ...moduleSources(config.intentRegistryPath),
+  ],
+  cacheable: true,
+  async run({ contracts, manifest, config, events }) {
+    const { functionalDescriptors, validationErrors, ...result } = await runPhase7_7FunctionalCanonicalization(
+      manifest,
+      config,
+      contracts,
+      events
+    )
+    return { result, outputs: { validatedFunctionalDescriptors: functionalDescriptors } }
+  },
+})
@@ -2,7 +2,7 @@
  * ✅ ENTELECHIA: Phase 7.8 — Command Canonicalization
  * 
  * Validates and canonicalizes commands.yaml:
- * - Reads commands.yaml from entelechia-ui/commands/
+ * - Reads commands.yaml from the commands directory (`commandsDir`)
  * - Validates all commands against ActionRegistry and IntentRegistry
  * - Validates hotkey syntax and detects conflicts
  * - Generates canonical command and hotkey descriptors
@@ -11,30 +11,37 @@
  * This phase runs AFTER Phase 7.7 (Functional Canonicalization) and BEFORE Phase 7 (Code Generation).
  */
 
-import { readFileSync, existsSync } from 'fs'
 import { join } from 'path'
-import { parse } from 'yaml'
 import type { PhaseResult } from '../types.js'
 import type { ActEngineConfig } from '../types.js'
 import type { ActManifest } from '../../manifests/types.js'
-import { CommandsYAMLSchema } from '../../../commands/command-schema.js'
+import { CommandsYAMLSchema, type CommandsYAML } from '../../../commands/command-schema.js'
 import {
   canonicalizeCommands,
   validateCommandsAgainstActionRegistry,
   validateCommandIntentBindingCoherence,
+  getCommandErrorPath,
   type CommandCanonicalizationResult,
+  type CommandValidationError,
 } from '../../../commands/command-canonicalizer.js'
 import type {
   CanonicalCommandDescriptor,
   CanonicalHotkeyDescriptor,
 } from '../../../commands/command-canonicalizer.js'
+import { definePhase } from '../registry.js'
+import { moduleSources } from '../../cache/index.js'
+import type { PhaseEventSink } from '../../events/index.js'
+import { DiagnosticCollector, DiagnosticCodes } from '../../diagnostics/index.js'
+import { loadYamlSource, type YamlSource } from '../../../yaml/index.js'
+import { getFileSystem, type ActFileSystem } from '../../fs/index.js'
 
 /**
  * Execute Phase 7.8: Command Canonicalization
  */
 export async function runPhase7_8CommandCanonicalization(
   manifest: ActManifest,
-  config: ActEngineConfig
+  config: ActEngineConfig,
+  events?: PhaseEventSink
 ): Promise<
   PhaseResult & {
     commandDescriptors?: Map<string, CanonicalCommandDescriptor>
@@ -42,81 +49,90 @@ export async function runPhase7_8CommandCanonicalization(
   }
 > {
   const startTime = Date.now()
-  const errors: string[] = []
-  const warnings: string[] = []
+  const fs = getFileSystem(config)
+  const diagnostics = new DiagnosticCollector(7.8)
+  const commandsYamlPath = join(config.commandsDir, 'commands.yaml')
 
   try {
     // 1. Read commands.yaml
-    const commandsYamlPath = join(config.workspaceRoot, 'entelechia-ui', 'commands', 'commands.yaml')
-    
-    if (!existsSync(commandsYamlPath)) {
+    if (!fs.exists(commandsYamlPath)) {
       // Commands are optional - if file doesn't exist, skip this phase
       return {
         phase: 7.8,
         name: 'Command Canonicalization',
         success: true,
-        errors: [],
-        warnings: ['commands.yaml not found - skipping command canonicalization'],
+        ...diagnostics.warning(
+          DiagnosticCodes.SourceMissing,
+          'commands.yaml not found - skipping command canonicalization',
+          { file: commandsYamlPath }
+        ).toResult(),
         duration: Date.now() - startTime,
       }
     }
 
-    const yamlContent = readFileSync(commandsYamlPath, 'utf-8')
-    const yamlData = parse(yamlContent)
-    
     // 2. Validate YAML structure
-    let commandsYAML
+    let source: YamlSource
+    let commandsYAML: CommandsYAML
     try {
-      commandsYAML = CommandsYAMLSchema.parse(yamlData)
+      source = loadYamlSource(commandsYamlPath, fs)
+      events?.emit({ type: 'file:parsed', file: commandsYamlPath })
+      commandsYAML = source.validate(CommandsYAMLSchema)
     } catch (error: any) {
       return {
         phase: 7.8,
         name: 'Command Canonicalization',
         success: false,
-        errors: [`Failed to parse commands.yaml: ${error.message}`],
-        warnings: [],
+        ...diagnostics.fromError(error, DiagnosticCodes.SchemaViolation, 'Failed to parse commands.yaml', {
+          file: commandsYamlPath,
+        }).toResult(),
         duration: Date.now() - startTime,
       }
     }
 
+    // Validation errors are reported at their command in commands.yaml
+    const collect = (code: string, found: CommandValidationError[]): void => {
+      for (const error of found) {
+        diagnostics.report(
+          error.level === 'warning' ? 'warning' : 'error',
+          code,
+          `Command "${error.commandId}": ${error.field} - ${error.message}`,
+          source.at(getCommandErrorPath(commandsYAML, error))
+        )
+      }
+    }
+
     // 3. Canonicalize commands (validates structure, hotkey syntax, detects conflicts)
     const canonicalizationResult: CommandCanonicalizationResult = canonicalizeCommands(commandsYAML)
 
-    // Convert validation errors to string array
-    for (const error of canonicalizationResult.errors) {
-      errors.push(`Command "${error.commandId}": ${error.field} - ${error.message}`)
-    }
-
-    for (const warning of canonicalizationResult.warnings) {
-      warnings.push(`Command "${warning.commandId}": ${warning.field} - ${warning.message}`)
-    }
+    collect(DiagnosticCodes.CommandInvalid, canonicalizationResult.errors)
+    collect(DiagnosticCodes.CommandInvalid, canonicalizationResult.warnings)
 
     // 4. Validate against ActionRegistry
-    const actionRegistry = await loadActionRegistry(config.workspaceRoot)
+    const actionRegistry = await loadActionRegistry(config.actionRegistryPath, diagnostics)
     const actionRegistryErrors = validateCommandsAgainstActionRegistry(
       canonicalizationResult.commands,
       actionRegistry
     )
 
-    for (const error of actionRegistryErrors) {
-      errors.push(`Command "${error.commandId}": ${error.field} - ${error.message}`)
-    }
+    collect(DiagnosticCodes.CommandActionUnknown, actionRegistryErrors)
 
     // 5. Validate command-intent binding coherence against IntentGraph
     // This implements invariant COMMAND_INTENT_BINDING_COHERENCE.F91
     try {
-      const intentGraphIntentIds = await loadIntentGraphIntentIds(config.workspaceRoot)
+      const intentGraphIntentIds = await loadIntentGraphIntentIds(config.intentGraphDir, diagnostics, fs)
       const coherenceErrors = validateCommandIntentBindingCoherence(
         canonicalizationResult.commands,
         intentGraphIntentIds
       )
 
-      for (const error of coherenceErrors) {
-        errors.push(`Command "${error.commandId}": ${error.field} - ${error.message}`)
-      }
+      collect(DiagnosticCodes.CommandIntentIncoherent, coherenceErrors)
     } catch (error: any) {
       // If IntentGraph can't be loaded, fail the pipeline
-      errors.push(`Failed to load IntentGraph for command-intent validation: ${error.message}`)
+      diagnostics.fromError(
+        error,
+        DiagnosticCodes.ModuleLoadFailed,
+        'Failed to load IntentGraph for command-intent validation'
+      )
     }
 
     // 6. Build descriptor maps
@@ -132,7 +148,7 @@ export async function runPhase7_8CommandCanonicalization(
     }
 
     // 7. Fail pipeline on errors (warnings don't fail)
-    const success = errors.length === 0
+    const success = !diagnostics.hasErrors()
 
     const duration = Date.now() - startTime
 
@@ -140,8 +156,7 @@ export async function runPhase7_8CommandCanonicalization(
       phase: 7.8,
       name: 'Command Canonicalization',
       success,
-      errors,
-      warnings,
+      ...diagnostics.toResult(),
       duration,
       commandDescriptors,
       hotkeyDescriptors,
@@ -153,8 +168,7 @@ export async function runPhase7_8CommandCanonicalization(
       phase: 7.8,
       name: 'Command Canonicalization',
       success: false,
-      errors: [`Command canonicalization failed: ${error.message}`],
-      warnings: [],
+      ...diagnostics.fromError(error, DiagnosticCodes.PhaseFailed, 'Command canonicalization failed').toResult(),
       duration,
     }
   }
@@ -164,17 +178,12 @@ export async function runPhase7_8CommandCanonicalization(
  * Load ActionRegistry from backend
  * Uses same approach as Phase 7.7 (functional-canonicalizer.ts)
  */
-async function loadActionRegistry(workspaceRoot: string): Promise<Set<string>> {
+async function loadActionRegistry(
+  actionRegistryPath: string,
+  diagnostics: DiagnosticCollector
+): Promise<Set<string>> {
   try {
     // Dynamic import from backend (ACL is backend-specific)
-    const actionRegistryPath = join(
-      workspaceRoot,
-      'entelechia-core',
-      'src',
-      'acl',
-      'action-registry.ts'
-    )
-    
     const actionRegistryModule = await import(`file://${actionRegistryPath}`)
     
     // Extract ActionIDs from ActionRegistry object
@@ -190,9 +199,12 @@ async function loadActionRegistry(workspaceRoot: string): Promise<Set<string>> {
     }
     
     return actionIds
-  } catch (error) {
+  } catch (error: any) {
     // If ActionRegistry can't be loaded, return empty set (will cause validation errors)
-    console.warn('[Phase 7.8] Could not load ActionRegistry:', error)
+    diagnostics.fromError(error, DiagnosticCodes.ModuleLoadFailed, 'Could not load ActionRegistry', {
+      severity: 'warning',
+      file: actionRegistryPath,
+    })
     return new Set<string>()
   }
 }
@@ -203,23 +215,21 @@ async function loadActionRegistry(workspaceRoot: string): Promise<Set<string>> {
  * This is used to validate that domain commands have valid intentIds
  * and that non-domain commands don't have intentIds.
  */
-async function loadIntentGraphIntentIds(workspaceRoot: string): Promise<Set<string>> {
+async function loadIntentGraphIntentIds(
+  intentGraphDir: string,
+  diagnostics: DiagnosticCollector,
+  fs: ActFileSystem
+): Promise<Set<string>> {
   try {
-    const intentGraphPath = join(
-      workspaceRoot,
-      'entelechia-form',
-      'intent-graph',
-      'intent-graph.yaml'
-    )
+    const intentGraphPath = join(intentGraphDir, 'intent-graph.yaml')
     
-    if (!existsSync(intentGraphPath)) {
+    if (!fs.exists(intentGraphPath)) {
       // If IntentGraph doesn't exist, return empty set (will cause validation errors)
-      console.warn('[Phase 7.8] IntentGraph YAML not found:', intentGraphPath)
+      diagnostics.warning(DiagnosticCodes.SourceMissing, 'IntentGraph YAML not found', { file: intentGraphPath })
       return new Set<string>()
     }
     
-    const yamlContent = readFileSync(intentGraphPath, 'utf-8')
-    const yamlData = parse(yamlContent)
+    const yamlData = loadYamlSource(intentGraphPath, fs).data as any
     
     // Extract all IntentIDs from intentGraph.intents array
     const intentIds = new Set<string>()
@@ -233,10 +243,36 @@ async function loadIntentGraphIntentIds(workspaceRoot: string): Promise<Set<stri
     }
     
     return intentIds
-  } catch (error) {
+  } catch (error: any) {
     // If IntentGraph can't be loaded, return empty set (will cause validation errors)
-    console.warn('[Phase 7.8] Could not load IntentGraph:', error)
+    diagnostics.fromError(error, DiagnosticCodes.YamlParseError, 'Could not load IntentGraph', {
+      severity: 'warning',
+      file: join(intentGraphDir, 'intent-graph.yaml'),
+    })
     return new Set<string>()
   }
 }
 
+/**
+ * Phase 7.8 definition
+ */
+export const phase7_8CommandCanonicalization = definePhase({
+  phase: 7.8,
+  name: 'Command Canonicalization',
+  after: [0],
+  outputs: ['commandDescriptors', 'hotkeyDescriptors'],
+  sources: config => [
+    join(config.commandsDir, 'commands.yaml'),
+    join(config.intentGraphDir, 'intent-graph.yaml'),
+    ...moduleSources(config.actionRegistryPath),
+  ],
+  cacheable: true,
+  async run({ manifest, config, events }) {
+    const { commandDescriptors, hotkeyDescriptors, ...result } = await runPhase7_8CommandCanonicalization(
+      manifest,
+      config,
+      events
+    )
+    return { result, outputs: { commandDescriptors, hotkeyDescriptors } }
+  },
+})
@@ -1,29 +1,82 @@
 /**
  * ✅ ENTELECHIA: Phase 8 — Drift Check
  * 
- * Detects any drift between FORM and STATE.
+ * Detects any drift between FORM and STATE, and tells why an artifact
+ * drifted: its FORM changed (stale) or it was edited by hand. Writing runs
+ * report the hand edits they overwrite before their artifacts are committed.
  */
 
-import { existsSync, readFileSync } from 'fs'
 import type { ActManifest } from '../../manifests/types.js'
 import type { ActEngineConfig, PhaseResult } from '../types.js'
 import { DeterministicWriter } from '../../writers/deterministic-writer.js'
+import { definePhase } from '../registry.js'
+import { DiagnosticCollector, DiagnosticCodes } from '../../diagnostics/index.js'
+import { getFileSystem, getOriginalFileSystem } from '../../fs/index.js'
+import type { ActCache } from '../../cache/index.js'
+import { readLockfile } from '../../writers/lockfile.js'
+import { GENERATED_CONTENT_NAMESPACE, classifyArtifactDrift, type ArtifactDrift } from '../../writers/drift.js'
+import { diffStats } from '../../writers/diff.js'
+import { join } from 'path'
+
+/**
+ * Report a drifted artifact
+ * 
+ * @param expected Missing expected artifacts are reported by the manifest check (or will be generated)
+ * @param writing Stale artifacts are regenerated by writing runs, not reported
+ */
+function reportDrift(artifact: ArtifactDrift, diagnostics: DiagnosticCollector, expected: boolean, writing: boolean): void {
+  const sources = artifact.sources ? `${artifact.sources.join(', ')} changed` : 'its FORM changed'
+  switch (artifact.status) {
+    case 'missing':
+      if (!expected) {
+        diagnostics.warning(DiagnosticCodes.ArtifactMissing, 'Artifact recorded in act.lock.json is missing', {
+          file: artifact.path,
+        })
+      }
+      break
+    case 'stale':
+      if (writing) break
+      diagnostics.warning(DiagnosticCodes.ArtifactStale, `Artifact is stale: ${sources} since it was generated`, {
+        file: artifact.path,
+        hint: 'Run the ACT pipeline to regenerate it',
+      })
+      break
+    case 'hand-edited': {
+      const stats = artifact.diff ? diffStats(artifact.diff) : undefined
+      const lines = stats ? ` (+${stats.added} -${stats.removed} lines)` : ''
+      diagnostics.warning(DiagnosticCodes.ArtifactDrift, `Artifact was edited by hand${lines}`, {
+        file: artifact.path,
+        hint: 'Move the change to its FORM source: regenerating the artifact overwrites it',
+      })
+      break
+    }
+  }
+}
 
 /**
  * Execute Phase 8: Drift Check
+ * 
+ * Classifies each artifact, as it was before the run, as in sync, stale,
+ * hand-edited or missing (`drift`), comparing it with the content Phase 7
+ * generated and with its lockfile entry. Hand edits of artifacts the run did
+ * not generate are diffed against the content recorded in `cache`.
  */
 export async function runPhase8DriftCheck(
   manifest: ActManifest,
-  config: ActEngineConfig
-): Promise<PhaseResult> {
+  config: ActEngineConfig,
+  generatedArtifacts?: Map<string, string>,
+  cache?: ActCache
+): Promise<PhaseResult & {
+  drift?: ArtifactDrift[]
+}> {
   const startTime = Date.now()
-  const errors: string[] = []
-  const warnings: string[] = []
-  const writer = new DeterministicWriter()
+  const fs = getFileSystem(config)
+  const diagnostics = new DiagnosticCollector(8)
+  const writer = new DeterministicWriter(undefined, fs)
   
   try {
     // Check all expected artifacts from manifest
-    const allArtifacts: Array<{ path: string; type: string }> = []
+    const allArtifacts: Array<{ path: string; type: string; bannerSource?: string }> = []
     
     // Collect contract artifacts
     for (const contractManifest of manifest.contracts) {
@@ -49,51 +102,81 @@ export async function runPhase8DriftCheck(
     // Collect invariant mapping
     allArtifacts.push({ path: manifest.invariants.mappingPath, type: 'invariant-mapping' })
     
+    // Collect plugin artifacts
+    for (const section of Object.values(manifest.sections || {})) {
+      allArtifacts.push(...section.artifacts)
+    }
+    
     // Check each artifact
     for (const artifact of allArtifacts) {
-      if (!existsSync(artifact.path)) {
+      if (!fs.exists(artifact.path)) {
         // In check mode, missing artifacts are expected (not generated yet)
         // Only report as warning, not error
-        if (config.checkMode) {
-          warnings.push(`Expected artifact missing (check mode): ${artifact.path}`)
-        } else {
-          errors.push(`Expected artifact missing: ${artifact.path}`)
-        }
+        diagnostics.report(
+          config.checkMode ? 'warning' : 'error',
+          DiagnosticCodes.ArtifactMissing,
+          `Expected ${artifact.type} artifact missing`,
+          { file: artifact.path }
+        )
         continue
       }
       
       // Check for generation banner
       try {
-        const content = readFileSync(artifact.path, 'utf-8')
-        const hasBanner = content.includes('Generated from') || 
-                         content.includes('DO NOT EDIT MANUALLY') ||
-                         (content.includes('✅ ENTELECHIA') && content.includes('Generated'))
+        const content = fs.readFile(artifact.path)
+        const hasBanner = artifact.bannerSource
+          ? content.includes(`Generated from ${artifact.bannerSource}`)
+          : content.includes('Generated from') || 
+            content.includes('DO NOT EDIT MANUALLY') ||
+            (content.includes('✅ ENTELECHIA') && content.includes('Generated'))
         
         if (!hasBanner) {
           // In check mode, missing banners are expected (will be regenerated)
           // In write mode, this is an error - file should have been regenerated
-          if (config.checkMode) {
-            warnings.push(`Artifact "${artifact.path}" is missing generation banner (will be regenerated)`)
-          } else {
-            // In write mode, if file exists but has no banner, it's a problem
-            // But we just regenerated it, so this shouldn't happen unless generation failed
-            warnings.push(`Artifact "${artifact.path}" is missing generation banner (may need manual fix)`)
-          }
+          // In write mode, we just regenerated it, so this shouldn't happen unless generation failed
+          diagnostics.warning(DiagnosticCodes.BannerMissing, 'Artifact is missing generation banner', {
+            file: artifact.path,
+            hint: config.checkMode ? 'It will be regenerated' : 'It may need a manual fix',
+          })
         }
       } catch (error: any) {
-        warnings.push(`Cannot read artifact "${artifact.path}": ${error.message}`)
+        diagnostics.fromError(error, DiagnosticCodes.ArtifactUnreadable, 'Cannot read artifact', {
+          severity: 'warning',
+          file: artifact.path,
+        })
       }
     }
     
+    // Classify every artifact as it was before the run (writing runs have
+    // regenerated it, but not committed it yet) against what the run
+    // generated and the lockfile
+    const original = getOriginalFileSystem(fs)
+    const lockfile = config.lockfile || join(config.workspaceRoot, 'act.lock.json')
+    const locked = readLockfile(lockfile, config.workspaceRoot, original)
+    const expected = new Set(allArtifacts.map(artifact => artifact.path))
+    const paths = new Set([...expected, ...generatedArtifacts?.keys() || [], ...locked.keys()])
+    const drift = Array.from(paths).sort().map(path => {
+      const generated = generatedArtifacts?.get(path)
+      const entry = locked.get(path)
+      const lockedContent = generated === undefined && entry?.hash
+        ? cache?.get<string>(GENERATED_CONTENT_NAMESPACE, entry.hash)
+        : undefined
+      return classifyArtifactDrift(path, generated, entry, config.workspaceRoot, original, lockedContent)
+    })
+    const writing = !config.checkMode && !config.dryRun
+    for (const artifact of drift) {
+      reportDrift(artifact, diagnostics, expected.has(artifact.path) || generatedArtifacts?.has(artifact.path) === true, writing)
+    }
+    
     const duration = Date.now() - startTime
     
     return {
       phase: 8,
       name: 'Drift Check',
-      success: errors.length === 0,
-      errors,
-      warnings,
+      success: !diagnostics.hasErrors(),
+      ...diagnostics.toResult(),
       duration,
+      drift,
     }
   } catch (error: any) {
     const duration = Date.now() - startTime
@@ -102,10 +185,28 @@ export async function runPhase8DriftCheck(
       phase: 8,
       name: 'Drift Check',
       success: false,
-      errors: [`Drift check failed: ${error.message}`],
-      warnings: [],
+      ...diagnostics.fromError(error, DiagnosticCodes.PhaseFailed, 'Drift check failed').toResult(),
       duration,
     }
   }
 }
 
+/**
+ * Phase 8 definition
+ */
+export const phase8DriftCheck = definePhase({
+  phase: 8,
+  name: 'Drift Check',
+  inputs: ['generatedArtifacts'],
+  outputs: ['drift'],
+  after: [7, 6.5],
+  // In check mode, drift is expected; missing banners after generation are not critical.
+  // Only fail on actual errors (e.g., cannot read files).
+  blocking: (result, config) =>
+    !config.checkMode &&
+    (result.diagnostics || []).some(d => d.severity === 'error' && d.code !== DiagnosticCodes.BannerMissing),
+  async run({ manifest, config, inputs, cache }) {
+    const { drift, ...result } = await runPhase8DriftCheck(manifest, config, inputs.generatedArtifacts, cache)
+    return { result, outputs: { drift } }
+  },
+})
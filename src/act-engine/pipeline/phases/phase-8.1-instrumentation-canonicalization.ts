@@ -2,9 +2,8 @@
  * ✅ ENTELECHIA: Phase 8.1 — Instrumentation Canonicalization
  * 
  * Validates and canonicalizes instrumentation YAML files:
- * - Reads telemetry/*.yaml from entelechia-ui/forms/telemetry/
- * - Reads devtools/*.yaml from entelechia-ui/forms/devtools/
- * - Reads ux/*.yaml from entelechia-ui/forms/ux/
+ * - Reads telemetry/*.yaml, devtools/*.yaml and ux/*.yaml from the
+ *   instrumentation directory (`instrumentationDir`)
  * - Validates all instrumentation against invariants
  * - Generates canonical instrumentation descriptors
  * 
@@ -12,9 +11,7 @@
  * This phase runs AFTER Phase 7.8 (Command Canonicalization) and BEFORE Phase 7 (Code Generation).
  */
 
-import { readFileSync, existsSync, readdirSync } from 'fs'
 import { join } from 'path'
-import { parse } from 'yaml'
 import type { PhaseResult } from '../types.js'
 import type { ActEngineConfig } from '../types.js'
 import type { ActManifest } from '../../manifests/types.js'
@@ -34,148 +31,167 @@ import {
   type CanonicalUXFidelityDescriptor,
 } from '../../../instrumentation/ux-canonicalizer.js'
 import { registry } from '@entelechia/invariant-engine'
+import { definePhase } from '../registry.js'
+import type { PhaseEventSink } from '../../events/index.js'
+import { DiagnosticCollector, DiagnosticCodes, invariantCode } from '../../diagnostics/index.js'
+import { loadYamlSource } from '../../../yaml/index.js'
+import { getFileSystem } from '../../fs/index.js'
 
 /**
  * Execute Phase 8.1: Instrumentation Canonicalization
  */
 export async function runPhase8_1InstrumentationCanonicalization(
   manifest: ActManifest,
-  config: ActEngineConfig
+  config: ActEngineConfig,
+  events?: PhaseEventSink
 ): Promise<PhaseResult & {
   telemetryDescriptors?: Map<string, CanonicalTelemetryDescriptor>
   devtoolsDescriptors?: Map<string, CanonicalDevToolsDescriptor>
   uxFidelityDescriptors?: Map<string, CanonicalUXFidelityDescriptor>
 }> {
   const startTime = Date.now()
-  const errors: string[] = []
-  const warnings: string[] = []
+  const fs = getFileSystem(config)
+  const diagnostics = new DiagnosticCollector(8.1)
   
   const telemetryDescriptors = new Map<string, CanonicalTelemetryDescriptor>()
   const devtoolsDescriptors = new Map<string, CanonicalDevToolsDescriptor>()
   const uxFidelityDescriptors = new Map<string, CanonicalUXFidelityDescriptor>()
   
-  // Get workspace root (where entelechia-ui/forms/ is)
-  const workspaceRoot = config.workspaceRoot || process.cwd()
-  const formsDir = join(workspaceRoot, 'entelechia-ui', 'forms')
+  const formsDir = config.instrumentationDir
   
   // 1. Canonicalize Telemetry YAML files
   const telemetryDir = join(formsDir, 'telemetry')
-  if (existsSync(telemetryDir)) {
-    const telemetryFiles = readdirSync(telemetryDir).filter(f => f.endsWith('.yaml'))
+  if (fs.exists(telemetryDir)) {
+    const telemetryFiles = fs.readdir(telemetryDir).filter(f => f.endsWith('.yaml'))
     
     for (const file of telemetryFiles) {
       const filePath = join(telemetryDir, file)
       
       try {
-        const content = readFileSync(filePath, 'utf-8')
-        const yamlData = parse(content)
-        const telemetryYaml = TelemetryYamlSchema.parse(yamlData)
+        const source = loadYamlSource(filePath, fs)
+        events?.emit({ type: 'file:parsed', file: filePath })
+        const telemetryYaml = source.validate(TelemetryYamlSchema)
         
         // Validate invariants
         if (telemetryYaml.telemetry.invariants?.invariants) {
-          for (const invariantId of telemetryYaml.telemetry.invariants.invariants) {
+          for (const [index, invariantId] of telemetryYaml.telemetry.invariants.invariants.entries()) {
             const entry = registry.get(invariantId)
             if (!entry) {
-              errors.push(`Telemetry file "${file}": Invariant ${invariantId} not found in registry`)
+              diagnostics.error(
+                invariantCode(invariantId),
+                `Telemetry file "${file}": Invariant ${invariantId} not found in registry`,
+                source.at(['telemetry', 'invariants', 'invariants', index])
+              )
             }
           }
         }
         
         // Canonicalize
         const result = canonicalizeTelemetry(telemetryYaml)
-        errors.push(...result.errors)
-        warnings.push(...result.warnings)
+        diagnostics.addAll(source.locateAll(result.diagnostics))
         
-        if (result.errors.length === 0) {
+        if (!result.diagnostics.some(diagnostic => diagnostic.severity === 'error')) {
           const key = file.replace('.yaml', '')
           telemetryDescriptors.set(key, result.descriptor)
         }
       } catch (error: any) {
-        errors.push(`Failed to parse or validate telemetry file "${file}": ${error.message}`)
+        diagnostics.fromError(error, DiagnosticCodes.YamlParseError, `Failed to parse or validate telemetry file "${file}"`, {
+          file: filePath,
+        })
       }
     }
   } else {
-    warnings.push(`Telemetry directory does not exist: ${telemetryDir} (skipping)`)
+    diagnostics.warning(DiagnosticCodes.SourceMissing, 'Telemetry directory does not exist (skipping)', { file: telemetryDir })
   }
   
   // 2. Canonicalize DevTools YAML files
   const devtoolsDir = join(formsDir, 'devtools')
-  if (existsSync(devtoolsDir)) {
-    const devtoolsFiles = readdirSync(devtoolsDir).filter(f => f.endsWith('.yaml'))
+  if (fs.exists(devtoolsDir)) {
+    const devtoolsFiles = fs.readdir(devtoolsDir).filter(f => f.endsWith('.yaml'))
     
     for (const file of devtoolsFiles) {
       const filePath = join(devtoolsDir, file)
       
       try {
-        const content = readFileSync(filePath, 'utf-8')
-        const yamlData = parse(content)
-        const devtoolsYaml = DevToolsYamlSchema.parse(yamlData)
+        const source = loadYamlSource(filePath, fs)
+        events?.emit({ type: 'file:parsed', file: filePath })
+        const devtoolsYaml = source.validate(DevToolsYamlSchema)
         
         // Validate invariants
         if (devtoolsYaml.devtools.invariants?.invariants) {
-          for (const invariantId of devtoolsYaml.devtools.invariants.invariants) {
+          for (const [index, invariantId] of devtoolsYaml.devtools.invariants.invariants.entries()) {
             const entry = registry.get(invariantId)
             if (!entry) {
-              errors.push(`DevTools file "${file}": Invariant ${invariantId} not found in registry`)
+              diagnostics.error(
+                invariantCode(invariantId),
+                `DevTools file "${file}": Invariant ${invariantId} not found in registry`,
+                source.at(['devtools', 'invariants', 'invariants', index])
+              )
             }
           }
         }
         
         // Canonicalize
         const result = canonicalizeDevTools(devtoolsYaml)
-        errors.push(...result.errors)
-        warnings.push(...result.warnings)
+        diagnostics.addAll(source.locateAll(result.diagnostics))
         
-        if (result.errors.length === 0) {
+        if (!result.diagnostics.some(diagnostic => diagnostic.severity === 'error')) {
           const key = file.replace('.yaml', '')
           devtoolsDescriptors.set(key, result.descriptor)
         }
       } catch (error: any) {
-        errors.push(`Failed to parse or validate devtools file "${file}": ${error.message}`)
+        diagnostics.fromError(error, DiagnosticCodes.YamlParseError, `Failed to parse or validate devtools file "${file}"`, {
+          file: filePath,
+        })
       }
     }
   } else {
-    warnings.push(`DevTools directory does not exist: ${devtoolsDir} (skipping)`)
+    diagnostics.warning(DiagnosticCodes.SourceMissing, 'DevTools directory does not exist (skipping)', { file: devtoolsDir })
   }
   
   // 3. Canonicalize UX Fidelity YAML files
   const uxDir = join(formsDir, 'ux')
-  if (existsSync(uxDir)) {
-    const uxFiles = readdirSync(uxDir).filter(f => f.endsWith('.yaml'))
+  if (fs.exists(uxDir)) {
+    const uxFiles = fs.readdir(uxDir).filter(f => f.endsWith('.yaml'))
     
     for (const file of uxFiles) {
       const filePath = join(uxDir, file)
       
       try {
-        const content = readFileSync(filePath, 'utf-8')
-        const yamlData = parse(content)
-        const uxFidelityYaml = UXFidelityYamlSchema.parse(yamlData)
+        const source = loadYamlSource(filePath, fs)
+        events?.emit({ type: 'file:parsed', file: filePath })
+        const uxFidelityYaml = source.validate(UXFidelityYamlSchema)
         
         // Validate invariants
         if (uxFidelityYaml.ux.invariants?.invariants) {
-          for (const invariantId of uxFidelityYaml.ux.invariants.invariants) {
+          for (const [index, invariantId] of uxFidelityYaml.ux.invariants.invariants.entries()) {
             const entry = registry.get(invariantId)
             if (!entry) {
-              errors.push(`UX fidelity file "${file}": Invariant ${invariantId} not found in registry`)
+              diagnostics.error(
+                invariantCode(invariantId),
+                `UX fidelity file "${file}": Invariant ${invariantId} not found in registry`,
+                source.at(['ux', 'invariants', 'invariants', index])
+              )
             }
           }
         }
         
         // Canonicalize
         const result = canonicalizeUXFidelity(uxFidelityYaml)
-        errors.push(...result.errors)
-        warnings.push(...result.warnings)
+        diagnostics.addAll(source.locateAll(result.diagnostics))
         
-        if (result.errors.length === 0) {
+        if (!result.diagnostics.some(diagnostic => diagnostic.severity === 'error')) {
           const key = file.replace('.yaml', '')
           uxFidelityDescriptors.set(key, result.descriptor)
         }
       } catch (error: any) {
-        errors.push(`Failed to parse or validate UX fidelity file "${file}": ${error.message}`)
+        diagnostics.fromError(error, DiagnosticCodes.YamlParseError, `Failed to parse or validate UX fidelity file "${file}"`, {
+          file: filePath,
+        })
       }
     }
   } else {
-    warnings.push(`UX directory does not exist: ${uxDir} (skipping)`)
+    diagnostics.warning(DiagnosticCodes.SourceMissing, 'UX directory does not exist (skipping)', { file: uxDir })
   }
   
   const duration = Date.now() - startTime
@@ -183,9 +199,8 @@ export async function runPhase8_1InstrumentationCanonicalization(
   return {
     phase: 8.1,
     name: 'Instrumentation Canonicalization',
-    success: errors.length === 0,
-    errors,
-    warnings,
+    success: !diagnostics.hasErrors(),
+    ...diagnostics.toResult(),
     duration,
     telemetryDescriptors,
     devtoolsDescriptors,
@@ -193,3 +208,23 @@ export async function runPhase8_1InstrumentationCanonicalization(
   }
 }
 
+/**
+ * Phase 8.1 definition
+ */
+export const phase8_1InstrumentationCanonicalization = definePhase({
+  phase: 8.1,
+  name: 'Instrumentation Canonicalization',
+  after: [0],
+  outputs: ['telemetryDescriptors', 'devtoolsDescriptors', 'uxFidelityDescriptors'],
+  sources: config => ['telemetry', 'devtools', 'ux'].map(dir => join(config.instrumentationDir, dir)),
+  cacheable: true,
+  async run({ manifest, config, events }) {
+    const {
+      telemetryDescriptors,
+      devtoolsDescriptors,
+      uxFidelityDescriptors,
+      ...result
+    } = await runPhase8_1InstrumentationCanonicalization(manifest, config, events)
+    return { result, outputs: { telemetryDescriptors, devtoolsDescriptors, uxFidelityDescriptors } }
+  },
+})
@@ -2,7 +2,7 @@
  * ✅ ENTELECHIA: Phase 8.2 — IntentGraph Canonicalization
  * 
  * Validates and canonicalizes IntentGraph YAML files:
- * - Reads intent-graph/*.yaml from entelechia-form/intent-graph/
+ * - Reads *.yaml from the IntentGraph directory (`intentGraphDir`)
  * - Validates all intents, actions, invariants, and metrics against their registries
  * - Generates canonical IntentGraph descriptors
  * 
@@ -10,67 +10,71 @@
  * This phase runs AFTER Phase 8.1 (Instrumentation Canonicalization) and BEFORE Phase 7 (Code Generation).
  */
 
-import { readFileSync, existsSync, readdirSync } from 'fs'
+import { existsSync } from 'fs'
 import { join } from 'path'
-import { parse } from 'yaml'
 import type { PhaseResult } from '../types.js'
 import type { ActEngineConfig } from '../types.js'
 import type { ActManifest } from '../../manifests/types.js'
 import {
-  loadIntentGraphFile,
   validateIntentGraph,
   canonicalizeIntentGraph,
   type ValidationContext,
 } from '../../../intent-graph/intent-graph-canonicalizer.js'
+import { IntentGraphFileSchema } from '../../../intent-graph/intent-graph-schema.js'
 import type { CanonicalIntentGraphDescriptor } from '../../../intent-graph/intent-graph-types.js'
 import { registry } from '@entelechia/invariant-engine'
+import { definePhase } from '../registry.js'
+import { moduleSources } from '../../cache/index.js'
+import type { PhaseEventSink } from '../../events/index.js'
+import { DiagnosticCollector, DiagnosticCodes } from '../../diagnostics/index.js'
+import { loadYamlSource } from '../../../yaml/index.js'
+import { getFileSystem } from '../../fs/index.js'
 
 /**
  * Execute Phase 8.2: IntentGraph Canonicalization
  */
 export async function runPhase8_2IntentGraphCanonicalization(
   manifest: ActManifest,
-  config: ActEngineConfig
+  config: ActEngineConfig,
+  events?: PhaseEventSink
 ): Promise<PhaseResult & {
   intentGraphDescriptors?: Map<string, CanonicalIntentGraphDescriptor>
 }> {
   const startTime = Date.now()
-  const errors: string[] = []
-  const warnings: string[] = []
+  const fs = getFileSystem(config)
+  const diagnostics = new DiagnosticCollector(8.2)
   
   const intentGraphDescriptors = new Map<string, CanonicalIntentGraphDescriptor>()
   
-  // Get workspace root
-  const workspaceRoot = config.workspaceRoot || process.cwd()
-  const intentGraphDir = join(workspaceRoot, 'entelechia-form', 'intent-graph')
+  const intentGraphDir = config.intentGraphDir
   
   // Load validation context (ActionRegistry, IntentRegistry, InvariantRegistry, MetricRegistry)
-  const validationContext = await loadValidationContext(workspaceRoot)
+  const validationContext = await loadValidationContext(config, diagnostics)
   
   // Load IntentGraph YAML files
-  if (!existsSync(intentGraphDir)) {
-    warnings.push(`IntentGraph directory does not exist: ${intentGraphDir} (skipping)`)
+  if (!fs.exists(intentGraphDir)) {
+    diagnostics.warning(DiagnosticCodes.SourceMissing, 'IntentGraph directory does not exist (skipping)', {
+      file: intentGraphDir,
+    })
     return {
       phase: 8.2,
       name: 'IntentGraph Canonicalization',
       success: true,
-      errors: [],
-      warnings,
+      ...diagnostics.toResult(),
       duration: Date.now() - startTime,
       intentGraphDescriptors,
     }
   }
   
-  const intentGraphFiles = readdirSync(intentGraphDir).filter(f => f.endsWith('.yaml'))
+  const intentGraphFiles = fs.readdir(intentGraphDir).filter(f => f.endsWith('.yaml'))
   
   if (intentGraphFiles.length === 0) {
-    warnings.push(`No IntentGraph YAML files found in ${intentGraphDir}`)
+    diagnostics.warning(DiagnosticCodes.SourceMissing, 'No IntentGraph YAML files found', { file: intentGraphDir })
     return {
       phase: 8.2,
       name: 'IntentGraph Canonicalization',
       success: true,
-      errors: [],
-      warnings,
+      ...diagnostics.toResult(),
       duration: Date.now() - startTime,
       intentGraphDescriptors,
     }
@@ -81,27 +85,37 @@ export async function runPhase8_2IntentGraphCanonicalization(
     
     try {
       // Load and parse IntentGraph YAML
-      const intentGraphFile = loadIntentGraphFile(filePath)
-      const graph = intentGraphFile.intentGraph
+      const source = loadYamlSource(filePath, fs)
+      events?.emit({ type: 'file:parsed', file: filePath })
+      const graph = source.validate(IntentGraphFileSchema).intentGraph
       
       // Validate against external registries
       const validationResult = validateIntentGraph(graph, validationContext)
       
-      // Collect errors and warnings
-      errors.push(...validationResult.errors)
-      warnings.push(...validationResult.warnings)
+      // Collect errors and warnings (issue paths are relative to `intentGraph`)
+      for (const issue of validationResult.errors) {
+        diagnostics.error(DiagnosticCodes.IntentGraphInvalid, issue.message, source.at(['intentGraph', ...issue.path]))
+      }
+      for (const issue of validationResult.warnings) {
+        diagnostics.warning(DiagnosticCodes.IntentGraphInvalid, issue.message, source.at(['intentGraph', ...issue.path]))
+      }
       
       // Canonicalize if valid
       if (validationResult.valid) {
-        // ✅ ONTOLOGICAL: Calculate output directory for path resolution
-        // Generated files go to: entelechia-ui/src/generated/intent-graph/
-        const intentGraphOutputDir = join(workspaceRoot, 'entelechia-ui', 'src', 'generated', 'intent-graph')
-        const canonicalDescriptor = canonicalizeIntentGraph(graph, validationContext, intentGraphOutputDir)
+        // ✅ ONTOLOGICAL: Resolve @/ mutation hooks from the generated output directory
+        const canonicalDescriptor = canonicalizeIntentGraph(
+          graph,
+          validationContext,
+          config.intentGraphOutputDir,
+          config.uiSourceDir
+        )
         const key = file.replace('.yaml', '')
         intentGraphDescriptors.set(key, canonicalDescriptor)
       }
     } catch (error: any) {
-      errors.push(`Failed to parse or validate IntentGraph file "${file}": ${error.message}`)
+      diagnostics.fromError(error, DiagnosticCodes.YamlParseError, `Failed to parse or validate IntentGraph file "${file}"`, {
+        file: filePath,
+      })
     }
   }
   
@@ -110,9 +124,8 @@ export async function runPhase8_2IntentGraphCanonicalization(
   return {
     phase: 8.2,
     name: 'IntentGraph Canonicalization',
-    success: errors.length === 0,
-    errors,
-    warnings,
+    success: !diagnostics.hasErrors(),
+    ...diagnostics.toResult(),
     duration,
     intentGraphDescriptors,
   }
@@ -121,7 +134,11 @@ export async function runPhase8_2IntentGraphCanonicalization(
 /**
  * Load validation context from external registries
  */
-async function loadValidationContext(workspaceRoot: string): Promise<ValidationContext> {
+async function loadValidationContext(
+  config: ActEngineConfig,
+  diagnostics: DiagnosticCollector
+): Promise<ValidationContext> {
+  const fs = getFileSystem(config)
   const intentIds = new Set<string>()
   const actionIds = new Set<string>()
   const invariantIds = new Set<string>()
@@ -131,15 +148,9 @@ async function loadValidationContext(workspaceRoot: string): Promise<ValidationC
   // ✅ ONTOLOGICAL: IntentRegistry is now generated, not manually maintained
   // Intent IDs are validated from IntentGraph YAML itself, not from legacy registry
   try {
-    const intentRegistryPath = join(
-      workspaceRoot,
-      'entelechia-ui',
-      'src',
-      'intent',
-      'intent-registry.ts'
-    )
+    const intentRegistryPath = config.intentRegistryPath
     
-    // ✅ ONTOLOGICAL: Check if file exists before importing
+    // ✅ ONTOLOGICAL: Check if file exists before importing (modules load from disk)
     if (existsSync(intentRegistryPath)) {
       const intentRegistryModule = await import(`file://${intentRegistryPath}`)
       const intentRegistry = intentRegistryModule.INTENT_REGISTRY || {}
@@ -158,21 +169,17 @@ async function loadValidationContext(workspaceRoot: string): Promise<ValidationC
   
   // Load ActionRegistry
   try {
-    const actionRegistryPath = join(
-      workspaceRoot,
-      'entelechia-core',
-      'src',
-      'acl',
-      'action-registry.ts'
-    )
-    const actionRegistryModule = await import(`file://${actionRegistryPath}`)
+    const actionRegistryModule = await import(`file://${config.actionRegistryPath}`)
     const actionRegistry = actionRegistryModule.ActionRegistry || {}
     
     for (const key of Object.keys(actionRegistry)) {
       actionIds.add(key)
     }
   } catch (error: any) {
-    console.warn('[Phase 8.2] Could not load ActionRegistry:', error)
+    diagnostics.fromError(error, DiagnosticCodes.ModuleLoadFailed, 'Could not load ActionRegistry', {
+      severity: 'warning',
+      file: config.actionRegistryPath,
+    })
   }
   
   // Load InvariantRegistry (from invariant-engine)
@@ -183,22 +190,17 @@ async function loadValidationContext(workspaceRoot: string): Promise<ValidationC
       invariantIds.add(invariantId)
     }
   } catch (error: any) {
-    console.warn('[Phase 8.2] Could not load InvariantRegistry:', error)
+    diagnostics.fromError(error, DiagnosticCodes.ModuleLoadFailed, 'Could not load InvariantRegistry', {
+      severity: 'warning',
+    })
   }
   
   // Load MetricRegistry (from telemetry/metrics.yaml)
   try {
-    const metricsYamlPath = join(
-      workspaceRoot,
-      'entelechia-ui',
-      'forms',
-      'telemetry',
-      'metrics.yaml'
-    )
+    const metricsYamlPath = join(config.instrumentationDir, 'telemetry', 'metrics.yaml')
     
-    if (existsSync(metricsYamlPath)) {
-      const content = readFileSync(metricsYamlPath, 'utf-8')
-      const parsed = parse(content) as any
+    if (fs.exists(metricsYamlPath)) {
+      const parsed = loadYamlSource(metricsYamlPath, fs).data as any
       
       // Extract metric IDs from telemetry.metrics.definitions
       if (parsed?.telemetry?.metrics?.definitions) {
@@ -210,7 +212,10 @@ async function loadValidationContext(workspaceRoot: string): Promise<ValidationC
       }
     }
   } catch (error: any) {
-    console.warn('[Phase 8.2] Could not load MetricRegistry:', error)
+    diagnostics.fromError(error, DiagnosticCodes.YamlParseError, 'Could not load MetricRegistry', {
+      severity: 'warning',
+      file: join(config.instrumentationDir, 'telemetry', 'metrics.yaml'),
+    })
   }
   
   return {
@@ -221,3 +226,24 @@ async function loadValidationContext(workspaceRoot: string): Promise<ValidationC
   }
 }
 
+/**
+ * Phase 8.2 definition
+ */
+export const phase8_2IntentGraphCanonicalization = definePhase({
+  phase: 8.2,
+  name: 'IntentGraph Canonicalization',
+  after: [0],
+  outputs: ['intentGraphDescriptors'],
+  sources: config => [
+    config.intentGraphDir,
+    join(config.instrumentationDir, 'telemetry', 'metrics.yaml'),
+    ...moduleSources(config.actionRegistryPath),
+    ...moduleSources(config.intentRegistryPath),
+    join(config.invariantEnginePath, 'src'),
+  ],
+  cacheable: true,
+  async run({ manifest, config, events }) {
+    const { intentGraphDescriptors, ...result } = await runPhase8_2IntentGraphCanonicalization(manifest, config, events)
+    return { result, outputs: { intentGraphDescriptors } }
+  },
+})
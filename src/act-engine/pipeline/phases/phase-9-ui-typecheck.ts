@@ -4,52 +4,116 @@
  * Verifies UI can consume generated types.
  */
 
-import { execSync } from 'child_process'
-import { existsSync } from 'fs'
+import { join } from 'path'
 import type { ActManifest } from '../../manifests/types.js'
 import type { ActEngineConfig, PhaseResult } from '../types.js'
-import { join } from 'path'
+import { definePhase } from '../registry.js'
+import { DiagnosticCollector, DiagnosticCodes } from '../../diagnostics/index.js'
+import { ArtifactTransaction, getFileSystem, getTargetFileSystem, nodeFileSystem } from '../../fs/index.js'
+import { typecheckProject, type CodeProblem, type ProjectTypecheck } from '../../writers/code-validator.js'
+
+/**
+ * Report a UI problem by where it is
+ *
+ * - In a generated file: the generator is broken (error)
+ * - In hand-written code importing generated files: the generated types
+ *   changed under it, a breaking change (error)
+ * - Elsewhere: a UI problem of its own (warning)
+ */
+function reportUiProblem(problem: CodeProblem, typecheck: ProjectTypecheck, diagnostics: DiagnosticCollector): void {
+  const message = `TS${problem.code} ${problem.message}`
+  const location = { file: problem.file, range: problem.range }
+  if (typecheck.generatedFiles.has(problem.file)) {
+    diagnostics.error(DiagnosticCodes.TypecheckFailed, `Generated UI code does not typecheck: ${message}`, {
+      ...location,
+      hint: 'Fix the generator (or the FORM it reads) that produced this file',
+    })
+    return
+  }
+
+  const generatedImports = (typecheck.imports.get(problem.file) || []).filter(file => typecheck.generatedFiles.has(file))
+  if (generatedImports.length > 0) {
+    diagnostics.error(DiagnosticCodes.ConsumerTypecheckFailed, `UI code broken by generated types: ${message}`, {
+      ...location,
+      related: generatedImports.map(file => ({ file, message: 'Generated types imported from here' })),
+      hint: 'Update the UI code, or revert the FORM change that broke it',
+    })
+    return
+  }
+
+  diagnostics.warning(DiagnosticCodes.UiTypecheckFailed, `UI code does not typecheck: ${message}`, location)
+}
 
 /**
  * Execute Phase 9: UI Typecheck
+ *
+ * The UI project (its `tsconfig.json`) is typechecked in-process, reading
+ * staged artifacts and, in check and dry runs, the artifacts Phase 7 would
+ * write (`generatedArtifacts`). The program is incremental: its build info
+ * lives in `cacheDir`. Cancellation and the phase budget stop the typecheck
+ * between source files.
  */
 export async function runPhase9UiTypecheck(
   manifest: ActManifest,
-  config: ActEngineConfig
+  config: ActEngineConfig,
+  generatedArtifacts?: Map<string, string>,
+  signal?: AbortSignal
 ): Promise<PhaseResult> {
   const startTime = Date.now()
-  const errors: string[] = []
-  const warnings: string[] = []
+  const fs = getFileSystem(config)
+  const diagnostics = new DiagnosticCollector(9)
   
   try {
-    // Run TypeScript compiler on UI
-    const uiRoot = join(process.cwd(), 'entelechia-ui')
-    
+    const uiRoot = config.uiRoot
+    const tsconfigPath = join(uiRoot, 'tsconfig.json')
+
+    // The UI's dependencies live on disk only
+    const target = getTargetFileSystem(fs)
+    if (target !== nodeFileSystem && !(target instanceof ArtifactTransaction)) {
+      diagnostics.report('info', DiagnosticCodes.CheckSkipped, 'UI typecheck needs the real file system (skipped for in-memory runs)')
+      return {
+        phase: 9,
+        name: 'UI Typecheck',
+        success: true,
+        ...diagnostics.toResult(),
+        duration: Date.now() - startTime,
+      }
+    }
+
     // Skip UI typecheck if UI directory doesn't exist
-    if (!existsSync(uiRoot)) {
-      warnings.push(`UI directory does not exist: ${uiRoot} (skipping UI typecheck)`)
+    if (!fs.exists(uiRoot)) {
+      diagnostics.warning(DiagnosticCodes.SourceMissing, 'UI directory does not exist (skipping UI typecheck)', {
+        file: uiRoot,
+      })
       return {
         phase: 9,
         name: 'UI Typecheck',
         success: true,
-        errors: [],
-        warnings: [`UI directory does not exist: ${uiRoot} (skipping UI typecheck)`],
+        ...diagnostics.toResult(),
         duration: Date.now() - startTime,
       }
     }
-    
-    try {
-      execSync('npm run typecheck', {
-        cwd: uiRoot,
-        stdio: 'pipe',
-        encoding: 'utf-8',
-        shell: '/bin/bash',
+    if (!fs.exists(tsconfigPath)) {
+      diagnostics.warning(DiagnosticCodes.SourceMissing, 'UI tsconfig.json does not exist (skipping UI typecheck)', {
+        file: tsconfigPath,
       })
-    } catch (error: any) {
-      const output = error.stdout?.toString() || error.stderr?.toString() || error.message || String(error)
-      // UI typecheck failures are warnings (UI may not have typecheck script yet)
-      // This will be fixed in Step 4
-      warnings.push(`UI typecheck had issues:\n${output}`)
+      return {
+        phase: 9,
+        name: 'UI Typecheck',
+        success: true,
+        ...diagnostics.toResult(),
+        duration: Date.now() - startTime,
+      }
+    }
+
+    const typecheck = await typecheckProject(tsconfigPath, {
+      fs,
+      generated: config.checkMode || config.dryRun ? generatedArtifacts : undefined,
+      buildInfoFile: config.cache !== false && config.cacheDir ? join(config.cacheDir, 'ui.tsbuildinfo') : undefined,
+      signal,
+    })
+    for (const problem of typecheck.problems) {
+      reportUiProblem(problem, typecheck, diagnostics)
     }
     
     const duration = Date.now() - startTime
@@ -57,9 +121,8 @@ export async function runPhase9UiTypecheck(
     return {
       phase: 9,
       name: 'UI Typecheck',
-      success: errors.length === 0,
-      errors,
-      warnings,
+      success: !diagnostics.hasErrors(),
+      ...diagnostics.toResult(),
       duration,
     }
   } catch (error: any) {
@@ -69,10 +132,21 @@ export async function runPhase9UiTypecheck(
       phase: 9,
       name: 'UI Typecheck',
       success: false,
-      errors: [`UI typecheck failed: ${error.message}`],
-      warnings: [],
+      ...diagnostics.fromError(error, DiagnosticCodes.PhaseFailed, 'UI typecheck failed').toResult(),
       duration,
     }
   }
 }
 
+/**
+ * Phase 9 definition
+ */
+export const phase9UiTypecheck = definePhase({
+  phase: 9,
+  name: 'UI Typecheck',
+  inputs: ['generatedArtifacts'],
+  after: [7, 6.5],
+  async run({ manifest, config, inputs, signal }) {
+    return { result: await runPhase9UiTypecheck(manifest, config, inputs.generatedArtifacts, signal) }
+  },
+})
@@ -11,6 +11,9 @@ import type { PhaseResult } from '../types.js'
 import type { ActEngineConfig } from '../types.js'
 import type { ActManifest } from '../../manifests/types.js'
 import { loadAllPurityGuards } from '../../../purity-guards/purity-guards-canonicalizer.js'
+import { definePhase } from '../registry.js'
+import { getFileSystem } from '../../fs/index.js'
+import { DiagnosticCollector, DiagnosticCodes } from '../../diagnostics/index.js'
 
 /**
  * Execute Phase 9.0: Purity Guards Canonicalization
@@ -22,28 +25,26 @@ export async function runPhase9_0PurityGuardsCanonicalization(
   purityGuards?: Map<string, any>
 }> {
   const startTime = Date.now()
-  const errors: string[] = []
-  const warnings: string[] = []
+  const diagnostics = new DiagnosticCollector(9.05)
 
   try {
     // Load all Purity Guards
-    const purityGuards = loadAllPurityGuards(config.workspaceRoot)
+    const purityGuards = loadAllPurityGuards(config.purityGuardsDir, getFileSystem(config))
 
     // Validate all guards loaded
     const expectedGuards = ['architectural', 'form', 'act', 'state', 'intent', 'epistemic']
     for (const guardType of expectedGuards) {
       if (!purityGuards.has(guardType)) {
-        errors.push(`Missing purity guard: ${guardType}`)
+        diagnostics.error(DiagnosticCodes.PurityGuardMissing, `Missing purity guard: ${guardType}`)
       }
     }
 
-    if (errors.length > 0) {
+    if (diagnostics.hasErrors()) {
       return {
-        phase: 9.0,
+        phase: 9.05,
         name: 'Purity Guards Canonicalization',
         success: false,
-        errors,
-        warnings,
+        ...diagnostics.toResult(),
         duration: Date.now() - startTime,
       }
     }
@@ -51,11 +52,10 @@ export async function runPhase9_0PurityGuardsCanonicalization(
     const duration = Date.now() - startTime
 
     return {
-      phase: 9.0,
+      phase: 9.05,
       name: 'Purity Guards Canonicalization',
       success: true,
-      errors: [],
-      warnings,
+      ...diagnostics.toResult(),
       duration,
       purityGuards,
     }
@@ -63,13 +63,27 @@ export async function runPhase9_0PurityGuardsCanonicalization(
     const duration = Date.now() - startTime
 
     return {
-      phase: 9.0,
+      phase: 9.05,
       name: 'Purity Guards Canonicalization',
       success: false,
-      errors: [`Purity guards canonicalization failed: ${error.message}`],
-      warnings: [],
+      ...diagnostics.fromError(error, DiagnosticCodes.CanonicalizationFailed, 'Purity guards canonicalization failed').toResult(),
       duration,
     }
   }
 }
 
+/**
+ * Phase 9.0 definition
+ */
+export const phase9_0PurityGuardsCanonicalization = definePhase({
+  phase: 9.05, // Not 9.0: that is the id of phase 9 (UI Typecheck)
+  name: 'Purity Guards Canonicalization',
+  after: [0],
+  outputs: ['purityGuards'],
+  sources: config => [config.purityGuardsDir],
+  cacheable: true,
+  async run({ manifest, config }) {
+    const { purityGuards, ...result } = await runPhase9_0PurityGuardsCanonicalization(manifest, config)
+    return { result, outputs: { purityGuards } }
+  },
+})
@@ -7,12 +7,21 @@
  * This phase runs AFTER Phase 9.0 (Purity Guards Canonicalization) and BEFORE Phase 7 (Codegen).
  */
 
-import { readFileSync, existsSync, readdirSync } from 'fs'
 import { join, relative } from 'path'
 import type { PhaseResult } from '../types.js'
 import type { ActEngineConfig } from '../types.js'
 import type { ActManifest } from '../../manifests/types.js'
 import type { CanonicalPurityGuardDescriptor } from '../../../purity-guards/purity-guards-canonicalizer.js'
+import { definePhase } from '../registry.js'
+import { abortCheckpoint } from '../cancellation.js'
+import {
+  DiagnosticCollector,
+  DiagnosticCodes,
+  purityInvariantCode,
+  formatSteps,
+  type Diagnostic,
+} from '../../diagnostics/index.js'
+import { getFileSystem, type ActFileSystem } from '../../fs/index.js'
 
 /**
  * Purity violation context
@@ -34,13 +43,14 @@ export interface PurityViolationContext {
 export async function runPhase9_1PurityGuardsEnforcement(
   manifest: ActManifest,
   config: ActEngineConfig,
-  purityGuards: Map<string, CanonicalPurityGuardDescriptor>
+  purityGuards: Map<string, CanonicalPurityGuardDescriptor>,
+  signal?: AbortSignal
 ): Promise<PhaseResult & {
   violations?: PurityViolationContext[]
 }> {
   const startTime = Date.now()
-  const errors: string[] = []
-  const warnings: string[] = []
+  const fs = getFileSystem(config)
+  const diagnostics = new DiagnosticCollector(9.1)
   const violations: PurityViolationContext[] = []
 
   try {
@@ -49,27 +59,27 @@ export async function runPhase9_1PurityGuardsEnforcement(
         phase: 9.1,
         name: 'Purity Guards Enforcement',
         success: true,
-        errors: [],
-        warnings: ['No purity guards loaded - skipping enforcement'],
+        ...diagnostics.warning(DiagnosticCodes.CheckSkipped, 'No purity guards loaded - skipping enforcement').toResult(),
         duration: Date.now() - startTime,
       }
     }
 
     // Scan UI source code
-    const uiSourceDir = join(config.workspaceRoot, 'entelechia-ui', 'src')
-    const backendSourceDir = join(config.workspaceRoot, 'entelechia-core', 'src')
+    const uiSourceDir = config.uiSourceDir
+    const backendSourceDir = config.backendSourceDir
     
     const sourceFiles: string[] = []
-    if (existsSync(uiSourceDir)) {
-      sourceFiles.push(...getAllSourceFiles(uiSourceDir, ['.ts', '.tsx']))
+    if (fs.exists(uiSourceDir)) {
+      sourceFiles.push(...getAllSourceFiles(uiSourceDir, ['.ts', '.tsx'], fs))
     }
-    if (existsSync(backendSourceDir)) {
-      sourceFiles.push(...getAllSourceFiles(backendSourceDir, ['.ts']))
+    if (fs.exists(backendSourceDir)) {
+      sourceFiles.push(...getAllSourceFiles(backendSourceDir, ['.ts'], fs))
     }
 
     // Check each file against all purity guards
     for (const filePath of sourceFiles) {
-      const content = readFileSync(filePath, 'utf-8')
+      await abortCheckpoint(signal)
+      const content = fs.readFile(filePath)
       const relativePath = relative(config.workspaceRoot, filePath)
 
       // Skip generated files and node_modules
@@ -105,13 +115,11 @@ export async function runPhase9_1PurityGuardsEnforcement(
       }
     }
 
-    // Convert violations to errors or warnings based on severity
+    // Convert violations to error or warning diagnostics based on severity
     // Find guard for each violation to check severity
     const guardMap = new Map(Array.from(purityGuards.values()).map(g => [g.guardType, g]))
     
     for (const violation of violations) {
-      const errorMessage = formatViolationError(violation)
-      
       // Find invariant in guard to check severity
       let severity: 'error' | 'warn' = 'error' // Default to error if not found
       for (const guard of purityGuards.values()) {
@@ -122,25 +130,19 @@ export async function runPhase9_1PurityGuardsEnforcement(
         }
       }
       
-      if (severity === 'error') {
-        errors.push(errorMessage)
-      } else {
-        // severity === 'warn'
-        warnings.push(errorMessage)
-      }
+      diagnostics.add(violationToDiagnostic(violation, severity === 'error' ? 'error' : 'warning'))
     }
 
     // ✅ ONTOLOGICAL: Fail pipeline only on error violations (warnings don't block)
     // This matches Architecture Guard behavior - warnings are reported but don't block
-    const success = errors.length === 0
+    const success = !diagnostics.hasErrors()
     const duration = Date.now() - startTime
 
     return {
       phase: 9.1,
       name: 'Purity Guards Enforcement',
       success,
-      errors,
-      warnings,
+      ...diagnostics.toResult(),
       duration,
       violations: success ? undefined : violations,
     }
@@ -151,8 +153,7 @@ export async function runPhase9_1PurityGuardsEnforcement(
       phase: 9.1,
       name: 'Purity Guards Enforcement',
       success: false,
-      errors: [`Purity guards enforcement failed: ${error.message}`],
-      warnings: [],
+      ...diagnostics.fromError(error, DiagnosticCodes.PhaseFailed, 'Purity guards enforcement failed').toResult(),
       duration,
     }
   }
@@ -161,22 +162,22 @@ export async function runPhase9_1PurityGuardsEnforcement(
 /**
  * Get all source files recursively
  */
-function getAllSourceFiles(dir: string, extensions: string[]): string[] {
+function getAllSourceFiles(dir: string, extensions: string[], fs: ActFileSystem): string[] {
   const files: string[] = []
   
   try {
-    const entries = readdirSync(dir, { withFileTypes: true })
+    const entries = fs.readdir(dir)
     
     for (const entry of entries) {
-      const fullPath = join(dir, entry.name)
+      const fullPath = join(dir, entry)
       
-      if (entry.isDirectory()) {
-        if (entry.name === 'node_modules' || entry.name === '.git') {
+      if (fs.isDirectory(fullPath)) {
+        if (entry === 'node_modules' || entry === '.git') {
           continue
         }
-        files.push(...getAllSourceFiles(fullPath, extensions))
-      } else if (entry.isFile()) {
-        const ext = entry.name.substring(entry.name.lastIndexOf('.'))
+        files.push(...getAllSourceFiles(fullPath, extensions, fs))
+      } else {
+        const ext = entry.substring(entry.lastIndexOf('.'))
         if (extensions.includes(ext)) {
           files.push(fullPath)
         }
@@ -279,28 +280,38 @@ function checkFileAgainstViolation(
 }
 
 /**
- * Format violation as error message
+ * Convert a violation to a diagnostic
  */
-function formatViolationError(violation: PurityViolationContext): string {
-  const parts: string[] = []
-  
-  parts.push(`[PURITY VIOLATION ${violation.guardType.toUpperCase()}.${violation.invariantId}]`)
-  parts.push(`Pattern: ${violation.violationPattern}`)
-  parts.push(`File: ${violation.filePath}:${violation.line}`)
-  
-  if (violation.snippet) {
-    parts.push(`Code: ${violation.snippet}`)
+function violationToDiagnostic(
+  violation: PurityViolationContext,
+  severity: 'error' | 'warning'
+): Diagnostic {
+  return {
+    code: purityInvariantCode(violation.guardType, violation.invariantId),
+    severity,
+    message: `Purity violation ${violation.guardType.toUpperCase()}.${violation.invariantId} (${violation.violationPattern})${violation.snippet ? ` in \`${violation.snippet}\`` : ''}`,
+    file: violation.filePath,
+    range: { start: { line: violation.line, column: 1 } },
+    rationale: violation.telosViolated,
+    hint: formatSteps(violation.resolutionSteps),
   }
-  
-  parts.push('')
-  parts.push('TELOS VIOLATED:')
-  parts.push(violation.telosViolated)
-  parts.push('')
-  parts.push('RESOLUTION STEPS:')
-  violation.resolutionSteps.forEach((step, i) => {
-    parts.push(`  ${i + 1}. ${step}`)
-  })
-  
-  return parts.join('\n')
 }
 
+/**
+ * Phase 9.1 definition
+ */
+export const phase9_1PurityGuardsEnforcement = definePhase({
+  phase: 9.1,
+  name: 'Purity Guards Enforcement',
+  inputs: ['purityGuards'],
+  requires: ['purityGuards'],
+  async run({ manifest, config, inputs, signal }) {
+    const { violations, ...result } = await runPhase9_1PurityGuardsEnforcement(
+      manifest,
+      config,
+      inputs.purityGuards!,
+      signal
+    )
+    return { result }
+  },
+})
@@ -0,0 +1,174 @@
+/**
+ * ✅ ENTELECHIA: ACT Engine Phase Registry
+ *
+ * Holds declarative phase definitions and derives execution order
+ * from their dependency graph.
+ *
+ * PRINCIPLE: Phases declare what they consume and produce.
+ * The orchestrator never hand-orders phases.
+ */
+
+import type {
+  ActEngineConfig,
+  PhaseDefinition,
+  PhaseOutputKey,
+  PhaseResult,
+} from './types.js'
+
+/**
+ * Define a phase with inferred input/output keys
+ */
+export function definePhase<I extends PhaseOutputKey = never, O extends PhaseOutputKey = never>(
+  definition: PhaseDefinition<I, O>
+): PhaseDefinition<I, O> {
+  return definition
+}
+
+/**
+ * Check whether a phase result should stop the pipeline
+ */
+export function isBlockingFailure(
+  definition: PhaseDefinition,
+  result: PhaseResult,
+  config: ActEngineConfig
+): boolean {
+  if (result.success) {
+    return false
+  }
+  if (typeof definition.blocking === 'function') {
+    return definition.blocking(result, config)
+  }
+  return definition.blocking !== false
+}
+
+/**
+ * Phase registry
+ *
+ * Phases are registered once; `resolveOrder()` returns them in dependency order.
+ * Ties are broken by registration order, so a registry whose registration
+ * order is already topological runs exactly in that order.
+ */
+export class PhaseRegistry {
+  private definitions: PhaseDefinition[] = []
+
+  /**
+   * Register a phase
+   */
+  register(definition: PhaseDefinition): this {
+    if (this.definitions.some(d => d.phase === definition.phase)) {
+      throw new Error(`Phase ${definition.phase} is already registered`)
+    }
+
+    for (const output of definition.outputs || []) {
+      const producer = this.getProducer(output)
+      if (producer) {
+        throw new Error(
+          `Output "${output}" of phase ${definition.phase} is already produced by phase ${producer.phase}`
+        )
+      }
+    }
+
+    this.definitions.push(definition)
+    return this
+  }
+
+  /**
+   * Get a registered phase
+   */
+  get(phase: number): PhaseDefinition | undefined {
+    return this.definitions.find(d => d.phase === phase)
+  }
+
+  /**
+   * Get all registered phases (registration order)
+   */
+  getAll(): PhaseDefinition[] {
+    return [...this.definitions]
+  }
+
+  /**
+   * Get the phase producing an output
+   */
+  getProducer(output: PhaseOutputKey): PhaseDefinition | undefined {
+    return this.definitions.find(d => d.outputs?.includes(output))
+  }
+
+  /**
+   * Get the direct dependencies of a phase (data and ordering)
+   */
+  getDependencies(definition: PhaseDefinition): number[] {
+    const dependencies = new Set<number>()
+
+    for (const input of definition.inputs || []) {
+      const producer = this.getProducer(input)
+      if (!producer) {
+        throw new Error(`Phase ${definition.phase} consumes "${input}" but no registered phase produces it`)
+      }
+      dependencies.add(producer.phase)
+    }
+
+    for (const phase of definition.after || []) {
+      if (!this.get(phase)) {
+        throw new Error(`Phase ${definition.phase} runs after phase ${phase}, which is not registered`)
+      }
+      dependencies.add(phase)
+    }
+
+    return Array.from(dependencies)
+  }
+
+  /**
+   * Get the given phases plus every phase that transitively depends on them
+   *
+   * Returned in registration order.
+   */
+  getDependents(phases: readonly number[]): number[] {
+    const affected = new Set(phases)
+    let changed = true
+
+    while (changed) {
+      changed = false
+      for (const definition of this.definitions) {
+        if (affected.has(definition.phase)) continue
+        if (this.getDependencies(definition).some(phase => affected.has(phase))) {
+          affected.add(definition.phase)
+          changed = true
+        }
+      }
+    }
+
+    return this.definitions.map(d => d.phase).filter(phase => affected.has(phase))
+  }
+
+  /**
+   * Resolve execution order (topological sort)
+   *
+   * @throws Error if the dependency graph has a cycle or an unknown dependency
+   */
+  resolveOrder(): PhaseDefinition[] {
+    const remaining = new Map(
+      this.definitions.map(d => [d.phase, new Set(this.getDependencies(d))])
+    )
+    const ordered: PhaseDefinition[] = []
+
+    while (remaining.size > 0) {
+      const next = this.definitions.find(d => {
+        const dependencies = remaining.get(d.phase)
+        return dependencies !== undefined && dependencies.size === 0
+      })
+
+      if (!next) {
+        const cycle = Array.from(remaining.keys()).join(', ')
+        throw new Error(`Phase dependency cycle detected between phases: ${cycle}`)
+      }
+
+      ordered.push(next)
+      remaining.delete(next.phase)
+      for (const dependencies of remaining.values()) {
+        dependencies.delete(next.phase)
+      }
+    }
+
+    return ordered
+  }
+}
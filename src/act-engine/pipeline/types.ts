@@ -4,7 +4,29 @@
  * Type definitions for pipeline execution and results.
  */
 
+import type { ContractDefinition } from '@entelechia/contracts/contracts/metadata/types'
 import type { ActManifest } from '../manifests/types.js'
+import type { CanonicalFormDescriptor } from '../../forms/canonicalizer.js'
+import type { CanonicalFunctionalFormDescriptor } from '../../forms/functional-types.js'
+import type {
+  CanonicalCommandDescriptor,
+  CanonicalHotkeyDescriptor,
+} from '../../commands/command-canonicalizer.js'
+import type {
+  CanonicalTelemetryDescriptor,
+  CanonicalDevToolsDescriptor,
+  CanonicalUXFidelityDescriptor,
+} from '../../instrumentation/index.js'
+import type { CanonicalIntentGraphDescriptor } from '../../intent-graph/intent-graph-types.js'
+import type { CanonicalPurityGuardDescriptor } from '../../purity-guards/purity-guards-canonicalizer.js'
+import type { ActCache, ActCacheStats } from '../cache/index.js'
+import type { Diagnostic } from '../diagnostics/index.js'
+import type { ActPlugin, PluginHost } from '../plugins/index.js'
+import type { ContractSource } from '../contracts/index.js'
+import type { PhaseEventSink, PipelineEventEmitter } from '../events/index.js'
+import type { ActFileSystem, ArtifactCommit } from '../fs/index.js'
+import type { ArtifactChangeSummary } from '../writers/artifact-changes.js'
+import type { ArtifactDrift } from '../writers/drift.js'
 
 /**
  * Phase execution result
@@ -13,10 +35,16 @@ export interface PhaseResult {
   phase: number
   name: string
   success: boolean
-  errors: string[]
-  warnings: string[]
+  errors: string[] // Rendered error diagnostics
+  warnings: string[] // Rendered warning diagnostics
+  diagnostics?: Diagnostic[] // Always set on results returned by the pipeline
   duration: number // milliseconds
   artifacts?: string[] // Generated file paths
+  cached?: boolean // Result reused from the cache (phase did not run)
+  skipped?: boolean // Phase did not run because an upstream phase failed (keep-going mode)
+  skipReason?: string
+  cancelled?: boolean // Phase was interrupted because the run was aborted
+  timedOut?: boolean // Phase was interrupted because it exceeded its timeout budget
 }
 
 /**
@@ -29,6 +57,24 @@ export interface PipelineResult {
   totalDuration: number // milliseconds
   errors: string[]
   warnings: string[]
+  diagnostics: Diagnostic[] // Every phase's diagnostics, in report order
+  cache?: ActCacheStats // Cache hits/misses (phases and generators)
+  outputs?: Partial<PhaseOutputs> // Typed phase outputs (reusable by a later partial run)
+  cancelled?: boolean // Run was aborted (`options.signal`) before every phase settled
+  changes?: ArtifactChangeSummary // Check and dry-run modes: how the run would change STATE
+  commit?: ArtifactCommit // Transactional runs that succeeded: the committed artifacts
+  orphans?: string[] // Generated files no generator produced (sorted; only when every phase ran and succeeded)
+  pruned?: string[] // Orphans deleted by `prune` (sorted)
+}
+
+/**
+ * Options for re-running part of the pipeline
+ */
+export interface PipelineRunOptions {
+  phases?: number[] // Phases to run (default: all)
+  previous?: PipelineResult // Phases not in `phases` reuse their result and outputs from here
+  events?: PipelineEventEmitter // Receives lifecycle events while the run progresses
+  signal?: AbortSignal // Aborts the run: running phases are cancelled, pending phases never start
 }
 
 /**
@@ -39,6 +85,73 @@ export type PhaseExecutor = (
   config: ActEngineConfig
 ) => Promise<PhaseResult>
 
+/**
+ * Typed outputs produced by pipeline phases
+ * 
+ * Each key is produced by exactly one phase and consumed by any phase
+ * that declares it as an input.
+ */
+export interface PhaseOutputs {
+  descriptors: Map<string, CanonicalFormDescriptor> // Phase 6
+  functionalDescriptors: Map<string, CanonicalFunctionalFormDescriptor> // Phase 7.5
+  validatedFunctionalDescriptors: Map<string, CanonicalFunctionalFormDescriptor> // Phase 7.7
+  commandDescriptors: Map<string, CanonicalCommandDescriptor> // Phase 7.8
+  hotkeyDescriptors: Map<string, CanonicalHotkeyDescriptor> // Phase 7.8
+  telemetryDescriptors: Map<string, CanonicalTelemetryDescriptor> // Phase 8.1
+  devtoolsDescriptors: Map<string, CanonicalDevToolsDescriptor> // Phase 8.1
+  uxFidelityDescriptors: Map<string, CanonicalUXFidelityDescriptor> // Phase 8.1
+  intentGraphDescriptors: Map<string, CanonicalIntentGraphDescriptor> // Phase 8.2
+  purityGuards: Map<string, CanonicalPurityGuardDescriptor> // Phase 9.0
+  generatedArtifacts: Map<string, string> // Phase 7 (artifact path -> generated content, banner included)
+  drift: ArtifactDrift[] // Phase 8: artifacts as they were before the run (sorted by path)
+}
+
+export type PhaseOutputKey = keyof PhaseOutputs
+
+/**
+ * Context passed to a phase when it runs
+ */
+export interface PhaseContext<I extends PhaseOutputKey = PhaseOutputKey> {
+  contracts: ContractDefinition[]
+  manifest: ActManifest
+  config: ActEngineConfig
+  inputs: Partial<Pick<PhaseOutputs, I>> // Outputs of upstream phases (undefined if skipped)
+  cache: ActCache // Content-addressed cache (no-op when caching is disabled)
+  plugins: PluginHost // Plugin banner sources and artifact kinds
+  events: PhaseEventSink // Files parsed and artifacts written by the phase (pass to DeterministicWriter)
+  signal: AbortSignal // Aborted when the run is cancelled or the phase exceeds its timeout (stop work early)
+}
+
+/**
+ * Result of running a phase: the reported result plus its typed outputs
+ */
+export interface PhaseExecution<O extends PhaseOutputKey = PhaseOutputKey> {
+  result: PhaseResult
+  outputs?: Partial<Pick<PhaseOutputs, O>>
+}
+
+/**
+ * Declarative phase definition
+ * 
+ * The orchestrator derives execution order from `inputs` (data dependencies
+ * on the phases producing them) and `after` (ordering-only dependencies).
+ */
+export interface PhaseDefinition<
+  I extends PhaseOutputKey = PhaseOutputKey,
+  O extends PhaseOutputKey = PhaseOutputKey
+> {
+  phase: number
+  name: string
+  inputs?: readonly I[] // Outputs consumed from upstream phases
+  requires?: readonly I[] // Inputs that must be present, otherwise the phase does not run
+  outputs?: readonly O[] // Outputs this phase produces
+  after?: readonly number[] // Phases that must complete first (no data flow)
+  blocking?: boolean | ((result: PhaseResult, config: ActEngineConfig) => boolean) // Default: fail pipeline on failure
+  sources?(config: ActEngineConfig): string[] // FORM files/directories the phase reads
+  cacheable?: boolean // Reuse the cached result when sources, contracts and inputs are unchanged (no side effects)
+  run(context: PhaseContext<I>): Promise<PhaseExecution<O>>
+}
+
 /**
  * ACT Engine configuration
  */
@@ -48,9 +161,26 @@ export interface ActEngineConfig {
   
   // Input paths
   metadataDir: string
-  yamlDir: string
+  contractSource?: ContractSource // Default: discover the contracts exported in metadataDir
+  yamlDir: string // Form YAML
   invariantEnginePath: string
-  
+  navigationDir: string
+  dashboardsDir: string
+  invariantsDir: string
+  intentGraphDir: string
+  commandsDir: string
+  instrumentationDir: string // Contains telemetry/, devtools/ and ux/
+  architectureDir: string
+  purityGuardsDir: string
+  surfacesDir: string
+  metadataValidatorPath: string
+  actionRegistryPath: string
+  roleCompilerPath: string
+  intentRegistryPath: string
+  uiRoot: string // UI package (typechecked by Phase 9)
+  uiSourceDir: string
+  backendSourceDir: string
+
   // Output paths
   sharedContractsDir: string
   migrationsDir: string
@@ -59,15 +189,41 @@ export interface ActEngineConfig {
   testsDir: string
   formsOutputDir: string
   invariantMappingOutputDir: string
+  navigationOutputDir: string
+  dashboardsOutputDir: string
+  invariantsOutputDir: string
+  commandsOutputDir: string
+  instrumentationOutputDir: string
+  intentGraphOutputDir: string
+  purityGuardsOutputDir: string
   
   // Options
   checkMode: boolean // CI mode: validate without writing
-  dryRun: boolean // Show what would be generated
-  validateCode: boolean // Validate generated code syntax
-  backupExisting: boolean // Backup before overwrite
+  dryRun: boolean // Show what would be generated (`PipelineResult.changes`)
+  validateCode: boolean // Parse generated TypeScript before writing it and typecheck the generated set (ACT7005, ACT7006)
+  backupExisting: boolean // Keep the originals of overwritten artifacts under backupDir/<run ID>
+  transactional?: boolean // Stage artifacts and commit them only if the run succeeds (default: true)
+  backupDir?: string // Backup location (default: <workspace root>/.act/backups)
+  backupRetention?: number // Runs whose backups are kept; older ones are deleted after a commit (default: 10)
+  prune?: boolean // Delete orphaned artifacts (generated files no generator produced; never in check and dry runs)
+  lockfile?: string // Artifact lockfile (default: <workspace root>/act.lock.json)
   
   // Phase control
   skipPhases?: number[] // Skip specific phases (for debugging)
+  maxConcurrency?: number // Max phases running at once (1 = sequential)
+  keepGoing?: boolean // Don't stop on failure: skip only downstream phases, report every failure
+  phaseTimeout?: number // Default time budget of every phase (ms; none by default)
+  phaseTimeouts?: Record<string, number> // Per-phase budgets keyed by phase number ('9', '7.5'), override phaseTimeout
+  
+  // Incremental recompute
+  cache?: boolean // Reuse cached phase results and generated content (default: true)
+  cacheDir?: string // Cache location
+  
+  // Plugins
+  plugins?: Array<string | ActPlugin> // Plugin modules (resolved from the workspace root) or plugins
+  
+  // File system
+  fs?: ActFileSystem // FORM reads and artifact writes (default: the real file system; see MemoryFileSystem)
 }
 
 
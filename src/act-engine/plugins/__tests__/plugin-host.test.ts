@@ -0,0 +1,86 @@
+/**
+ * ✅ ENTELECHIA: Plugin Host Tests
+ *
+ * PROPERTIES TESTED:
+ * - Conflicting plugins are rejected up front
+ * - Plugin phases extend a registry without mutating it
+ * - Banner sources and manifest sections resolve through the host
+ */
+
+import { describe, it, expect } from 'vitest'
+import { PluginHost, definePlugin } from '../index.js'
+import { PhaseRegistry, definePhase } from '../../pipeline/registry.js'
+import type { ActEngineConfig } from '../../pipeline/types.js'
+
+const flagsPhase = definePhase({
+  phase: 100,
+  name: 'Feature Flags',
+  inputs: ['descriptors'],
+  async run() {
+    return { result: { phase: 100, name: 'Feature Flags', success: true, errors: [], warnings: [], duration: 0 } }
+  },
+})
+
+const flagsPlugin = definePlugin({
+  name: 'feature-flags',
+  phases: [flagsPhase],
+  artifactKinds: [{ type: 'feature-flags:flags', description: 'Feature flag constants' }],
+  bannerSources: [{ id: 'feature-flags', source: 'feature-flags YAML', type: 'feature-flags' }],
+  manifestSections: [{
+    id: 'feature-flags',
+    generate: () => ({
+      data: { flags: ['beta'] },
+      artifacts: [{ path: 'generated/flags.ts', type: 'feature-flags:flags', banner: 'feature-flags' }],
+    }),
+  }],
+})
+
+describe('PluginHost', () => {
+  it('should reject conflicting plugins', () => {
+    expect(() => new PluginHost([flagsPlugin, flagsPlugin])).toThrow('Plugin "feature-flags" is registered twice')
+    expect(() => new PluginHost([
+      definePlugin({ name: 'analytics', artifactKinds: [{ type: 'flags:events', description: 'Events' }] }),
+    ])).toThrow('must be named "analytics:<kind>"')
+    expect(() => new PluginHost([
+      flagsPlugin,
+      definePlugin({ name: 'analytics', bannerSources: [{ id: 'feature-flags', source: 'analytics YAML' }] }),
+    ])).toThrow('Banner source "feature-flags" of plugin "analytics" is already registered')
+  })
+
+  it('should extend a registry with plugin phases', () => {
+    const registry = new PhaseRegistry().register(definePhase({
+      phase: 6,
+      name: 'Canonicalization',
+      outputs: ['descriptors'],
+      async run() {
+        return { result: { phase: 6, name: 'Canonicalization', success: true, errors: [], warnings: [], duration: 0 } }
+      },
+    }))
+
+    const extended = new PluginHost([flagsPlugin]).extendRegistry(registry)
+
+    expect(extended.resolveOrder().map(d => d.phase)).toEqual([6, 100])
+    expect(registry.getAll()).toHaveLength(1)
+    expect(new PluginHost([flagsPlugin]).extendRegistry(extended).getAll()).toHaveLength(2)
+  })
+
+  it('should resolve banner sources and manifest sections', async () => {
+    const host = new PluginHost([flagsPlugin])
+
+    expect(host.isArtifactType('feature-flags:flags')).toBe(true)
+    expect(host.isArtifactType('form')).toBe(true)
+    expect(host.isArtifactType('analytics:events')).toBe(false)
+    expect(host.banner('feature-flags', { artifact: 'flags' })).toEqual({
+      source: 'feature-flags YAML',
+      type: 'feature-flags',
+      artifact: 'flags',
+    })
+    expect(await host.generateManifestSections([], { workspaceRoot: '/workspace' } as ActEngineConfig)).toEqual({
+      'feature-flags': {
+        plugin: 'feature-flags',
+        data: { flags: ['beta'] },
+        artifacts: [{ path: 'generated/flags.ts', type: 'feature-flags:flags', bannerSource: 'feature-flags YAML' }],
+      },
+    })
+  })
+})
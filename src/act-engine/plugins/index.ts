@@ -0,0 +1,16 @@
+/**
+ * ✅ ENTELECHIA: ACT Engine Plugins
+ * 
+ * Main entry point for third-party phases and generators.
+ */
+
+export { PluginHost, definePlugin, getManifestSection } from './plugin-host.js'
+export { loadPlugins } from './loader.js'
+export type {
+  ActPlugin,
+  ArtifactKindDefinition,
+  BannerSourceDefinition,
+  ManifestSectionContext,
+  ManifestSectionDefinition,
+  ManifestSectionContent,
+} from './types.js'
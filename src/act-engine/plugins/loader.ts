@@ -0,0 +1,64 @@
+/**
+ * ✅ ENTELECHIA: Plugin Loader
+ *
+ * Loads the plugins listed in the engine config.
+ */
+
+import { isAbsolute, resolve } from 'path'
+import { pathToFileURL } from 'url'
+import type { ActEngineConfig } from '../pipeline/types.js'
+import { PluginHost } from './plugin-host.js'
+import type { ActPlugin } from './types.js'
+
+/**
+ * Check whether a value looks like a plugin
+ */
+function isActPlugin(value: any): value is ActPlugin {
+  return typeof value === 'object' && value !== null && typeof value.name === 'string' && value.name.length > 0
+}
+
+/**
+ * Load one plugin module
+ *
+ * Relative paths resolve from the workspace root. The module exports the
+ * plugin as its default export or as `plugin`.
+ */
+async function importPlugin(specifier: string, workspaceRoot: string): Promise<ActPlugin> {
+  const url = specifier.startsWith('.') || isAbsolute(specifier)
+    ? pathToFileURL(resolve(workspaceRoot, specifier)).href
+    : specifier
+
+  let module: any
+  try {
+    module = await import(url)
+  } catch (error: any) {
+    throw new Error(`Cannot load plugin "${specifier}": ${error.message}`)
+  }
+
+  const plugin = module.default ?? module.plugin
+  if (!isActPlugin(plugin)) {
+    throw new Error(`Plugin module "${specifier}" must export a plugin (default export or \`plugin\`) with a name`)
+  }
+  return plugin
+}
+
+/**
+ * Load the plugins of a config
+ *
+ * @throws Error if a plugin cannot be loaded or plugins conflict
+ */
+export async function loadPlugins(config: ActEngineConfig): Promise<PluginHost> {
+  const plugins: ActPlugin[] = []
+
+  for (const entry of config.plugins || []) {
+    if (typeof entry === 'string') {
+      plugins.push(await importPlugin(entry, config.workspaceRoot))
+    } else if (isActPlugin(entry)) {
+      plugins.push(entry)
+    } else {
+      throw new Error('Plugin entries must be module paths or plugins with a name')
+    }
+  }
+
+  return new PluginHost(plugins)
+}
@@ -0,0 +1,178 @@
+/**
+ * ✅ ENTELECHIA: Plugin Host
+ *
+ * Validates the plugins of a run and exposes what they contribute.
+ *
+ * PRINCIPLE: Plugins extend the engine through the same extension points
+ * as built-in phases; a conflict between plugins fails the run up front.
+ */
+
+import type { ContractDefinition } from '@entelechia/contracts/contracts/metadata/types'
+import { PhaseRegistry } from '../pipeline/registry.js'
+import type { ActEngineConfig } from '../pipeline/types.js'
+import type { ActManifest, ActManifestSection } from '../manifests/types.js'
+import type { BannerOptions } from '../writers/banners.js'
+import { BUILTIN_ARTIFACT_TYPES, type ArtifactType } from '../writers/deterministic-writer.js'
+import type {
+  ActPlugin,
+  ArtifactKindDefinition,
+  BannerSourceDefinition,
+  ManifestSectionDefinition,
+} from './types.js'
+
+/**
+ * Define a plugin with checked contributions
+ */
+export function definePlugin(plugin: ActPlugin): ActPlugin {
+  return plugin
+}
+
+/**
+ * Get a plugin manifest section's data
+ */
+export function getManifestSection<T>(manifest: ActManifest, id: string): T | undefined {
+  return manifest.sections?.[id]?.data as T | undefined
+}
+
+/**
+ * Plugin host
+ *
+ * @throws Error from the constructor if plugins conflict (duplicate names,
+ * artifact kinds, banner sources or manifest sections)
+ */
+export class PluginHost {
+  private artifactKinds = new Map<string, ArtifactKindDefinition>()
+  private bannerSources = new Map<string, BannerSourceDefinition>()
+  private manifestSections = new Map<string, { plugin: string; definition: ManifestSectionDefinition }>()
+
+  constructor(readonly plugins: readonly ActPlugin[] = []) {
+    const names = new Set<string>()
+
+    for (const plugin of plugins) {
+      if (names.has(plugin.name)) {
+        throw new Error(`Plugin "${plugin.name}" is registered twice`)
+      }
+      names.add(plugin.name)
+
+      for (const kind of plugin.artifactKinds || []) {
+        if (!kind.type.startsWith(`${plugin.name}:`)) {
+          throw new Error(`Artifact kind "${kind.type}" of plugin "${plugin.name}" must be named "${plugin.name}:<kind>"`)
+        }
+        if (this.artifactKinds.has(kind.type)) {
+          throw new Error(`Artifact kind "${kind.type}" is registered twice`)
+        }
+        this.artifactKinds.set(kind.type, kind)
+      }
+
+      for (const banner of plugin.bannerSources || []) {
+        if (this.bannerSources.has(banner.id)) {
+          throw new Error(`Banner source "${banner.id}" of plugin "${plugin.name}" is already registered`)
+        }
+        this.bannerSources.set(banner.id, banner)
+      }
+
+      for (const definition of plugin.manifestSections || []) {
+        const existing = this.manifestSections.get(definition.id)
+        if (existing) {
+          throw new Error(
+            `Manifest section "${definition.id}" of plugin "${plugin.name}" is already declared by plugin "${existing.plugin}"`
+          )
+        }
+        this.manifestSections.set(definition.id, { plugin: plugin.name, definition })
+      }
+    }
+  }
+
+  /**
+   * Create a registry with the given phases plus every plugin phase
+   *
+   * Plugin phases already in `registry` are not registered again.
+   *
+   * @throws Error if a plugin phase conflicts with a registered phase
+   */
+  extendRegistry(registry: PhaseRegistry): PhaseRegistry {
+    const extended = new PhaseRegistry()
+    const existing = registry.getAll()
+    for (const definition of existing) {
+      extended.register(definition)
+    }
+
+    for (const plugin of this.plugins) {
+      for (const definition of plugin.phases || []) {
+        if (existing.includes(definition)) continue
+        try {
+          extended.register(definition)
+        } catch (error: any) {
+          throw new Error(`Plugin "${plugin.name}": ${error.message}`)
+        }
+      }
+    }
+
+    return extended
+  }
+
+  /**
+   * Check whether an artifact kind is built in or registered by a plugin
+   */
+  isArtifactType(type: string): type is ArtifactType {
+    return (BUILTIN_ARTIFACT_TYPES as readonly string[]).includes(type) || this.artifactKinds.has(type)
+  }
+
+  /**
+   * Get the artifact kinds registered by plugins
+   */
+  getArtifactKinds(): ArtifactKindDefinition[] {
+    return Array.from(this.artifactKinds.values())
+  }
+
+  /**
+   * Get banner options for a registered banner source
+   *
+   * @throws Error if the banner source is not registered
+   */
+  banner(id: string, details: Omit<BannerOptions, 'source'> = {}): BannerOptions {
+    const banner = this.bannerSources.get(id)
+    if (!banner) {
+      throw new Error(`Banner source "${id}" is not registered`)
+    }
+    return { type: banner.type, ...details, source: banner.source }
+  }
+
+  /**
+   * Generate every plugin manifest section
+   *
+   * @throws Error if a section fails or references an unknown artifact kind or banner source
+   */
+  async generateManifestSections(
+    contracts: ContractDefinition[],
+    config: ActEngineConfig
+  ): Promise<Record<string, ActManifestSection>> {
+    const sections: Record<string, ActManifestSection> = {}
+
+    for (const [id, { plugin, definition }] of this.manifestSections) {
+      let content
+      try {
+        content = await definition.generate({ contracts, config })
+      } catch (error: any) {
+        throw new Error(`Manifest section "${id}" of plugin "${plugin}" failed: ${error.message}`)
+      }
+
+      sections[id] = {
+        plugin,
+        data: content.data,
+        artifacts: (content.artifacts || []).map(artifact => {
+          if (!this.isArtifactType(artifact.type)) {
+            throw new Error(`Manifest section "${id}" of plugin "${plugin}" uses unknown artifact kind "${artifact.type}"`)
+          }
+          return {
+            path: artifact.path,
+            type: artifact.type,
+            bannerSource: artifact.banner === undefined ? undefined : this.banner(artifact.banner).source,
+          }
+        }),
+      }
+    }
+
+    return sections
+  }
+}
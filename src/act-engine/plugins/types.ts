@@ -0,0 +1,70 @@
+/**
+ * ✅ ENTELECHIA: Plugin Types
+ *
+ * Plugins add FORM kinds and generators without forking the engine.
+ *
+ * A plugin contributes:
+ * - phases: registered after the built-in phases, scheduled by the same
+ *   dependency graph. They receive the canonical descriptors of built-in
+ *   phases through their typed `inputs` (e.g. `inputs: ['descriptors']`).
+ * - artifact kinds: new `WriteFileOptions['type']` values (`<plugin>:<kind>`)
+ * - banner sources: banners for the artifacts the plugin generates
+ * - manifest sections: what the plugin generates, checked for drift by Phase 8
+ */
+
+import type { ContractDefinition } from '@entelechia/contracts/contracts/metadata/types'
+import type { ActEngineConfig, PhaseDefinition } from '../pipeline/types.js'
+import type { ArtifactType, PluginArtifactType } from '../writers/deterministic-writer.js'
+
+/**
+ * ACT Engine plugin
+ */
+export interface ActPlugin {
+  name: string // Unique; namespaces the plugin's artifact kinds
+  phases?: PhaseDefinition[]
+  artifactKinds?: ArtifactKindDefinition[]
+  bannerSources?: BannerSourceDefinition[]
+  manifestSections?: ManifestSectionDefinition<any>[]
+}
+
+/**
+ * Artifact kind generated by a plugin
+ */
+export interface ArtifactKindDefinition {
+  type: PluginArtifactType // `<plugin name>:<kind>`
+  description: string
+}
+
+/**
+ * Banner source of a plugin's artifacts
+ */
+export interface BannerSourceDefinition {
+  id: string // Unique across plugins
+  source: string // Rendered as `Generated from <source>`
+  type?: string
+}
+
+/**
+ * Context passed to a manifest section generator
+ */
+export interface ManifestSectionContext {
+  contracts: ContractDefinition[]
+  config: ActEngineConfig
+}
+
+/**
+ * Manifest section declared by a plugin
+ */
+export interface ManifestSectionDefinition<T = unknown> {
+  id: string // Unique across plugins; key in `ActManifest.sections`
+  generate(context: ManifestSectionContext): ManifestSectionContent<T> | Promise<ManifestSectionContent<T>>
+}
+
+export interface ManifestSectionContent<T = unknown> {
+  data: T
+  artifacts?: Array<{
+    path: string
+    type: ArtifactType // Built-in or registered artifact kind
+    banner?: string // Banner source ID
+  }>
+}
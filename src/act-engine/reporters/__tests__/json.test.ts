@@ -0,0 +1,74 @@
+/**
+ * ✅ ENTELECHIA: JSON Reporter Tests
+ *
+ * PROPERTIES TESTED:
+ * - The report is versioned and summarizes phases and diagnostics
+ * - Paths are reported relative to the workspace root
+ */
+
+import { describe, it, expect } from 'vitest'
+import { toJsonReport, ACT_REPORT_VERSION } from '../index.js'
+import { DiagnosticCodes } from '../../diagnostics/index.js'
+import { ACT_ENGINE_VERSION } from '../../version.js'
+import type { PipelineResult } from '../../pipeline/types.js'
+
+const RESULT: Pick<PipelineResult, 'success' | 'totalDuration' | 'phases' | 'diagnostics' | 'cache'> = {
+  success: false,
+  totalDuration: 1200,
+  cache: { hits: 1, misses: 2 },
+  phases: [
+    {
+      phase: 5,
+      name: 'YAML Validation',
+      success: false,
+      errors: ['user.form.yaml: Unknown field "age" [ACT1004]'],
+      warnings: [],
+      duration: 40,
+      cached: true,
+    },
+    {
+      phase: 7,
+      name: 'Code Generation',
+      success: true,
+      errors: [],
+      warnings: ['Banner missing [ACT8003]'],
+      duration: 300,
+      artifacts: ['/workspace/entelechia-shared/src/forms/user.ts'],
+    },
+    { phase: 8, name: 'Drift Check', success: false, errors: [], warnings: [], duration: 0, skipped: true, skipReason: 'Upstream phase 5 failed' },
+  ],
+  diagnostics: [
+    {
+      code: DiagnosticCodes.FormValidation,
+      severity: 'error',
+      message: 'Unknown field "age"',
+      phase: 5,
+      file: '/workspace/entelechia-form/forms/user.form.yaml',
+      related: [{ file: '/workspace/entelechia-form/forms/user.form.yaml', message: 'Declared here' }],
+    },
+    { code: DiagnosticCodes.BannerMissing, severity: 'warning', message: 'Banner missing', phase: 7 },
+  ],
+}
+
+describe('toJsonReport', () => {
+  const report = toJsonReport(RESULT, { workspaceRoot: '/workspace' })
+
+  it('should summarize phases and diagnostics', () => {
+    expect(report).toMatchObject({
+      reportVersion: ACT_REPORT_VERSION,
+      engineVersion: ACT_ENGINE_VERSION,
+      success: false,
+      totalDuration: 1200,
+      cache: { hits: 1, misses: 2 },
+      summary: { phases: 3, failed: 1, skipped: 1, cached: 1, errors: 1, warnings: 1, infos: 0 },
+    })
+    expect(report.phases.map(p => [p.phase, p.status])).toEqual([[5, 'failed'], [7, 'passed'], [8, 'skipped']])
+    expect(report.phases[2].skipReason).toBe('Upstream phase 5 failed')
+  })
+
+  it('should report paths relative to the workspace root', () => {
+    expect(report.phases[1].artifacts).toEqual(['entelechia-shared/src/forms/user.ts'])
+    expect(report.diagnostics[0].file).toBe('entelechia-form/forms/user.form.yaml')
+    expect(report.diagnostics[0].related?.[0].file).toBe('entelechia-form/forms/user.form.yaml')
+  })
+})
@@ -0,0 +1,64 @@
+/**
+ * ✅ ENTELECHIA: JUnit Reporter Tests
+ *
+ * PROPERTIES TESTED:
+ * - One testcase per phase, failed or skipped like the phase
+ * - One testcase per validated FORM file, failed by errors located in it
+ * - Messages are escaped
+ */
+
+import { describe, it, expect } from 'vitest'
+import { toJUnitXml } from '../index.js'
+import { DiagnosticCodes } from '../../diagnostics/index.js'
+import type { PipelineResult } from '../../pipeline/types.js'
+
+const RESULT: Pick<PipelineResult, 'totalDuration' | 'phases' | 'diagnostics'> = {
+  totalDuration: 1500,
+  phases: [
+    {
+      phase: 5,
+      name: 'YAML Validation',
+      success: false,
+      errors: ['entelechia-form/forms/user.form.yaml: Unknown field "<age>" [ACT1004]'],
+      warnings: [],
+      diagnostics: [{ code: DiagnosticCodes.FormValidation, severity: 'error', message: 'Unknown field "<age>"', phase: 5 }],
+      duration: 250,
+    },
+    { phase: 6, name: 'Canonicalization', success: true, errors: [], warnings: [], duration: 500 },
+    { phase: 8, name: 'Drift Check', success: false, errors: [], warnings: [], duration: 0, skipped: true, skipReason: 'Upstream phase 5 failed' },
+  ],
+  diagnostics: [
+    {
+      code: DiagnosticCodes.FormValidation,
+      severity: 'error',
+      message: 'Unknown field "<age>"',
+      phase: 5,
+      file: '/workspace/entelechia-form/forms/user.form.yaml',
+    },
+  ],
+}
+
+describe('toJUnitXml', () => {
+  const xml = toJUnitXml(RESULT, {
+    workspaceRoot: '/workspace',
+    formFiles: ['/workspace/entelechia-form/forms/node.form.yaml', '/workspace/entelechia-form/forms/user.form.yaml'],
+  })
+
+  it('should report one testcase per phase', () => {
+    expect(xml).toContain('<testsuites name="act-engine" tests="5" failures="2" errors="0" skipped="1" time="1.500">')
+    expect(xml).toContain('<testsuite name="phases" tests="3" failures="1" errors="0" skipped="1" time="0.750">')
+    expect(xml).toContain('<testcase classname="act-engine.phases" name="Phase 6: Canonicalization" time="0.500"/>')
+    expect(xml).toContain('<skipped message="Upstream phase 5 failed"/>')
+  })
+
+  it('should report one testcase per validated FORM file', () => {
+    expect(xml).toContain('<testsuite name="forms" tests="2" failures="1" errors="0" skipped="0" time="0.000">')
+    expect(xml).toContain('<testcase classname="act-engine.forms" name="entelechia-form/forms/node.form.yaml" time="0.000"/>')
+    expect(xml).toContain('<testcase classname="act-engine.forms" name="entelechia-form/forms/user.form.yaml" time="0.000">')
+  })
+
+  it('should escape messages', () => {
+    expect(xml).toContain('<failure type="ACT1004" message="Unknown field &quot;&lt;age&gt;&quot;">')
+    expect(xml).not.toContain('"<age>"')
+  })
+})
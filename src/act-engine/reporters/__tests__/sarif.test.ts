@@ -0,0 +1,121 @@
+/**
+ * ✅ ENTELECHIA: SARIF Reporter Tests
+ *
+ * PROPERTIES TESTED:
+ * - Every diagnostic becomes one result, located relative to the workspace
+ * - Rule metadata comes from architecture rules and purity guard invariants
+ * - Codes without metadata still resolve to a rule
+ */
+
+import { describe, it, expect } from 'vitest'
+import { toSarifLog, architectureReportRules, purityReportRules, engineReportRules } from '../index.js'
+import { DiagnosticCodes, type Diagnostic } from '../../diagnostics/index.js'
+import type { CanonicalArchitectureRuleDescriptor } from '../../../architecture/architecture-canonicalizer.js'
+import type { CanonicalPurityGuardDescriptor } from '../../../purity-guards/purity-guards-canonicalizer.js'
+
+const ARCHITECTURE_RULE: CanonicalArchitectureRuleDescriptor = {
+  id: 'ARCHITECTURE.F01_NO_DIRECT_FETCH',
+  scope: 'ui',
+  layer: 'build',
+  severity: 'error',
+  matchers: { identifiers: [{ pattern: 'fetch' }] },
+  telosViolated: 'UI must not act',
+  resolutionHint: ['Use an intent', 'Remove fetch'],
+  devtoolsCategory: 'architecture',
+}
+
+const PURITY_GUARD: CanonicalPurityGuardDescriptor = {
+  guardType: 'form',
+  metadata: { version: '1.0.0' },
+  invariants: [{
+    id: 'FORM.F01_NO_HANDWRITTEN_SCHEMA',
+    name: 'No handwritten schema',
+    description: 'Schemas are generated from FORM',
+    severity: 'warn',
+    enforcement: 'build',
+    violations: [{
+      pattern: 'handwritten-schema',
+      matcher: {},
+      telosViolated: 'FORM is the only source of schemas',
+      resolutionSteps: ['Declare the schema in FORM'],
+    }],
+  }],
+}
+
+const DIAGNOSTICS: Diagnostic[] = [
+  {
+    code: 'architecture/ARCHITECTURE.F01_NO_DIRECT_FETCH',
+    severity: 'error',
+    message: 'Architecture violation ARCHITECTURE.F01_NO_DIRECT_FETCH: identifier "fetch"',
+    phase: 1.5,
+    file: 'entelechia-ui/src/App.tsx',
+    range: { start: { line: 12, column: 5 } },
+  },
+  {
+    code: DiagnosticCodes.FormValidation,
+    severity: 'error',
+    message: 'Unknown field "age"',
+    phase: 5,
+    file: '/workspace/entelechia-form/forms/user.create.form.yaml',
+    range: { start: { line: 8, column: 11 }, end: { line: 8, column: 14 } },
+    related: [{ file: '/workspace/entelechia-form/forms/user.create.form.yaml', range: { start: { line: 7, column: 11 } }, message: 'First declared here' }],
+  },
+  { code: DiagnosticCodes.BannerMissing, severity: 'info', message: 'Artifact is missing generation banner' },
+  { code: 'invariant/INV.F01_X', severity: 'warning', message: 'Invariant not enforced', rationale: 'Invariants are enforced' },
+]
+
+describe('toSarifLog', () => {
+  const rules = [
+    ...engineReportRules(),
+    ...architectureReportRules([ARCHITECTURE_RULE]),
+    ...purityReportRules([PURITY_GUARD]),
+  ]
+  const log = toSarifLog({ success: false, diagnostics: DIAGNOSTICS }, { workspaceRoot: '/workspace', rules })
+  const [run] = log.runs
+
+  it('should report one result per diagnostic', () => {
+    expect(log.version).toBe('2.1.0')
+    expect(run.invocations).toEqual([{ executionSuccessful: false }])
+    expect(run.results.map(r => [r.ruleId, r.level])).toEqual([
+      ['architecture/ARCHITECTURE.F01_NO_DIRECT_FETCH', 'error'],
+      [DiagnosticCodes.FormValidation, 'error'],
+      [DiagnosticCodes.BannerMissing, 'note'],
+      ['invariant/INV.F01_X', 'warning'],
+    ])
+    for (const result of run.results) {
+      expect(run.tool.driver.rules[result.ruleIndex].id).toBe(result.ruleId)
+    }
+  })
+
+  it('should locate results relative to the workspace root', () => {
+    expect(run.results[0].locations).toEqual([{
+      physicalLocation: {
+        artifactLocation: { uri: 'entelechia-ui/src/App.tsx', uriBaseId: 'SRCROOT' },
+        region: { startLine: 12, startColumn: 5 },
+      },
+    }])
+    expect(run.results[1].locations?.[0].physicalLocation).toEqual({
+      artifactLocation: { uri: 'entelechia-form/forms/user.create.form.yaml', uriBaseId: 'SRCROOT' },
+      region: { startLine: 8, startColumn: 11, endLine: 8, endColumn: 14 },
+    })
+    expect(run.results[1].relatedLocations?.[0].message).toEqual({ text: 'First declared here' })
+    expect(run.results[2].locations).toBeUndefined()
+  })
+
+  it('should describe rules from architecture rules and purity guards', () => {
+    const byId = new Map(run.tool.driver.rules.map(rule => [rule.id, rule]))
+
+    expect(byId.get('architecture/ARCHITECTURE.F01_NO_DIRECT_FETCH')).toMatchObject({
+      shortDescription: { text: 'UI must not act' },
+      help: { text: '1. Use an intent\n2. Remove fetch' },
+      defaultConfiguration: { level: 'error' },
+    })
+    expect(byId.get('purity/form.FORM.F01_NO_HANDWRITTEN_SCHEMA')).toMatchObject({
+      name: 'No handwritten schema',
+      shortDescription: { text: 'Schemas are generated from FORM' },
+      fullDescription: { text: 'FORM is the only source of schemas' },
+      defaultConfiguration: { level: 'warning' },
+    })
+    expect(byId.get('invariant/INV.F01_X')?.shortDescription.text).toBe('Invariants are enforced')
+  })
+})
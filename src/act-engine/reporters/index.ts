@@ -0,0 +1,22 @@
+/**
+ * ✅ ENTELECHIA: ACT Engine Reporters
+ * 
+ * Main entry point for machine-readable pipeline reports.
+ */
+
+export { toSarifLog, toSarifLevel, SARIF_SCHEMA, type SarifOptions } from './sarif.js'
+export { toJsonReport, getPhaseStatus, ACT_REPORT_VERSION, type JsonReportOptions } from './json.js'
+export { toJUnitXml, listFormFiles, type JUnitOptions } from './junit.js'
+export { loadReportRules, engineReportRules, architectureReportRules, purityReportRules } from './rules.js'
+export type {
+  ReportRule,
+  SarifLog,
+  SarifLevel,
+  SarifResult,
+  ActJsonReport,
+  ActJsonReportSummary,
+  ActJsonPhaseReport,
+  ActJsonChangesReport,
+  ActJsonChangedFile,
+  ActJsonPhaseStatus,
+} from './types.js'
@@ -0,0 +1,142 @@
+/**
+ * ✅ ENTELECHIA: JSON Reporter
+ *
+ * Converts a pipeline result to a stable, versioned JSON report, for
+ * scripts and dashboards.
+ *
+ * PRINCIPLE: The report is a contract; `reportVersion` changes when it breaks.
+ */
+
+import { ACT_ENGINE_VERSION } from '../version.js'
+import type { Diagnostic } from '../diagnostics/index.js'
+import type { PhaseResult, PipelineResult } from '../pipeline/types.js'
+import type { ArtifactChangeSummary } from '../writers/artifact-changes.js'
+import { diffStats, formatUnifiedDiff } from '../writers/diff.js'
+import { toWorkspacePath } from './paths.js'
+import type { ActJsonChangesReport, ActJsonPhaseReport, ActJsonPhaseStatus, ActJsonReport } from './types.js'
+
+export const ACT_REPORT_VERSION = 1
+
+export interface JsonReportOptions {
+  workspaceRoot: string // Paths are reported relative to it
+}
+
+/**
+ * Build a JSON report from a pipeline result
+ */
+export function toJsonReport(
+  result: Pick<PipelineResult, 'success' | 'totalDuration' | 'phases' | 'diagnostics' | 'cache' | 'cancelled' | 'changes'>,
+  options: JsonReportOptions
+): ActJsonReport {
+  const phases = result.phases.map(phase => toPhaseReport(phase, options))
+  const count = (severity: Diagnostic['severity']) => result.diagnostics.filter(d => d.severity === severity).length
+
+  const report: ActJsonReport = {
+    reportVersion: ACT_REPORT_VERSION,
+    engineVersion: ACT_ENGINE_VERSION,
+    success: result.success,
+    totalDuration: result.totalDuration,
+    summary: {
+      phases: phases.length,
+      failed: phases.filter(p => p.status === 'failed').length,
+      skipped: phases.filter(p => p.status === 'skipped').length,
+      cached: phases.filter(p => p.cached).length,
+      errors: count('error'),
+      warnings: count('warning'),
+      infos: count('info'),
+    },
+    phases,
+    diagnostics: result.diagnostics.map(diagnostic => toReportedDiagnostic(diagnostic, options)),
+  }
+  if (result.cache) {
+    report.cache = { ...result.cache }
+  }
+  if (result.cancelled) {
+    report.cancelled = true
+  }
+  if (result.changes) {
+    report.changes = toChangesReport(result.changes, options)
+  }
+  return report
+}
+
+/**
+ * Get the status of a phase
+ *
+ * Cancelled phases did not finish and count as skipped; timed-out phases fail.
+ */
+export function getPhaseStatus(phase: PhaseResult): ActJsonPhaseStatus {
+  if (phase.skipped || phase.cancelled) {
+    return 'skipped'
+  }
+  return phase.success ? 'passed' : 'failed'
+}
+
+function toPhaseReport(phase: PhaseResult, options: JsonReportOptions): ActJsonPhaseReport {
+  const report: ActJsonPhaseReport = {
+    phase: phase.phase,
+    name: phase.name,
+    status: getPhaseStatus(phase),
+    cached: phase.cached === true,
+    duration: phase.duration,
+    errors: phase.errors.length,
+    warnings: phase.warnings.length,
+    artifacts: (phase.artifacts || []).map(artifact => toWorkspacePath(artifact, options.workspaceRoot) ?? artifact),
+  }
+  if (phase.skipReason) {
+    report.skipReason = phase.skipReason
+  }
+  if (phase.cancelled) {
+    report.cancelled = true
+  }
+  if (phase.timedOut) {
+    report.timedOut = true
+  }
+  return report
+}
+
+function toChangesReport(changes: ArtifactChangeSummary, options: JsonReportOptions): ActJsonChangesReport {
+  const { added, modified, unchanged, orphaned, orphansChecked } = changes
+  return {
+    added,
+    modified,
+    unchanged,
+    orphaned,
+    orphansChecked,
+    files: changes.changes.flatMap(change => {
+      if (change.status === 'unchanged') {
+        return []
+      }
+      const path = toWorkspacePath(change.path, options.workspaceRoot) ?? change.path
+      if (change.status === 'orphaned' || !change.diff) {
+        return [{ path, status: change.status, artifactType: change.artifactType }]
+      }
+      const stats = diffStats(change.diff)
+      return [{
+        path,
+        status: change.status,
+        artifactType: change.artifactType,
+        linesAdded: stats.added,
+        linesRemoved: stats.removed,
+        diff: formatUnifiedDiff(change.diff, {
+          oldPath: change.status === 'added' ? '/dev/null' : `a/${path}`,
+          newPath: `b/${path}`,
+        }),
+      }]
+    }),
+  }
+}
+
+function toReportedDiagnostic(diagnostic: Diagnostic, options: JsonReportOptions): Diagnostic {
+  const reported = { ...diagnostic }
+  if (diagnostic.file) {
+    reported.file = toWorkspacePath(diagnostic.file, options.workspaceRoot) ?? diagnostic.file
+  }
+  if (diagnostic.related) {
+    reported.related = diagnostic.related.map(related => ({
+      ...related,
+      file: toWorkspacePath(related.file, options.workspaceRoot) ?? related.file,
+    }))
+  }
+  return reported
+}
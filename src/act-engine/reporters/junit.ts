@@ -0,0 +1,197 @@
+/**
+ * ✅ ENTELECHIA: JUnit Reporter
+ *
+ * Converts a pipeline result to a JUnit XML report, for test dashboards.
+ *
+ * Two suites:
+ * - `phases`: one testcase per phase (failed, skipped or passed)
+ * - `forms`: one testcase per validated FORM file, failed by any error located in it
+ */
+
+import { existsSync, readdirSync, statSync } from 'fs'
+import { join } from 'path'
+import { formatDiagnostic, type Diagnostic } from '../diagnostics/index.js'
+import type { PhaseRegistry } from '../pipeline/registry.js'
+import type { ActEngineConfig, PhaseResult, PipelineResult } from '../pipeline/types.js'
+import { getPhaseStatus } from './json.js'
+import { toWorkspacePath } from './paths.js'
+
+const IGNORED_DIRECTORIES = new Set(['node_modules', 'dist', '.git', '.cache'])
+
+export interface JUnitOptions {
+  workspaceRoot: string // FORM files are named relative to it
+  formFiles?: readonly string[] // Validated FORM files (see `listFormFiles`)
+}
+
+interface TestCase {
+  name: string
+  time: number // seconds
+  failure?: { type: string; message: string; details: string }
+  skipped?: string
+  output?: string
+}
+
+/**
+ * Check whether a path is a FORM (YAML) file
+ */
+function isFormFile(path: string): boolean {
+  return /\.ya?ml$/.test(path)
+}
+
+/**
+ * List the FORM files read by the phases of a registry
+ */
+export function listFormFiles(registry: PhaseRegistry, config: ActEngineConfig): string[] {
+  const files = new Set<string>()
+
+  const visit = (path: string): void => {
+    if (!existsSync(path)) {
+      return
+    }
+    if (statSync(path).isDirectory()) {
+      for (const child of readdirSync(path)) {
+        if (!IGNORED_DIRECTORIES.has(child)) {
+          visit(join(path, child))
+        }
+      }
+    } else if (isFormFile(path)) {
+      files.add(path)
+    }
+  }
+
+  for (const definition of registry.getAll()) {
+    for (const source of definition.sources?.(config) || []) {
+      visit(source)
+    }
+  }
+
+  return Array.from(files).sort()
+}
+
+/**
+ * Build a JUnit XML report from a pipeline result
+ */
+export function toJUnitXml(
+  result: Pick<PipelineResult, 'totalDuration' | 'phases' | 'diagnostics'>,
+  options: JUnitOptions
+): string {
+  const suites = [
+    renderSuite('phases', result.phases.map(toPhaseTestCase)),
+    renderSuite('forms', toFormTestCases(result.diagnostics, options)),
+  ]
+  const totals = {
+    tests: suites.reduce((sum, suite) => sum + suite.tests, 0),
+    failures: suites.reduce((sum, suite) => sum + suite.failures, 0),
+    skipped: suites.reduce((sum, suite) => sum + suite.skipped, 0),
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="act-engine" tests="${totals.tests}" failures="${totals.failures}" errors="0" skipped="${totals.skipped}" time="${(result.totalDuration / 1000).toFixed(3)}">`,
+    ...suites.map(suite => suite.xml),
+    '</testsuites>',
+    '',
+  ].join('\n')
+}
+
+function toPhaseTestCase(phase: PhaseResult): TestCase {
+  const testCase: TestCase = {
+    name: `Phase ${phase.phase}: ${phase.name}`,
+    time: phase.duration / 1000,
+  }
+  const status = getPhaseStatus(phase)
+
+  if (status === 'skipped') {
+    testCase.skipped = phase.skipReason || (phase.cancelled ? 'Cancelled' : 'Skipped')
+  } else if (status === 'failed') {
+    const firstError = (phase.diagnostics || []).find(d => d.severity === 'error')
+    testCase.failure = {
+      type: firstError?.code || 'failed',
+      message: firstError?.message || phase.errors[0] || `Phase ${phase.phase} failed`,
+      details: phase.errors.join('\n\n'),
+    }
+  }
+  if (phase.warnings.length > 0) {
+    testCase.output = phase.warnings.join('\n\n')
+  }
+
+  return testCase
+}
+
+function toFormTestCases(diagnostics: readonly Diagnostic[], options: JUnitOptions): TestCase[] {
+  const byFile = new Map<string, Diagnostic[]>()
+  for (const file of options.formFiles || []) {
+    const workspacePath = toWorkspacePath(file, options.workspaceRoot) ?? file
+    byFile.set(workspacePath, [])
+  }
+  for (const diagnostic of diagnostics) {
+    if (!diagnostic.file || !isFormFile(diagnostic.file)) {
+      continue
+    }
+    const workspacePath = toWorkspacePath(diagnostic.file, options.workspaceRoot) ?? diagnostic.file
+    byFile.set(workspacePath, [...byFile.get(workspacePath) || [], diagnostic])
+  }
+
+  return Array.from(byFile.keys()).sort().map(file => {
+    const fileDiagnostics = byFile.get(file)!
+    const errors = fileDiagnostics.filter(d => d.severity === 'error')
+    const warnings = fileDiagnostics.filter(d => d.severity !== 'error')
+    const testCase: TestCase = { name: file, time: 0 }
+
+    if (errors.length > 0) {
+      testCase.failure = {
+        type: errors[0].code,
+        message: errors[0].message,
+        details: errors.map(formatDiagnostic).join('\n\n'),
+      }
+    }
+    if (warnings.length > 0) {
+      testCase.output = warnings.map(formatDiagnostic).join('\n\n')
+    }
+    return testCase
+  })
+}
+
+function renderSuite(name: string, testCases: TestCase[]) {
+  const failures = testCases.filter(t => t.failure).length
+  const skipped = testCases.filter(t => t.skipped !== undefined).length
+  const time = testCases.reduce((sum, t) => sum + t.time, 0)
+
+  const lines = [
+    `  <testsuite name="${name}" tests="${testCases.length}" failures="${failures}" errors="0" skipped="${skipped}" time="${time.toFixed(3)}">`,
+  ]
+  for (const testCase of testCases) {
+    const attributes = `classname="act-engine.${name}" name="${escapeXml(testCase.name)}" time="${testCase.time.toFixed(3)}"`
+    if (!testCase.failure && testCase.skipped === undefined && !testCase.output) {
+      lines.push(`    <testcase ${attributes}/>`)
+      continue
+    }
+    lines.push(`    <testcase ${attributes}>`)
+    if (testCase.failure) {
+      lines.push(`      <failure type="${escapeXml(testCase.failure.type)}" message="${escapeXml(testCase.failure.message)}">${escapeXml(testCase.failure.details)}</failure>`)
+    }
+    if (testCase.skipped !== undefined) {
+      lines.push(`      <skipped message="${escapeXml(testCase.skipped)}"/>`)
+    }
+    if (testCase.output) {
+      lines.push(`      <system-out>${escapeXml(testCase.output)}</system-out>`)
+    }
+    lines.push('    </testcase>')
+  }
+  lines.push('  </testsuite>')
+
+  return { tests: testCases.length, failures, skipped, xml: lines.join('\n') }
+}
+
+/**
+ * Escape text for XML attributes and content (dropping characters XML cannot carry)
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
@@ -0,0 +1,21 @@
+/**
+ * ✅ ENTELECHIA: Report Paths
+ *
+ * Reports locate files relative to the workspace root, with `/` separators.
+ */
+
+import { isAbsolute, relative } from 'path'
+
+/**
+ * Get a path relative to the workspace root
+ *
+ * Relative paths are already workspace-relative (the CLI runs from the
+ * workspace root). Returns undefined for paths outside the workspace.
+ */
+export function toWorkspacePath(file: string, workspaceRoot: string): string | undefined {
+  const relativePath = isAbsolute(file) ? relative(workspaceRoot, file) : file
+  if (relativePath.startsWith('..') || isAbsolute(relativePath)) {
+    return undefined
+  }
+  return relativePath.split('\\').join('/')
+}
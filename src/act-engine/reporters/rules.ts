@@ -0,0 +1,110 @@
+/**
+ * ✅ ENTELECHIA: Report Rules
+ *
+ * Rule metadata for every diagnostic code: engine codes, canonical
+ * architecture rules and purity guard invariants.
+ *
+ * PRINCIPLE: Rule metadata comes from the same FORM as the checks.
+ */
+
+import { join } from 'path'
+import {
+  loadArchitectureRulesFile,
+  canonicalizeArchitectureRules,
+  type CanonicalArchitectureRuleDescriptor,
+} from '../../architecture/architecture-canonicalizer.js'
+import {
+  loadAllPurityGuards,
+  type CanonicalPurityGuardDescriptor,
+} from '../../purity-guards/purity-guards-canonicalizer.js'
+import {
+  DIAGNOSTIC_DESCRIPTIONS,
+  architectureRuleCode,
+  formatSteps,
+  purityInvariantCode,
+  type DiagnosticCode,
+} from '../diagnostics/index.js'
+import { getFileSystem } from '../fs/index.js'
+import type { ActEngineConfig } from '../pipeline/types.js'
+import type { ReportRule } from './types.js'
+
+/**
+ * Rules for the engine's own codes
+ */
+export function engineReportRules(): ReportRule[] {
+  return (Object.keys(DIAGNOSTIC_DESCRIPTIONS) as DiagnosticCode[]).map(code => ({
+    id: code,
+    description: DIAGNOSTIC_DESCRIPTIONS[code],
+  }))
+}
+
+/**
+ * Rules for canonical architecture rules
+ */
+export function architectureReportRules(rules: readonly CanonicalArchitectureRuleDescriptor[]): ReportRule[] {
+  return rules.map(rule => ({
+    id: architectureRuleCode(rule.id),
+    name: rule.id,
+    description: rule.telosViolated,
+    rationale: rule.telosViolated,
+    hint: formatSteps(rule.resolutionHint),
+    severity: rule.severity === 'error' ? 'error' : 'warning',
+    category: rule.devtoolsCategory,
+  }))
+}
+
+/**
+ * Rules for purity guard invariants
+ *
+ * An invariant detects several violation patterns; each contributes its
+ * telos and resolution steps.
+ */
+export function purityReportRules(guards: Iterable<CanonicalPurityGuardDescriptor>): ReportRule[] {
+  const rules: ReportRule[] = []
+
+  for (const guard of guards) {
+    for (const invariant of guard.invariants) {
+      const teloi = [...new Set(invariant.violations.map(v => v.telosViolated))]
+      const hints = invariant.violations.map(v => `${v.pattern}:\n${formatSteps(v.resolutionSteps)}`)
+      rules.push({
+        id: purityInvariantCode(guard.guardType, invariant.id),
+        name: invariant.name,
+        description: invariant.description,
+        rationale: teloi.join('\n'),
+        hint: hints.join('\n\n'),
+        severity: invariant.severity === 'error' ? 'error' : 'warning',
+        category: `purity/${guard.guardType}`,
+      })
+    }
+  }
+
+  return rules
+}
+
+/**
+ * Load rule metadata from the rule FORMs of a config
+ *
+ * Missing or invalid rule FORMs contribute no rules: the phases that
+ * enforce them already report why.
+ */
+export function loadReportRules(config: Pick<ActEngineConfig, 'architectureDir' | 'purityGuardsDir' | 'fs'>): ReportRule[] {
+  const fs = getFileSystem(config)
+  const rules = engineReportRules()
+
+  const architectureRulesPath = join(config.architectureDir, 'architecture-rules.yaml')
+  if (fs.exists(architectureRulesPath)) {
+    try {
+      rules.push(...architectureReportRules(canonicalizeArchitectureRules(loadArchitectureRulesFile(architectureRulesPath, fs))))
+    } catch {
+      // Reported by Phase 1.5
+    }
+  }
+
+  try {
+    rules.push(...purityReportRules(loadAllPurityGuards(config.purityGuardsDir, fs).values()))
+  } catch {
+    // Reported by Phase 9.0
+  }
+
+  return rules
+}
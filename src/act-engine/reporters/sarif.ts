@@ -0,0 +1,146 @@
+/**
+ * ✅ ENTELECHIA: SARIF Reporter
+ *
+ * Converts pipeline diagnostics to a SARIF 2.1.0 log, for code-review tooling.
+ *
+ * PRINCIPLE: One SARIF result per diagnostic; the diagnostic code is the rule ID.
+ */
+
+import { pathToFileURL } from 'url'
+import { ACT_ENGINE_VERSION } from '../version.js'
+import { toWorkspacePath } from './paths.js'
+import type { Diagnostic, DiagnosticSeverity, SourceRange } from '../diagnostics/index.js'
+import type { PipelineResult } from '../pipeline/types.js'
+import type {
+  ReportRule,
+  SarifLevel,
+  SarifLocation,
+  SarifLog,
+  SarifReportingDescriptor,
+  SarifResult,
+} from './types.js'
+
+export const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json'
+
+const SOURCE_ROOT = 'SRCROOT'
+
+export interface SarifOptions {
+  workspaceRoot: string // Locations are reported relative to it
+  rules?: readonly ReportRule[] // Rule metadata (see `loadReportRules`)
+}
+
+/**
+ * Build a SARIF log from a pipeline result
+ */
+export function toSarifLog(
+  result: Pick<PipelineResult, 'success' | 'diagnostics'>,
+  options: SarifOptions
+): SarifLog {
+  const rules = new Map<string, ReportRule>()
+  for (const rule of options.rules || []) {
+    rules.set(rule.id, rule)
+  }
+  // Codes without metadata (e.g. invariant-engine invariants) are described by their first diagnostic
+  for (const diagnostic of result.diagnostics) {
+    if (!rules.has(diagnostic.code)) {
+      rules.set(diagnostic.code, {
+        id: diagnostic.code,
+        description: diagnostic.rationale || diagnostic.code,
+        hint: diagnostic.hint,
+      })
+    }
+  }
+
+  const ruleIndex = new Map([...rules.keys()].map((id, index) => [id, index]))
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'act-engine',
+          version: ACT_ENGINE_VERSION,
+          rules: [...rules.values()].map(toReportingDescriptor),
+        },
+      },
+      originalUriBaseIds: {
+        [SOURCE_ROOT]: { uri: pathToFileURL(`${options.workspaceRoot}/`).href },
+      },
+      invocations: [{ executionSuccessful: result.success }],
+      results: result.diagnostics.map(diagnostic => toResult(diagnostic, ruleIndex.get(diagnostic.code)!, options)),
+    }],
+  }
+}
+
+/**
+ * Map a severity to a SARIF level
+ */
+export function toSarifLevel(severity: DiagnosticSeverity): SarifLevel {
+  return severity === 'info' ? 'note' : severity
+}
+
+function toReportingDescriptor(rule: ReportRule): SarifReportingDescriptor {
+  const descriptor: SarifReportingDescriptor = {
+    id: rule.id,
+    shortDescription: { text: rule.description },
+  }
+  if (rule.name) {
+    descriptor.name = rule.name
+  }
+  if (rule.rationale && rule.rationale !== rule.description) {
+    descriptor.fullDescription = { text: rule.rationale }
+  }
+  if (rule.hint) {
+    descriptor.help = { text: rule.hint }
+  }
+  if (rule.severity) {
+    descriptor.defaultConfiguration = { level: toSarifLevel(rule.severity) }
+  }
+  if (rule.category) {
+    descriptor.properties = { category: rule.category }
+  }
+  return descriptor
+}
+
+function toResult(diagnostic: Diagnostic, ruleIndex: number, options: SarifOptions): SarifResult {
+  const result: SarifResult = {
+    ruleId: diagnostic.code,
+    ruleIndex,
+    level: toSarifLevel(diagnostic.severity),
+    message: { text: diagnostic.message },
+  }
+
+  if (diagnostic.file) {
+    result.locations = [toLocation(diagnostic.file, diagnostic.range, options)]
+  }
+  if (diagnostic.related && diagnostic.related.length > 0) {
+    result.relatedLocations = diagnostic.related.map((related, id) => ({
+      id,
+      ...toLocation(related.file, related.range, options),
+      ...(related.message ? { message: { text: related.message } } : {}),
+    }))
+  }
+  if (diagnostic.phase !== undefined) {
+    result.properties = { phase: diagnostic.phase }
+  }
+
+  return result
+}
+
+function toLocation(file: string, range: SourceRange | undefined, options: SarifOptions): SarifLocation {
+  const workspacePath = toWorkspacePath(file, options.workspaceRoot)
+  const artifactLocation = workspacePath === undefined
+    ? { uri: pathToFileURL(file).href }
+    : { uri: encodeURI(workspacePath), uriBaseId: SOURCE_ROOT }
+
+  const location: SarifLocation = { physicalLocation: { artifactLocation } }
+  if (range) {
+    location.physicalLocation.region = {
+      startLine: range.start.line,
+      startColumn: range.start.column,
+      ...(range.end ? { endLine: range.end.line, endColumn: range.end.column } : {}),
+    }
+  }
+  return location
+}
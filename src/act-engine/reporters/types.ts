@@ -0,0 +1,145 @@
+/**
+ * ✅ ENTELECHIA: Reporter Types
+ *
+ * Machine-readable reports of pipeline results.
+ */
+
+import type { ActCacheStats } from '../cache/index.js'
+import type { Diagnostic } from '../diagnostics/index.js'
+
+/**
+ * Metadata of a diagnostic code (rule metadata for reports)
+ */
+export interface ReportRule {
+  id: string // Diagnostic code (e.g. ACT7001, architecture/<ruleId>)
+  name?: string
+  description: string
+  rationale?: string // Why the rule exists (e.g. the telos violated)
+  hint?: string // How to resolve a violation
+  severity?: 'error' | 'warning' // Default severity, when the rule declares one
+  category?: string
+}
+
+/**
+ * SARIF 2.1.0 log (the subset emitted by the engine)
+ */
+export interface SarifLog {
+  $schema: string
+  version: '2.1.0'
+  runs: SarifRun[]
+}
+
+export interface SarifRun {
+  tool: {
+    driver: {
+      name: string
+      version: string
+      rules: SarifReportingDescriptor[]
+    }
+  }
+  originalUriBaseIds?: Record<string, { uri: string }>
+  invocations: Array<{ executionSuccessful: boolean }>
+  results: SarifResult[]
+}
+
+export type SarifLevel = 'error' | 'warning' | 'note'
+
+export interface SarifReportingDescriptor {
+  id: string
+  name?: string
+  shortDescription: { text: string }
+  fullDescription?: { text: string }
+  help?: { text: string }
+  defaultConfiguration?: { level: SarifLevel }
+  properties?: { category?: string }
+}
+
+export interface SarifResult {
+  ruleId: string
+  ruleIndex: number
+  level: SarifLevel
+  message: { text: string }
+  locations?: SarifLocation[]
+  relatedLocations?: SarifLocation[]
+  properties?: { phase?: number }
+}
+
+export interface SarifLocation {
+  id?: number
+  physicalLocation: {
+    artifactLocation: { uri: string; uriBaseId?: string }
+    region?: {
+      startLine: number
+      startColumn: number
+      endLine?: number
+      endColumn?: number
+    }
+  }
+  message?: { text: string }
+}
+
+/**
+ * JSON report of a pipeline run
+ *
+ * Paths are relative to the workspace root. Fields are only added within a
+ * `reportVersion`; removing or changing one bumps it.
+ */
+export interface ActJsonReport {
+  reportVersion: number
+  engineVersion: string
+  success: boolean
+  cancelled?: boolean // Run was aborted before every phase settled
+  totalDuration: number // milliseconds
+  summary: ActJsonReportSummary
+  cache?: ActCacheStats
+  phases: ActJsonPhaseReport[] // Dependency order
+  diagnostics: Diagnostic[] // Every diagnostic, in report order (`phase` links it to its phase)
+  changes?: ActJsonChangesReport // Check and dry-run modes
+}
+
+/**
+ * Artifact changes of a check or dry run
+ */
+export interface ActJsonChangesReport {
+  added: number
+  modified: number
+  unchanged: number
+  orphaned: number
+  orphansChecked: boolean // false when not every phase ran (orphans unknown)
+  files: ActJsonChangedFile[] // Added, modified and orphaned artifacts (sorted by path)
+}
+
+export interface ActJsonChangedFile {
+  path: string
+  status: 'added' | 'modified' | 'orphaned'
+  artifactType?: string
+  linesAdded?: number
+  linesRemoved?: number
+  diff?: string // Unified diff
+}
+
+export interface ActJsonReportSummary {
+  phases: number
+  failed: number
+  skipped: number
+  cached: number
+  errors: number
+  warnings: number
+  infos: number
+}
+
+export type ActJsonPhaseStatus = 'passed' | 'failed' | 'skipped'
+
+export interface ActJsonPhaseReport {
+  phase: number
+  name: string
+  status: ActJsonPhaseStatus
+  cached: boolean
+  duration: number // milliseconds
+  skipReason?: string
+  cancelled?: boolean // Interrupted because the run was aborted (status `skipped`)
+  timedOut?: boolean // Interrupted by its timeout budget (status `failed`)
+  errors: number
+  warnings: number // Warnings and infos
+  artifacts: string[]
+}
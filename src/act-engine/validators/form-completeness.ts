@@ -6,17 +6,19 @@
  * Migrated from: scripts/check-form-completeness.ts
  */
 
-import { readdirSync, existsSync, readFileSync } from 'fs'
 import { join } from 'path'
-import { parse } from 'yaml'
 import { FormYamlSchema } from '../../forms/yaml-schema.js'
 import type { ContractDefinition } from '@entelechia/contracts/contracts/metadata/types'
 import { registry } from '@entelechia/invariant-engine'
+import { DiagnosticCollector, DiagnosticCodes, type Diagnostic } from '../diagnostics/index.js'
+import { loadYamlSource } from '../../yaml/index.js'
+import { nodeFileSystem, type ActFileSystem } from '../fs/index.js'
 
 export interface CompletenessCheckResult {
   passed: boolean
   errors: string[]
   warnings: string[]
+  diagnostics: Diagnostic[]
 }
 
 /**
@@ -25,13 +27,15 @@ export interface CompletenessCheckResult {
 export function checkProjectionCapabilities(
   contracts: ContractDefinition[]
 ): CompletenessCheckResult {
-  const errors: string[] = []
-  const warnings: string[] = []
+  const diagnostics = new DiagnosticCollector()
   
   for (const contract of contracts) {
     if (!contract.projectionCapabilities) {
       if (contract.formSchemas && contract.formSchemas.length > 0) {
-        errors.push(`Contract "${contract.name}" has formSchemas but missing projectionCapabilities`)
+        diagnostics.error(
+          DiagnosticCodes.ProjectionCapabilityMissing,
+          `Contract "${contract.name}" has formSchemas but missing projectionCapabilities`
+        )
       }
       continue
     }
@@ -44,7 +48,8 @@ export function checkProjectionCapabilities(
           for (const fieldName of sectionFields) {
             const fieldDef = contract.baseSchema.fields.find(f => f.name === fieldName)
             if (fieldDef && !contract.projectionCapabilities[fieldDef.type]) {
-              errors.push(
+              diagnostics.error(
+                DiagnosticCodes.ProjectionCapabilityMissing,
                 `Field type "${fieldDef.type}" in "${contract.name}.${formSchema.id}" is missing projectionCapabilities`
               )
             }
@@ -55,9 +60,8 @@ export function checkProjectionCapabilities(
   }
   
   return {
-    passed: errors.length === 0,
-    errors,
-    warnings,
+    passed: !diagnostics.hasErrors(),
+    ...diagnostics.toResult(),
   }
 }
 
@@ -66,14 +70,14 @@ export function checkProjectionCapabilities(
  */
 export function checkYamlCoverage(
   contracts: ContractDefinition[],
-  yamlDir: string
+  yamlDir: string,
+  fs: ActFileSystem = nodeFileSystem
 ): CompletenessCheckResult {
-  const errors: string[] = []
-  const warnings: string[] = []
+  const diagnostics = new DiagnosticCollector()
   
-  if (!existsSync(yamlDir)) {
-    warnings.push(`YAML directory does not exist: ${yamlDir}`)
-    return { passed: true, errors, warnings }
+  if (!fs.exists(yamlDir)) {
+    diagnostics.warning(DiagnosticCodes.SourceMissing, 'YAML directory does not exist', { file: yamlDir })
+    return { passed: true, ...diagnostics.toResult() }
   }
   
   for (const contract of contracts) {
@@ -81,17 +85,20 @@ export function checkYamlCoverage(
       for (const formSchema of contract.formSchemas) {
         const yamlFileName = `${contract.name}.${formSchema.id}.form.yaml`
         const yamlFilePath = join(yamlDir, yamlFileName)
-        if (!existsSync(yamlFilePath)) {
-          errors.push(`Missing YAML file for ${contract.name}.${formSchema.id}: ${yamlFileName}`)
+        if (!fs.exists(yamlFilePath)) {
+          diagnostics.error(
+            DiagnosticCodes.FormYamlMissing,
+            `Missing YAML file for ${contract.name}.${formSchema.id}: ${yamlFileName}`,
+            { file: yamlFilePath }
+          )
         }
       }
     }
   }
   
   return {
-    passed: errors.length === 0,
-    errors,
-    warnings,
+    passed: !diagnostics.hasErrors(),
+    ...diagnostics.toResult(),
   }
 }
 
@@ -100,45 +107,53 @@ export function checkYamlCoverage(
  */
 export function checkOrphanYaml(
   contracts: ContractDefinition[],
-  yamlDir: string
+  yamlDir: string,
+  fs: ActFileSystem = nodeFileSystem
 ): CompletenessCheckResult {
-  const errors: string[] = []
-  const warnings: string[] = []
+  const diagnostics = new DiagnosticCollector()
   
-  if (!existsSync(yamlDir)) {
-    return { passed: true, errors, warnings }
+  if (!fs.exists(yamlDir)) {
+    return { passed: true, ...diagnostics.toResult() }
   }
   
-  const yamlFiles = readdirSync(yamlDir).filter(f => f.endsWith('.form.yaml'))
+  const yamlFiles = fs.readdir(yamlDir).filter(f => f.endsWith('.form.yaml'))
   const contractMap = new Map(contracts.map(c => [c.name, c]))
   
   for (const yamlFile of yamlFiles) {
+    const yamlPath = join(yamlDir, yamlFile)
     try {
-      const content = readFileSync(join(yamlDir, yamlFile), 'utf-8')
-      const parsedYaml = FormYamlSchema.parse(parse(content))
+      const source = loadYamlSource(yamlPath, fs)
+      const parsedYaml = source.validate(FormYamlSchema)
       const contractName = parsedYaml.form.contract
       const variantId = parsedYaml.form.variant
       
       const contractMetadata = contractMap.get(contractName)
       if (!contractMetadata) {
-        errors.push(`Orphan YAML file "${yamlFile}": Contract "${contractName}" not found in metadata`)
+        diagnostics.error(
+          DiagnosticCodes.FormYamlOrphan,
+          `Orphan YAML file "${yamlFile}": Contract "${contractName}" not found in metadata`,
+          source.at(['form', 'contract'])
+        )
         continue
       }
       
       if (!contractMetadata.formSchemas || !contractMetadata.formSchemas.some(fs => fs.id === variantId)) {
-        errors.push(
-          `Orphan YAML file "${yamlFile}": Variant "${variantId}" not defined in formSchemas for contract "${contractName}"`
+        diagnostics.error(
+          DiagnosticCodes.FormYamlOrphan,
+          `Orphan YAML file "${yamlFile}": Variant "${variantId}" not defined in formSchemas for contract "${contractName}"`,
+          source.at(['form', 'variant'])
         )
       }
     } catch (e: any) {
-      errors.push(`Failed to parse or validate YAML file "${yamlFile}": ${e.message}`)
+      diagnostics.fromError(e, DiagnosticCodes.YamlParseError, `Failed to parse or validate YAML file "${yamlFile}"`, {
+        file: yamlPath,
+      })
     }
   }
   
   return {
-    passed: errors.length === 0,
-    errors,
-    warnings,
+    passed: !diagnostics.hasErrors(),
+    ...diagnostics.toResult(),
   }
 }
 
@@ -146,13 +161,15 @@ export function checkOrphanYaml(
  * Check invariant reference completeness
  */
 export async function checkInvariantReferences(): Promise<CompletenessCheckResult> {
-  const errors: string[] = []
-  const warnings: string[] = []
+  const diagnostics = new DiagnosticCollector()
   
   try {
     const allIds = registry.getAllInvariantIds()
     if (allIds.length === 0) {
-      errors.push('Invariant engine registry is empty. No invariants registered.')
+      diagnostics.error(
+        DiagnosticCodes.InvariantRegistryEmpty,
+        'Invariant engine registry is empty. No invariants registered.'
+      )
     } else {
       // Check if critical invariants exist
       const criticalInvariants = [
@@ -163,18 +180,17 @@ export async function checkInvariantReferences(): Promise<CompletenessCheckResul
       
       for (const id of criticalInvariants) {
         if (!registry.get(id)) {
-          warnings.push(`Critical invariant ${id} not found in registry`)
+          diagnostics.warning(DiagnosticCodes.InvariantMissing, `Critical invariant ${id} not found in registry`)
         }
       }
     }
   } catch (e: any) {
-    errors.push(`Failed to load invariant engine: ${e.message}`)
+    diagnostics.fromError(e, DiagnosticCodes.ModuleLoadFailed, 'Failed to load invariant engine')
   }
   
   return {
-    passed: errors.length === 0,
-    errors,
-    warnings,
+    passed: !diagnostics.hasErrors(),
+    ...diagnostics.toResult(),
   }
 }
 
@@ -182,32 +198,35 @@ export async function checkInvariantReferences(): Promise<CompletenessCheckResul
  * Check descriptor generation purity
  */
 export function checkDescriptorPurity(
-  formsOutputDir: string
+  formsOutputDir: string,
+  fs: ActFileSystem = nodeFileSystem
 ): CompletenessCheckResult {
-  const errors: string[] = []
-  const warnings: string[] = []
+  const diagnostics = new DiagnosticCollector()
   
-  if (!existsSync(formsOutputDir)) {
-    warnings.push(`Generated forms directory does not exist: ${formsOutputDir}`)
-    return { passed: true, errors, warnings }
+  if (!fs.exists(formsOutputDir)) {
+    diagnostics.warning(DiagnosticCodes.SourceMissing, 'Generated forms directory does not exist', {
+      file: formsOutputDir,
+    })
+    return { passed: true, ...diagnostics.toResult() }
   }
   
-  const generatedFiles = readdirSync(formsOutputDir).filter(f => f.endsWith('.ts'))
+  const generatedFiles = fs.readdir(formsOutputDir).filter(f => f.endsWith('.ts'))
   for (const file of generatedFiles) {
     const filePath = join(formsOutputDir, file)
-    const content = readFileSync(filePath, 'utf-8')
+    const content = fs.readFile(filePath)
     if (
       !content.includes('Generated from backend FORM - DO NOT EDIT MANUALLY') &&
       !content.includes('Generated from YAML + metadata - DO NOT EDIT MANUALLY')
     ) {
-      errors.push(`Generated file "${file}" is missing generation banner`)
+      diagnostics.error(DiagnosticCodes.BannerMissing, `Generated file "${file}" is missing generation banner`, {
+        file: filePath,
+      })
     }
   }
   
   return {
-    passed: errors.length === 0,
-    errors,
-    warnings,
+    passed: !diagnostics.hasErrors(),
+    ...diagnostics.toResult(),
   }
 }
 
@@ -217,40 +236,29 @@ export function checkDescriptorPurity(
 export async function validateFormCompleteness(
   contracts: ContractDefinition[],
   yamlDir: string,
-  formsOutputDir: string
+  formsOutputDir: string,
+  fs: ActFileSystem = nodeFileSystem
 ): Promise<CompletenessCheckResult> {
-  const allErrors: string[] = []
-  const allWarnings: string[] = []
+  const diagnostics = new DiagnosticCollector()
   
   // Check 1: ProjectionCapabilities
-  const check1 = checkProjectionCapabilities(contracts)
-  allErrors.push(...check1.errors)
-  allWarnings.push(...check1.warnings)
+  diagnostics.addAll(checkProjectionCapabilities(contracts).diagnostics)
   
   // Check 2: YAML Coverage
-  const check2 = checkYamlCoverage(contracts, yamlDir)
-  allErrors.push(...check2.errors)
-  allWarnings.push(...check2.warnings)
+  diagnostics.addAll(checkYamlCoverage(contracts, yamlDir, fs).diagnostics)
   
   // Check 3: Orphan YAML
-  const check3 = checkOrphanYaml(contracts, yamlDir)
-  allErrors.push(...check3.errors)
-  allWarnings.push(...check3.warnings)
+  diagnostics.addAll(checkOrphanYaml(contracts, yamlDir, fs).diagnostics)
   
   // Check 4: Invariant References
-  const check4 = await checkInvariantReferences()
-  allErrors.push(...check4.errors)
-  allWarnings.push(...check4.warnings)
+  diagnostics.addAll((await checkInvariantReferences()).diagnostics)
   
   // Check 5: Descriptor Purity
-  const check5 = checkDescriptorPurity(formsOutputDir)
-  allErrors.push(...check5.errors)
-  allWarnings.push(...check5.warnings)
+  diagnostics.addAll(checkDescriptorPurity(formsOutputDir, fs).diagnostics)
   
   return {
-    passed: allErrors.length === 0,
-    errors: allErrors,
-    warnings: allWarnings,
+    passed: !diagnostics.hasErrors(),
+    ...diagnostics.toResult(),
   }
 }
 
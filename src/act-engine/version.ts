@@ -0,0 +1,15 @@
+/**
+ * ✅ ENTELECHIA: ACT Engine Version
+ * 
+ * Version of the engine itself. Part of every cache key, so cached
+ * phase results and generated content never survive an engine upgrade.
+ */
+
+export const ACT_ENGINE_VERSION = '0.1.0'
+
+/**
+ * Version of the canonical descriptor shapes generated artifacts follow.
+ * Bumped when a generated descriptor changes shape, so banners tell which
+ * shape an artifact was generated with.
+ */
+export const DESCRIPTOR_SCHEMA_VERSION = 1
@@ -0,0 +1,76 @@
+/**
+ * ✅ ENTELECHIA: Artifact Change Summary Tests
+ *
+ * PROPERTIES TESTED:
+ * - Dry runs classify artifacts as added, modified or unchanged without writing
+ * - Timestamp-only differences are unchanged
+ * - Generated files no artifact event mentioned are orphans; hand-written files never are
+ * - Only output directories the run generated into are searched for orphans
+ */
+
+import { describe, it, expect } from 'vitest'
+import { PipelineEventEmitter } from '../../events/index.js'
+import { MemoryFileSystem } from '../../fs/index.js'
+import { DeterministicWriter } from '../deterministic-writer.js'
+import { generateBanner } from '../banners.js'
+import { ArtifactChangeCollector, artifactOutputDirs, listGeneratedFiles } from '../artifact-changes.js'
+import { defaultActConfig } from '../../config/index.js'
+
+const banner = { source: 'YAML + metadata' }
+
+function generated(content: string): string {
+  return `${generateBanner(banner)}\n\n${content}`
+}
+
+// Content embedding its generation time (e.g. plugin generators)
+function stamped(date: string): string {
+  return `/**\n * Generated: ${date}\n */\nexport const same = 1\n`
+}
+
+describe('ArtifactChangeCollector', () => {
+  it('should summarize a dry run', () => {
+    const fs = new MemoryFileSystem({
+      '/out/same.ts': generated(stamped('1970-01-02T00:00:00.000Z')),
+      '/out/changed.ts': generated('export const changed = 1\n'),
+      '/out/stale.ts': generated('export const stale = 1\n'),
+      '/out/hand-written.ts': 'export const mine = 1\n',
+    })
+    const events = new PipelineEventEmitter()
+    const collector = new ArtifactChangeCollector()
+    events.on(event => collector.record(event))
+    const writer = new DeterministicWriter(events.forPhase(7), fs)
+    const options = { banner, type: 'form' as const, dryRun: true }
+
+    writer.writeFile('/out/same.ts', stamped('1970-01-01T00:00:00.000Z'), options)
+    const changed = writer.writeFile('/out/changed.ts', 'export const changed = 2\n', options)
+    writer.writeFile('/out/new.ts', 'export const created = 1\n', options)
+
+    const summary = collector.summarize(listGeneratedFiles(['/out'], fs))
+
+    expect(summary).toMatchObject({ added: 1, modified: 1, unchanged: 1, orphaned: 1, orphansChecked: true })
+    expect(summary.changes.map(change => [change.path, change.status])).toEqual([
+      ['/out/changed.ts', 'modified'],
+      ['/out/new.ts', 'added'],
+      ['/out/same.ts', 'unchanged'],
+      ['/out/stale.ts', 'orphaned'],
+    ])
+    expect(changed.diff?.filter(line => line.type !== 'equal').map(line => line.line)).toEqual([
+      'export const changed = 1',
+      'export const changed = 2',
+    ])
+    expect(summary.changes[0].phase).toBe(7)
+    expect(fs.getWrittenFiles().size).toBe(0)
+  })
+
+  it('should not report orphans without the generated file list', () => {
+    const summary = new ArtifactChangeCollector().summarize()
+
+    expect(summary).toMatchObject({ orphaned: 0, orphansChecked: false, changes: [] })
+  })
+
+  it('should only search the output directories the run generated into', () => {
+    const config = { ...defaultActConfig('/repo'), formsOutputDir: '/repo/forms', routesDir: '/repo/routes' }
+
+    expect(artifactOutputDirs(config, ['/repo/forms/node.ts', '/repo/forms-extra/node.ts', '/repo/routes.ts'])).toEqual(['/repo/forms'])
+  })
+})
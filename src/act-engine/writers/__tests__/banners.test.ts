@@ -0,0 +1,62 @@
+/**
+ * ✅ ENTELECHIA: Generation Banner Tests
+ *
+ * PROPERTIES TESTED:
+ * - The same FORM generates byte-identical artifacts, in any checkout
+ * - Banners record workspace-relative sources and the hash of their content
+ * - Provenance is read back from banners
+ */
+
+import { describe, it, expect } from 'vitest'
+import { MemoryFileSystem } from '../../fs/index.js'
+import { ACT_ENGINE_VERSION, DESCRIPTOR_SCHEMA_VERSION } from '../../version.js'
+import { DeterministicWriter } from '../deterministic-writer.js'
+import { generateBanner, isGeneratedContent, readBannerProvenance } from '../banners.js'
+
+function generate(root: string, yaml: string): string {
+  const fs = new MemoryFileSystem({ 'ui/forms/node.form.yaml': yaml }, { root })
+  const writer = new DeterministicWriter(undefined, fs, root)
+  writer.writeFile(`${root}/ui/generated/node.form.ts`, 'export const node = 1\n', {
+    banner: { source: 'YAML + metadata', contract: 'Node', sources: [`${root}/ui/forms/node.form.yaml`] },
+    type: 'form',
+  })
+  return fs.readFile(`${root}/ui/generated/node.form.ts`)
+}
+
+describe('generation banners', () => {
+  it('should generate the same bytes from the same FORM', () => {
+    const content = generate('/checkout-a', 'form: node')
+
+    expect(generate('/checkout-b', 'form: node')).toBe(content)
+    expect(generate('/checkout-a', 'form: node, edited')).not.toBe(content)
+    expect(content).not.toMatch(/\d{4}-\d{2}-\d{2}T/)
+  })
+
+  it('should read provenance back from the banner', () => {
+    const content = generate('/ws', 'form: node')
+
+    expect(readBannerProvenance(content)).toEqual({
+      source: 'YAML + metadata',
+      sources: ['ui/forms/node.form.yaml'],
+      sourceHash: expect.stringMatching(/^[0-9a-f]{64}$/),
+      engineVersion: ACT_ENGINE_VERSION,
+      schemaVersion: DESCRIPTOR_SCHEMA_VERSION,
+    })
+    expect(readBannerProvenance(generate('/ws', 'form: other'))?.sourceHash).not.toBe(
+      readBannerProvenance(content)?.sourceHash
+    )
+  })
+
+  it('should read banners without sources, and no provenance from hand-written files', () => {
+    const banner = generateBanner({ source: 'metadata' })
+
+    expect(isGeneratedContent(banner)).toBe(true)
+    expect(readBannerProvenance(banner)).toEqual({
+      source: 'metadata',
+      sources: [],
+      engineVersion: ACT_ENGINE_VERSION,
+      schemaVersion: DESCRIPTOR_SCHEMA_VERSION,
+    })
+    expect(readBannerProvenance('export const mine = 1\n')).toBeUndefined()
+  })
+})
@@ -0,0 +1,108 @@
+/**
+ * ✅ ENTELECHIA: Generated Code Validation Tests
+ *
+ * PROPERTIES TESTED:
+ * - Code that does not parse is reported and never written
+ * - The generated set typechecks as one program, against generated contracts
+ * - Relative imports that cannot be resolved are errors; uninstalled packages are not
+ * - Generated files are checked with the compiler options of the package they belong to
+ * - A project typecheck tells generated files and the files importing them apart
+ * - A project typecheck stops once its signal is aborted
+ */
+
+import { describe, it, expect } from 'vitest'
+import { MemoryFileSystem } from '../../fs/index.js'
+import { DeterministicWriter } from '../deterministic-writer.js'
+import { parseGeneratedCode, typecheckGeneratedCode, typecheckProject } from '../code-validator.js'
+
+const CONTRACT = '/ws/shared/contracts/node.contract.ts'
+const FORM = '/ws/ui/generated/node.form.ts'
+
+describe('generated code validation', () => {
+  it('should report code that does not parse and never write it', () => {
+    const fs = new MemoryFileSystem()
+    const writer = new DeterministicWriter(undefined, fs, '/ws')
+
+    expect(parseGeneratedCode(FORM, 'export const node = {\n')).toEqual([
+      expect.objectContaining({ file: FORM, kind: 'syntax', code: 1005, range: expect.objectContaining({ start: { line: 2, column: 1 } }) }),
+    ])
+    expect(parseGeneratedCode(FORM, 'export const node = {}\n')).toEqual([])
+
+    const result = writer.writeFile(FORM, 'export const node = {\n', {
+      banner: { source: 'YAML' },
+      type: 'form',
+      validateCode: true,
+    })
+    expect(result).toMatchObject({ success: false, written: false, problems: [expect.objectContaining({ kind: 'syntax' })] })
+    expect(fs.exists(FORM)).toBe(false)
+  })
+
+  it('should typecheck generated files against the generated contracts', () => {
+    const fs = new MemoryFileSystem()
+    const contract = 'export interface Node { id: string }\n'
+    const form = "import type { Node } from '@entelechia/contracts/contracts/node.contract'\nexport const node: Node = { id: 1 }\n"
+    const paths = { '@entelechia/contracts/contracts/*': ['/ws/shared/contracts/*'] }
+
+    const problems = typecheckGeneratedCode(new Map([[CONTRACT, contract], [FORM, form]]), { fs, paths })
+
+    expect(problems).toEqual([
+      expect.objectContaining({ file: FORM, kind: 'type', code: 2322, range: expect.objectContaining({ start: { line: 2, column: 29 } }) }),
+    ])
+    expect(typecheckGeneratedCode(new Map([[CONTRACT, contract], [FORM, form.replace('1', "'1'")]]), { fs, paths })).toEqual([])
+  })
+
+  it('should report unresolved relative imports but not uninstalled packages', () => {
+    const fs = new MemoryFileSystem({ '/ws/ui/src/hooks.ts': 'export const useNode = (): number => 1\n' })
+    const files = (code: string) => new Map([[FORM, code]])
+
+    expect(typecheckGeneratedCode(files("import { useNode } from '../src/hooks.js'\nexport const id: number = useNode()\n"), { fs })).toEqual([])
+    expect(typecheckGeneratedCode(files("import { z } from 'not-installed'\nexport const schema = z.string()\n"), { fs })).toEqual([])
+    expect(typecheckGeneratedCode(files("import { useNode } from '../src/missing.js'\nexport const id = useNode\n"), { fs })).toEqual([
+      expect.objectContaining({ file: FORM, kind: 'type', code: 2307 }),
+    ])
+  })
+
+  it('should typecheck generated files with the tsconfig of their package', () => {
+    const fs = new MemoryFileSystem({
+      '/ws/core/tsconfig.json': JSON.stringify({ compilerOptions: { strict: true, types: ['vitest/globals'] } }),
+      '/ws/core/node_modules/vitest/package.json': JSON.stringify({ name: 'vitest', version: '1.0.0' }),
+      '/ws/core/node_modules/vitest/globals.d.ts': 'declare global {\n  function it(name: string, fn: () => void): void\n}\nexport {}\n',
+    })
+    const test = "it('creates a node', () => {})\n"
+
+    expect(typecheckGeneratedCode(new Map([['/ws/core/tests/node.test.ts', test]]), { fs })).toEqual([])
+    expect(typecheckGeneratedCode(new Map([['/ws/other/tests/node.test.ts', test]]), { fs })).toEqual([
+      expect.objectContaining({ file: '/ws/other/tests/node.test.ts', code: 2593 }),
+    ])
+  })
+
+  it('should typecheck a project reading generated artifacts not written yet', async () => {
+    const fs = new MemoryFileSystem({
+      '/ws/ui/tsconfig.json': JSON.stringify({ compilerOptions: { strict: true, types: [] }, files: ['src/page.ts', 'src/other.ts'] }),
+      '/ws/ui/src/page.ts': "import { node } from '../generated/node.form.js'\nexport const id: number = node.id\n",
+      '/ws/ui/src/other.ts': 'export const count: number = "1"\n',
+    })
+    const generated = new Map([[FORM, '/**\n * Generated from YAML - DO NOT EDIT MANUALLY\n */\nexport const node = { id: \'1\' }\n']])
+
+    const typecheck = await typecheckProject('/ws/ui/tsconfig.json', { fs, generated })
+
+    expect(typecheck.problems).toEqual([
+      expect.objectContaining({ file: '/ws/ui/src/other.ts', code: 2322 }),
+      expect.objectContaining({ file: '/ws/ui/src/page.ts', code: 2322 }),
+    ])
+    expect(typecheck.generatedFiles).toEqual(new Set([FORM]))
+    expect(typecheck.imports.get('/ws/ui/src/page.ts')).toEqual([FORM])
+    expect(typecheck.imports.get('/ws/ui/src/other.ts')).toEqual([])
+  })
+
+  it('should stop a project typecheck once its signal is aborted', async () => {
+    const fs = new MemoryFileSystem({
+      '/ws/ui/tsconfig.json': JSON.stringify({ compilerOptions: { types: [] }, files: ['src/page.ts'] }),
+      '/ws/ui/src/page.ts': 'export const id = 1\n',
+    })
+    const controller = new AbortController()
+    controller.abort(new Error('Cancelled'))
+
+    await expect(typecheckProject('/ws/ui/tsconfig.json', { fs, signal: controller.signal })).rejects.toThrow('Cancelled')
+  })
+})
@@ -0,0 +1,86 @@
+/**
+ * ✅ ENTELECHIA: Artifact Diff Tests
+ *
+ * PROPERTIES TESTED:
+ * - Diffs reconstruct both versions exactly
+ * - Only changed lines are reported
+ * - Ignored lines (generation timestamps) never count as changes
+ * - Unified diffs carry hunk headers and context like `diff -u`
+ */
+
+import { describe, it, expect } from 'vitest'
+import { diffLines, diffStats, formatUnifiedDiff, hasChanges, type DiffLine } from '../diff.js'
+import { isGenerationTimestampLine } from '../banners.js'
+
+function oldSide(diff: DiffLine[]): string {
+  return diff.filter(line => line.type !== 'add').map(line => line.line).join('\n')
+}
+
+function newSide(diff: DiffLine[]): string {
+  return diff.filter(line => line.type !== 'remove').map(line => line.line).join('\n')
+}
+
+describe('diffLines', () => {
+  it('should reconstruct both versions', () => {
+    const before = ['import { z } from "zod"', 'export const a = 1', 'export const b = 2', ''].join('\n')
+    const after = ['import { z } from "zod"', 'export const b = 3', 'export const c = 4', ''].join('\n')
+
+    const diff = diffLines(before, after)
+
+    expect(oldSide(diff)).toBe(before.trimEnd())
+    expect(newSide(diff)).toBe(after.trimEnd())
+  })
+
+  it('should report only changed lines with their line numbers', () => {
+    const diff = diffLines('a\nb\nc', 'a\nx\nc')
+
+    expect(diffStats(diff)).toEqual({ added: 1, removed: 1 })
+    expect(diff.filter(line => line.type !== 'equal')).toEqual([
+      { type: 'remove', line: 'b', oldLine: 2 },
+      { type: 'add', line: 'x', newLine: 2 },
+    ])
+  })
+
+  it('should handle empty content', () => {
+    expect(diffStats(diffLines('', 'a\nb'))).toEqual({ added: 2, removed: 0 })
+    expect(diffStats(diffLines('a\nb', ''))).toEqual({ added: 0, removed: 2 })
+    expect(hasChanges(diffLines('', ''))).toBe(false)
+  })
+
+  it('should ignore generation timestamps', () => {
+    const before = '/**\n * Generated: 2025-01-01T00:00:00.000Z\n */\nexport const a = 1'
+    const after = '/**\n * Generated: 2025-06-01T12:30:00.000Z\n */\nexport const a = 1'
+
+    expect(hasChanges(diffLines(before, after))).toBe(true)
+    expect(hasChanges(diffLines(before, after, { ignore: isGenerationTimestampLine }))).toBe(false)
+  })
+})
+
+describe('formatUnifiedDiff', () => {
+  it('should format hunks with context', () => {
+    const before = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10'].join('\n')
+    const after = ['1', '2', 'three', '4', '5', '6', '7', '8', '9', '10', '11'].join('\n')
+
+    const unified = formatUnifiedDiff(diffLines(before, after), { oldPath: 'a/x.ts', newPath: 'b/x.ts', context: 1 })
+
+    expect(unified).toBe([
+      '--- a/x.ts',
+      '+++ b/x.ts',
+      '@@ -2,3 +2,3 @@',
+      ' 2',
+      '-3',
+      '+three',
+      ' 4',
+      '@@ -10,1 +10,2 @@',
+      ' 10',
+      '+11',
+    ].join('\n'))
+  })
+
+  it('should format new files and unchanged content', () => {
+    expect(formatUnifiedDiff(diffLines('', 'a\nb'), { newPath: 'b/x.ts' })).toBe(
+      ['--- /dev/null', '+++ b/x.ts', '@@ -0,0 +1,2 @@', '+a', '+b'].join('\n')
+    )
+    expect(formatUnifiedDiff(diffLines('a', 'a'))).toBe('')
+  })
+})
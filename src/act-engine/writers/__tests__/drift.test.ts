@@ -0,0 +1,83 @@
+/**
+ * ✅ ENTELECHIA: Artifact Drift Classification Tests
+ *
+ * PROPERTIES TESTED:
+ * - Artifacts are in sync, stale, hand-edited or missing
+ * - Hand edits carry a line diff from the generated content (or the content recorded for the lockfile)
+ * - Without a lockfile entry, the banner's source hash tells stale from hand-edited
+ */
+
+import { describe, it, expect } from 'vitest'
+import { MemoryFileSystem } from '../../fs/index.js'
+import { PipelineEventEmitter } from '../../events/index.js'
+import { DeterministicWriter } from '../deterministic-writer.js'
+import { recordGeneratedArtifact, type LockedArtifacts } from '../lockfile.js'
+import { classifyArtifactDrift } from '../drift.js'
+
+const ARTIFACT = '/ws/ui/generated/node.form.ts'
+
+/**
+ * Generate the form artifact from its YAML source
+ *
+ * @returns The generated content and its lockfile entry
+ */
+function generate(fs: MemoryFileSystem, body: string, checkMode = false) {
+  const locked: LockedArtifacts = new Map()
+  const events = new PipelineEventEmitter()
+  events.on(event => recordGeneratedArtifact(locked, event))
+  const result = new DeterministicWriter(events, fs, '/ws').writeFile(ARTIFACT, body, {
+    banner: { source: 'YAML', sources: ['/ws/ui/forms/node.form.yaml'] },
+    type: 'form',
+    checkMode,
+  })
+  return { content: result.content!, locked: locked.get(ARTIFACT)! }
+}
+
+describe('artifact drift', () => {
+  it('should classify in sync, stale, hand-edited and missing artifacts', () => {
+    const fs = new MemoryFileSystem({ 'ui/forms/node.form.yaml': 'form: node' }, { root: '/ws' })
+    const { locked } = generate(fs, 'export const node = 1\n')
+
+    expect(classifyArtifactDrift(ARTIFACT, generate(fs, 'export const node = 1\n', true).content, locked, '/ws', fs))
+      .toEqual({ path: ARTIFACT, status: 'in-sync' })
+
+    fs.writeFile('/ws/ui/forms/node.form.yaml', 'form: node, edited')
+    const regenerated = generate(fs, 'export const node = 2\n', true).content
+    expect(classifyArtifactDrift(ARTIFACT, regenerated, locked, '/ws', fs))
+      .toEqual({ path: ARTIFACT, status: 'stale', sources: ['ui/forms/node.form.yaml'] })
+
+    fs.deleteFile(ARTIFACT)
+    expect(classifyArtifactDrift(ARTIFACT, regenerated, locked, '/ws', fs)).toEqual({ path: ARTIFACT, status: 'missing' })
+  })
+
+  it('should attach a line diff to hand edits', () => {
+    const fs = new MemoryFileSystem({ 'ui/forms/node.form.yaml': 'form: node' }, { root: '/ws' })
+    const { content, locked } = generate(fs, 'export const node = 1\n')
+    fs.writeFile(ARTIFACT, content.replace('node = 1', 'node = 42'))
+
+    const drift = classifyArtifactDrift(ARTIFACT, content, locked, '/ws', fs)
+
+    expect(drift.status).toBe('hand-edited')
+    expect(drift.diff?.filter(line => line.type !== 'equal')).toEqual([
+      expect.objectContaining({ type: 'remove', line: 'export const node = 1' }),
+      expect.objectContaining({ type: 'add', line: 'export const node = 42' }),
+    ])
+    expect(classifyArtifactDrift(ARTIFACT, undefined, locked, '/ws', fs)).toEqual({ path: ARTIFACT, status: 'hand-edited' })
+    expect(classifyArtifactDrift(ARTIFACT, undefined, locked, '/ws', fs, content).diff?.filter(line => line.type !== 'equal')).toEqual([
+      expect.objectContaining({ type: 'remove', line: 'export const node = 1' }),
+      expect.objectContaining({ type: 'add', line: 'export const node = 42' }),
+    ])
+  })
+
+  it('should tell stale from hand-edited artifacts by their banner without a lockfile entry', () => {
+    const fs = new MemoryFileSystem({ 'ui/forms/node.form.yaml': 'form: node' }, { root: '/ws' })
+    const { content } = generate(fs, 'export const node = 1\n')
+    fs.writeFile(ARTIFACT, content.replace('node = 1', 'node = 42'))
+
+    expect(classifyArtifactDrift(ARTIFACT, content, undefined, '/ws', fs).status).toBe('hand-edited')
+
+    fs.writeFile('/ws/ui/forms/node.form.yaml', 'form: node, edited')
+    const regenerated = generate(fs, 'export const node = 2\n', true).content
+    expect(classifyArtifactDrift(ARTIFACT, regenerated, undefined, '/ws', fs).status).toBe('stale')
+  })
+})
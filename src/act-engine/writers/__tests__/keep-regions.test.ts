@@ -0,0 +1,71 @@
+/**
+ * ✅ ENTELECHIA: Preserved Regions Tests
+ *
+ * PROPERTIES TESTED:
+ * - Hand-written code in preserved regions survives regeneration verbatim
+ * - Preserved code is not drift and not part of the artifact hash
+ * - Regions holding code whose anchor is no longer generated are reported, not lost
+ * - Unbalanced, nested and duplicate markers are rejected, with the line of the marker
+ */
+
+import { describe, it, expect } from 'vitest'
+import { MemoryFileSystem } from '../../fs/index.js'
+import { DeterministicWriter } from '../deterministic-writer.js'
+import { hashArtifactContent, parseKeepRegions } from '../keep-regions.js'
+
+const SERVICE = '/ws/core/services/node.service.ts'
+
+const generated = (body: string) =>
+  `export const transform = (value: number) => ${body}\n\n// act:keep-begin hooks\n// act:keep-end\n`
+
+describe('preserved regions', () => {
+  it('should carry hand-written code over across regenerations', () => {
+    const fs = new MemoryFileSystem()
+    const writer = new DeterministicWriter(undefined, fs, '/ws')
+    const options = { banner: { source: 'metadata' }, type: 'service' as const }
+    const first = writer.writeFile(SERVICE, generated('value'), options).content!
+    const hook = 'export const audit = () => {\n  console.log(\'changed\')\n}'
+    fs.writeFile(SERVICE, first.replace('// act:keep-begin hooks\n', `// act:keep-begin hooks\n${hook}\n`))
+
+    expect(writer.writeFile(SERVICE, generated('value'), { ...options, checkMode: true })).toMatchObject({ success: true, hasDrift: false })
+
+    const result = writer.writeFile(SERVICE, generated('value * 2'), options)
+
+    expect(result.written).toBe(true)
+    expect(fs.readFile(SERVICE)).toContain(`value * 2\n\n// act:keep-begin hooks\n${hook}\n// act:keep-end\n`)
+    expect(result.provenance?.hash).toBe(hashArtifactContent(writer.writeFile('/ws/fresh.ts', generated('value * 2'), options).content!))
+  })
+
+  it('should not write an artifact whose region holding code is no longer generated', () => {
+    const existing = '// act:keep-begin hooks\nexport const audit = 1\n// act:keep-end\n// act:keep-begin empty\n// act:keep-end\n'
+    const fs = new MemoryFileSystem({ [SERVICE]: existing })
+    const writer = new DeterministicWriter(undefined, fs, '/ws')
+
+    const result = writer.writeFile(SERVICE, 'export const transform = 1\n', { banner: { source: 'metadata' }, type: 'service' })
+
+    expect(result).toMatchObject({ success: false, written: false, droppedRegions: [{ id: 'hooks', start: 1, end: 3 }] })
+    expect(fs.readFile(SERVICE)).toBe(existing)
+  })
+
+  it('should not write an artifact whose markers on disk are broken', () => {
+    const existing = 'export const transform = 1\n\n// act:keep-begin hooks\nexport const audit = 1\n'
+    const fs = new MemoryFileSystem({ [SERVICE]: existing })
+    const writer = new DeterministicWriter(undefined, fs, '/ws')
+
+    const result = writer.writeFile(SERVICE, generated('value'), { banner: { source: 'metadata' }, type: 'service' })
+
+    expect(result).toMatchObject({ success: false, written: false, invalidRegion: { line: 3 } })
+    expect(result.invalidRegion?.message).toContain('has no act:keep-end')
+    expect(fs.readFile(SERVICE)).toBe(existing)
+  })
+
+  it('should reject unbalanced, nested and duplicate markers', () => {
+    expect(() => parseKeepRegions('// act:keep-begin a\n')).toThrow('has no act:keep-end')
+    expect(() => parseKeepRegions('// act:keep-end\n')).toThrow('without act:keep-begin')
+    expect(() => parseKeepRegions('// act:keep-begin a\n// act:keep-begin b\n// act:keep-end\n')).toThrow('nested')
+    expect(() => parseKeepRegions('// act:keep-begin a\n// act:keep-end\n// act:keep-begin a\n// act:keep-end\n')).toThrow('twice')
+    expect(parseKeepRegions('  // act:keep-begin routes\n  fastify.get()\n  // act:keep-end\n')).toEqual([
+      { id: 'routes', lines: ['  fastify.get()'], start: 1, end: 3 },
+    ])
+  })
+})
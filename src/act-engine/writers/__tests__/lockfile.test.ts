@@ -0,0 +1,91 @@
+/**
+ * ✅ ENTELECHIA: Artifact Lockfile Tests
+ *
+ * PROPERTIES TESTED:
+ * - The lockfile round-trips with workspace-relative, sorted paths
+ * - Missing, corrupt or outdated lockfiles read as empty
+ * - Generated artifacts are recorded with their generator, sources and hash
+ * - Orphans are known generated files still on disk that the run did not generate
+ */
+
+import { describe, it, expect } from 'vitest'
+import { MemoryFileSystem } from '../../fs/index.js'
+import { PipelineEventEmitter } from '../../events/index.js'
+import { DeterministicWriter } from '../deterministic-writer.js'
+import {
+  findOrphanedArtifacts,
+  readLockfile,
+  recordGeneratedArtifact,
+  writeLockfile,
+  type LockedArtifacts,
+} from '../lockfile.js'
+
+/**
+ * Generate a form artifact from a YAML source, recording it like a run does
+ */
+function generateForm(fs: MemoryFileSystem): LockedArtifacts {
+  const generated: LockedArtifacts = new Map()
+  const events = new PipelineEventEmitter()
+  events.on(event => recordGeneratedArtifact(generated, event))
+  new DeterministicWriter(events.forPhase(7), fs, '/ws').writeFile('/ws/ui/generated/node.form.ts', 'export const node = 1\n', {
+    banner: { source: 'YAML', sources: ['/ws/ui/forms/node.form.yaml'] },
+    type: 'form',
+    generator: 'generateFormCode',
+  })
+  return generated
+}
+
+describe('artifact lockfile', () => {
+  it('should round-trip workspace-relative paths', () => {
+    const fs = new MemoryFileSystem()
+    const artifacts: LockedArtifacts = new Map([
+      ['/ws/ui/generated/forms/b.ts', { type: 'form' as const, phase: 7, sources: { 'ui/forms/b.yaml': 'b1', 'ui/forms/a.yaml': 'a1' } }],
+      ['/ws/ui/generated/forms/a.ts', { type: 'form' as const, phase: 7, sources: {} }],
+    ])
+
+    writeLockfile('/ws/act.lock.json', artifacts, '/ws', fs)
+
+    const lockfile = JSON.parse(fs.readFile('/ws/act.lock.json'))
+    expect(Object.keys(lockfile.artifacts)).toEqual(['ui/generated/forms/a.ts', 'ui/generated/forms/b.ts'])
+    expect(Object.keys(lockfile.artifacts['ui/generated/forms/b.ts'].sources)).toEqual(['ui/forms/a.yaml', 'ui/forms/b.yaml'])
+    expect(readLockfile('/ws/act.lock.json', '/ws', fs)).toEqual(artifacts)
+  })
+
+  it('should read missing, corrupt and outdated lockfiles as empty', () => {
+    const fs = new MemoryFileSystem({
+      '/ws/corrupt.json': '{',
+      '/ws/outdated.json': JSON.stringify({ lockfileVersion: 0, artifacts: { 'a.ts': { type: 'form', sources: {} } } }),
+    })
+
+    expect(readLockfile('/ws/missing.json', '/ws', fs).size).toBe(0)
+    expect(readLockfile('/ws/corrupt.json', '/ws', fs).size).toBe(0)
+    expect(readLockfile('/ws/outdated.json', '/ws', fs).size).toBe(0)
+  })
+
+  it('should record the provenance of generated artifacts', () => {
+    const fs = new MemoryFileSystem({ 'ui/forms/node.form.yaml': 'form: node' }, { root: '/ws' })
+
+    const artifact = generateForm(fs).get('/ws/ui/generated/node.form.ts')
+
+    expect(artifact).toEqual({
+      type: 'form',
+      generator: 'generateFormCode',
+      phase: 7,
+      sources: { 'ui/forms/node.form.yaml': expect.stringMatching(/^[0-9a-f]{64}$/) },
+      hash: expect.stringMatching(/^[0-9a-f]{64}$/),
+    })
+  })
+
+  it('should find the known files the run did not generate', () => {
+    const fs = new MemoryFileSystem({ '/out/kept.ts': 'kept', '/out/stale.ts': 'stale' })
+    const generated: LockedArtifacts = new Map()
+    const events = new PipelineEventEmitter()
+    events.on(event => recordGeneratedArtifact(generated, event))
+    events.forPhase(7).emit({ type: 'artifact:written', path: '/out/kept.ts', artifactType: 'form' })
+
+    const orphans = findOrphanedArtifacts(['/out/stale.ts', '/out/kept.ts', '/out/deleted.ts', '/out/stale.ts'], generated, fs)
+
+    expect(orphans).toEqual(['/out/stale.ts'])
+    expect(generated.get('/out/kept.ts')).toEqual({ type: 'form', phase: 7, sources: {} })
+  })
+})
@@ -0,0 +1,159 @@
+/**
+ * ✅ ENTELECHIA: Artifact Change Summary
+ *
+ * What a check or dry run would do to STATE: the artifacts it would add or
+ * modify (with their diffs), the ones already up to date, and generated
+ * files on disk that no generator produced anymore (orphans).
+ */
+
+import { join, resolve, sep } from 'path'
+import type { PipelineEvent } from '../events/index.js'
+import type { ActFileSystem } from '../fs/index.js'
+import type { ActEngineConfig } from '../pipeline/types.js'
+import { isGeneratedContent } from './banners.js'
+import type { ArtifactType } from './deterministic-writer.js'
+import type { DiffLine } from './diff.js'
+
+export type ArtifactChangeStatus = 'added' | 'modified' | 'unchanged' | 'orphaned'
+
+export interface ArtifactChange {
+  path: string
+  status: ArtifactChangeStatus
+  artifactType?: ArtifactType // Unknown for orphans
+  phase?: number // Phase that generated the artifact
+  diff?: DiffLine[] // Added and modified artifacts
+}
+
+export interface ArtifactChangeSummary {
+  added: number
+  modified: number
+  unchanged: number
+  orphaned: number
+  orphansChecked: boolean // false when the run could not produce every artifact (partial, skipped or failed phases)
+  changes: ArtifactChange[] // Sorted by path
+}
+
+/**
+ * Directories never descended into when looking for orphans
+ */
+const IGNORED_DIRECTORIES = new Set(['node_modules', '.git'])
+
+/**
+ * Get the output directories a run generated artifacts into (sorted, without duplicates)
+ *
+ * Configured directories no artifact was written to (e.g. hand-written routes)
+ * are left out, so their files are never taken for orphans.
+ */
+export function artifactOutputDirs(config: ActEngineConfig, generated: Iterable<string>): string[] {
+  const paths = Array.from(generated, path => resolve(path))
+  const dirs = [
+    config.sharedContractsDir,
+    config.migrationsDir,
+    config.servicesDir,
+    config.testsDir,
+    config.formsOutputDir,
+    config.invariantMappingOutputDir,
+    config.navigationOutputDir,
+    config.dashboardsOutputDir,
+    config.invariantsOutputDir,
+    config.commandsOutputDir,
+    config.instrumentationOutputDir,
+    config.intentGraphOutputDir,
+    config.purityGuardsOutputDir,
+  ].filter(dir => {
+    const prefix = resolve(dir) + sep
+    return paths.some(path => path.startsWith(prefix))
+  })
+  return Array.from(new Set(dirs)).sort()
+}
+
+/**
+ * List the files carrying a generation banner under some directories (sorted)
+ *
+ * Hand-written files living next to generated ones are never listed.
+ */
+export function listGeneratedFiles(dirs: readonly string[], fs: ActFileSystem): string[] {
+  const files = new Set<string>()
+
+  const visit = (path: string): void => {
+    if (fs.isDirectory(path)) {
+      for (const entry of fs.readdir(path)) {
+        if (!IGNORED_DIRECTORIES.has(entry)) {
+          visit(join(path, entry))
+        }
+      }
+      return
+    }
+
+    try {
+      if (isGeneratedContent(fs.readFile(path))) {
+        files.add(path)
+      }
+    } catch {
+      // Unreadable files are not ours to judge
+    }
+  }
+
+  for (const dir of dirs) {
+    if (fs.exists(dir)) {
+      visit(dir)
+    }
+  }
+  return Array.from(files).sort()
+}
+
+/**
+ * Collects the artifact events of a check or dry run
+ */
+export class ArtifactChangeCollector {
+  private changes = new Map<string, ArtifactChange>() // Path -> change
+
+  /**
+   * Record a pipeline event (events other than artifact events are ignored)
+   */
+  record(event: PipelineEvent): void {
+    if (event.type === 'artifact:drifted') {
+      this.changes.set(event.path, {
+        path: event.path,
+        status: event.added ? 'added' : 'modified',
+        artifactType: event.artifactType,
+        phase: event.phase,
+        diff: event.diff,
+      })
+    } else if (event.type === 'artifact:unchanged' && !this.changes.has(event.path)) {
+      this.changes.set(event.path, {
+        path: event.path,
+        status: 'unchanged',
+        artifactType: event.artifactType,
+        phase: event.phase,
+      })
+    }
+  }
+
+  /**
+   * Summarize the recorded changes
+   *
+   * @param generated Generated files on disk (see `listGeneratedFiles`); the ones
+   *   no artifact event mentioned are orphans. Omit when the run could not
+   *   produce every artifact.
+   */
+  summarize(generated?: readonly string[]): ArtifactChangeSummary {
+    const changes = Array.from(this.changes.values())
+    for (const path of generated || []) {
+      if (!this.changes.has(path)) {
+        changes.push({ path, status: 'orphaned' })
+      }
+    }
+    changes.sort((a, b) => a.path.localeCompare(b.path))
+
+    const count = (status: ArtifactChangeStatus) => changes.filter(change => change.status === status).length
+    return {
+      added: count('added'),
+      modified: count('modified'),
+      unchanged: count('unchanged'),
+      orphaned: count('orphaned'),
+      orphansChecked: generated !== undefined,
+      changes,
+    }
+  }
+}
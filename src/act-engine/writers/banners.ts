@@ -3,8 +3,14 @@
  * 
  * Standardized banners for all generated files.
  * Ensures STATE files are clearly marked as generated.
+ * 
+ * PRINCIPLE: Same FORM → byte-identical STATE. Banners carry provenance
+ * (sources, source hash, engine and descriptor schema versions), never the
+ * time of generation.
  */
 
+import { ACT_ENGINE_VERSION, DESCRIPTOR_SCHEMA_VERSION } from '../version.js'
+
 export interface BannerOptions {
   source: string // e.g., "metadata", "YAML + metadata", "invariant-engine"
   contract?: string
@@ -12,9 +18,25 @@ export interface BannerOptions {
   variant?: string
   type?: string // e.g., "navigation", "form", "contract"
   artifact?: string // e.g., "ui-realms", "navigation-shells"
-  generatedAt?: Date
+  sources?: string[] // FORM files or directories the artifact is generated from
+  sourceHash?: string // Hash of the sources' content (DeterministicWriter computes it from `sources`)
+  engineVersion?: string // Default: ACT_ENGINE_VERSION
+  schemaVersion?: number // Default: DESCRIPTOR_SCHEMA_VERSION
 }
 
+/**
+ * Provenance read back from a generation banner
+ */
+export interface BannerProvenance {
+  source: string
+  sources: string[]
+  sourceHash?: string
+  engineVersion?: string
+  schemaVersion?: number
+}
+
+const ENGINE_NAME = '@entelechia/act-engine'
+
 /**
  * Generate standard generation banner
  */
@@ -26,7 +48,10 @@ export function generateBanner(options: BannerOptions): string {
     variant,
     type,
     artifact,
-    generatedAt = new Date(),
+    sources = [],
+    sourceHash,
+    engineVersion = ACT_ENGINE_VERSION,
+    schemaVersion = DESCRIPTOR_SCHEMA_VERSION,
   } = options
 
   const lines: string[] = []
@@ -52,7 +77,17 @@ export function generateBanner(options: BannerOptions): string {
     lines.push(` * Artifact: ${artifact}`)
   }
   
-  lines.push(` * Generated: ${generatedAt.toISOString()}`)
+  if (sources.length > 0) {
+    lines.push(' * Sources:')
+    for (const path of sources) {
+      lines.push(` *   - ${path}`)
+    }
+  }
+  if (sourceHash) {
+    lines.push(` * Source hash: ${sourceHash}`)
+  }
+  lines.push(` * Engine: ${ENGINE_NAME}@${engineVersion}`)
+  lines.push(` * Descriptor schema: ${schemaVersion}`)
   lines.push(' * ')
   lines.push(' * This file is STATE - it is generated from FORM.')
   lines.push(' * Any manual edits will be overwritten.')
@@ -64,44 +99,91 @@ export function generateBanner(options: BannerOptions): string {
 /**
  * Banner for contract schemas
  */
-export function contractBanner(contract: string, domain: string, generatedAt?: Date): string {
+export function contractBanner(contract: string, domain: string): string {
   return generateBanner({
     source: 'metadata',
     contract,
     domain,
-    generatedAt,
   })
 }
 
 /**
  * Banner for form descriptors
  */
-export function formBanner(contract: string, variant: string, generatedAt?: Date): string {
+export function formBanner(contract: string, variant: string): string {
   return generateBanner({
     source: 'YAML + metadata',
     contract,
     variant,
-    generatedAt,
   })
 }
 
 /**
  * Banner for invariant mapping
  */
-export function invariantMappingBanner(generatedAt?: Date): string {
+export function invariantMappingBanner(): string {
   return generateBanner({
     source: 'invariant-engine',
-    generatedAt,
   })
 }
 
 /**
  * Banner for form types
  */
-export function formTypesBanner(generatedAt?: Date): string {
+export function formTypesBanner(): string {
   return generateBanner({
     source: 'canonicalizer.ts (descriptor interfaces)',
-    generatedAt,
   })
 }
 
+
+/**
+ * Check whether a line only carries a generation timestamp
+ * 
+ * Artifacts generated by earlier engine versions carry such lines; they are
+ * ignored when comparing artifacts.
+ */
+export function isGenerationTimestampLine(line: string): boolean {
+  return /^\s*\*\s*Generated:/.test(line) || /^\s*\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z\s*$/.test(line)
+}
+
+/**
+ * Check whether content carries a generation banner (written by the engine)
+ */
+export function isGeneratedContent(content: string): boolean {
+  return /^\s*\*\s*Generated from .+ - DO NOT EDIT MANUALLY\s*$/m.test(content.slice(0, 1000))
+}
+
+/**
+ * Read the provenance recorded in a generation banner
+ * 
+ * @returns undefined when the content carries no generation banner
+ */
+export function readBannerProvenance(content: string): BannerProvenance | undefined {
+  const end = content.indexOf('*/')
+  const header = end >= 0 ? content.slice(0, end) : content.slice(0, 1000)
+  const source = /^\s*\*\s*Generated from (.+) - DO NOT EDIT MANUALLY\s*$/m.exec(header)?.[1]
+  if (source === undefined) {
+    return undefined
+  }
+
+  const provenance: BannerProvenance = { source, sources: [] }
+  let inSources = false
+  for (const line of header.split('\n')) {
+    const text = line.replace(/^\s*\*\s?/, '').trimEnd()
+    const entry = /^\s+- (.+)$/.exec(text)
+    if (inSources && entry) {
+      provenance.sources.push(entry[1])
+      continue
+    }
+    inSources = text === 'Sources:'
+    if (text.startsWith('Source hash: ')) {
+      provenance.sourceHash = text.slice('Source hash: '.length)
+    } else if (text.startsWith(`Engine: ${ENGINE_NAME}@`)) {
+      provenance.engineVersion = text.slice(`Engine: ${ENGINE_NAME}@`.length)
+    } else if (text.startsWith('Descriptor schema: ')) {
+      provenance.schemaVersion = Number(text.slice('Descriptor schema: '.length))
+    }
+  }
+  return provenance
+}
@@ -0,0 +1,355 @@
+/**
+ * ✅ ENTELECHIA: Generated Code Validation
+ *
+ * Parses and typechecks generated TypeScript in-process: the generated set
+ * on its own (`validateCode`), so broken output of the string-building
+ * generators never reaches disk, and the projects consuming it (Phase 9).
+ */
+
+import ts from 'typescript'
+import { dirname, isAbsolute, join, resolve, sep } from 'path'
+import type { SourceRange } from '../diagnostics/index.js'
+import { nodeFileSystem, type ActFileSystem } from '../fs/index.js'
+import { abortCheckpoint } from '../pipeline/cancellation.js'
+import { isGeneratedContent } from './banners.js'
+import { hashContent } from './hashing.js'
+
+export interface CodeProblem {
+  file: string
+  message: string
+  code: number // TypeScript diagnostic code (e.g. 2322)
+  kind: 'syntax' | 'type'
+  range?: SourceRange
+}
+
+export interface TypecheckOptions {
+  fs: ActFileSystem // Reads the files generated code imports (hand-written code, installed packages)
+  paths?: Record<string, string[]> // Module specifier patterns -> absolute paths (e.g. a package's generated contracts)
+}
+
+export interface ProjectTypecheckOptions {
+  fs: ActFileSystem // Reads the project (staged artifacts included)
+  generated?: Map<string, string> // Artifacts read instead of their file (e.g. not written yet in check runs)
+  buildInfoFile?: string // Incremental state reused across runs (written to disk)
+  signal?: AbortSignal // Stops the typecheck between source files (nothing is emitted)
+}
+
+/**
+ * Result of typechecking a project
+ */
+export interface ProjectTypecheck {
+  problems: CodeProblem[] // Sorted by file; project-wide problems (e.g. of its tsconfig) are reported on the config file
+  generatedFiles: Set<string> // Project files carrying a generation banner
+  imports: Map<string, string[]> // File with problems -> project files it imports
+}
+
+/**
+ * Compiler options of generated files outside any package with a tsconfig
+ */
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2022,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  jsx: ts.JsxEmit.ReactJSX,
+  lib: ['lib.es2022.d.ts', 'lib.dom.d.ts'],
+  strict: true,
+  esModuleInterop: true,
+  skipLibCheck: true,
+  allowImportingTsExtensions: true,
+  noEmit: true,
+  types: [],
+}
+
+/**
+ * Diagnostics of modules that could not be found
+ */
+const MODULE_NOT_FOUND_CODES = new Set([2307, 2792])
+
+/**
+ * Check whether an artifact is TypeScript (validated by `validateCode`)
+ */
+export function isTypeScriptArtifact(path: string): boolean {
+  return /\.tsx?$/.test(path) && !path.endsWith('.d.ts')
+}
+
+/**
+ * Parse generated code
+ *
+ * @returns Syntax errors (none when the code parses)
+ */
+export function parseGeneratedCode(file: string, content: string): CodeProblem[] {
+  const { diagnostics = [] } = ts.transpileModule(content, {
+    fileName: file,
+    reportDiagnostics: true,
+    compilerOptions: { target: ts.ScriptTarget.ES2022, module: ts.ModuleKind.ESNext, jsx: ts.JsxEmit.Preserve },
+  })
+  return diagnostics
+    .filter(diagnostic => diagnostic.category === ts.DiagnosticCategory.Error)
+    .map(diagnostic => toProblem(diagnostic, 'syntax', file))
+}
+
+/**
+ * Typecheck generated code
+ *
+ * Each generated file is checked with the compiler options of the package it
+ * is generated into (the nearest tsconfig.json, so its ambient types such as
+ * node or vitest globals apply); files of one package form one program.
+ * Generated files are read from `files` (they may not be on disk yet), every
+ * other file through `options.fs`. Packages that are not installed are not
+ * reported: only the generated files' own errors are.
+ *
+ * @param files Generated files (absolute path → content)
+ * @returns Problems in the generated files, sorted by file
+ */
+export function typecheckGeneratedCode(files: Map<string, string>, options: TypecheckOptions): CodeProblem[] {
+  const packages = new Map<string | undefined, string[]>()
+  for (const file of Array.from(files.keys()).map(path => resolve(path)).sort()) {
+    const configFile = findTsconfig(file, options.fs)
+    packages.set(configFile, [...packages.get(configFile) || [], file])
+  }
+
+  const problems: CodeProblem[] = []
+  for (const [configFile, generated] of packages) {
+    const packageOptions = configFile ? readTsconfig(configFile, files, options.fs).parsed.options : COMPILER_OPTIONS
+    const compilerOptions: ts.CompilerOptions = {
+      ...packageOptions,
+      paths: { ...packageOptions.paths, ...options.paths },
+      noEmit: true,
+    }
+    problems.push(...typecheckProgram(generated, compilerOptions, files, options.fs))
+  }
+  return problems.sort((a, b) => a.file.localeCompare(b.file))
+}
+
+/**
+ * Typecheck generated files as one program
+ */
+function typecheckProgram(
+  generated: string[],
+  compilerOptions: ts.CompilerOptions,
+  files: Map<string, string>,
+  fs: ActFileSystem
+): CodeProblem[] {
+  const host = createHost(compilerOptions, files, fs)
+  const program = ts.createProgram(generated, compilerOptions, host)
+  const problems: CodeProblem[] = []
+  for (const file of generated) {
+    const sourceFile = program.getSourceFile(file)
+    if (!sourceFile) continue
+    for (const diagnostic of program.getSyntacticDiagnostics(sourceFile)) {
+      problems.push(toProblem(diagnostic, 'syntax', file))
+    }
+    for (const diagnostic of program.getSemanticDiagnostics(sourceFile)) {
+      if (diagnostic.category === ts.DiagnosticCategory.Error && !isUninstalledPackage(diagnostic)) {
+        problems.push(toProblem(diagnostic, 'type', file))
+      }
+    }
+  }
+  return problems
+}
+
+/**
+ * Typecheck a project with its own tsconfig (e.g. the UI consuming generated STATE)
+ *
+ * With `buildInfoFile`, the program is incremental: files unchanged since
+ * the previous run are not checked again. Source files are checked one at a
+ * time, yielding to the event loop in between, so `signal` can stop it.
+ *
+ * @throws The signal's reason once aborted
+ */
+export async function typecheckProject(configFile: string, options: ProjectTypecheckOptions): Promise<ProjectTypecheck> {
+  const generated = options.generated ?? new Map<string, string>()
+  const { parsed, error } = readTsconfig(configFile, generated, options.fs)
+  const compilerOptions: ts.CompilerOptions = {
+    ...parsed.options,
+    noEmit: true,
+    incremental: options.buildInfoFile !== undefined,
+    tsBuildInfoFile: options.buildInfoFile,
+  }
+  const host = createHost(compilerOptions, generated, options.fs)
+  // Only the build info is ever emitted
+  host.writeFile = (file, content) => {
+    if (file === options.buildInfoFile) {
+      nodeFileSystem.writeFile(file, content)
+    }
+  }
+
+  // Generated files not on disk yet are part of the project too
+  const projectDir = dirname(resolve(configFile)) + sep
+  const rootNames = Array.from(new Set([
+    ...parsed.fileNames.map(file => resolve(file)),
+    ...Array.from(generated.keys()).map(file => resolve(file)).filter(file => file.startsWith(projectDir) && isTypeScriptArtifact(file)),
+  ])).sort()
+  const program = ts.createIncrementalProgram({
+    rootNames,
+    options: compilerOptions,
+    host,
+    configFileParsingDiagnostics: [...error ? [error] : [], ...parsed.errors],
+  })
+
+  const problems: CodeProblem[] = []
+  const report = (diagnostics: readonly ts.Diagnostic[], kind: CodeProblem['kind']) => {
+    for (const diagnostic of diagnostics) {
+      if (diagnostic.category === ts.DiagnosticCategory.Error) {
+        problems.push(toProblem(diagnostic, kind, diagnostic.file ? resolve(diagnostic.file.fileName) : resolve(configFile)))
+      }
+    }
+  }
+  report(program.getConfigFileParsingDiagnostics(), 'type')
+  report(program.getOptionsDiagnostics(), 'type')
+  report(program.getGlobalDiagnostics(), 'type')
+  report(program.getSyntacticDiagnostics(), 'syntax')
+  for (const sourceFile of program.getSourceFiles()) {
+    await abortCheckpoint(options.signal)
+    report(program.getSemanticDiagnostics(sourceFile), 'type')
+  }
+  await abortCheckpoint(options.signal)
+  program.emit()
+  problems.sort((a, b) => a.file.localeCompare(b.file))
+
+  const generatedFiles = new Set<string>()
+  for (const sourceFile of program.getProgram().getSourceFiles()) {
+    if (isGeneratedContent(sourceFile.text)) {
+      generatedFiles.add(resolve(sourceFile.fileName))
+    }
+  }
+  const imports = new Map<string, string[]>()
+  for (const file of new Set(problems.map(problem => problem.file))) {
+    const sourceFile = program.getSourceFile(file)
+    if (sourceFile) {
+      imports.set(file, resolveImports(sourceFile, compilerOptions, host))
+    }
+  }
+  return { problems, generatedFiles, imports }
+}
+
+/**
+ * Find the tsconfig.json of the package a file belongs to
+ */
+function findTsconfig(file: string, fs: ActFileSystem): string | undefined {
+  for (let dir = dirname(file); ; dir = dirname(dir)) {
+    const configFile = join(dir, 'tsconfig.json')
+    if (fs.exists(configFile)) {
+      return configFile
+    }
+    if (dirname(dir) === dir) {
+      return undefined
+    }
+  }
+}
+
+/**
+ * Read and parse a tsconfig (`extends` resolved)
+ */
+function readTsconfig(
+  configFile: string,
+  files: Map<string, string>,
+  fs: ActFileSystem
+): { parsed: ts.ParsedCommandLine; error?: ts.Diagnostic } {
+  const configHost = createHost({}, files, fs)
+  const config = ts.readConfigFile(configFile, path => configHost.readFile(path))
+  const parsed = ts.parseJsonConfigFileContent(
+    config.config ?? {},
+    {
+      useCaseSensitiveFileNames: true,
+      readDirectory: ts.sys.readDirectory,
+      fileExists: configHost.fileExists,
+      readFile: configHost.readFile,
+    },
+    dirname(configFile),
+    undefined,
+    configFile
+  )
+  return { parsed, error: config.error }
+}
+
+/**
+ * Compiler host reading `generated` first, then `fs` (default libraries from the compiler)
+ */
+function createHost(compilerOptions: ts.CompilerOptions, files: Map<string, string>, fs: ActFileSystem): ts.CompilerHost {
+  const generated = new Map(Array.from(files).map(([path, content]) => [resolve(path), content]))
+  const libDir = dirname(ts.getDefaultLibFilePath(compilerOptions))
+
+  const readFile = (path: string): string | undefined => {
+    const absolute = resolve(path)
+    const content = generated.get(absolute)
+    if (content !== undefined) {
+      return content
+    }
+    // Default libraries ship with the compiler, wherever the run reads from
+    if (absolute.startsWith(libDir + sep)) {
+      return ts.sys.readFile(absolute)
+    }
+    return fs.exists(absolute) && !fs.isDirectory(absolute) ? fs.readFile(absolute) : undefined
+  }
+
+  const host = ts.createCompilerHost(compilerOptions)
+  host.readFile = readFile
+  host.fileExists = path => readFile(path) !== undefined
+  host.directoryExists = path => {
+    const prefix = resolve(path) + sep
+    return fs.isDirectory(path) || Array.from(generated.keys()).some(file => file.startsWith(prefix))
+  }
+  host.getSourceFile = (fileName, languageVersion) => {
+    const content = readFile(fileName)
+    if (content === undefined) {
+      return undefined
+    }
+    // Incremental programs compare versions to find the files that changed
+    const sourceFile: ts.SourceFile & { version?: string } = ts.createSourceFile(fileName, content, languageVersion, true)
+    sourceFile.version = hashContent(content)
+    return sourceFile
+  }
+  host.writeFile = () => {}
+  return host
+}
+
+/**
+ * Resolve the project files a source file imports (packages are left out)
+ */
+function resolveImports(sourceFile: ts.SourceFile, compilerOptions: ts.CompilerOptions, host: ts.CompilerHost): string[] {
+  const imports = new Set<string>()
+  for (const statement of sourceFile.statements) {
+    if ((ts.isImportDeclaration(statement) || ts.isExportDeclaration(statement)) &&
+        statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)) {
+      const resolved = ts.resolveModuleName(statement.moduleSpecifier.text, sourceFile.fileName, compilerOptions, host).resolvedModule
+      if (resolved && !resolved.isExternalLibraryImport) {
+        imports.add(resolve(resolved.resolvedFileName))
+      }
+    }
+  }
+  return Array.from(imports).sort()
+}
+
+/**
+ * Check whether a diagnostic reports a package that is not installed
+ * (relative imports that cannot be resolved are real errors)
+ */
+function isUninstalledPackage(diagnostic: ts.Diagnostic): boolean {
+  if (!MODULE_NOT_FOUND_CODES.has(diagnostic.code)) {
+    return false
+  }
+  const specifier = /['"]([^'"]+)['"]/.exec(ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'))?.[1]
+  return specifier !== undefined && !specifier.startsWith('.') && !isAbsolute(specifier)
+}
+
+/**
+ * Convert a compiler diagnostic (1-based range)
+ */
+function toProblem(diagnostic: ts.Diagnostic, kind: CodeProblem['kind'], file: string): CodeProblem {
+  const problem: CodeProblem = {
+    file,
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+    code: diagnostic.code,
+    kind,
+  }
+  if (diagnostic.file && diagnostic.start !== undefined) {
+    const start = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+    const end = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start + (diagnostic.length ?? 0))
+    problem.range = {
+      start: { line: start.line + 1, column: start.character + 1 },
+      end: { line: end.line + 1, column: end.character + 1 },
+    }
+  }
+  return problem
+}
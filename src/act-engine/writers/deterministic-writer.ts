@@ -5,24 +5,73 @@
  * 
  * Features:
  * - Stable ordering (sorted paths)
- * - Generation banners
+ * - Generation banners (with provenance, never timestamps)
  * - Idempotent writes (hash-based)
  * - Diff-friendly formatting
  * - Drift detection
+ * - Preserved hand-written regions
  */
 
-import { writeFileSync, readFileSync, existsSync, mkdirSync } from 'fs'
-import { join, dirname } from 'path'
-import { hashContent, hashesMatch } from './hashing.js'
-import { generateBanner, type BannerOptions } from './banners.js'
+import { hashesMatch } from './hashing.js'
+import { generateBanner, isGenerationTimestampLine, type BannerOptions } from './banners.js'
+import { diffLines, hasChanges, type DiffLine } from './diff.js'
+import type { PhaseEventSink } from '../events/index.js'
+import { nodeFileSystem, type ActFileSystem } from '../fs/index.js'
+import { hashPaths } from '../cache/fingerprint.js'
+import { isTypeScriptArtifact, parseGeneratedCode, type CodeProblem } from './code-validator.js'
+import { KeepRegionError, hashArtifactContent, mergeKeepRegions, parseKeepRegions, type KeepRegion } from './keep-regions.js'
+import { relative, sep } from 'path'
+
+/**
+ * Artifact kinds generated by built-in phases
+ */
+export const BUILTIN_ARTIFACT_TYPES = [
+  'schema',
+  'migration',
+  'service',
+  'route',
+  'test',
+  'form',
+  'form-types',
+  'invariant-mapping',
+  'commands',
+  'hotkeys',
+  'intent-graph',
+  'telemetry',
+  'devtools',
+  'ux-fidelity',
+  'purity-guards',
+  'mutation-metadata',
+] as const
+
+export type BuiltinArtifactType = (typeof BUILTIN_ARTIFACT_TYPES)[number]
+
+/**
+ * Artifact kind registered by a plugin (namespaced: `<plugin>:<kind>`)
+ */
+export type PluginArtifactType = `${string}:${string}`
+
+export type ArtifactType = BuiltinArtifactType | PluginArtifactType
 
 export interface WriteFileOptions {
   banner: BannerOptions
-  type: 'schema' | 'migration' | 'service' | 'route' | 'test' | 'form' | 'form-types' | 'invariant-mapping' | 'commands' | 'hotkeys' | 'intent-graph' | 'telemetry' | 'devtools' | 'ux-fidelity' | 'purity-guards' | 'mutation-metadata'
+  type: ArtifactType
   contract?: string
   domain?: string
+  generator?: string // Generator that produced the content (recorded in act.lock.json)
   checkMode?: boolean // CI mode: don't write, just check
   dryRun?: boolean // Show what would be written
+  validateCode?: boolean // Parse TypeScript artifacts first: code that does not parse is never written
+}
+
+/**
+ * Where an artifact's content comes from (reported with its artifact event)
+ */
+export interface ArtifactProvenance {
+  generator?: string
+  contract?: string // Contract the artifact was generated for
+  sources: Record<string, string> // Source path (relative to the writer's root) -> content hash
+  hash: string // Hash of the artifact content, banner included (preserved regions left out)
 }
 
 export interface WriteResult {
@@ -30,8 +79,14 @@ export interface WriteResult {
   written: boolean // false if content unchanged or check mode
   hash: string
   existingHash?: string
-  hasDrift?: boolean
-  error?: string
+  hasDrift?: boolean // Existing content differs (in check mode this is why `success` is false)
+  diff?: DiffLine[] // Check and dry-run modes: changes against the file on disk (timestamp lines ignored)
+  provenance?: ArtifactProvenance
+  content?: string // Generated content, banner included (also in check and dry-run modes)
+  problems?: CodeProblem[] // validateCode: why the generated code does not parse
+  droppedRegions?: KeepRegion[] // Preserved regions on disk whose anchor is no longer generated (not written)
+  invalidRegion?: { message: string; line: number } // Malformed preserved-region markers in the file on disk (not written)
+  error?: string // Why the write failed (I/O errors, code that does not parse)
 }
 
 /**
@@ -42,10 +97,33 @@ export interface WriteResult {
  * - Consistent formatting
  * - Hash-based drift detection
  * - Idempotent writes (skip if unchanged)
+ * 
+ * Every artifact is reported to `events` as written, unchanged or drifted.
+ * In check and dry-run modes, drifted and new artifacts carry their diff
+ * against the file on disk; lines that only differ in their generation
+ * timestamp do not count as drift there.
+ * Files are read and written through `fs` (in-memory runs pass their own).
+ * With `validateCode`, TypeScript that does not parse is reported instead
+ * of written.
+ * 
+ * Preserved regions (`// act:keep-begin <id>` … `// act:keep-end`) of the
+ * file on disk are carried over to the regenerated content. When one holding
+ * code has no anchor in the new content, or the markers on disk are broken,
+ * the artifact is not written, so the code is never lost silently.
+ * 
+ * Banner `sources` are written relative to `root` (the workspace root),
+ * along with the hash of their content, so the same FORM generates the same
+ * bytes in every checkout.
  */
 export class DeterministicWriter {
   private writtenFiles: Map<string, string> = new Map() // path -> hash
   
+  constructor(
+    private readonly events?: PhaseEventSink,
+    private readonly fs: ActFileSystem = nodeFileSystem,
+    private readonly root?: string
+  ) {}
+  
   /**
    * Write file deterministically
    */
@@ -56,25 +134,97 @@ export class DeterministicWriter {
   ): WriteResult {
     try {
       // Generate banner
-      const banner = generateBanner(options.banner)
-      const fullContent = `${banner}\n\n${content}`
-      
-      // Hash content
-      const contentHash = hashContent(fullContent)
+      const { banner: bannerOptions, sources } = this.withProvenance(options.banner)
+      const banner = generateBanner(bannerOptions)
+      const generatedContent = `${banner}\n\n${content}`
       
       // Check if file exists
-      const fileExists = existsSync(path)
+      const fileExists = this.fs.exists(path)
+      let existingContent: string | undefined
       let existingHash: string | undefined
-      let hasDrift = false
       
       if (fileExists) {
         try {
-          const existingContent = readFileSync(path, 'utf-8')
-          existingHash = hashContent(existingContent)
-          hasDrift = !hashesMatch(contentHash, existingHash)
+          existingContent = this.fs.readFile(path)
+          existingHash = hashArtifactContent(existingContent)
         } catch (error: any) {
           // File exists but can't read - treat as drift
-          hasDrift = true
+        }
+      }
+      
+      // Markers broken by hand are reported where they are, not merged
+      if (existingContent !== undefined) {
+        try {
+          parseKeepRegions(existingContent)
+        } catch (error: any) {
+          if (!(error instanceof KeepRegionError)) {
+            throw error
+          }
+          return {
+            success: false,
+            written: false,
+            hash: '',
+            existingHash,
+            invalidRegion: { message: error.message, line: error.line },
+            error: `Preserved region markers are invalid: ${error.message}`,
+          }
+        }
+      }
+      
+      // Carry hand-written regions over
+      const { content: fullContent, dropped } = existingContent !== undefined
+        ? mergeKeepRegions(generatedContent, existingContent)
+        : { content: generatedContent, dropped: [] }
+      
+      // Hash content
+      const contentHash = hashArtifactContent(fullContent)
+      let hasDrift = fileExists && (existingHash === undefined || !hashesMatch(contentHash, existingHash))
+      const provenance: ArtifactProvenance = {
+        generator: options.generator,
+        contract: options.contract,
+        sources,
+        hash: contentHash,
+      }
+      const event = { path, artifactType: options.type, provenance }
+      
+      if (options.validateCode && isTypeScriptArtifact(path)) {
+        const problems = parseGeneratedCode(path, fullContent)
+        if (problems.length > 0) {
+          return {
+            success: false,
+            written: false,
+            hash: contentHash,
+            provenance,
+            problems,
+            error: `Generated code does not parse: ${problems[0].message}`,
+          }
+        }
+      }
+      
+      if (dropped.length > 0) {
+        return {
+          success: false,
+          written: false,
+          hash: contentHash,
+          existingHash,
+          provenance,
+          droppedRegions: dropped,
+          error: `Preserved region "${dropped[0].id}" is no longer generated: move its code, or delete the region`,
+        }
+      }
+      
+      // Without writing, report how the artifact would change
+      let diff: DiffLine[] | undefined
+      if (options.checkMode || options.dryRun) {
+        const changes = diffLines(existingContent ?? '', fullContent, { ignore: isGenerationTimestampLine })
+        if (hasDrift && existingContent !== undefined) {
+          hasDrift = hasChanges(changes)
+        }
+        if (!fileExists || hasDrift) {
+          diff = changes
+          this.events?.emit({ type: 'artifact:drifted', ...event, diff, added: !fileExists })
+        } else {
+          this.events?.emit({ type: 'artifact:unchanged', ...event })
         }
       }
       
@@ -86,7 +236,9 @@ export class DeterministicWriter {
           hash: contentHash,
           existingHash,
           hasDrift,
-          error: hasDrift ? 'Drift detected (check mode)' : undefined,
+          diff,
+          provenance,
+          content: fullContent,
         }
       }
       
@@ -98,30 +250,31 @@ export class DeterministicWriter {
           hash: contentHash,
           existingHash,
           hasDrift,
+          diff,
+          provenance,
+          content: fullContent,
         }
       }
       
       // Skip write if content unchanged
       if (fileExists && !hasDrift) {
         this.writtenFiles.set(path, contentHash)
+        this.events?.emit({ type: 'artifact:unchanged', ...event })
         return {
           success: true,
           written: false,
           hash: contentHash,
           existingHash,
           hasDrift: false,
+          provenance,
+          content: fullContent,
         }
       }
       
-      // Ensure directory exists
-      const dir = dirname(path)
-      if (!existsSync(dir)) {
-        mkdirSync(dir, { recursive: true })
-      }
-      
-      // Write file
-      writeFileSync(path, fullContent, 'utf-8')
+      // Write file (creates missing directories)
+      this.fs.writeFile(path, fullContent)
       this.writtenFiles.set(path, contentHash)
+      this.events?.emit({ type: 'artifact:written', ...event })
       
       return {
         success: true,
@@ -129,6 +282,8 @@ export class DeterministicWriter {
         hash: contentHash,
         existingHash,
         hasDrift: false,
+        provenance,
+        content: fullContent,
       }
     } catch (error: any) {
       return {
@@ -140,6 +295,31 @@ export class DeterministicWriter {
     }
   }
   
+  /**
+   * Add the relative source paths and their content hash to banner options
+   * 
+   * @returns The banner options and the hash of each source
+   */
+  private withProvenance(banner: BannerOptions): { banner: BannerOptions; sources: Record<string, string> } {
+    if (!banner.sources || banner.sources.length === 0) {
+      return { banner, sources: {} }
+    }
+    const root = this.root
+    const sources: Record<string, string> = {}
+    for (const path of [...banner.sources].sort()) {
+      const name = root ? relative(root, path).split(sep).join('/') : path
+      sources[name] = hashPaths([path], this.fs, root)
+    }
+    return {
+      banner: {
+        ...banner,
+        sources: Object.keys(sources).sort(),
+        sourceHash: banner.sourceHash ?? hashPaths(banner.sources, this.fs, root),
+      },
+      sources,
+    }
+  }
+  
   /**
    * Check drift without writing
    */
@@ -149,8 +329,8 @@ export class DeterministicWriter {
     expectedHash: string
     diff?: string
   } {
-    const expectedHash = hashContent(expectedContent)
-    const fileExists = existsSync(path)
+    const expectedHash = hashArtifactContent(expectedContent)
+    const fileExists = this.fs.exists(path)
     
     if (!fileExists) {
       return {
@@ -161,8 +341,8 @@ export class DeterministicWriter {
     }
     
     try {
-      const existingContent = readFileSync(path, 'utf-8')
-      const existingHash = hashContent(existingContent)
+      const existingContent = this.fs.readFile(path)
+      const existingHash = hashArtifactContent(existingContent)
       const hasDrift = !hashesMatch(expectedHash, existingHash)
       
       return {
@@ -0,0 +1,195 @@
+/**
+ * ✅ ENTELECHIA: Line Diffs for Generated Artifacts
+ *
+ * Deterministic line diffs (Myers algorithm) between two versions of an artifact.
+ */
+
+export interface DiffLine {
+  type: 'equal' | 'add' | 'remove'
+  line: string
+  oldLine?: number // 1-based line in the old content (equal/remove)
+  newLine?: number // 1-based line in the new content (equal/add)
+}
+
+export interface DiffOptions {
+  ignore?: (line: string) => boolean // Lines compared as equal regardless of content (e.g. timestamps)
+  maxEditDistance?: number // Above this, fall back to "remove all, add all"
+}
+
+export interface DiffStats {
+  added: number
+  removed: number
+}
+
+const IGNORED_LINE = '\u0000act:ignored'
+const DEFAULT_MAX_EDIT_DISTANCE = 2000
+
+/**
+ * Split content into lines (line endings normalized)
+ */
+function splitLines(content: string): string[] {
+  if (content === '') {
+    return []
+  }
+  return content.replace(/\r\n?/g, '\n').replace(/\n$/, '').split('\n')
+}
+
+/**
+ * Diff two contents line by line
+ */
+export function diffLines(before: string, after: string, options: DiffOptions = {}): DiffLine[] {
+  const a = splitLines(before)
+  const b = splitLines(after)
+  const key = (line: string) => (options.ignore?.(line) ? IGNORED_LINE : line)
+  const aKeys = a.map(key)
+  const bKeys = b.map(key)
+
+  const n = a.length
+  const m = b.length
+  const max = n + m
+  const limit = Math.min(max, options.maxEditDistance ?? DEFAULT_MAX_EDIT_DISTANCE)
+  const offset = max + 1
+  const v = new Int32Array(2 * max + 4)
+  const trace: Int32Array[] = [] // trace[d]: v for diagonals -(d+1)..d+1 before step d
+
+  let distance = -1
+  for (let d = 0; d <= limit && distance < 0; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2))
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1
+      let y = x - k
+      while (x < n && y < m && aKeys[x] === bKeys[y]) {
+        x++
+        y++
+      }
+      v[offset + k] = x
+      if (x >= n && y >= m) {
+        distance = d
+        break
+      }
+    }
+  }
+
+  // Too many edits to diff precisely: report a full replacement
+  if (distance < 0) {
+    return [
+      ...a.map((line, i): DiffLine => ({ type: 'remove', line, oldLine: i + 1 })),
+      ...b.map((line, i): DiffLine => ({ type: 'add', line, newLine: i + 1 })),
+    ]
+  }
+
+  // Backtrack through the trace to recover the edit script
+  const result: DiffLine[] = []
+  let x = n
+  let y = m
+  for (let d = distance; d >= 0; d--) {
+    const previous = (diagonal: number) => trace[d][diagonal + d + 1]
+    const k = x - y
+    const previousK = k === -d || (k !== d && previous(k - 1) < previous(k + 1))
+      ? k + 1
+      : k - 1
+    const previousX = previous(previousK)
+    const previousY = previousX - previousK
+
+    while (x > previousX && y > previousY) {
+      result.push({ type: 'equal', line: b[y - 1], oldLine: x, newLine: y })
+      x--
+      y--
+    }
+
+    if (d > 0) {
+      if (x === previousX) {
+        result.push({ type: 'add', line: b[y - 1], newLine: y })
+      } else {
+        result.push({ type: 'remove', line: a[x - 1], oldLine: x })
+      }
+    }
+
+    x = previousX
+    y = previousY
+  }
+
+  return result.reverse()
+}
+
+/**
+ * Count added and removed lines
+ */
+export function diffStats(diff: readonly DiffLine[]): DiffStats {
+  let added = 0
+  let removed = 0
+  for (const line of diff) {
+    if (line.type === 'add') added++
+    if (line.type === 'remove') removed++
+  }
+  return { added, removed }
+}
+
+/**
+ * Check whether a diff contains any change
+ */
+export function hasChanges(diff: readonly DiffLine[]): boolean {
+  return diff.some(line => line.type !== 'equal')
+}
+
+export interface UnifiedDiffOptions {
+  oldPath?: string // Header of the old side (default: `/dev/null`, a new file)
+  newPath?: string // Header of the new side
+  context?: number // Unchanged lines around each change (default: 3)
+}
+
+/**
+ * Format a diff as a unified diff (`---`/`+++` headers, `@@` hunks)
+ *
+ * Returns an empty string when nothing changed.
+ */
+export function formatUnifiedDiff(diff: readonly DiffLine[], options: UnifiedDiffOptions = {}): string {
+  const context = options.context ?? 3
+  const changed = diff.flatMap((line, index) => (line.type === 'equal' ? [] : [index]))
+  if (changed.length === 0) {
+    return ''
+  }
+
+  // Group changes whose context overlaps into hunks ([start, end) in `diff`)
+  const hunks: Array<[number, number]> = []
+  for (const index of changed) {
+    const start = Math.max(0, index - context)
+    const end = Math.min(diff.length, index + context + 1)
+    const last = hunks[hunks.length - 1]
+    if (last && start <= last[1]) {
+      last[1] = end
+    } else {
+      hunks.push([start, end])
+    }
+  }
+
+  const lines = [`--- ${options.oldPath ?? '/dev/null'}`, `+++ ${options.newPath ?? '/dev/null'}`]
+  let consumed = 0
+  let oldLine = 0 // Old lines before `consumed`
+  let newLine = 0 // New lines before `consumed`
+  const advance = (to: number): void => {
+    for (; consumed < to; consumed++) {
+      if (diff[consumed].type !== 'add') oldLine++
+      if (diff[consumed].type !== 'remove') newLine++
+    }
+  }
+
+  for (const [start, end] of hunks) {
+    advance(start)
+    const body = diff.slice(start, end)
+    const oldCount = body.filter(line => line.type !== 'add').length
+    const newCount = body.filter(line => line.type !== 'remove').length
+    // Empty sides start at the line before the hunk
+    const oldStart = oldCount === 0 ? oldLine : oldLine + 1
+    const newStart = newCount === 0 ? newLine : newLine + 1
+    lines.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`)
+    for (const line of body) {
+      lines.push(`${line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' '}${line.line}`)
+    }
+    advance(end)
+  }
+
+  return lines.join('\n')
+}
@@ -0,0 +1,96 @@
+/**
+ * ✅ ENTELECHIA: Artifact Drift Classification
+ *
+ * Compares an artifact on disk with what its FORM generates and tells why
+ * they differ: the FORM changed (stale) or the STATE was edited by hand.
+ */
+
+import type { ActFileSystem } from '../fs/index.js'
+import { isGenerationTimestampLine, readBannerProvenance } from './banners.js'
+import { diffLines, hasChanges, type DiffLine } from './diff.js'
+import { hashArtifactContent, stripKeepRegions } from './keep-regions.js'
+import { changedSources, type LockedArtifact } from './lockfile.js'
+
+/**
+ * Cache namespace of the content artifacts were generated with (preserved
+ * regions emptied), keyed by their lockfile hash
+ */
+export const GENERATED_CONTENT_NAMESPACE = 'generated-content'
+
+/**
+ * How an artifact on disk relates to its FORM
+ *
+ * - in-sync: regenerating it would not change it
+ * - stale: its FORM (sources, generator or engine) changed since it was generated
+ * - hand-edited: its content changed without a FORM change
+ * - missing: the artifact does not exist
+ */
+export type ArtifactDriftStatus = 'in-sync' | 'stale' | 'hand-edited' | 'missing'
+
+export interface ArtifactDrift {
+  path: string
+  status: ArtifactDriftStatus
+  sources?: string[] // FORM sources changed since generation (known from the lockfile)
+  diff?: DiffLine[] // Hand-edited: changes from the generated content to the file on disk
+}
+
+/**
+ * Classify an artifact on disk
+ *
+ * @param generated Content the run generated for it (banner included), if any
+ * @param locked Its lockfile entry, if any
+ * @param lockedContent Content its lockfile hash was computed from, if known
+ *   (hand edits of artifacts the run did not generate are diffed against it)
+ */
+export function classifyArtifactDrift(
+  path: string,
+  generated: string | undefined,
+  locked: LockedArtifact | undefined,
+  workspaceRoot: string,
+  fs: ActFileSystem,
+  lockedContent?: string
+): ArtifactDrift {
+  if (!fs.exists(path)) {
+    return { path, status: 'missing' }
+  }
+
+  const content = fs.readFile(path)
+  const changed = locked ? changedSources(locked, workspaceRoot, fs) : []
+  const sources = changed.length > 0 ? changed : undefined
+  // Only the lockfile knows the content the artifact was generated with
+  const edited = locked?.hash ? hashArtifactContent(content) !== locked.hash : undefined
+
+  if (generated === undefined) {
+    if (edited) {
+      const diff = lockedContent !== undefined
+        ? diffLines(lockedContent, stripKeepRegions(content), { ignore: isGenerationTimestampLine })
+        : undefined
+      return { path, status: 'hand-edited', sources, diff }
+    }
+    return sources ? { path, status: 'stale', sources } : { path, status: 'in-sync' }
+  }
+
+  const diff = diffLines(generated, content, { ignore: isGenerationTimestampLine })
+  if (!hasChanges(diff)) {
+    return { path, status: 'in-sync' }
+  }
+  // Without a lockfile entry, a banner recording the same provenance means
+  // the content changed on its own
+  if (edited ?? sameProvenance(generated, content)) {
+    return { path, status: 'hand-edited', sources, diff }
+  }
+  return { path, status: 'stale', sources }
+}
+
+/**
+ * Check whether two artifacts record the same provenance in their banner
+ */
+function sameProvenance(generated: string, content: string): boolean {
+  const expected = readBannerProvenance(generated)
+  const actual = readBannerProvenance(content)
+  return !actual || (
+    actual.sourceHash === expected?.sourceHash &&
+    actual.engineVersion === expected?.engineVersion &&
+    actual.schemaVersion === expected?.schemaVersion
+  )
+}
@@ -0,0 +1,126 @@
+/**
+ * ✅ ENTELECHIA: Preserved Regions
+ *
+ * Hand-written code inside generated files. Generators emit anchors:
+ *
+ *   // act:keep-begin <id>
+ *   // act:keep-end
+ *
+ * and the writer carries the lines between them over verbatim from the file
+ * on disk to the regenerated one. Their content is not part of the artifact
+ * hash, so it is never drift.
+ */
+
+import { hashContent } from './hashing.js'
+
+export interface KeepRegion {
+  id: string
+  lines: string[] // Lines between the markers, verbatim
+  start: number // Line of the begin marker (1-based)
+  end: number // Line of the end marker (1-based)
+}
+
+/**
+ * Preserved-region markers that cannot be parsed
+ */
+export class KeepRegionError extends Error {
+  constructor(message: string, public readonly line: number) {
+    super(message)
+    this.name = 'KeepRegionError'
+  }
+}
+
+const KEEP_BEGIN = /^\s*\/\/\s*act:keep-begin\s+(\S+)\s*$/
+const KEEP_END = /^\s*\/\/\s*act:keep-end\b/
+
+/**
+ * Find the preserved regions of a file
+ *
+ * @throws KeepRegionError when markers are unbalanced or nested, or an id is used twice
+ */
+export function parseKeepRegions(content: string): KeepRegion[] {
+  const lines = content.split('\n')
+  const regions: KeepRegion[] = []
+  let open: { id: string; start: number } | undefined
+
+  lines.forEach((line, index) => {
+    const begin = KEEP_BEGIN.exec(line)
+    if (begin) {
+      if (open) {
+        throw new KeepRegionError(`Preserved region "${begin[1]}" (line ${index + 1}) is nested in "${open.id}" (line ${open.start})`, index + 1)
+      }
+      if (regions.some(region => region.id === begin[1])) {
+        throw new KeepRegionError(`Preserved region "${begin[1]}" is declared twice (line ${index + 1})`, index + 1)
+      }
+      open = { id: begin[1], start: index + 1 }
+    } else if (KEEP_END.test(line)) {
+      if (!open) {
+        throw new KeepRegionError(`act:keep-end without act:keep-begin (line ${index + 1})`, index + 1)
+      }
+      regions.push({ ...open, lines: lines.slice(open.start, index), end: index + 1 })
+      open = undefined
+    }
+  })
+
+  if (open) {
+    throw new KeepRegionError(`Preserved region "${open.id}" (line ${open.start}) has no act:keep-end`, open.start)
+  }
+  return regions
+}
+
+/**
+ * Carry the preserved regions of the file on disk over to its regenerated content
+ *
+ * @returns The merged content, and the regions on disk with hand-written code
+ *   whose anchor is no longer generated (their code is not carried over)
+ */
+export function mergeKeepRegions(generated: string, existing: string): { content: string; dropped: KeepRegion[] } {
+  const kept = parseKeepRegions(existing)
+  const anchors = parseKeepRegions(generated)
+  if (kept.length === 0) {
+    return { content: generated, dropped: [] }
+  }
+
+  const lines = generated.split('\n')
+  // From the last anchor, so earlier line numbers stay valid
+  for (const anchor of [...anchors].reverse()) {
+    const region = kept.find(candidate => candidate.id === anchor.id)
+    if (region) {
+      lines.splice(anchor.start, anchor.end - anchor.start - 1, ...region.lines)
+    }
+  }
+
+  const dropped = kept.filter(region =>
+    !anchors.some(anchor => anchor.id === region.id) && region.lines.some(line => line.trim() !== '')
+  )
+  return { content: lines.join('\n'), dropped }
+}
+
+/**
+ * Empty the preserved regions of a file (content with broken markers is left as is)
+ */
+export function stripKeepRegions(content: string): string {
+  let regions: KeepRegion[]
+  try {
+    regions = parseKeepRegions(content)
+  } catch (error: any) {
+    return content
+  }
+  if (regions.length === 0) {
+    return content
+  }
+
+  const lines = content.split('\n')
+  for (const region of [...regions].reverse()) {
+    lines.splice(region.start, region.end - region.start - 1)
+  }
+  return lines.join('\n')
+}
+
+/**
+ * Hash an artifact without the content of its preserved regions
+ * (what act.lock.json records and drift detection compares)
+ */
+export function hashArtifactContent(content: string): string {
+  return hashContent(stripKeepRegions(content))
+}
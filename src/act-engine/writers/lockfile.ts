@@ -0,0 +1,134 @@
+/**
+ * ✅ ENTELECHIA: Artifact Lockfile
+ *
+ * `act.lock.json` records every artifact of the last run with its FORM → STATE
+ * provenance: the sources it was generated from (with their content hashes),
+ * its generator and the hash of its content. Phase 8 classifies drift with
+ * it, every run finds orphans with it, and reviewers see which FORM inputs a
+ * STATE change came from.
+ */
+
+import { isAbsolute, relative, resolve, sep } from 'path'
+import type { PipelineEvent } from '../events/index.js'
+import type { ActFileSystem } from '../fs/index.js'
+import { hashPaths } from '../cache/fingerprint.js'
+import { ACT_ENGINE_VERSION } from '../version.js'
+import type { ArtifactType } from './deterministic-writer.js'
+
+export const LOCKFILE_VERSION = 1
+
+export interface LockedArtifact {
+  type: ArtifactType
+  generator?: string
+  phase?: number // Phase that generated the artifact
+  sources: Record<string, string> // Workspace-relative source path -> content hash
+  hash?: string // Hash of the artifact content (see `hashArtifactContent`)
+}
+
+/**
+ * Lockfile content (`lockfile`, default `<workspace root>/act.lock.json`)
+ */
+export interface ActLockfile {
+  lockfileVersion: number
+  engineVersion: string
+  artifacts: Record<string, LockedArtifact> // Workspace-relative path -> artifact (sorted)
+}
+
+/**
+ * Artifacts of a run or lockfile (absolute path → artifact)
+ */
+export type LockedArtifacts = Map<string, LockedArtifact>
+
+/**
+ * Record the artifact written, drifted or unchanged by an event (other events are ignored)
+ */
+export function recordGeneratedArtifact(artifacts: LockedArtifacts, event: PipelineEvent): void {
+  if (event.type === 'artifact:written' || event.type === 'artifact:drifted' || event.type === 'artifact:unchanged') {
+    artifacts.set(event.path, {
+      type: event.artifactType,
+      generator: event.provenance?.generator,
+      phase: event.phase,
+      sources: event.provenance?.sources ?? {},
+      hash: event.provenance?.hash,
+    })
+  }
+}
+
+/**
+ * Read a lockfile (a missing, unreadable or outdated lockfile is empty)
+ */
+export function readLockfile(file: string, workspaceRoot: string, fs: ActFileSystem): LockedArtifacts {
+  const artifacts: LockedArtifacts = new Map()
+  if (!fs.exists(file)) {
+    return artifacts
+  }
+
+  try {
+    const lockfile = JSON.parse(fs.readFile(file)) as ActLockfile
+    if (lockfile.lockfileVersion !== LOCKFILE_VERSION) {
+      return artifacts
+    }
+    for (const [path, artifact] of Object.entries(lockfile.artifacts || {})) {
+      artifacts.set(resolve(workspaceRoot, path), { ...artifact, sources: artifact.sources || {} })
+    }
+  } catch {
+    // A corrupt lockfile is rebuilt by the next complete run
+  }
+  return artifacts
+}
+
+/**
+ * Write a lockfile (paths under the workspace root are stored relative to it)
+ *
+ * An unchanged lockfile is not rewritten.
+ */
+export function writeLockfile(file: string, artifacts: LockedArtifacts, workspaceRoot: string, fs: ActFileSystem): void {
+  const entries = Array.from(artifacts).map(([path, artifact]): [string, LockedArtifact] => {
+    const relativePath = relative(workspaceRoot, path)
+    const key = relativePath.startsWith('..') || isAbsolute(relativePath) ? path : relativePath.split(sep).join('/')
+    const sources = Object.fromEntries(Object.entries(artifact.sources).sort(([a], [b]) => a.localeCompare(b)))
+    return [key, { type: artifact.type, generator: artifact.generator, phase: artifact.phase, sources, hash: artifact.hash }]
+  })
+  entries.sort(([a], [b]) => a.localeCompare(b))
+
+  const lockfile: ActLockfile = {
+    lockfileVersion: LOCKFILE_VERSION,
+    engineVersion: ACT_ENGINE_VERSION,
+    artifacts: Object.fromEntries(entries),
+  }
+  const content = `${JSON.stringify(lockfile, null, 2)}\n`
+  if (!fs.exists(file) || fs.readFile(file) !== content) {
+    fs.writeFile(file, content)
+  }
+}
+
+/**
+ * Get the sources of a locked artifact whose content changed since it was generated
+ */
+export function changedSources(artifact: LockedArtifact, workspaceRoot: string, fs: ActFileSystem): string[] {
+  // Sources recorded by a writer without a root are absolute
+  return Object.entries(artifact.sources)
+    .filter(([source, hash]) => hash !== (isAbsolute(source) ? hashPaths([source], fs) : hashPaths([resolve(workspaceRoot, source)], fs, workspaceRoot)))
+    .map(([source]) => source)
+}
+
+/**
+ * Find the orphans among known generated files: the ones still on disk that
+ * the run did not generate (sorted)
+ *
+ * @param known Generated files (lockfile entries and files carrying a banner)
+ * @param generated Artifacts the run generated
+ */
+export function findOrphanedArtifacts(
+  known: Iterable<string>,
+  generated: LockedArtifacts,
+  fs: ActFileSystem
+): string[] {
+  const orphans = new Set<string>()
+  for (const path of known) {
+    if (!generated.has(path) && fs.exists(path) && !fs.isDirectory(path)) {
+      orphans.add(path)
+    }
+  }
+  return Array.from(orphans).sort()
+}
@@ -10,14 +10,15 @@
  * - RUNTIME: Architecture guard enforces violations
  */
 
-import { readFileSync } from 'fs'
-import { parse } from 'yaml'
 import {
   ArchitectureRulesYamlSchema,
   MetaphysicalSentryYamlSchema,
   type ArchitectureRulesYaml,
   type MetaphysicalSentryYaml,
 } from './architecture-schema.js'
+import { loadYamlFile } from '../yaml/index.js'
+import { nodeFileSystem } from '../act-engine/fs/node-fs.js'
+import type { ActFileSystem } from '../act-engine/fs/types.js'
 
 /**
  * Canonical Architecture Rule Descriptor
@@ -52,25 +53,17 @@ export interface CanonicalMetaphysicalSentryViolationDescriptor {
 /**
  * Load and parse Architecture Rules YAML file
  */
-export function loadArchitectureRulesFile(filePath: string): ArchitectureRulesYaml {
-  const content = readFileSync(filePath, 'utf-8')
-  const parsed = parse(content) as unknown
-  
-  // Validate against schema
-  const validated = ArchitectureRulesYamlSchema.parse(parsed)
-  return validated
+export function loadArchitectureRulesFile(filePath: string, fs: ActFileSystem = nodeFileSystem): ArchitectureRulesYaml {
+  // Validate against schema (errors carry YAML source positions)
+  return loadYamlFile(filePath, ArchitectureRulesYamlSchema, fs)
 }
 
 /**
  * Load and parse Metaphysical Sentry YAML file
  */
-export function loadMetaphysicalSentryFile(filePath: string): MetaphysicalSentryYaml {
-  const content = readFileSync(filePath, 'utf-8')
-  const parsed = parse(content) as unknown
-  
-  // Validate against schema
-  const validated = MetaphysicalSentryYamlSchema.parse(parsed)
-  return validated
+export function loadMetaphysicalSentryFile(filePath: string, fs: ActFileSystem = nodeFileSystem): MetaphysicalSentryYaml {
+  // Validate against schema (errors carry YAML source positions)
+  return loadYamlFile(filePath, MetaphysicalSentryYamlSchema, fs)
 }
 
 /**
@@ -14,6 +14,7 @@ import type {
   AvailabilityCondition,
 } from './command-schema'
 import { validateHotkeyFormat } from './command-schema'
+import type { YamlPath } from '../yaml/index.js'
 
 /**
  * Canonical command descriptor (output of canonicalization)
@@ -50,6 +51,7 @@ export interface CommandValidationError {
   field: string
   message: string
   level: 'error' | 'warning'
+  path?: YamlPath // Location in commands.yaml, when it differs from `commandId` + `field`
 }
 
 /**
@@ -83,7 +85,7 @@ export function canonicalizeCommands(
   const seenCommandIds = new Set<string>()
   const seenHotkeys = new Map<string, string>() // key -> commandId
   
-  for (const commandDesc of commandsYAML.commands) {
+  for (const [index, commandDesc] of commandsYAML.commands.entries()) {
     // Check for duplicate command IDs
     if (seenCommandIds.has(commandDesc.id)) {
       errors.push({
@@ -91,6 +93,7 @@ export function canonicalizeCommands(
         field: 'id',
         message: `Duplicate command ID: ${commandDesc.id}`,
         level: 'error',
+        path: ['commands', index, 'id'],
       })
       continue
     }
@@ -116,7 +119,7 @@ export function canonicalizeCommands(
     // Validate hotkeys
     const commandHotkeys: CanonicalHotkeyDescriptor[] = []
     if (commandDesc.hotkeys) {
-      for (const hotkeyDesc of commandDesc.hotkeys) {
+      for (const [hotkeyIndex, hotkeyDesc] of commandDesc.hotkeys.entries()) {
         const validation = validateHotkeyFormat(hotkeyDesc.key)
         if (!validation.valid) {
           errors.push({
@@ -124,6 +127,7 @@ export function canonicalizeCommands(
             field: 'hotkeys',
             message: `Invalid hotkey "${hotkeyDesc.key}": ${validation.error}`,
             level: 'error',
+            path: ['commands', index, 'hotkeys', hotkeyIndex, 'key'],
           })
           continue
         }
@@ -136,6 +140,7 @@ export function canonicalizeCommands(
             field: 'hotkeys',
             message: `Hotkey "${hotkeyDesc.key}" conflicts with command "${existingCommand}"`,
             level: 'warning',
+            path: ['commands', index, 'hotkeys', hotkeyIndex, 'key'],
           })
         } else {
           seenHotkeys.set(hotkeyDesc.key, commandDesc.id)
@@ -344,3 +349,22 @@ export function validateCommandIntentBindingCoherence(
   return errors
 }
 
+/**
+ * Get the location of a validation error in commands.yaml
+ *
+ * Falls back to the first command with the error's ID and the first field it names.
+ */
+export function getCommandErrorPath(
+  commandsYAML: CommandsYAML,
+  error: CommandValidationError
+): YamlPath {
+  if (error.path) {
+    return error.path
+  }
+
+  const index = commandsYAML.commands.findIndex(command => command.id === error.commandId)
+  if (index < 0) {
+    return []
+  }
+  return ['commands', index, ...error.field.split('/')[0].split('.')]
+}
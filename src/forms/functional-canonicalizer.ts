@@ -17,7 +17,6 @@ import type {
 } from './functional-types.js'
 import type { CanonicalFormDescriptor, CanonicalSectionDescriptor, CanonicalFieldDescriptor } from './canonicalizer.js'
 import { canonicalizeForm } from './canonicalizer.js'
-import { join } from 'path'
 
 /**
  * Canonicalize form with functional bindings
@@ -30,18 +29,17 @@ import { join } from 'path'
  * 
  * @param yaml Form YAML with functional bindings
  * @param metadata Contract metadata
- * @param workspaceRoot Workspace root (for resolving backend ACL)
+ * @param actionRegistryPath Backend ActionRegistry module
  * @param aclManifest ACL manifest (optional, for validation)
  * @returns Canonical functional form descriptor
  */
 export async function canonicalizeFunctionalForm(
   yaml: FormYaml,
   metadata: ContractDefinition,
-  workspaceRoot: string,
+  actionRegistryPath: string,
   aclManifest?: { actions: string[] }
 ): Promise<CanonicalFunctionalFormDescriptor> {
   // Dynamic import from backend (ACL is backend-specific)
-  const actionRegistryPath = join(workspaceRoot, 'entelechia-core', 'src', 'acl', 'action-registry.ts')
   const actionRegistryModule = await import(`file://${actionRegistryPath}`)
   const validateActionId = actionRegistryModule.validateActionId
   type ActionID = string
@@ -65,7 +63,7 @@ export async function canonicalizeFunctionalForm(
       return {
         ...section,
         fields: functionalFields,
-        functional: yamlSection.functional ? await validateAndEnrichBinding(yamlSection.functional, metadata, workspaceRoot, aclManifest) : undefined,
+        functional: yamlSection.functional ? await validateAndEnrichBinding(yamlSection.functional, metadata, actionRegistryPath, aclManifest) : undefined,
       }
     })
   )
@@ -73,7 +71,7 @@ export async function canonicalizeFunctionalForm(
   return {
     ...baseDescriptor,
     sections: functionalSections,
-    functional: yaml.form.functional ? await validateAndEnrichBinding(yaml.form.functional, metadata, workspaceRoot, aclManifest) : undefined,
+    functional: yaml.form.functional ? await validateAndEnrichBinding(yaml.form.functional, metadata, actionRegistryPath, aclManifest) : undefined,
   }
 }
 
@@ -93,13 +91,12 @@ export async function canonicalizeFunctionalForm(
 async function validateAndEnrichBinding(
   binding: FunctionalBinding,
   metadata: ContractDefinition,
-  workspaceRoot: string,
+  actionRegistryPath: string,
   aclManifest?: { actions: string[] }
 ): Promise<FunctionalBinding> {
   const enriched: FunctionalBinding = { ...binding }
   
   // Dynamic import from backend (ACL is backend-specific)
-  const actionRegistryPath = join(workspaceRoot, 'entelechia-core', 'src', 'acl', 'action-registry.ts')
   const actionRegistryModule = await import(`file://${actionRegistryPath}`)
   const validateActionId = actionRegistryModule.validateActionId
   type ActionID = string
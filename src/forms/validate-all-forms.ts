@@ -8,71 +8,25 @@
  * This ensures FORM → ACT → STATE chain integrity.
  */
 
-import { readFileSync, readdirSync, existsSync } from 'fs'
+import { readdirSync, existsSync } from 'fs'
 import { join } from 'path'
 import { FormYamlSchema } from './yaml-schema.js'
 import { validateFormYaml } from './validator.js'
-import {
-  NodeContractMetadata,
-  LedgerEntryContractMetadata,
-  WorkspaceContractMetadata,
-  BackendLedgerContractMetadata,
-  BackendLedgerStateContractMetadata,
-  BackendAuthContractMetadata,
-  BackendSystemContractMetadata,
-  BackendHealthContractMetadata,
-  BackendErrorsContractMetadata,
-  BackendObservabilityContractMetadata,
-  BackendChatContractMetadata,
-  BackendDatabaseContractMetadata,
-  BackendInternalContractMetadata,
-  BackendMiscContractMetadata,
-  DashboardContractMetadata,
-} from '../../../../entelechia-core/src/contracts/metadata/index.js'
+import { loadYamlSource, type YamlSource } from '../yaml/index.js'
+import { DiagnosticCodes, diagnosticsFromError, formatDiagnostic } from '../act-engine/diagnostics/index.js'
+import { defaultActConfig } from '../act-engine/config/index.js'
+import { loadContracts } from '../act-engine/contracts/index.js'
 import type { ContractDefinition } from '@entelechia/contracts/contracts/metadata/types'
 
-/**
- * Parse YAML file
- */
-async function parseYaml(content: string): Promise<any> {
-  try {
-    const yaml = await import('yaml')
-    return yaml.parse(content)
-  } catch (error: any) {
-    if (error.code === 'MODULE_NOT_FOUND') {
-      throw new Error(
-        'YAML parsing requires "yaml" package. Install with: npm install yaml'
-      )
-    }
-    throw error
-  }
-}
-
-/**
- * Map contract names to metadata
- */
-const METADATA_MAP: Record<string, ContractDefinition> = {
-  Node: NodeContractMetadata,
-  LedgerEntry: LedgerEntryContractMetadata,
-  Workspace: WorkspaceContractMetadata,
-  BackendLedger: BackendLedgerContractMetadata,
-  BackendLedgerState: BackendLedgerStateContractMetadata,
-  BackendAuth: BackendAuthContractMetadata,
-  BackendSystem: BackendSystemContractMetadata,
-  BackendHealth: BackendHealthContractMetadata,
-  BackendErrors: BackendErrorsContractMetadata,
-  BackendObservability: BackendObservabilityContractMetadata,
-  BackendChat: BackendChatContractMetadata,
-  BackendDatabase: BackendDatabaseContractMetadata,
-  BackendInternal: BackendInternalContractMetadata,
-  BackendMisc: BackendMiscContractMetadata,
-  Dashboard: DashboardContractMetadata,
-}
-
 /**
  * Validate all form YAML files
+ * 
+ * @param yamlDir Form YAML directory
+ * @param contracts Contract metadata the forms are validated against
  */
-async function validateAllForms(yamlDir: string): Promise<void> {
+async function validateAllForms(yamlDir: string, contracts: readonly ContractDefinition[]): Promise<void> {
+  const metadataByName = new Map(contracts.map(contract => [contract.name, contract]))
+
   if (!existsSync(yamlDir)) {
     console.log(`⚠️  Forms directory does not exist: ${yamlDir}`)
     return
@@ -94,21 +48,21 @@ async function validateAllForms(yamlDir: string): Promise<void> {
   for (const yamlFile of yamlFiles.sort()) {
     const filePath = join(yamlDir, yamlFile)
     console.log(`[VALIDATION] Validating ${yamlFile}...`)
+    let source: YamlSource | undefined
 
     try {
-      // Parse YAML
-      const content = readFileSync(filePath, 'utf-8')
-      const yamlData = await parseYaml(content)
-      const formYaml = FormYamlSchema.parse(yamlData)
+      // Parse YAML (keeping source positions)
+      source = loadYamlSource(filePath)
+      const formYaml = source.validate(FormYamlSchema)
 
       // Find corresponding metadata
       const contractName = formYaml.form.contract
-      const metadata = METADATA_MAP[contractName]
+      const metadata = metadataByName.get(contractName)
 
       if (!metadata) {
         errors.push({
           file: yamlFile,
-          errors: [`Contract "${contractName}" not found in metadata map`],
+          errors: [`Contract "${contractName}" not found in contract metadata`],
         })
         continue
       }
@@ -141,9 +95,11 @@ async function validateAllForms(yamlDir: string): Promise<void> {
 
       console.log(`  ✅ ${yamlFile} valid`)
     } catch (error: any) {
+      // Report each problem at its position in the YAML
+      const diagnostics = diagnosticsFromError(error, DiagnosticCodes.FormValidation, 'Validation failed', { file: filePath })
       errors.push({
         file: yamlFile,
-        errors: [error.message || String(error)],
+        errors: (source ? source.locateAll(diagnostics) : diagnostics).map(formatDiagnostic),
       })
       console.log(`  ❌ ${yamlFile} failed: ${error.message}`)
     }
@@ -169,8 +125,19 @@ async function validateAllForms(yamlDir: string): Promise<void> {
  * Main execution
  */
 async function main() {
-  const yamlDir = process.argv[2] || join(process.cwd(), '..', 'entelechia-ui', 'forms')
-  await validateAllForms(yamlDir)
+  // Default: the default workspace layout (run from a workspace package)
+  const config = defaultActConfig(join(process.cwd(), '..'))
+  const yamlDir = process.argv[2] || config.yamlDir
+
+  const { contracts, diagnostics } = await loadContracts(config)
+  for (const diagnostic of diagnostics) {
+    console.log(formatDiagnostic(diagnostic))
+  }
+  if (diagnostics.some(d => d.severity === 'error')) {
+    process.exit(1)
+  }
+
+  await validateAllForms(yamlDir, contracts)
 }
 
 if (import.meta.url === `file://${process.argv[1]}`) {
@@ -11,18 +11,31 @@
 
 import type { ContractDefinition } from '@entelechia/contracts/contracts/metadata/types'
 import type { FormYaml } from './yaml-schema.js'
+import type { YamlPath } from '../yaml/index.js'
+
+/**
+ * Validation issue, located by its path in the form YAML
+ */
+export interface FormValidationIssue {
+  message: string
+  path: YamlPath
+}
 
 /**
  * Validation error
  */
 export class FormValidationError extends Error {
+  public readonly errors: string[]
+
   constructor(
     public readonly contract: string,
     public readonly variant: string,
-    public readonly errors: string[]
+    public readonly issues: FormValidationIssue[]
   ) {
+    const errors = issues.map(issue => issue.message)
     super(`Form validation failed for ${contract}.${variant}: ${errors.join(', ')}`)
     this.name = 'FormValidationError'
+    this.errors = errors
   }
 }
 
@@ -44,58 +57,69 @@ export function validateFormYaml(
   yaml: FormYaml,
   metadata: ContractDefinition
 ): void {
-  const errors: string[] = []
+  const errors: FormValidationIssue[] = []
 
   // 1. Contract must match metadata.name
   if (yaml.form.contract !== metadata.name) {
-    errors.push(
-      `Contract mismatch: YAML specifies "${yaml.form.contract}" but metadata has "${metadata.name}"`
-    )
+    errors.push({
+      message: `Contract mismatch: YAML specifies "${yaml.form.contract}" but metadata has "${metadata.name}"`,
+      path: ['form', 'contract'],
+    })
   }
 
   // 2. Variant must match a formSchemas[].id
   if (!metadata.formSchemas || metadata.formSchemas.length === 0) {
-    errors.push(`No formSchemas defined in metadata for contract "${metadata.name}"`)
+    errors.push({
+      message: `No formSchemas defined in metadata for contract "${metadata.name}"`,
+      path: ['form', 'contract'],
+    })
   } else {
     const variantExists = metadata.formSchemas.some(
       (formSchema) => formSchema.id === yaml.form.variant
     )
     if (!variantExists) {
-      errors.push(
-        `Variant "${yaml.form.variant}" not found in formSchemas. Available variants: ${metadata.formSchemas.map((s) => s.id).join(', ')}`
-      )
+      errors.push({
+        message: `Variant "${yaml.form.variant}" not found in formSchemas. Available variants: ${metadata.formSchemas.map((s) => s.id).join(', ')}`,
+        path: ['form', 'variant'],
+      })
     }
   }
 
   // 3. Each field must exist in metadata.baseSchema
   const baseFieldNames = new Set(metadata.baseSchema.fields.map((f) => f.name))
-  const allYamlFields = yaml.form.sections.flatMap((section) => section.fields)
-  const uniqueYamlFields = Array.from(new Set(allYamlFields))
+  const fieldPaths = new Map<string, YamlPath[]>() // Field name → every occurrence
+  for (const [sectionIndex, section] of yaml.form.sections.entries()) {
+    for (const [fieldIndex, fieldName] of section.fields.entries()) {
+      const paths = fieldPaths.get(fieldName) || []
+      paths.push(['form', 'sections', sectionIndex, 'fields', fieldIndex])
+      fieldPaths.set(fieldName, paths)
+    }
+  }
 
-  for (const fieldName of uniqueYamlFields) {
+  for (const [fieldName, paths] of fieldPaths.entries()) {
     if (!baseFieldNames.has(fieldName)) {
-      errors.push(
-        `Field "${fieldName}" does not exist in metadata.baseSchema. Available fields: ${Array.from(baseFieldNames).join(', ')}`
-      )
+      errors.push({
+        message: `Field "${fieldName}" does not exist in metadata.baseSchema. Available fields: ${Array.from(baseFieldNames).join(', ')}`,
+        path: paths[0],
+      })
     }
   }
 
   // 4. Check for duplicate fields across sections
-  const fieldOccurrences = new Map<string, number>()
-  for (const fieldName of allYamlFields) {
-    fieldOccurrences.set(fieldName, (fieldOccurrences.get(fieldName) || 0) + 1)
-  }
-  for (const [fieldName, count] of fieldOccurrences.entries()) {
-    if (count > 1) {
-      errors.push(`Field "${fieldName}" appears ${count} times across sections (must appear exactly once)`)
+  for (const [fieldName, paths] of fieldPaths.entries()) {
+    if (paths.length > 1) {
+      errors.push({
+        message: `Field "${fieldName}" appears ${paths.length} times across sections (must appear exactly once)`,
+        path: paths[1],
+      })
     }
   }
 
   // 5. Validate section IDs are unique
   const sectionIds = yaml.form.sections.map((s) => s.id)
-  const uniqueSectionIds = new Set(sectionIds)
-  if (sectionIds.length !== uniqueSectionIds.size) {
-    errors.push('Section IDs must be unique')
+  const duplicateSection = sectionIds.findIndex((id, i) => sectionIds.indexOf(id) !== i)
+  if (duplicateSection >= 0) {
+    errors.push({ message: 'Section IDs must be unique', path: ['form', 'sections', duplicateSection, 'id'] })
   }
 
   // 6. If projectionCapabilities exist, validate widget appropriateness
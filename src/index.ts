@@ -5,8 +5,114 @@
  */
 
 export { runActPipeline, DEFAULT_ACT_CONFIG } from './act-engine/pipeline/index.js'
-export type { ActEngineConfig, PipelineResult } from './act-engine/pipeline/types.js'
-export type { ActManifest } from './act-engine/manifests/types.js'
+export type {
+  ActEngineConfig,
+  PipelineResult,
+  PhaseResult,
+  PhaseOutputs,
+  PhaseOutputKey,
+  PhaseContext,
+  PhaseExecution,
+  PhaseDefinition,
+  PipelineRunOptions,
+} from './act-engine/pipeline/types.js'
+export { PhaseRegistry, definePhase } from './act-engine/pipeline/registry.js'
+export { abortCheckpoint } from './act-engine/pipeline/cancellation.js'
+export { BUILTIN_PHASES, createDefaultPhaseRegistry } from './act-engine/pipeline/phases/index.js'
+export type { ActManifest, ActManifestSection, ActManifestArtifact } from './act-engine/manifests/types.js'
+// Project config (act.config.ts / act.config.yaml)
+export {
+  ActConfigFileSchema,
+  defineActConfig,
+  defaultActConfig,
+  findActConfigFile,
+  loadActConfig,
+  resolveActConfig,
+  ACT_CONFIG_FILE_NAMES,
+} from './act-engine/config/index.js'
+export type { ActConfigFile, ActConfigFileInput } from './act-engine/config/index.js'
+// Contract sources
+export {
+  loadContracts,
+  metadataDirectorySource,
+  jsonBundleSource,
+  contractYamlSource,
+  loadContractYamlFile,
+  ContractYamlSchema,
+  isContractDefinition,
+} from './act-engine/contracts/index.js'
+export type { ContractSource, ContractSourceResult, DiscoveredContract, LoadedContracts, ContractBundle, ContractYaml } from './act-engine/contracts/index.js'
+// Pipeline events
+export { PipelineEventEmitter, createProgressRenderer } from './act-engine/events/index.js'
+export type {
+  PipelineEvent,
+  PipelineEventType,
+  PipelineEventListener,
+  PhaseEventSink,
+  ProgressRendererOptions,
+} from './act-engine/events/index.js'
+export { ActCache } from './act-engine/cache/index.js'
+export type { ActCacheOptions, ActCacheStats } from './act-engine/cache/index.js'
+export { ACT_ENGINE_VERSION, DESCRIPTOR_SCHEMA_VERSION } from './act-engine/version.js'
+
+// Diagnostics
+export {
+  DiagnosticCodes,
+  DIAGNOSTIC_DESCRIPTIONS,
+  DiagnosticCollector,
+  DiagnosticError,
+  formatDiagnostic,
+  summarizeDiagnostics,
+} from './act-engine/diagnostics/index.js'
+export type {
+  Diagnostic,
+  DiagnosticCode,
+  DiagnosticSeverity,
+  SourcePosition,
+  SourceRange,
+  RelatedLocation,
+} from './act-engine/diagnostics/index.js'
+
+// Plugins
+export { PluginHost, definePlugin, getManifestSection, loadPlugins } from './act-engine/plugins/index.js'
+export type {
+  ActPlugin,
+  ArtifactKindDefinition,
+  BannerSourceDefinition,
+  ManifestSectionContext,
+  ManifestSectionDefinition,
+  ManifestSectionContent,
+} from './act-engine/plugins/index.js'
+export { DeterministicWriter, BUILTIN_ARTIFACT_TYPES } from './act-engine/writers/deterministic-writer.js'
+export type { ArtifactProvenance, ArtifactType, PluginArtifactType, WriteFileOptions, WriteResult } from './act-engine/writers/deterministic-writer.js'
+export { generateBanner, readBannerProvenance } from './act-engine/writers/banners.js'
+export type { BannerOptions, BannerProvenance } from './act-engine/writers/banners.js'
+export { formatUnifiedDiff, diffLines } from './act-engine/writers/diff.js'
+export type { DiffLine, UnifiedDiffOptions } from './act-engine/writers/diff.js'
+export { ArtifactChangeCollector, artifactOutputDirs, listGeneratedFiles } from './act-engine/writers/artifact-changes.js'
+export type { ArtifactChange, ArtifactChangeStatus, ArtifactChangeSummary } from './act-engine/writers/artifact-changes.js'
+export { parseGeneratedCode, typecheckGeneratedCode, typecheckProject, isTypeScriptArtifact } from './act-engine/writers/code-validator.js'
+export type { CodeProblem, TypecheckOptions, ProjectTypecheck, ProjectTypecheckOptions } from './act-engine/writers/code-validator.js'
+export { classifyArtifactDrift } from './act-engine/writers/drift.js'
+export type { ArtifactDrift, ArtifactDriftStatus } from './act-engine/writers/drift.js'
+export { KeepRegionError, parseKeepRegions, mergeKeepRegions, stripKeepRegions, hashArtifactContent } from './act-engine/writers/keep-regions.js'
+export type { KeepRegion } from './act-engine/writers/keep-regions.js'
+export { LOCKFILE_VERSION, readLockfile, writeLockfile, changedSources, findOrphanedArtifacts } from './act-engine/writers/lockfile.js'
+export type { ActLockfile, LockedArtifact, LockedArtifacts } from './act-engine/writers/lockfile.js'
+
+// File system (real or in-memory runs)
+export { MemoryFileSystem, ArtifactTransaction, JournalingFileSystem, nodeFileSystem, getFileSystem, getOriginalFileSystem } from './act-engine/fs/index.js'
+export type {
+  ActFileSystem,
+  MemoryFileSystemOptions,
+  ArtifactTransactionOptions,
+  ArtifactCommit,
+  ArtifactBackupEntry,
+} from './act-engine/fs/index.js'
+
+// Reporters
+export { toSarifLog, toJsonReport, toJUnitXml, loadReportRules, ACT_REPORT_VERSION } from './act-engine/reporters/index.js'
+export type { ReportRule, SarifLog, ActJsonReport } from './act-engine/reporters/index.js'
 
 // Form canonicalization
 export { canonicalizeForm } from './forms/canonicalizer.js'
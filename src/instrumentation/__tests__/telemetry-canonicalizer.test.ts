@@ -0,0 +1,42 @@
+/**
+ * ✅ ENTELECHIA: Telemetry Canonicalizer Tests
+ *
+ * PROPERTIES TESTED:
+ * - Ids declared twice in a collection are reported at the repeated id
+ * - Errors routed to undeclared log channels are reported
+ */
+
+import { describe, it, expect } from 'vitest'
+import { DiagnosticCodes } from '../../act-engine/diagnostics/codes.js'
+import { parseYamlSource } from '../../yaml/index.js'
+import { canonicalizeTelemetry } from '../telemetry-canonicalizer.js'
+import type { TelemetryYaml } from '../telemetry-schema.js'
+
+const TELEMETRY = [
+  'telemetry:',
+  '  logging:',
+  '    channels:',
+  '      - { id: auth, name: Auth, severity: info, enabled: true }',
+  '      - { id: auth, name: Auth again, severity: warn, enabled: true }',
+  '  errors:',
+  '    categories:',
+  '      - { id: network, name: Network, routing: { channel: network } }',
+  '    routing:',
+  '      defaultChannel: auth',
+  '',
+].join('\n')
+
+describe('canonicalizeTelemetry', () => {
+  it('should report duplicate ids and errors routed to undeclared channels', () => {
+    const source = parseYamlSource(TELEMETRY, '/ws/telemetry/app.yaml')
+
+    const result = canonicalizeTelemetry(source.data as TelemetryYaml)
+    const diagnostics = source.locateAll(result.diagnostics)
+
+    expect(diagnostics.map(d => [d.code, d.file, d.range?.start.line])).toEqual([
+      [DiagnosticCodes.InstrumentationDuplicateId, '/ws/telemetry/app.yaml', 5],
+      [DiagnosticCodes.TelemetryChannelUnknown, '/ws/telemetry/app.yaml', 8],
+    ])
+    expect(diagnostics[1].message).toContain('"network"')
+  })
+})
@@ -6,6 +6,8 @@
  */
 
 import type { DevToolsYaml } from './devtools-schema'
+import type { Diagnostic } from '../act-engine/diagnostics/types.js'
+import { findDuplicateIds } from './duplicate-ids.js'
 
 /**
  * Canonical devtools descriptor (output of canonicalization)
@@ -122,8 +124,7 @@ export interface CanonicalScenarioDefinition {
  */
 export interface DevToolsCanonicalizationResult {
   descriptor: CanonicalDevToolsDescriptor
-  errors: string[]
-  warnings: string[]
+  diagnostics: Diagnostic[] // Carry their path in the YAML file (no file or range)
 }
 
 /**
@@ -132,8 +133,7 @@ export interface DevToolsCanonicalizationResult {
 export function canonicalizeDevTools(
   devtoolsYaml: DevToolsYaml
 ): DevToolsCanonicalizationResult {
-  const errors: string[] = []
-  const warnings: string[] = []
+  const diagnostics: Diagnostic[] = []
   
   const devtools = devtoolsYaml.devtools
   
@@ -230,10 +230,18 @@ export function canonicalizeDevTools(
     invariants,
   }
   
+  // Ids are unique per collection
+  diagnostics.push(
+    ...findDuplicateIds(devtools.dashboard?.panels, ['devtools', 'dashboard', 'panels'], 'panel'),
+    ...findDuplicateIds(devtools.inspector?.sections, ['devtools', 'inspector', 'sections'], 'inspector section'),
+    ...findDuplicateIds(devtools.inspector?.probeDefinitions, ['devtools', 'inspector', 'probeDefinitions'], 'probe'),
+    ...findDuplicateIds(devtools.graphs?.types, ['devtools', 'graphs', 'types'], 'graph type'),
+    ...findDuplicateIds(devtools.scenarios?.definitions, ['devtools', 'scenarios', 'definitions'], 'scenario'),
+  )
+  
   return {
     descriptor,
-    errors,
-    warnings,
+    diagnostics,
   }
 }
 
@@ -0,0 +1,37 @@
+/**
+ * ✅ ENTELECHIA: Instrumentation Id Checks
+ *
+ * Ids name panels, channels, metrics and rules across the generated
+ * instrumentation: each may be declared once per collection.
+ */
+
+import { DiagnosticCodes } from '../act-engine/diagnostics/codes.js'
+import type { Diagnostic } from '../act-engine/diagnostics/types.js'
+import type { YamlPath } from '../yaml/index.js'
+
+/**
+ * Report the ids declared more than once in a collection
+ *
+ * @param path Path of the collection in the YAML file (diagnostics point at each repeated id)
+ * @param kind What the items are, for messages (e.g. `log channel`)
+ */
+export function findDuplicateIds(
+  items: readonly { id: string }[] | undefined,
+  path: YamlPath,
+  kind: string
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = []
+  const seen = new Set<string>()
+  for (const [index, item] of (items || []).entries()) {
+    if (seen.has(item.id)) {
+      diagnostics.push({
+        code: DiagnosticCodes.InstrumentationDuplicateId,
+        severity: 'error',
+        message: `Duplicate ${kind} id "${item.id}"`,
+        path: [...path, index, 'id'],
+      })
+    }
+    seen.add(item.id)
+  }
+  return diagnostics
+}
@@ -6,6 +6,10 @@
  */
 
 import type { TelemetryYaml } from './telemetry-schema'
+import { DiagnosticCodes } from '../act-engine/diagnostics/codes.js'
+import type { Diagnostic } from '../act-engine/diagnostics/types.js'
+import type { YamlPath } from '../yaml/index.js'
+import { findDuplicateIds } from './duplicate-ids.js'
 
 /**
  * Canonical telemetry descriptor (output of canonicalization)
@@ -108,8 +112,7 @@ export interface CanonicalRetentionPolicy {
  */
 export interface TelemetryCanonicalizationResult {
   descriptor: CanonicalTelemetryDescriptor
-  errors: string[]
-  warnings: string[]
+  diagnostics: Diagnostic[] // Carry their path in the YAML file (no file or range)
 }
 
 /**
@@ -118,8 +121,7 @@ export interface TelemetryCanonicalizationResult {
 export function canonicalizeTelemetry(
   telemetryYaml: TelemetryYaml
 ): TelemetryCanonicalizationResult {
-  const errors: string[] = []
-  const warnings: string[] = []
+  const diagnostics: Diagnostic[] = []
   
   const telemetry = telemetryYaml.telemetry
   
@@ -216,10 +218,33 @@ export function canonicalizeTelemetry(
     invariants,
   }
   
+  // Ids are unique per collection; errors are routed to declared log channels
+  diagnostics.push(
+    ...findDuplicateIds(telemetry.logging?.channels, ['telemetry', 'logging', 'channels'], 'log channel'),
+    ...findDuplicateIds(telemetry.metrics?.definitions, ['telemetry', 'metrics', 'definitions'], 'metric'),
+    ...findDuplicateIds(telemetry.metrics?.families, ['telemetry', 'metrics', 'families'], 'event family'),
+    ...findDuplicateIds(telemetry.errors?.categories, ['telemetry', 'errors', 'categories'], 'error category'),
+  )
+  const channelIds = new Set(logging.channels.map(channel => channel.id))
+  const routes: [string | undefined, YamlPath][] = [
+    [telemetry.errors?.routing?.defaultChannel, ['telemetry', 'errors', 'routing', 'defaultChannel']],
+    ...(telemetry.errors?.categories || []).map((category, index): [string | undefined, YamlPath] =>
+      [category.routing?.channel, ['telemetry', 'errors', 'categories', index, 'routing', 'channel']]),
+  ]
+  for (const [channel, path] of routes) {
+    if (channel !== undefined && !channelIds.has(channel)) {
+      diagnostics.push({
+        code: DiagnosticCodes.TelemetryChannelUnknown,
+        severity: 'error',
+        message: `Errors are routed to log channel "${channel}", which is not declared in logging.channels`,
+        path: [...path],
+      })
+    }
+  }
+  
   return {
     descriptor,
-    errors,
-    warnings,
+    diagnostics,
   }
 }
 
@@ -6,6 +6,8 @@
  */
 
 import type { UXFidelityYaml } from './ux-schema'
+import type { Diagnostic } from '../act-engine/diagnostics/types.js'
+import { findDuplicateIds } from './duplicate-ids.js'
 
 /**
  * Canonical UX fidelity descriptor (output of canonicalization)
@@ -146,8 +148,7 @@ export interface CanonicalSafeInteractionZone {
  */
 export interface UXFidelityCanonicalizationResult {
   descriptor: CanonicalUXFidelityDescriptor
-  errors: string[]
-  warnings: string[]
+  diagnostics: Diagnostic[] // Carry their path in the YAML file (no file or range)
 }
 
 /**
@@ -156,8 +157,7 @@ export interface UXFidelityCanonicalizationResult {
 export function canonicalizeUXFidelity(
   uxFidelityYaml: UXFidelityYaml
 ): UXFidelityCanonicalizationResult {
-  const errors: string[] = []
-  const warnings: string[] = []
+  const diagnostics: Diagnostic[] = []
   
   const ux = uxFidelityYaml.ux
   
@@ -301,10 +301,18 @@ export function canonicalizeUXFidelity(
     invariants,
   }
   
+  // Ids are unique per collection
+  diagnostics.push(
+    ...findDuplicateIds(ux.scroll?.containers, ['ux', 'scroll', 'containers'], 'scroll container'),
+    ...findDuplicateIds(ux.stability?.metrics, ['ux', 'stability', 'metrics'], 'stability metric'),
+    ...findDuplicateIds(ux.purity?.rules, ['ux', 'purity', 'rules'], 'purity rule'),
+    ...findDuplicateIds(ux.criticalRegions, ['ux', 'criticalRegions'], 'critical region'),
+    ...findDuplicateIds(ux.interactionZones, ['ux', 'interactionZones'], 'interaction zone'),
+  )
+  
   return {
     descriptor,
-    errors,
-    warnings,
+    diagnostics,
   }
 }
 
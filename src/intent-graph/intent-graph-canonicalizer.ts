@@ -10,22 +10,19 @@
  * - RUNTIME: Hooks consume generated descriptors
  */
 
-import { readFileSync } from 'fs'
 import { join, relative, dirname } from 'path'
-import { parse } from 'yaml'
 import { IntentGraphFileSchema, type IntentGraph, type IntentGraphFile } from './intent-graph-schema.js'
 import type { CanonicalIntentGraphDescriptor } from './intent-graph-types.js'
+import { loadYamlSource, type YamlPath } from '../yaml/index.js'
+import { nodeFileSystem } from '../act-engine/fs/node-fs.js'
+import type { ActFileSystem } from '../act-engine/fs/types.js'
 
 /**
  * Load and parse IntentGraph YAML file
  */
-export function loadIntentGraphFile(filePath: string): IntentGraphFile {
-  const content = readFileSync(filePath, 'utf-8')
-  const parsed = parse(content) as unknown
-  
-  // Validate against schema
-  const validated = IntentGraphFileSchema.parse(parsed)
-  return validated
+export function loadIntentGraphFile(filePath: string, fs: ActFileSystem = nodeFileSystem): IntentGraphFile {
+  // Validate against schema (errors carry YAML source positions)
+  return loadYamlSource(filePath, fs).validate(IntentGraphFileSchema)
 }
 
 /**
@@ -38,10 +35,18 @@ export interface ValidationContext {
   metricIds: Set<string>
 }
 
+/**
+ * Validation issue, located by its path in the IntentGraph
+ */
+export interface IntentGraphValidationIssue {
+  message: string
+  path: YamlPath // Relative to `intentGraph`
+}
+
 export interface ValidationResult {
   valid: boolean
-  errors: string[]
-  warnings: string[]
+  errors: IntentGraphValidationIssue[]
+  warnings: IntentGraphValidationIssue[]
 }
 
 /**
@@ -51,49 +56,61 @@ export function validateIntentGraph(
   graph: IntentGraph,
   context: ValidationContext
 ): ValidationResult {
-  const errors: string[] = []
-  const warnings: string[] = []
+  const errors: IntentGraphValidationIssue[] = []
+  const warnings: IntentGraphValidationIssue[] = []
 
   // Validate intents
-  for (const intent of graph.intents) {
+  for (const [i, intent] of graph.intents.entries()) {
     // Intent IDs are declared in graph, so they're valid by definition
     // But we can check for duplicates
     const duplicates = graph.intents.filter(i => i.id === intent.id)
     if (duplicates.length > 1) {
-      errors.push(`Duplicate intent ID: ${intent.id}`)
+      errors.push({ message: `Duplicate intent ID: ${intent.id}`, path: ['intents', i, 'id'] })
     }
   }
 
   // Validate intent → action mappings
   if (graph.intentActions) {
-    for (const mapping of graph.intentActions) {
+    for (const [m, mapping] of graph.intentActions.entries()) {
       // Check intent exists
       const intentExists = graph.intents.some(i => i.id === mapping.intentId)
       if (!intentExists) {
-        errors.push(`Intent "${mapping.intentId}" referenced in intentActions but not defined in intents`)
+        errors.push({
+          message: `Intent "${mapping.intentId}" referenced in intentActions but not defined in intents`,
+          path: ['intentActions', m, 'intentId'],
+        })
       }
 
       // Check actions exist in ActionRegistry
-      for (const actionId of mapping.actionIds) {
+      for (const [a, actionId] of mapping.actionIds.entries()) {
         if (!context.actionIds.has(actionId)) {
-          errors.push(`Action "${actionId}" referenced by intent "${mapping.intentId}" does not exist in ActionRegistry`)
+          errors.push({
+            message: `Action "${actionId}" referenced by intent "${mapping.intentId}" does not exist in ActionRegistry`,
+            path: ['intentActions', m, 'actionIds', a],
+          })
         }
       }
 
       // Check required actions are subset of actionIds
       if (mapping.required) {
-        for (const requiredActionId of mapping.required) {
+        for (const [r, requiredActionId] of mapping.required.entries()) {
           if (!mapping.actionIds.includes(requiredActionId)) {
-            errors.push(`Required action "${requiredActionId}" for intent "${mapping.intentId}" is not in actionIds`)
+            errors.push({
+              message: `Required action "${requiredActionId}" for intent "${mapping.intentId}" is not in actionIds`,
+              path: ['intentActions', m, 'required', r],
+            })
           }
         }
       }
 
       // Check optional actions are subset of actionIds
       if (mapping.optional) {
-        for (const optionalActionId of mapping.optional) {
+        for (const [o, optionalActionId] of mapping.optional.entries()) {
           if (!mapping.actionIds.includes(optionalActionId)) {
-            errors.push(`Optional action "${optionalActionId}" for intent "${mapping.intentId}" is not in actionIds`)
+            errors.push({
+              message: `Optional action "${optionalActionId}" for intent "${mapping.intentId}" is not in actionIds`,
+              path: ['intentActions', m, 'optional', o],
+            })
           }
         }
       }
@@ -102,17 +119,23 @@ export function validateIntentGraph(
 
   // Validate intent → invariant mappings
   if (graph.intentInvariants) {
-    for (const mapping of graph.intentInvariants) {
+    for (const [m, mapping] of graph.intentInvariants.entries()) {
       // Check intent exists
       const intentExists = graph.intents.some(i => i.id === mapping.intentId)
       if (!intentExists) {
-        errors.push(`Intent "${mapping.intentId}" referenced in intentInvariants but not defined in intents`)
+        errors.push({
+          message: `Intent "${mapping.intentId}" referenced in intentInvariants but not defined in intents`,
+          path: ['intentInvariants', m, 'intentId'],
+        })
       }
 
       // Check invariants exist in invariant-engine
-      for (const invariantId of mapping.invariantIds) {
+      for (const [v, invariantId] of mapping.invariantIds.entries()) {
         if (!context.invariantIds.has(invariantId)) {
-          errors.push(`Invariant "${invariantId}" referenced by intent "${mapping.intentId}" does not exist in invariant-engine`)
+          errors.push({
+            message: `Invariant "${invariantId}" referenced by intent "${mapping.intentId}" does not exist in invariant-engine`,
+            path: ['intentInvariants', m, 'invariantIds', v],
+          })
         }
       }
     }
@@ -120,41 +143,56 @@ export function validateIntentGraph(
 
   // Validate intent → metric mappings
   if (graph.intentMetrics) {
-    for (const mapping of graph.intentMetrics) {
+    for (const [m, mapping] of graph.intentMetrics.entries()) {
       // Check intent exists
       const intentExists = graph.intents.some(i => i.id === mapping.intentId)
       if (!intentExists) {
-        errors.push(`Intent "${mapping.intentId}" referenced in intentMetrics but not defined in intents`)
+        errors.push({
+          message: `Intent "${mapping.intentId}" referenced in intentMetrics but not defined in intents`,
+          path: ['intentMetrics', m, 'intentId'],
+        })
       }
 
       // Check metrics exist in telemetry/metrics.yaml
-      for (const metricId of mapping.metricIds) {
+      for (const [k, metricId] of mapping.metricIds.entries()) {
         if (!context.metricIds.has(metricId)) {
-          warnings.push(`Metric "${metricId}" referenced by intent "${mapping.intentId}" may not exist in telemetry/metrics.yaml (will be validated at runtime)`)
+          warnings.push({
+            message: `Metric "${metricId}" referenced by intent "${mapping.intentId}" may not exist in telemetry/metrics.yaml (will be validated at runtime)`,
+            path: ['intentMetrics', m, 'metricIds', k],
+          })
         }
       }
 
       // Check onSuccess/onFailure/onStart metrics are subset of metricIds
       if (mapping.onSuccess) {
-        for (const metricId of mapping.onSuccess) {
+        for (const [k, metricId] of mapping.onSuccess.entries()) {
           if (!mapping.metricIds.includes(metricId)) {
-            errors.push(`onSuccess metric "${metricId}" for intent "${mapping.intentId}" is not in metricIds`)
+            errors.push({
+              message: `onSuccess metric "${metricId}" for intent "${mapping.intentId}" is not in metricIds`,
+              path: ['intentMetrics', m, 'onSuccess', k],
+            })
           }
         }
       }
 
       if (mapping.onFailure) {
-        for (const metricId of mapping.onFailure) {
+        for (const [k, metricId] of mapping.onFailure.entries()) {
           if (!mapping.metricIds.includes(metricId)) {
-            errors.push(`onFailure metric "${metricId}" for intent "${mapping.intentId}" is not in metricIds`)
+            errors.push({
+              message: `onFailure metric "${metricId}" for intent "${mapping.intentId}" is not in metricIds`,
+              path: ['intentMetrics', m, 'onFailure', k],
+            })
           }
         }
       }
 
       if (mapping.onStart) {
-        for (const metricId of mapping.onStart) {
+        for (const [k, metricId] of mapping.onStart.entries()) {
           if (!mapping.metricIds.includes(metricId)) {
-            errors.push(`onStart metric "${metricId}" for intent "${mapping.intentId}" is not in metricIds`)
+            errors.push({
+              message: `onStart metric "${metricId}" for intent "${mapping.intentId}" is not in metricIds`,
+              path: ['intentMetrics', m, 'onStart', k],
+            })
           }
         }
       }
@@ -163,16 +201,22 @@ export function validateIntentGraph(
 
   // Validate action → invariant mappings
   if (graph.actionInvariants) {
-    for (const mapping of graph.actionInvariants) {
+    for (const [m, mapping] of graph.actionInvariants.entries()) {
       // Check action exists in ActionRegistry
       if (!context.actionIds.has(mapping.actionId)) {
-        errors.push(`Action "${mapping.actionId}" referenced in actionInvariants does not exist in ActionRegistry`)
+        errors.push({
+          message: `Action "${mapping.actionId}" referenced in actionInvariants does not exist in ActionRegistry`,
+          path: ['actionInvariants', m, 'actionId'],
+        })
       }
 
       // Check invariants exist in invariant-engine
-      for (const invariantId of mapping.invariantIds) {
+      for (const [v, invariantId] of mapping.invariantIds.entries()) {
         if (!context.invariantIds.has(invariantId)) {
-          errors.push(`Invariant "${invariantId}" referenced by action "${mapping.actionId}" does not exist in invariant-engine`)
+          errors.push({
+            message: `Invariant "${invariantId}" referenced by action "${mapping.actionId}" does not exist in invariant-engine`,
+            path: ['actionInvariants', m, 'invariantIds', v],
+          })
         }
       }
     }
@@ -180,40 +224,55 @@ export function validateIntentGraph(
 
   // Validate action → metric mappings
   if (graph.actionMetrics) {
-    for (const mapping of graph.actionMetrics) {
+    for (const [m, mapping] of graph.actionMetrics.entries()) {
       // Check action exists in ActionRegistry
       if (!context.actionIds.has(mapping.actionId)) {
-        errors.push(`Action "${mapping.actionId}" referenced in actionMetrics does not exist in ActionRegistry`)
+        errors.push({
+          message: `Action "${mapping.actionId}" referenced in actionMetrics does not exist in ActionRegistry`,
+          path: ['actionMetrics', m, 'actionId'],
+        })
       }
 
       // Check metrics exist in telemetry/metrics.yaml
-      for (const metricId of mapping.metricIds) {
+      for (const [k, metricId] of mapping.metricIds.entries()) {
         if (!context.metricIds.has(metricId)) {
-          warnings.push(`Metric "${metricId}" referenced by action "${mapping.actionId}" may not exist in telemetry/metrics.yaml (will be validated at runtime)`)
+          warnings.push({
+            message: `Metric "${metricId}" referenced by action "${mapping.actionId}" may not exist in telemetry/metrics.yaml (will be validated at runtime)`,
+            path: ['actionMetrics', m, 'metricIds', k],
+          })
         }
       }
 
       // Check onSuccess/onFailure/onStart metrics are subset of metricIds
       if (mapping.onSuccess) {
-        for (const metricId of mapping.onSuccess) {
+        for (const [k, metricId] of mapping.onSuccess.entries()) {
           if (!mapping.metricIds.includes(metricId)) {
-            errors.push(`onSuccess metric "${metricId}" for action "${mapping.actionId}" is not in metricIds`)
+            errors.push({
+              message: `onSuccess metric "${metricId}" for action "${mapping.actionId}" is not in metricIds`,
+              path: ['actionMetrics', m, 'onSuccess', k],
+            })
           }
         }
       }
 
       if (mapping.onFailure) {
-        for (const metricId of mapping.onFailure) {
+        for (const [k, metricId] of mapping.onFailure.entries()) {
           if (!mapping.metricIds.includes(metricId)) {
-            errors.push(`onFailure metric "${metricId}" for action "${mapping.actionId}" is not in metricIds`)
+            errors.push({
+              message: `onFailure metric "${metricId}" for action "${mapping.actionId}" is not in metricIds`,
+              path: ['actionMetrics', m, 'onFailure', k],
+            })
           }
         }
       }
 
       if (mapping.onStart) {
-        for (const metricId of mapping.onStart) {
+        for (const [k, metricId] of mapping.onStart.entries()) {
           if (!mapping.metricIds.includes(metricId)) {
-            errors.push(`onStart metric "${metricId}" for action "${mapping.actionId}" is not in metricIds`)
+            errors.push({
+              message: `onStart metric "${metricId}" for action "${mapping.actionId}" is not in metricIds`,
+              path: ['actionMetrics', m, 'onStart', k],
+            })
           }
         }
       }
@@ -222,22 +281,28 @@ export function validateIntentGraph(
 
   // Validate causality edges
   if (graph.causality) {
-    for (const edge of graph.causality) {
+    for (const [e, edge] of graph.causality.entries()) {
       // Check from intent exists
       const fromExists = graph.intents.some(i => i.id === edge.from)
       if (!fromExists) {
-        errors.push(`Intent "${edge.from}" referenced in causality edge does not exist in intents`)
+        errors.push({
+          message: `Intent "${edge.from}" referenced in causality edge does not exist in intents`,
+          path: ['causality', e, 'from'],
+        })
       }
 
       // Check to intent exists
       const toExists = graph.intents.some(i => i.id === edge.to)
       if (!toExists) {
-        errors.push(`Intent "${edge.to}" referenced in causality edge does not exist in intents`)
+        errors.push({
+          message: `Intent "${edge.to}" referenced in causality edge does not exist in intents`,
+          path: ['causality', e, 'to'],
+        })
       }
 
       // Check for self-loops (may be intentional, but warn)
       if (edge.from === edge.to) {
-        warnings.push(`Self-loop detected in causality edge: ${edge.from} → ${edge.to}`)
+        warnings.push({ message: `Self-loop detected in causality edge: ${edge.from} → ${edge.to}`, path: ['causality', e] })
       }
     }
 
@@ -267,9 +332,12 @@ export function validateIntentGraph(
       return false
     }
 
-    for (const intent of graph.intents) {
+    for (const [i, intent] of graph.intents.entries()) {
       if (hasCycle(intent.id)) {
-        errors.push(`Cycle detected in causality graph involving intent "${intent.id}"`)
+        errors.push({
+          message: `Cycle detected in causality graph involving intent "${intent.id}"`,
+          path: ['intents', i, 'id'],
+        })
         break
       }
     }
@@ -290,9 +358,14 @@ export function validateIntentGraph(
  * 
  * @param mutationHookPath Path from FORM (may contain @/ alias)
  * @param outputDir Output directory for generated files (to calculate relative path)
+ * @param sourceDir UI source directory the @/ alias points to (default: two levels above outputDir)
  * @returns Relative path suitable for dynamic import()
  */
-function resolveMutationHookPath(mutationHookPath: string | undefined, outputDir: string): string | undefined {
+function resolveMutationHookPath(
+  mutationHookPath: string | undefined,
+  outputDir: string,
+  sourceDir: string = dirname(dirname(outputDir))
+): string | undefined {
   if (!mutationHookPath) return undefined
   
   // If path doesn't start with @/, return as-is (already relative or absolute)
@@ -315,11 +388,7 @@ function resolveMutationHookPath(mutationHookPath: string | undefined, outputDir
   // Remove @/ prefix
   const pathWithoutAlias = mutationHookPath.replace(/^@\//, '')
   
-  // Calculate absolute source path
-  // outputDir is: .../entelechia-ui/src/generated/intent-graph
-  // We need to go up to: .../entelechia-ui/src
-  // Then append: features/auth/intent/use-login.ts
-  const sourceDir = dirname(dirname(outputDir)) // Go up from generated/intent-graph to src
+  // Calculate absolute source path: sourceDir + features/auth/intent/use-login.ts
   const sourcePath = join(sourceDir, pathWithoutAlias)
   
   // Calculate relative path from outputDir to sourcePath
@@ -338,11 +407,13 @@ function resolveMutationHookPath(mutationHookPath: string | undefined, outputDir
  * @param graph IntentGraph from FORM
  * @param validationContext Validation context
  * @param outputDir Output directory for generated files (for path resolution)
+ * @param sourceDir UI source directory the @/ alias points to
  */
 export function canonicalizeIntentGraph(
   graph: IntentGraph,
   validationContext: ValidationContext,
-  outputDir?: string
+  outputDir?: string,
+  sourceDir?: string
 ): CanonicalIntentGraphDescriptor {
   // Build intent descriptors
   const intentDescriptors = graph.intents.map(intent => {
@@ -390,7 +461,7 @@ export function canonicalizeIntentGraph(
       requiresAuth: intent.requiresAuth ?? true,
       // ✅ ONTOLOGICAL: Transform @/ alias to relative path in ACT phase
       mutationHook: outputDir 
-        ? resolveMutationHookPath(intent.mutationHook, outputDir)
+        ? resolveMutationHookPath(intent.mutationHook, outputDir, sourceDir)
         : intent.mutationHook, // Fallback: preserve original if outputDir not provided
       // ✅ EXPLICIT: Executor function name from FORM (must NOT be a hook)
       executor: intent.executor,
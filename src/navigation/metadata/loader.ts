@@ -6,7 +6,6 @@
  * PRINCIPLE: YAML → Zod validation → TypeScript types
  */
 
-import { readFileSync, existsSync } from 'fs'
 import { join } from 'path'
 import type {
   UIRealmsMetadata,
@@ -26,37 +25,21 @@ import {
   DashboardYamlSchema,
   InvariantYamlSchema,
 } from './yaml-schema.js'
-
-/**
- * Parse YAML file
- */
-async function parseYaml(content: string): Promise<any> {
-  try {
-    const yaml = await import('yaml')
-    return yaml.parse(content)
-  } catch (error: any) {
-    if (error.code === 'MODULE_NOT_FOUND') {
-      throw new Error(
-        'YAML parsing requires "yaml" package. Install with: npm install yaml'
-      )
-    }
-    throw error
-  }
-}
+import { loadYamlFile } from '../../yaml/index.js'
+import { nodeFileSystem, type ActFileSystem } from '../../act-engine/fs/index.js'
 
 /**
  * Load UI Realms metadata from YAML file
  */
 export async function loadUIRealmsMetadata(
-  yamlPath: string
+  yamlPath: string,
+  fs: ActFileSystem = nodeFileSystem
 ): Promise<UIRealmsMetadata> {
-  if (!existsSync(yamlPath)) {
+  if (!fs.exists(yamlPath)) {
     throw new Error(`UI Realms YAML file not found: ${yamlPath}`)
   }
 
-  const content = readFileSync(yamlPath, 'utf-8')
-  const parsed = await parseYaml(content)
-  const validated = UIRealmsYamlSchema.parse(parsed)
+  const validated = loadYamlFile(yamlPath, UIRealmsYamlSchema, fs)
 
   return validated as UIRealmsMetadata
 }
@@ -65,15 +48,14 @@ export async function loadUIRealmsMetadata(
  * Load Navigation Shells metadata from YAML file
  */
 export async function loadNavigationShellsMetadata(
-  yamlPath: string
+  yamlPath: string,
+  fs: ActFileSystem = nodeFileSystem
 ): Promise<NavigationShellsMetadata> {
-  if (!existsSync(yamlPath)) {
+  if (!fs.exists(yamlPath)) {
     throw new Error(`Navigation Shells YAML file not found: ${yamlPath}`)
   }
 
-  const content = readFileSync(yamlPath, 'utf-8')
-  const parsed = await parseYaml(content)
-  const validated = NavigationShellsYamlSchema.parse(parsed)
+  const validated = loadYamlFile(yamlPath, NavigationShellsYamlSchema, fs)
 
   return validated as NavigationShellsMetadata
 }
@@ -82,15 +64,14 @@ export async function loadNavigationShellsMetadata(
  * Load Node Detail Sections metadata from YAML file
  */
 export async function loadNodeDetailSectionsMetadata(
-  yamlPath: string
+  yamlPath: string,
+  fs: ActFileSystem = nodeFileSystem
 ): Promise<NodeDetailSectionsMetadata> {
-  if (!existsSync(yamlPath)) {
+  if (!fs.exists(yamlPath)) {
     throw new Error(`Node Detail Sections YAML file not found: ${yamlPath}`)
   }
 
-  const content = readFileSync(yamlPath, 'utf-8')
-  const parsed = await parseYaml(content)
-  const validated = NodeDetailSectionsYamlSchema.parse(parsed)
+  const validated = loadYamlFile(yamlPath, NodeDetailSectionsYamlSchema, fs)
 
   return validated as NodeDetailSectionsMetadata
 }
@@ -99,15 +80,14 @@ export async function loadNodeDetailSectionsMetadata(
  * Load Chat Layout metadata from YAML file
  */
 export async function loadChatLayoutMetadata(
-  yamlPath: string
+  yamlPath: string,
+  fs: ActFileSystem = nodeFileSystem
 ): Promise<ChatLayoutMetadata> {
-  if (!existsSync(yamlPath)) {
+  if (!fs.exists(yamlPath)) {
     throw new Error(`Chat Layout YAML file not found: ${yamlPath}`)
   }
 
-  const content = readFileSync(yamlPath, 'utf-8')
-  const parsed = await parseYaml(content)
-  const validated = ChatLayoutYamlSchema.parse(parsed)
+  const validated = loadYamlFile(yamlPath, ChatLayoutYamlSchema, fs)
 
   return validated as ChatLayoutMetadata
 }
@@ -116,15 +96,14 @@ export async function loadChatLayoutMetadata(
  * Load Workspace Sidebar metadata from YAML file
  */
 export async function loadWorkspaceSidebarMetadata(
-  yamlPath: string
+  yamlPath: string,
+  fs: ActFileSystem = nodeFileSystem
 ): Promise<WorkspaceSidebarMetadata> {
-  if (!existsSync(yamlPath)) {
+  if (!fs.exists(yamlPath)) {
     throw new Error(`Workspace Sidebar YAML file not found: ${yamlPath}`)
   }
 
-  const content = readFileSync(yamlPath, 'utf-8')
-  const parsed = await parseYaml(content)
-  const validated = WorkspaceSidebarYamlSchema.parse(parsed)
+  const validated = loadYamlFile(yamlPath, WorkspaceSidebarYamlSchema, fs)
 
   return validated as WorkspaceSidebarMetadata
 }
@@ -133,15 +112,14 @@ export async function loadWorkspaceSidebarMetadata(
  * Load Dashboard metadata from YAML file
  */
 export async function loadDashboardMetadata(
-  yamlPath: string
+  yamlPath: string,
+  fs: ActFileSystem = nodeFileSystem
 ): Promise<DashboardMetadata> {
-  if (!existsSync(yamlPath)) {
+  if (!fs.exists(yamlPath)) {
     throw new Error(`Dashboard YAML file not found: ${yamlPath}`)
   }
 
-  const content = readFileSync(yamlPath, 'utf-8')
-  const parsed = await parseYaml(content)
-  const validated = DashboardYamlSchema.parse(parsed)
+  const validated = loadYamlFile(yamlPath, DashboardYamlSchema, fs)
 
   return validated as DashboardMetadata
 }
@@ -150,15 +128,14 @@ export async function loadDashboardMetadata(
  * Load Invariant metadata from YAML file
  */
 export async function loadInvariantMetadata(
-  yamlPath: string
+  yamlPath: string,
+  fs: ActFileSystem = nodeFileSystem
 ): Promise<InvariantMetadata> {
-  if (!existsSync(yamlPath)) {
+  if (!fs.exists(yamlPath)) {
     throw new Error(`Invariant YAML file not found: ${yamlPath}`)
   }
 
-  const content = readFileSync(yamlPath, 'utf-8')
-  const parsed = await parseYaml(content)
-  const validated = InvariantYamlSchema.parse(parsed)
+  const validated = loadYamlFile(yamlPath, InvariantYamlSchema, fs)
 
   return validated as InvariantMetadata
 }
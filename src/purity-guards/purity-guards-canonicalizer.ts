@@ -10,8 +10,6 @@
  * - RUNTIME: Guards enforce purity
  */
 
-import { readFileSync } from 'fs'
-import { parse } from 'yaml'
 import {
   ArchitecturalPurityGuardSchema,
   FormPurityGuardSchema,
@@ -26,6 +24,9 @@ import {
   type IntentPurityGuard,
   type EpistemicPurityGuard,
 } from './purity-guards-schema.js'
+import { loadYamlFile } from '../yaml/index.js'
+import { nodeFileSystem } from '../act-engine/fs/node-fs.js'
+import type { ActFileSystem } from '../act-engine/fs/types.js'
 
 /**
  * Canonical Purity Guard Violation Descriptor
@@ -76,10 +77,8 @@ export interface CanonicalPurityGuardDescriptor {
 /**
  * Load and parse Architectural Purity Guard YAML
  */
-export function loadArchitecturalPurityGuard(filePath: string): CanonicalPurityGuardDescriptor {
-  const content = readFileSync(filePath, 'utf-8')
-  const parsed = parse(content) as unknown
-  const validated = ArchitecturalPurityGuardSchema.parse(parsed)
+export function loadArchitecturalPurityGuard(filePath: string, fs: ActFileSystem = nodeFileSystem): CanonicalPurityGuardDescriptor {
+  const validated = loadYamlFile(filePath, ArchitecturalPurityGuardSchema, fs)
   
   return {
     guardType: 'architectural',
@@ -103,10 +102,8 @@ export function loadArchitecturalPurityGuard(filePath: string): CanonicalPurityG
 /**
  * Load and parse FORM Purity Guard YAML
  */
-export function loadFormPurityGuard(filePath: string): CanonicalPurityGuardDescriptor {
-  const content = readFileSync(filePath, 'utf-8')
-  const parsed = parse(content) as unknown
-  const validated = FormPurityGuardSchema.parse(parsed)
+export function loadFormPurityGuard(filePath: string, fs: ActFileSystem = nodeFileSystem): CanonicalPurityGuardDescriptor {
+  const validated = loadYamlFile(filePath, FormPurityGuardSchema, fs)
   
   return {
     guardType: 'form',
@@ -130,10 +127,8 @@ export function loadFormPurityGuard(filePath: string): CanonicalPurityGuardDescr
 /**
  * Load and parse ACT Teleology Guard YAML
  */
-export function loadActTeleologyGuard(filePath: string): CanonicalPurityGuardDescriptor {
-  const content = readFileSync(filePath, 'utf-8')
-  const parsed = parse(content) as unknown
-  const validated = ActTeleologyGuardSchema.parse(parsed)
+export function loadActTeleologyGuard(filePath: string, fs: ActFileSystem = nodeFileSystem): CanonicalPurityGuardDescriptor {
+  const validated = loadYamlFile(filePath, ActTeleologyGuardSchema, fs)
   
   return {
     guardType: 'act',
@@ -157,10 +152,8 @@ export function loadActTeleologyGuard(filePath: string): CanonicalPurityGuardDes
 /**
  * Load and parse STATE Integrity Guard YAML
  */
-export function loadStateIntegrityGuard(filePath: string): CanonicalPurityGuardDescriptor {
-  const content = readFileSync(filePath, 'utf-8')
-  const parsed = parse(content) as unknown
-  const validated = StateIntegrityGuardSchema.parse(parsed)
+export function loadStateIntegrityGuard(filePath: string, fs: ActFileSystem = nodeFileSystem): CanonicalPurityGuardDescriptor {
+  const validated = loadYamlFile(filePath, StateIntegrityGuardSchema, fs)
   
   return {
     guardType: 'state',
@@ -184,10 +177,8 @@ export function loadStateIntegrityGuard(filePath: string): CanonicalPurityGuardD
 /**
  * Load and parse Intent Purity Guard YAML
  */
-export function loadIntentPurityGuard(filePath: string): CanonicalPurityGuardDescriptor {
-  const content = readFileSync(filePath, 'utf-8')
-  const parsed = parse(content) as unknown
-  const validated = IntentPurityGuardSchema.parse(parsed)
+export function loadIntentPurityGuard(filePath: string, fs: ActFileSystem = nodeFileSystem): CanonicalPurityGuardDescriptor {
+  const validated = loadYamlFile(filePath, IntentPurityGuardSchema, fs)
   
   return {
     guardType: 'intent',
@@ -211,10 +202,8 @@ export function loadIntentPurityGuard(filePath: string): CanonicalPurityGuardDes
 /**
  * Load and parse Epistemic Purity Guard YAML
  */
-export function loadEpistemicPurityGuard(filePath: string): CanonicalPurityGuardDescriptor {
-  const content = readFileSync(filePath, 'utf-8')
-  const parsed = parse(content) as unknown
-  const validated = EpistemicPurityGuardSchema.parse(parsed)
+export function loadEpistemicPurityGuard(filePath: string, fs: ActFileSystem = nodeFileSystem): CanonicalPurityGuardDescriptor {
+  const validated = loadYamlFile(filePath, EpistemicPurityGuardSchema, fs)
   
   return {
     guardType: 'epistemic',
@@ -237,18 +226,20 @@ export function loadEpistemicPurityGuard(filePath: string): CanonicalPurityGuard
 
 /**
  * Load all Purity Guards
+ * 
+ * @param purityGuardsDir Directory of the purity guard YAML files
+ * @param fs File system to read them from (default: the real file system)
  */
-export function loadAllPurityGuards(workspaceRoot: string): Map<string, CanonicalPurityGuardDescriptor> {
+export function loadAllPurityGuards(purityGuardsDir: string, fs: ActFileSystem = nodeFileSystem): Map<string, CanonicalPurityGuardDescriptor> {
   const guards = new Map<string, CanonicalPurityGuardDescriptor>()
-  const purityGuardsDir = `${workspaceRoot}/entelechia-form/purity-guards`
   
   try {
-    guards.set('architectural', loadArchitecturalPurityGuard(`${purityGuardsDir}/architectural-purity.yaml`))
-    guards.set('form', loadFormPurityGuard(`${purityGuardsDir}/form-purity.yaml`))
-    guards.set('act', loadActTeleologyGuard(`${purityGuardsDir}/act-teleology.yaml`))
-    guards.set('state', loadStateIntegrityGuard(`${purityGuardsDir}/state-integrity.yaml`))
-    guards.set('intent', loadIntentPurityGuard(`${purityGuardsDir}/intent-purity.yaml`))
-    guards.set('epistemic', loadEpistemicPurityGuard(`${purityGuardsDir}/epistemic-purity.yaml`))
+    guards.set('architectural', loadArchitecturalPurityGuard(`${purityGuardsDir}/architectural-purity.yaml`, fs))
+    guards.set('form', loadFormPurityGuard(`${purityGuardsDir}/form-purity.yaml`, fs))
+    guards.set('act', loadActTeleologyGuard(`${purityGuardsDir}/act-teleology.yaml`, fs))
+    guards.set('state', loadStateIntegrityGuard(`${purityGuardsDir}/state-integrity.yaml`, fs))
+    guards.set('intent', loadIntentPurityGuard(`${purityGuardsDir}/intent-purity.yaml`, fs))
+    guards.set('epistemic', loadEpistemicPurityGuard(`${purityGuardsDir}/epistemic-purity.yaml`, fs))
   } catch (error: any) {
     throw new Error(`Failed to load purity guards: ${error.message}`)
   }
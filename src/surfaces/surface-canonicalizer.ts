@@ -22,7 +22,6 @@ import type { SurfaceYaml, SurfaceView, SurfaceSection, SurfaceBlock } from './s
  */
 export interface CanonicalSurfaceDescriptor {
   version: string
-  generatedAt: string
   views: CanonicalSurfaceView[]
 }
 
@@ -123,7 +122,6 @@ export function canonicalizeSurface(yaml: SurfaceYaml): CanonicalSurfaceDescript
 
   return {
     version: yaml.version || '1.0.0',
-    generatedAt: new Date().toISOString(),
     views: canonicalViews,
   }
 }
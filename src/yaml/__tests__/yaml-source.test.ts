@@ -0,0 +1,103 @@
+/**
+ * ✅ ENTELECHIA: YAML Source Loader Tests
+ *
+ * PROPERTIES TESTED:
+ * - Syntax errors are reported at their line and column
+ * - Schema violations are located at the offending node (or its closest ancestor)
+ * - Semantic validation paths resolve to positions in the FORM source
+ */
+
+import { describe, it, expect } from 'vitest'
+import { z } from 'zod'
+import { parseYamlSource, formatYamlPath } from '../index.js'
+import { DiagnosticCodes, DiagnosticError, diagnosticsFromError } from '../../act-engine/diagnostics/index.js'
+import { FormValidationError } from '../../forms/validator.js'
+
+const FORM_YAML = [
+  'form:',
+  '  contract: Node',
+  '  variant: edit',
+  '  sections:',
+  '    - id: general',
+  '      fields:',
+  '        - label',
+  '        - kind',
+  '',
+].join('\n')
+
+const FormSchema = z.object({
+  form: z.object({
+    contract: z.string(),
+    variant: z.string(),
+    sections: z.array(z.object({ id: z.string(), fields: z.array(z.string()) })),
+  }),
+})
+
+function catchDiagnostics(fn: () => unknown): DiagnosticError {
+  try {
+    fn()
+  } catch (error) {
+    if (error instanceof DiagnosticError) return error
+    throw error
+  }
+  throw new Error('expected a DiagnosticError')
+}
+
+describe('YamlSource', () => {
+  it('should locate mapping entries and sequence items', () => {
+    const source = parseYamlSource(FORM_YAML, 'node.edit.form.yaml')
+
+    expect(source.locate(['form', 'variant'])?.start).toEqual({ line: 3, column: 3 })
+    expect(source.locate(['form', 'sections', 0, 'fields', 1])?.start).toEqual({ line: 8, column: 11 })
+  })
+
+  it('should resolve missing nodes to their closest ancestor', () => {
+    const source = parseYamlSource(FORM_YAML, 'node.edit.form.yaml')
+
+    expect(source.locate(['form', 'sections', 0, 'title'])?.start).toEqual({ line: 5, column: 7 })
+    expect(source.locate(['form', 'sections', 4])?.start).toEqual({ line: 4, column: 3 })
+  })
+
+  it('should report syntax errors with their position', () => {
+    const error = catchDiagnostics(() => parseYamlSource('form:\n  contract: [Node\n', 'broken.form.yaml'))
+
+    expect(error.diagnostics[0]).toMatchObject({
+      code: DiagnosticCodes.YamlParseError,
+      file: 'broken.form.yaml',
+    })
+    expect(error.diagnostics[0].range?.start.line).toBeGreaterThanOrEqual(2)
+  })
+
+  it('should locate schema violations', () => {
+    const source = parseYamlSource(FORM_YAML.replace('variant: edit', 'variant: 42'), 'node.edit.form.yaml')
+
+    const error = catchDiagnostics(() => source.validate(FormSchema))
+
+    expect(error.diagnostics).toHaveLength(1)
+    expect(error.diagnostics[0]).toMatchObject({
+      code: DiagnosticCodes.SchemaViolation,
+      file: 'node.edit.form.yaml',
+      path: ['form', 'variant'],
+      range: { start: { line: 3, column: 3 } },
+    })
+    expect(error.diagnostics[0].message).toMatch(/^form\.variant: /)
+  })
+
+  it('should locate semantic errors by their path', () => {
+    const source = parseYamlSource(FORM_YAML, 'node.edit.form.yaml')
+    const error = new FormValidationError('Node', 'edit', [
+      { message: 'Field "kind" does not exist in metadata.baseSchema', path: ['form', 'sections', 0, 'fields', 1] },
+    ])
+
+    const [diagnostic] = source.locateAll(diagnosticsFromError(error, DiagnosticCodes.YamlParseError, 'Invalid form'))
+
+    expect(diagnostic.file).toBe('node.edit.form.yaml')
+    expect(diagnostic.range?.start).toEqual({ line: 8, column: 11 })
+  })
+})
+
+describe('formatYamlPath', () => {
+  it('should format keys and indexes', () => {
+    expect(formatYamlPath(['form', 'sections', 2, 'fields'])).toBe('form.sections[2].fields')
+  })
+})
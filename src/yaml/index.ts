@@ -0,0 +1,14 @@
+/**
+ * ✅ ENTELECHIA: YAML Sources
+ * 
+ * Main entry point for loading FORM YAML with source positions.
+ */
+
+export {
+  YamlSource,
+  parseYamlSource,
+  loadYamlSource,
+  loadYamlFile,
+  formatYamlPath,
+  type YamlPath,
+} from './yaml-source.js'
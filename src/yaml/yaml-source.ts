@@ -0,0 +1,179 @@
+/**
+ * ✅ ENTELECHIA: YAML Source Loader
+ *
+ * Loads FORM YAML while keeping the source range of every node, so schema
+ * and semantic errors can point at `file:line:column`.
+ *
+ * PRINCIPLE: Every FORM error is located in its FORM source.
+ */
+
+import { LineCounter, parseDocument, isMap, isScalar, isSeq, type Document } from 'yaml'
+import type { ZodType } from 'zod'
+import { DiagnosticCodes } from '../act-engine/diagnostics/codes.js'
+import { DiagnosticError } from '../act-engine/diagnostics/diagnostics.js'
+import type { Diagnostic, SourceRange } from '../act-engine/diagnostics/types.js'
+import { nodeFileSystem } from '../act-engine/fs/node-fs.js'
+import type { ActFileSystem } from '../act-engine/fs/types.js'
+
+/**
+ * Path to a node in a YAML document (mapping keys and sequence indexes)
+ */
+export type YamlPath = readonly (string | number)[]
+
+/**
+ * Format a path for messages (`form.sections[2].fields`)
+ */
+export function formatYamlPath(path: YamlPath): string {
+  return path.reduce<string>(
+    (formatted, segment) => typeof segment === 'number'
+      ? `${formatted}[${segment}]`
+      : formatted ? `${formatted}.${segment}` : segment,
+    ''
+  )
+}
+
+/**
+ * Parsed YAML file with node ranges
+ */
+export class YamlSource {
+  readonly data: unknown
+
+  constructor(
+    readonly file: string,
+    private readonly document: Document.Parsed,
+    private readonly lineCounter: LineCounter
+  ) {
+    this.data = document.toJS()
+  }
+
+  /**
+   * Get the source range of a node
+   *
+   * Mapping entries range from their key to the end of their value. Missing
+   * nodes resolve to their closest existing ancestor (e.g. a required key
+   * that is absent points at its parent mapping).
+   */
+  locate(path: YamlPath): SourceRange | undefined {
+    let node: unknown = this.document.contents
+    let range = this.toRange(node)
+
+    for (const segment of path) {
+      if (isMap(node)) {
+        const pair = node.items.find(item => isScalar(item.key) && String(item.key.value) === String(segment))
+        if (!pair) break
+        node = pair.value
+        range = this.toRange(pair.key, pair.value) ?? range
+      } else if (isSeq(node) && typeof segment === 'number' && segment < node.items.length) {
+        node = node.items[segment]
+        range = this.toRange(node) ?? range
+      } else {
+        break
+      }
+    }
+
+    return range
+  }
+
+  /**
+   * Get the location details of a node, for a diagnostic
+   */
+  at(path: YamlPath): Pick<Diagnostic, 'file' | 'range' | 'path'> {
+    return { file: this.file, range: this.locate(path), path: [...path] }
+  }
+
+  /**
+   * Fill in the range of diagnostics that carry a path into this file
+   */
+  locateAll(diagnostics: readonly Diagnostic[]): Diagnostic[] {
+    return diagnostics.map(diagnostic => {
+      if (diagnostic.range || !diagnostic.path || (diagnostic.file && diagnostic.file !== this.file)) {
+        return diagnostic
+      }
+      return { ...diagnostic, ...this.at(diagnostic.path) }
+    })
+  }
+
+  /**
+   * Validate the data against a schema
+   *
+   * @throws DiagnosticError with one located schema violation per issue
+   */
+  validate<T>(schema: ZodType<T, any, any>): T {
+    const result = schema.safeParse(this.data)
+    if (result.success) {
+      return result.data
+    }
+
+    throw new DiagnosticError(result.error.issues.map((issue): Diagnostic => ({
+      code: DiagnosticCodes.SchemaViolation,
+      severity: 'error',
+      message: issue.path.length > 0 ? `${formatYamlPath(issue.path)}: ${issue.message}` : issue.message,
+      ...this.at(issue.path),
+    })))
+  }
+
+  /**
+   * Convert node offsets to a range (from `start` to the end of `end`)
+   */
+  private toRange(start: unknown, end: unknown = start): SourceRange | undefined {
+    const startOffsets = (start as { range?: [number, number, number] | null } | null)?.range
+    const endOffsets = (end as { range?: [number, number, number] | null } | null)?.range ?? startOffsets
+    if (!startOffsets || !endOffsets) {
+      return undefined
+    }
+
+    const from = this.lineCounter.linePos(startOffsets[0])
+    const to = this.lineCounter.linePos(endOffsets[1])
+    return {
+      start: { line: from.line, column: from.col },
+      end: { line: to.line, column: to.col },
+    }
+  }
+}
+
+/**
+ * Parse YAML content
+ *
+ * @throws DiagnosticError with one located diagnostic per syntax error
+ */
+export function parseYamlSource(content: string, file: string): YamlSource {
+  const lineCounter = new LineCounter()
+  const document = parseDocument(content, { lineCounter, prettyErrors: false })
+
+  if (document.errors.length > 0) {
+    throw new DiagnosticError(document.errors.map((error): Diagnostic => {
+      const start = lineCounter.linePos(error.pos[0])
+      const end = lineCounter.linePos(error.pos[1])
+      return {
+        code: DiagnosticCodes.YamlParseError,
+        severity: 'error',
+        message: error.message,
+        file,
+        range: {
+          start: { line: start.line, column: start.col },
+          end: { line: end.line, column: end.col },
+        },
+      }
+    }))
+  }
+
+  return new YamlSource(file, document, lineCounter)
+}
+
+/**
+ * Load a YAML file
+ *
+ * @throws DiagnosticError with one located diagnostic per syntax error
+ */
+export function loadYamlSource(file: string, fs: ActFileSystem = nodeFileSystem): YamlSource {
+  return parseYamlSource(fs.readFile(file), file)
+}
+
+/**
+ * Load a YAML file and validate it against a schema
+ *
+ * @throws DiagnosticError with located syntax errors or schema violations
+ */
+export function loadYamlFile<T>(file: string, schema: ZodType<T, any, any>, fs: ActFileSystem = nodeFileSystem): T {
+  return loadYamlSource(file, fs).validate(schema)
+}